@@ -1,14 +1,18 @@
 import os
 import logging
-from fastapi import FastAPI, HTTPException, Query, Request, WebSocket
+from fastapi import FastAPI, Header, HTTPException, Query, Request, WebSocket
 from fastapi.middleware.cors import CORSMiddleware
 from fastapi.responses import JSONResponse, Response
-from typing import List, Optional, Dict, Any, Literal
+from typing import List, Optional, Dict, Any, Literal, Tuple
 import json
+import hashlib
+import uuid
+import re
 from datetime import datetime
 from pydantic import BaseModel, Field
 import google.generativeai as genai
 import asyncio
+import subprocess
 import traceback
 import sys
 sys.path.append(os.path.dirname(os.path.abspath(__file__)))
@@ -18,10 +22,17 @@ from api.supabase_storage import (
     download_wiki_cache_from_supabase,
     list_wiki_caches_from_supabase,
     delete_wiki_cache_from_supabase,
-    get_public_url
+    get_public_url,
+    get_history_path,
+    get_comments_path,
+    get_wiki_repo_name,
+    upload_json_to_supabase,
+    download_json_from_supabase,
+    remove_from_supabase
 )
 
 from api.github_repos import github_fetcher, update_user_repos_background, update_user_repos_initial_background
+from api.auth import require_session_author, require_session_user
 
 # Get a logger for this module
 logger = logging.getLogger(__name__)
@@ -65,6 +76,16 @@ class WikiPage(BaseModel):
     filePaths: List[str]
     importance: str # Should ideally be Literal['high', 'medium', 'low']
     relatedPages: List[str]
+    parentId: Optional[str] = None
+
+class WikiSection(BaseModel):
+    """
+    Model for a section grouping wiki pages.
+    """
+    id: str
+    title: str
+    pages: List[str]
+    subsections: Optional[List[str]] = None
 
 class ProcessedProjectEntry(BaseModel):
     id: str  # Filename
@@ -74,6 +95,8 @@ class ProcessedProjectEntry(BaseModel):
     repo_type: str # Renamed from type to repo_type for clarity with existing models
     submittedAt: int # Timestamp
     language: str # Extracted from filename
+    ref: Optional[str] = None # Branch, tag or commit of the wiki; the default branch when not set
+    path: Optional[str] = None # Subdirectory the wiki documents; the whole repository when not set
 
 class WikiStructureModel(BaseModel):
     """
@@ -83,14 +106,89 @@ class WikiStructureModel(BaseModel):
     title: str
     description: str
     pages: List[WikiPage]
+    sections: List[WikiSection] = []
+    rootSections: List[str] = []
+
+# Generation state of a single page in a partially generated wiki
+PageGenerationStatus = Literal["pending", "done", "failed"]
+
+class CombinedWikiRepo(BaseModel):
+    """
+    Model for one of the repositories covered by a combined wiki.
+    """
+    owner: str
+    repo: str
+    type: str
+    repo_url: Optional[str] = None
+    ref: Optional[str] = None
+
+class RepoConfigFile(BaseModel):
+    """
+    Model for the .deepwiki.yml configuration file of a repository, kept as written.
+    """
+    file_name: str
+    content: str
 
 class WikiCacheData(BaseModel):
     """
     Model for the data to be stored in the wiki cache.
+    Mirrors WikiCacheData in src/types/wiki/wikicache.tsx.
     """
+    schema_version: int = 0  # Caches written before versioning have no version
     wiki_structure: WikiStructureModel
     generated_pages: Dict[str, WikiPage]
     repo_url: Optional[str] = None  # Add repo_url to cache
+    comprehensive: Optional[bool] = None
+    language: Optional[str] = None
+    # Partial caches are saved while pages are still being generated so that
+    # generation can resume after a reload. Caches written before this existed are complete.
+    generation_complete: bool = True
+    page_status: Dict[str, PageGenerationStatus] = {}
+    commit_sha: Optional[str] = None  # Commit the wiki was generated at, used for incremental refresh
+    repos: Optional[List[CombinedWikiRepo]] = None  # Repositories covered by a combined wiki (repo_type "multi")
+    repo_config: Optional[RepoConfigFile] = None  # The repository's .deepwiki.yml as read when the wiki was generated
+    revision: int = 0  # Incremented on every save; sent as the ETag of GET /api/wiki_cache
+
+# Who or what produced a saved version of a wiki, and why it was saved
+WikiVersionKind = Literal["ai", "manual"]
+WikiVersionReason = Literal["generation", "regeneration", "refresh", "edit", "refactor", "rollback", "baseline"]
+
+class WikiVersionInfo(BaseModel):
+    """
+    Model for the description of a change, sent with a cache save to record it as a version.
+    """
+    author: Optional[str] = None
+    model: Optional[str] = None  # Model that produced the content, for AI changes
+    kind: WikiVersionKind
+    reason: WikiVersionReason
+
+class WikiVersion(WikiVersionInfo):
+    """
+    Model for an entry in the version history of a wiki.
+    """
+    id: str
+    created_at: str
+    changed_pages: List[str] = []  # Pages whose content differs from the previous save
+
+class WikiVersionSnapshot(BaseModel):
+    """
+    Model for a stored version: its metadata and the full wiki at that point.
+    """
+    version: WikiVersion
+    data: WikiCacheData
+
+class WikiRollbackRequest(BaseModel):
+    """
+    Model for restoring a wiki, or a single page of it, to a previous version.
+    """
+    owner: str
+    repo: str
+    repo_type: str
+    language: str
+    ref: Optional[str] = None
+    path: Optional[str] = None
+    page_id: Optional[str] = None  # Restore only this page; the whole wiki when not set
+    author: Optional[str] = None
 
 class WikiCacheRequest(BaseModel):
     """
@@ -100,9 +198,146 @@ class WikiCacheRequest(BaseModel):
     repo: str
     repo_type: str
     language: str
+    ref: Optional[str] = None  # Branch, tag or commit the wiki documents; the default branch when not set
+    path: Optional[str] = None  # Subdirectory the wiki documents; the whole repository when not set
+    schema_version: int = 0
     wiki_structure: WikiStructureModel
     generated_pages: Dict[str, WikiPage]
     repo_url: Optional[str] = None  # Add repo_url to cache request
+    comprehensive: Optional[bool] = None
+    generation_complete: bool = True
+    page_status: Dict[str, PageGenerationStatus] = {}
+    commit_sha: Optional[str] = None
+    repos: Optional[List[CombinedWikiRepo]] = None
+    repo_config: Optional[RepoConfigFile] = None
+    version: Optional[WikiVersionInfo] = None  # Set to record this save in the version history
+
+class WikiPageUpdateRequest(BaseModel):
+    """
+    Model for replacing the content of a single page without rewriting the rest of the wiki.
+    """
+    owner: str
+    repo: str
+    repo_type: str
+    language: str
+    ref: Optional[str] = None
+    path: Optional[str] = None
+    content: str
+    version: Optional[WikiVersionInfo] = None
+
+# Longest comment accepted, in characters
+MAX_COMMENT_LENGTH = 10000
+
+class CommentAnchor(BaseModel):
+    """
+    Model for the text range a comment thread is attached to.
+    The text around it is kept so the range can be found again after the page changes.
+    """
+    text: str
+    start: int
+    end: int
+    prefix: str = ""
+    suffix: str = ""
+
+class WikiComment(BaseModel):
+    """
+    Model for a comment in a thread.
+    """
+    id: str
+    author: Optional[str] = None
+    body: str
+    created_at: str
+
+class CommentThread(BaseModel):
+    """
+    Model for a discussion attached to a range of a wiki page.
+    """
+    id: str
+    page_id: str
+    anchor: CommentAnchor
+    comments: List[WikiComment]
+    resolved: bool = False
+    resolved_by: Optional[str] = None
+    resolved_at: Optional[str] = None
+    created_at: str
+
+class CommentThreadCreateRequest(BaseModel):
+    """
+    Model for starting a comment thread on a page.
+    """
+    owner: str
+    repo: str
+    repo_type: str
+    language: str
+    ref: Optional[str] = None
+    path: Optional[str] = None
+    page_id: str
+    anchor: CommentAnchor
+    body: str = Field(..., min_length=1, max_length=MAX_COMMENT_LENGTH)
+
+class CommentReplyRequest(BaseModel):
+    """
+    Model for replying to a comment thread.
+    """
+    owner: str
+    repo: str
+    repo_type: str
+    language: str
+    ref: Optional[str] = None
+    path: Optional[str] = None
+    body: str = Field(..., min_length=1, max_length=MAX_COMMENT_LENGTH)
+
+class CommentThreadUpdateRequest(BaseModel):
+    """
+    Model for resolving or reopening a comment thread.
+    """
+    owner: str
+    repo: str
+    repo_type: str
+    language: str
+    ref: Optional[str] = None
+    path: Optional[str] = None
+    resolved: bool
+
+class EditMemoryEntry(BaseModel):
+    """
+    Model for an AI edit remembered by the editor, sent with later edit requests as context.
+    Mirrors EditMemory in src/types/editormemory.tsx.
+    """
+    id: str
+    timestamp: int
+    prompt: str
+    response: str
+    pageId: str = ""
+
+class WritingPreferences(BaseModel):
+    """
+    Model for the writing preferences the editor learned from a user's edit requests.
+    """
+    writingStyle: Optional[str] = None
+    preferredFormats: List[str] = []
+    commonInstructions: List[str] = []
+
+class RepoEditorMemory(BaseModel):
+    """
+    Model for the edit memory and preferences of one user for one repository.
+    """
+    owner: str
+    repo: str
+    repo_type: str
+    edits: List[EditMemoryEntry] = []
+    preferences: WritingPreferences = WritingPreferences()
+    updated_at: Optional[str] = None
+
+class EditorMemoryUpdateRequest(BaseModel):
+    """
+    Model for replacing the edit memory and preferences of a user for one repository.
+    """
+    owner: str
+    repo: str
+    repo_type: str
+    edits: List[EditMemoryEntry] = []
+    preferences: WritingPreferences = WritingPreferences()
 
 class WikiExportRequest(BaseModel):
     """
@@ -113,12 +348,20 @@ class WikiExportRequest(BaseModel):
     format: Literal["markdown", "json"] = Field(..., description="Export format (markdown or json)")
 
 # --- Model Configuration Models ---
+class RateLimits(BaseModel):
+    """
+    Model for the limits the frontend applies when generating wiki pages
+    """
+    maxConcurrent: int = Field(1, ge=1, description="Maximum number of pages generated in parallel")
+    requestsPerMinute: Optional[int] = Field(None, ge=1, description="Sustained request rate, unlimited if not set")
+
 class Model(BaseModel):
     """
     Model for LLM model configuration
     """
     id: str = Field(..., description="Model identifier")
     name: str = Field(..., description="Display name for the model")
+    rateLimits: Optional[RateLimits] = Field(None, description="Overrides the provider limits for this model")
 
 class Provider(BaseModel):
     """
@@ -128,6 +371,7 @@ class Provider(BaseModel):
     name: str = Field(..., description="Display name for the provider")
     models: List[Model] = Field(..., description="List of available models for this provider")
     supportsCustomModel: Optional[bool] = Field(False, description="Whether this provider supports custom models")
+    rateLimits: RateLimits = Field(default_factory=RateLimits, description="Generation limits for models of this provider")
 
 class ModelConfig(BaseModel):
     """
@@ -138,6 +382,13 @@ class ModelConfig(BaseModel):
 
 from api.config import configs
 
+def _rate_limits_from_config(limits_config: Dict[str, Any]) -> RateLimits:
+    """Builds RateLimits from the snake_case keys used in generator.json."""
+    return RateLimits(
+        maxConcurrent=limits_config.get("max_concurrent", 1),
+        requestsPerMinute=limits_config.get("requests_per_minute")
+    )
+
 @app.get("/models/config", response_model=ModelConfig)
 async def get_model_config():
     """
@@ -159,10 +410,16 @@ async def get_model_config():
         # Add provider configuration based on config.py
         for provider_id, provider_config in configs["providers"].items():
             models = []
+            provider_limits = provider_config.get("rate_limits", {})
+            model_limits = provider_config.get("model_rate_limits", {})
             # Add models from config
             for model_id in provider_config["models"].keys():
+                # Model limits only need to list the values that differ from the provider
+                rate_limits = None
+                if model_id in model_limits:
+                    rate_limits = _rate_limits_from_config({**provider_limits, **model_limits[model_id]})
                 # Get a more user-friendly display name if possible
-                models.append(Model(id=model_id, name=model_id))
+                models.append(Model(id=model_id, name=model_id, rateLimits=rate_limits))
 
             # Add provider with its models
             providers.append(
@@ -170,7 +427,8 @@ async def get_model_config():
                     id=provider_id,
                     name=f"{provider_id.capitalize()}",
                     supportsCustomModel=provider_config.get("supportsCustomModel", False),
-                    models=models
+                    models=models,
+                    rateLimits=_rate_limits_from_config(provider_limits)
                 )
             )
 
@@ -293,6 +551,112 @@ async def get_local_repo_structure(path: str = Query(None, description="Path to
             content={"error": f"Error processing local repository: {str(e)}"}
         )
 
+# Commits are compared by SHA only, so the value can never be read by git as an option
+COMMIT_SHA_PATTERN = re.compile(r"^[0-9a-f]{7,40}$")
+
+@app.get("/local_repo/changes")
+async def get_local_repo_changes(
+    path: str = Query(..., description="Path to local repository"),
+    since: Optional[str] = Query(None, description="Commit SHA to list changed files from")
+):
+    """Return the HEAD commit of a local git repository and the files changed since a given commit."""
+    if not os.path.isdir(path):
+        return JSONResponse(
+            status_code=404,
+            content={"error": f"Directory not found: {path}"}
+        )
+    if since and not COMMIT_SHA_PATTERN.match(since):
+        return JSONResponse(
+            status_code=400,
+            content={"error": f"Not a commit SHA: {since}"}
+        )
+
+    def run_git(*args: str) -> str:
+        result = subprocess.run(
+            ["git", "-C", path, *args],
+            check=True,
+            stdout=subprocess.PIPE,
+            stderr=subprocess.PIPE,
+            text=True
+        )
+        return result.stdout.strip()
+
+    try:
+        head_sha = run_git("rev-parse", "HEAD")
+        changed_files: List[str] = []
+        if since and since != head_sha:
+            output = run_git("diff", "--name-only", "--end-of-options", since, head_sha)
+            changed_files = [line for line in output.splitlines() if line]
+        return {"head_sha": head_sha, "changed_files": changed_files}
+    except subprocess.CalledProcessError as e:
+        logger.warning(f"Git command failed for local repository {path}: {e.stderr}")
+        return JSONResponse(
+            status_code=400,
+            content={"error": f"Not a git repository or unknown commit: {e.stderr.strip()}"}
+        )
+    except Exception as e:
+        logger.error(f"Error reading changes of local repository: {str(e)}")
+        return JSONResponse(
+            status_code=500,
+            content={"error": f"Error reading changes of local repository: {str(e)}"}
+        )
+
+# Largest source file returned by /local_repo/file
+MAX_LOCAL_FILE_BYTES = 1_000_000
+
+@app.get("/local_repo/file")
+async def get_local_repo_file(
+    path: str = Query(..., description="Path to local repository"),
+    file: str = Query(..., description="Path of the file, relative to the repository"),
+    ref: Optional[str] = Query(None, description="Commit to read the file at; the working tree when omitted or unknown")
+):
+    """Return the content of a file of a local repository, at a commit when the repository is a git repository."""
+    if not os.path.isdir(path):
+        return JSONResponse(
+            status_code=404,
+            content={"error": f"Directory not found: {path}"}
+        )
+
+    root = os.path.realpath(path)
+    full_path = os.path.realpath(os.path.join(root, file.lstrip("/")))
+    if os.path.commonpath([root, full_path]) != root:
+        return JSONResponse(
+            status_code=400,
+            content={"error": "The file must be inside the repository"}
+        )
+    relative_path = os.path.relpath(full_path, root)
+
+    # A ref starting with "-" would be read as an option by git
+    if ref and not ref.startswith("-"):
+        result = subprocess.run(
+            ["git", "-C", root, "show", f"{ref}:{relative_path.replace(os.sep, '/')}"],
+            stdout=subprocess.PIPE,
+            stderr=subprocess.PIPE
+        )
+        if result.returncode == 0 and len(result.stdout) <= MAX_LOCAL_FILE_BYTES:
+            return {"content": result.stdout.decode("utf-8", errors="replace"), "ref": ref}
+        logger.info(f"Reading {relative_path} from the working tree of {root}: not found at {ref}")
+
+    if not os.path.isfile(full_path):
+        return JSONResponse(
+            status_code=404,
+            content={"error": f"File not found: {file}"}
+        )
+    if os.path.getsize(full_path) > MAX_LOCAL_FILE_BYTES:
+        return JSONResponse(
+            status_code=413,
+            content={"error": f"File is too large to display: {file}"}
+        )
+    try:
+        with open(full_path, "r", encoding="utf-8", errors="replace") as f:
+            return {"content": f.read(), "ref": None}
+    except Exception as e:
+        logger.error(f"Error reading local file {full_path}: {str(e)}")
+        return JSONResponse(
+            status_code=500,
+            content={"error": f"Error reading file: {str(e)}"}
+        )
+
 def generate_markdown_export(repo_url: str, pages: List[WikiPage]) -> str:
     """
     Generate Markdown export of wiki pages.
@@ -365,6 +729,7 @@ def generate_json_export(repo_url: str, pages: List[WikiPage]) -> str:
 # Import the simplified chat implementation
 from api.simple_chat import chat_completions_stream
 from api.websocket_wiki import handle_websocket_chat
+from api.collab import handle_collab_websocket
 
 # Add the chat_completions_stream endpoint to the main app
 app.add_api_route("/chat/completions/stream", chat_completions_stream, methods=["POST"])
@@ -372,6 +737,9 @@ app.add_api_route("/chat/completions/stream", chat_completions_stream, methods=[
 # Add the WebSocket endpoint
 app.add_websocket_route("/ws/chat", handle_websocket_chat)
 
+# Collaborative editing rooms for wiki pages
+app.add_websocket_route("/ws/collab", handle_collab_websocket)
+
 # Mount the Wiki Edit API (AI editor backend)
 from api.wiki_edit import app as wiki_edit_app
 app.mount("/wiki", wiki_edit_app)
@@ -393,60 +761,193 @@ async def read_wiki_cache(owner: str, repo: str, repo_type: str, language: str)
         logger.error(f"Error reading from Supabase storage: {e}")
     return None
 
-async def save_wiki_cache(data: WikiCacheRequest) -> bool:
-    """Saves wiki cache data to Supabase storage only."""
-    logger.info(f"Attempting to save wiki cache to Supabase for {data.owner}/{data.repo} ({data.repo_type}), lang: {data.language}")
+class WikiCacheConflict(Exception):
+    """Raised when a save expects a different revision of the wiki cache than the stored one."""
+    def __init__(self, current: Optional[WikiCacheData]):
+        super().__init__("Wiki cache was changed by another save")
+        self.current = current
+
+# Saves to the same wiki are serialized within this process so each one gets its own revision
+_wiki_cache_locks: Dict[str, asyncio.Lock] = {}
+
+def _wiki_cache_lock(owner: str, repo: str, repo_type: str, language: str) -> asyncio.Lock:
+    return _wiki_cache_locks.setdefault(f"{repo_type}_{owner}_{repo}_{language}", asyncio.Lock())
+
+def page_etag(content: str) -> str:
+    """ETag of a page, derived from its content so that edits to other pages do not change it."""
+    return hashlib.sha256(content.encode("utf-8")).hexdigest()
+
+def _parse_etag(value: str) -> str:
+    """Strips the weak prefix and quotes from an If-Match header value."""
+    value = value.strip()
+    if value.startswith("W/"):
+        value = value[2:]
+    return value.strip('"')
+
+async def save_wiki_cache(data: WikiCacheRequest, expected_revision: Optional[int] = None) -> Optional[int]:
+    """
+    Saves wiki cache data to Supabase storage only and returns its new revision, or None if saving failed.
+    Raises WikiCacheConflict when expected_revision is given and the stored cache is at another revision.
+    """
+    repo = get_wiki_repo_name(data.repo, data.ref, data.path)
+    logger.info(f"Attempting to save wiki cache to Supabase for {data.owner}/{repo} ({data.repo_type}), lang: {data.language}")
     
+    async with _wiki_cache_lock(data.owner, repo, data.repo_type, data.language):
+        try:
+            # The previous cache holds the current revision, tells which pages a new version changes, and is
+            # kept as a baseline before the first recorded change or the first partial save of a regeneration
+            previous = await read_wiki_cache(data.owner, repo, data.repo_type, data.language)
+            current_revision = previous.revision if previous else 0
+            if expected_revision is not None and expected_revision != current_revision:
+                logger.info(f"Rejecting save of {data.owner}/{repo} based on revision {expected_revision}, current is {current_revision}")
+                raise WikiCacheConflict(previous)
+
+            payload = WikiCacheData(
+                schema_version=data.schema_version,
+                wiki_structure=data.wiki_structure,
+                generated_pages=data.generated_pages,
+                repo_url=data.repo_url,
+                comprehensive=data.comprehensive,
+                language=data.language,
+                generation_complete=data.generation_complete,
+                page_status=data.page_status,
+                commit_sha=data.commit_sha,
+                repos=data.repos,
+                repo_config=data.repo_config,
+                revision=current_revision + 1
+            )
+            
+            # Log size of data to be cached for debugging
+            try:
+                payload_json = payload.model_dump_json()
+                payload_size = len(payload_json.encode('utf-8'))
+                logger.info(f"Payload prepared for caching. Size: {payload_size} bytes.")
+            except Exception as ser_e:
+                logger.warning(f"Could not serialize payload for size logging: {ser_e}")
+
+            if data.version or not data.generation_complete:
+                await ensure_history_baseline(data.owner, repo, data.repo_type, data.language, previous)
+
+            # Save to Supabase storage only
+            logger.info(f"Uploading wiki cache to Supabase storage")
+            supabase_success = await upload_wiki_cache_to_supabase(
+                data.owner, 
+                repo, 
+                data.repo_type, 
+                data.language, 
+                payload.model_dump()
+            )
+            
+            if supabase_success:
+                logger.info(f"Wiki cache successfully uploaded to Supabase storage at revision {payload.revision}")
+                if data.version:
+                    await record_wiki_version(data.owner, repo, data.repo_type, data.language, data.version, payload, previous)
+                return payload.revision
+            else:
+                logger.error(f"Failed to upload wiki cache to Supabase storage")
+                return None
+        except WikiCacheConflict:
+            raise
+        except Exception as e:
+            logger.error(f"Unexpected error saving wiki cache: {e}", exc_info=True)
+            return None
+
+# --- Wiki Version History ---
+
+# Older versions are deleted once a wiki has this many
+MAX_WIKI_VERSIONS = 50
+
+def _changed_pages(data: WikiCacheData, previous: Optional[WikiCacheData]) -> List[str]:
+    """Lists the pages whose content differs from the previous cache."""
+    if previous is None:
+        return list(data.generated_pages.keys())
+    return [
+        page_id for page_id, page in data.generated_pages.items()
+        if page_id not in previous.generated_pages or previous.generated_pages[page_id].content != page.content
+    ]
+
+async def read_wiki_versions(owner: str, repo: str, repo_type: str, language: str) -> List[WikiVersion]:
+    """Reads the version index of a wiki, oldest first."""
+    index = await download_json_from_supabase(get_history_path(owner, repo, repo_type, language, "index.json"))
+    if not index:
+        return []
+    return [WikiVersion(**entry) for entry in index.get("versions", [])]
+
+async def read_wiki_version(owner: str, repo: str, repo_type: str, language: str, version_id: str) -> Optional[WikiVersionSnapshot]:
+    """Reads a stored version of a wiki."""
+    snapshot = await download_json_from_supabase(get_history_path(owner, repo, repo_type, language, f"{version_id}.json"))
+    return WikiVersionSnapshot(**snapshot) if snapshot else None
+
+async def record_wiki_version(
+    owner: str,
+    repo: str,
+    repo_type: str,
+    language: str,
+    info: WikiVersionInfo,
+    data: WikiCacheData,
+    previous: Optional[WikiCacheData]
+) -> Optional[WikiVersion]:
+    """Stores a snapshot of the wiki and adds it to the version index. Failures are logged, not raised."""
     try:
-        payload = WikiCacheData(
-            wiki_structure=data.wiki_structure,
-            generated_pages=data.generated_pages,
-            repo_url=data.repo_url
+        now = datetime.utcnow()
+        version = WikiVersion(
+            **info.model_dump(),
+            id=now.strftime("%Y%m%dT%H%M%S%f"),
+            created_at=now.isoformat() + "Z",
+            changed_pages=_changed_pages(data, previous)
         )
-        
-        # Log size of data to be cached for debugging
-        try:
-            payload_json = payload.model_dump_json()
-            payload_size = len(payload_json.encode('utf-8'))
-            logger.info(f"Payload prepared for caching. Size: {payload_size} bytes.")
-        except Exception as ser_e:
-            logger.warning(f"Could not serialize payload for size logging: {ser_e}")
-
-        # Save to Supabase storage only
-        logger.info(f"Uploading wiki cache to Supabase storage")
-        supabase_success = await upload_wiki_cache_to_supabase(
-            data.owner, 
-            data.repo, 
-            data.repo_type, 
-            data.language, 
-            payload.model_dump()
+        snapshot = WikiVersionSnapshot(version=version, data=data)
+        if not await upload_json_to_supabase(get_history_path(owner, repo, repo_type, language, f"{version.id}.json"), snapshot.model_dump()):
+            return None
+
+        versions = await read_wiki_versions(owner, repo, repo_type, language) + [version]
+        expired = versions[:-MAX_WIKI_VERSIONS]
+        versions = versions[-MAX_WIKI_VERSIONS:]
+        await upload_json_to_supabase(
+            get_history_path(owner, repo, repo_type, language, "index.json"),
+            {"versions": [v.model_dump() for v in versions]}
         )
-        
-        if supabase_success:
-            logger.info(f"Wiki cache successfully uploaded to Supabase storage")
-            return True
-        else:
-            logger.error(f"Failed to upload wiki cache to Supabase storage")
-            return False
+        await remove_from_supabase([get_history_path(owner, repo, repo_type, language, f"{v.id}.json") for v in expired])
+        logger.info(f"Recorded wiki version {version.id} for {owner}/{repo} ({version.kind} {version.reason})")
+        return version
     except Exception as e:
-        logger.error(f"Unexpected error saving wiki cache: {e}", exc_info=True)
-        return False
+        logger.error(f"Error recording wiki version for {owner}/{repo}: {e}", exc_info=True)
+        return None
+
+async def ensure_history_baseline(owner: str, repo: str, repo_type: str, language: str, current: Optional[WikiCacheData]):
+    """Keeps a wiki saved before version history existed, so the first recorded change can be undone."""
+    if current is None or not current.generation_complete:
+        return
+    if await read_wiki_versions(owner, repo, repo_type, language):
+        return
+    await record_wiki_version(
+        owner, repo, repo_type, language,
+        WikiVersionInfo(kind="ai", reason="baseline"),
+        current,
+        None
+    )
 
 # --- Wiki Cache API Endpoints ---
 
 @app.get("/api/wiki_cache", response_model=Optional[WikiCacheData])
 async def get_cached_wiki(
+    response: Response,
     owner: str = Query(..., description="Repository owner"),
     repo: str = Query(..., description="Repository name"),
     repo_type: str = Query(..., description="Repository type (e.g., github, gitlab)"),
-    language: str = Query(..., description="Language of the wiki content")
+    language: str = Query(..., description="Language of the wiki content"),
+    ref: Optional[str] = Query(None, description="Branch, tag or commit of the wiki; the default branch when omitted"),
+    path: Optional[str] = Query(None, description="Subdirectory of the repository the wiki documents; the whole repository when omitted")
 ):
     """
     Retrieves cached wiki data (structure and generated pages) for a repository.
+    The revision of the cache is sent as its ETag.
     """
+    repo = get_wiki_repo_name(repo, ref, path)
     logger.info(f"Attempting to retrieve wiki cache for {owner}/{repo} ({repo_type}), lang: {language}")
     cached_data = await read_wiki_cache(owner, repo, repo_type, language)
     if cached_data:
+        response.headers["ETag"] = f'"{cached_data.revision}"'
         return cached_data
     else:
         # Return 200 with null body if not found, as frontend expects this behavior
@@ -455,30 +956,138 @@ async def get_cached_wiki(
         return None
 
 @app.post("/api/wiki_cache")
-async def store_wiki_cache(request_data: WikiCacheRequest):
+async def store_wiki_cache(request_data: WikiCacheRequest, if_match: Optional[str] = Header(None)):
     """
     Stores generated wiki data (structure and pages) to the server-side cache.
+    With an If-Match header the save only succeeds if the cache is still at that revision.
     """
     logger.info(f"Attempting to save wiki cache for {request_data.owner}/{request_data.repo} ({request_data.repo_type}), lang: {request_data.language}")
-    success = await save_wiki_cache(request_data)
-    if success:
-        return {"message": "Wiki cache saved successfully"}
+    expected_revision = None
+    if if_match is not None:
+        try:
+            expected_revision = int(_parse_etag(if_match))
+        except ValueError:
+            raise HTTPException(status_code=400, detail="If-Match must be a wiki cache revision")
+
+    try:
+        revision = await save_wiki_cache(request_data, expected_revision)
+    except WikiCacheConflict as conflict:
+        current_revision = conflict.current.revision if conflict.current else 0
+        return JSONResponse(
+            status_code=409,
+            content={"detail": "Wiki cache was changed by another save", "revision": current_revision},
+            headers={"ETag": f'"{current_revision}"'}
+        )
+    if revision is not None:
+        return JSONResponse(
+            content={"message": "Wiki cache saved successfully", "revision": revision},
+            headers={"ETag": f'"{revision}"'}
+        )
     else:
         raise HTTPException(status_code=500, detail="Failed to save wiki cache")
 
+def _find_cached_page(data: WikiCacheData, page_id: str) -> Optional[WikiPage]:
+    """Finds a page of a cached wiki; pages that have not been generated yet have empty content."""
+    if page_id in data.generated_pages:
+        return data.generated_pages[page_id]
+    for page in data.wiki_structure.pages:
+        if page.id == page_id:
+            return page.model_copy(update={"content": ""})
+    return None
+
+@app.get("/api/wiki_cache/pages/{page_id}")
+async def get_cached_wiki_page(
+    page_id: str,
+    owner: str = Query(..., description="Repository owner"),
+    repo: str = Query(..., description="Repository name"),
+    repo_type: str = Query(..., description="Repository type (e.g., github, gitlab)"),
+    language: str = Query(..., description="Language of the wiki content"),
+    ref: Optional[str] = Query(None, description="Branch, tag or commit of the wiki; the default branch when omitted"),
+    path: Optional[str] = Query(None, description="Subdirectory of the repository the wiki documents; the whole repository when omitted")
+):
+    """
+    Retrieves one page of a cached wiki. Its ETag is sent as a header and in the body.
+    """
+    cached_data = await read_wiki_cache(owner, get_wiki_repo_name(repo, ref, path), repo_type, language)
+    page = _find_cached_page(cached_data, page_id) if cached_data else None
+    if not page:
+        raise HTTPException(status_code=404, detail="Wiki page not found")
+    etag = page_etag(page.content)
+    return JSONResponse(content={"page": page.model_dump(), "etag": etag}, headers={"ETag": f'"{etag}"'})
+
+# A page update is retried this many times when other pages are saved while it is written
+MAX_PAGE_UPDATE_ATTEMPTS = 3
+
+@app.put("/api/wiki_cache/pages/{page_id}")
+async def update_cached_wiki_page(page_id: str, request_data: WikiPageUpdateRequest, if_match: Optional[str] = Header(None)):
+    """
+    Replaces the content of one page. Saves to other pages in the meantime are kept.
+    With an If-Match header the update only succeeds if the page still has that ETag;
+    otherwise a 409 response returns the current page so the edit can be merged.
+    """
+    owner, repo, repo_type, language = request_data.owner, request_data.repo, request_data.repo_type, request_data.language
+    logger.info(f"Attempting to update page {page_id} of {owner}/{repo} ({repo_type}), lang: {language}")
+
+    for _ in range(MAX_PAGE_UPDATE_ATTEMPTS):
+        current = await read_wiki_cache(owner, get_wiki_repo_name(repo, request_data.ref, request_data.path), repo_type, language)
+        page = _find_cached_page(current, page_id) if current else None
+        if not page:
+            raise HTTPException(status_code=404, detail="Wiki page not found")
+
+        current_etag = page_etag(page.content)
+        if if_match is not None and _parse_etag(if_match) != current_etag:
+            logger.info(f"Rejecting update of page {page_id} of {owner}/{repo}: it was changed by another save")
+            return JSONResponse(
+                status_code=409,
+                content={"detail": "Wiki page was changed by another save", "page": page.model_dump(), "etag": current_etag},
+                headers={"ETag": f'"{current_etag}"'}
+            )
+
+        updated = current.model_copy(deep=True)
+        updated.generated_pages[page_id] = page.model_copy(update={"content": request_data.content})
+        updated.page_status[page_id] = "done"
+        try:
+            revision = await save_wiki_cache(
+                WikiCacheRequest(
+                    **updated.model_dump(exclude={"language"}),
+                    owner=owner,
+                    repo=repo,
+                    repo_type=repo_type,
+                    language=language,
+                    ref=request_data.ref,
+                    path=request_data.path,
+                    version=request_data.version
+                ),
+                expected_revision=current.revision
+            )
+        except WikiCacheConflict:
+            # Another save landed between reading and writing; check the page again against it
+            continue
+        if revision is None:
+            raise HTTPException(status_code=500, detail="Failed to save wiki page")
+        etag = page_etag(request_data.content)
+        return JSONResponse(content={"etag": etag, "revision": revision}, headers={"ETag": f'"{etag}"'})
+
+    raise HTTPException(status_code=503, detail="Wiki is being saved too often to update the page, try again")
+
 @app.delete("/api/wiki_cache")
 async def delete_wiki_cache(
     owner: str = Query(..., description="Repository owner"),
     repo: str = Query(..., description="Repository name"),
     repo_type: str = Query(..., description="Repository type (e.g., github, gitlab)"),
-    language: str = Query(..., description="Language of the wiki content")
+    language: str = Query(..., description="Language of the wiki content"),
+    ref: Optional[str] = Query(None, description="Branch, tag or commit of the wiki; the default branch when omitted"),
+    path: Optional[str] = Query(None, description="Subdirectory of the repository the wiki documents; the whole repository when omitted")
 ):
     """
     Deletes a specific wiki cache from Supabase storage.
     """
+    repo = get_wiki_repo_name(repo, ref, path)
     logger.info(f"Attempting to delete wiki cache for {owner}/{repo} ({repo_type}), lang: {language}")
     
     try:
+        # Keep the wiki in the version history so a refresh can be undone
+        await ensure_history_baseline(owner, repo, repo_type, language, await read_wiki_cache(owner, repo, repo_type, language))
         success = await delete_wiki_cache_from_supabase(owner, repo, repo_type, language)
         
         if success:
@@ -493,6 +1102,267 @@ async def delete_wiki_cache(
         logger.error(f"Error deleting wiki cache {owner}/{repo}: {e}")
         raise HTTPException(status_code=500, detail=f"Failed to delete wiki cache: {str(e)}")
 
+@app.get("/api/wiki_versions", response_model=List[WikiVersion])
+async def list_wiki_versions(
+    owner: str = Query(..., description="Repository owner"),
+    repo: str = Query(..., description="Repository name"),
+    repo_type: str = Query(..., description="Repository type (e.g., github, gitlab)"),
+    language: str = Query(..., description="Language of the wiki content"),
+    ref: Optional[str] = Query(None, description="Branch, tag or commit of the wiki; the default branch when omitted"),
+    path: Optional[str] = Query(None, description="Subdirectory of the repository the wiki documents; the whole repository when omitted"),
+    page_id: Optional[str] = Query(None, description="Only list versions that changed this page")
+):
+    """
+    Lists the saved versions of a wiki, newest first.
+    """
+    versions = await read_wiki_versions(owner, get_wiki_repo_name(repo, ref, path), repo_type, language)
+    if page_id:
+        versions = [v for v in versions if page_id in v.changed_pages]
+    return list(reversed(versions))
+
+@app.get("/api/wiki_versions/{version_id}", response_model=WikiVersionSnapshot)
+async def get_wiki_version(
+    version_id: str,
+    owner: str = Query(..., description="Repository owner"),
+    repo: str = Query(..., description="Repository name"),
+    repo_type: str = Query(..., description="Repository type (e.g., github, gitlab)"),
+    language: str = Query(..., description="Language of the wiki content"),
+    ref: Optional[str] = Query(None, description="Branch, tag or commit of the wiki; the default branch when omitted"),
+    path: Optional[str] = Query(None, description="Subdirectory of the repository the wiki documents; the whole repository when omitted")
+):
+    """
+    Retrieves a saved version of a wiki with its full content.
+    """
+    snapshot = await read_wiki_version(owner, get_wiki_repo_name(repo, ref, path), repo_type, language, version_id)
+    if not snapshot:
+        raise HTTPException(status_code=404, detail="Wiki version not found")
+    return snapshot
+
+@app.post("/api/wiki_versions/{version_id}/rollback", response_model=WikiCacheData)
+async def rollback_wiki_version(version_id: str, request_data: WikiRollbackRequest, if_match: Optional[str] = Header(None)):
+    """
+    Restores a wiki, or one of its pages, to a saved version. The restore is recorded as a new version.
+    With an If-Match header a whole-wiki restore only succeeds if the cache is still at that revision,
+    and answers 412 otherwise.
+    """
+    owner, repo, repo_type, language = request_data.owner, request_data.repo, request_data.repo_type, request_data.language
+    logger.info(f"Rolling back {owner}/{repo} ({repo_type}), lang: {language} to version {version_id}")
+    expected_revision = None
+    if if_match is not None:
+        try:
+            expected_revision = int(_parse_etag(if_match))
+        except ValueError:
+            raise HTTPException(status_code=400, detail="If-Match must be a wiki cache revision")
+
+    wiki_repo = get_wiki_repo_name(repo, request_data.ref, request_data.path)
+    snapshot = await read_wiki_version(owner, wiki_repo, repo_type, language, version_id)
+    if not snapshot:
+        raise HTTPException(status_code=404, detail="Wiki version not found")
+
+    restored = snapshot.data
+    if request_data.page_id:
+        current = await read_wiki_cache(owner, wiki_repo, repo_type, language)
+        page = snapshot.data.generated_pages.get(request_data.page_id)
+        if not page:
+            raise HTTPException(status_code=404, detail="Page not found in this version")
+        if not current or not any(p.id == request_data.page_id for p in current.wiki_structure.pages):
+            raise HTTPException(status_code=409, detail="Page no longer exists in the current wiki")
+        restored = current.model_copy(deep=True)
+        restored.generated_pages[request_data.page_id] = page
+        restored.page_status[request_data.page_id] = "done"
+        # Restoring a page keeps the other pages of the current wiki, so they must not have changed since reading it
+        expected_revision = restored.revision
+
+    try:
+        revision = await save_wiki_cache(
+            WikiCacheRequest(
+                **restored.model_dump(exclude={"language"}),
+                owner=owner,
+                repo=repo,
+                repo_type=repo_type,
+                language=language,
+                ref=request_data.ref,
+                path=request_data.path,
+                version=WikiVersionInfo(author=request_data.author, kind="manual", reason="rollback")
+            ),
+            expected_revision=expected_revision
+        )
+    except WikiCacheConflict:
+        if request_data.page_id:
+            raise HTTPException(status_code=409, detail="Wiki was changed while restoring the page, try again")
+        raise HTTPException(status_code=412, detail="Wiki was changed since it was loaded")
+    if revision is None:
+        raise HTTPException(status_code=500, detail="Failed to save restored wiki")
+    return restored.model_copy(update={"revision": revision})
+
+# --- Wiki Comments ---
+
+# Comment threads are stored next to the wiki rather than in its cache, so that regenerating
+# the wiki keeps them and commenting does not create wiki versions
+_wiki_comments_locks: Dict[str, asyncio.Lock] = {}
+
+async def read_comment_threads(owner: str, repo: str, repo_type: str, language: str) -> List[CommentThread]:
+    """Reads all comment threads of a wiki, oldest first."""
+    stored = await download_json_from_supabase(get_comments_path(owner, repo, repo_type, language))
+    if not stored:
+        return []
+    return [CommentThread(**thread) for thread in stored.get("threads", [])]
+
+async def update_comment_threads(owner: str, repo: str, repo_type: str, language: str, change) -> CommentThread:
+    """
+    Applies `change` to the comment threads of a wiki and stores them.
+    `change` receives the list of threads, modifies it and returns the thread it changed.
+    """
+    lock = _wiki_comments_locks.setdefault(f"{repo_type}_{owner}_{repo}_{language}", asyncio.Lock())
+    async with lock:
+        threads = await read_comment_threads(owner, repo, repo_type, language)
+        thread = change(threads)
+        if not await upload_json_to_supabase(
+            get_comments_path(owner, repo, repo_type, language),
+            {"threads": [t.model_dump() for t in threads]}
+        ):
+            raise HTTPException(status_code=500, detail="Failed to save comments")
+        return thread
+
+def _find_thread(threads: List[CommentThread], thread_id: str) -> CommentThread:
+    for thread in threads:
+        if thread.id == thread_id:
+            return thread
+    raise HTTPException(status_code=404, detail="Comment thread not found")
+
+def _new_comment(author: Optional[str], body: str) -> WikiComment:
+    return WikiComment(id=uuid.uuid4().hex, author=author, body=body, created_at=datetime.utcnow().isoformat() + "Z")
+
+@app.get("/api/wiki_comments", response_model=List[CommentThread])
+async def list_comment_threads(
+    owner: str = Query(..., description="Repository owner"),
+    repo: str = Query(..., description="Repository name"),
+    repo_type: str = Query(..., description="Repository type (e.g., github, gitlab)"),
+    language: str = Query(..., description="Language of the wiki content"),
+    ref: Optional[str] = Query(None, description="Branch, tag or commit of the wiki; the default branch when omitted"),
+    path: Optional[str] = Query(None, description="Subdirectory of the repository the wiki documents; the whole repository when omitted"),
+    page_id: Optional[str] = Query(None, description="Only list the threads of this page")
+):
+    """
+    Lists the comment threads of a wiki, oldest first.
+    """
+    threads = await read_comment_threads(owner, get_wiki_repo_name(repo, ref, path), repo_type, language)
+    if page_id:
+        threads = [t for t in threads if t.page_id == page_id]
+    return threads
+
+@app.post("/api/wiki_comments", response_model=CommentThread)
+async def create_comment_thread(request_data: CommentThreadCreateRequest, authorization: Optional[str] = Header(None)):
+    """
+    Starts a comment thread on a range of a page, written by the signed-in user.
+    """
+    author = await require_session_author(authorization)
+    comment = _new_comment(author, request_data.body)
+    thread = CommentThread(
+        id=uuid.uuid4().hex,
+        page_id=request_data.page_id,
+        anchor=request_data.anchor,
+        comments=[comment],
+        created_at=comment.created_at
+    )
+
+    def add(threads: List[CommentThread]) -> CommentThread:
+        threads.append(thread)
+        return thread
+
+    return await update_comment_threads(request_data.owner, get_wiki_repo_name(request_data.repo, request_data.ref, request_data.path), request_data.repo_type, request_data.language, add)
+
+@app.post("/api/wiki_comments/{thread_id}/replies", response_model=CommentThread)
+async def reply_to_comment_thread(thread_id: str, request_data: CommentReplyRequest, authorization: Optional[str] = Header(None)):
+    """
+    Adds a reply of the signed-in user to a comment thread.
+    """
+    author = await require_session_author(authorization)
+
+    def reply(threads: List[CommentThread]) -> CommentThread:
+        thread = _find_thread(threads, thread_id)
+        thread.comments.append(_new_comment(author, request_data.body))
+        return thread
+
+    return await update_comment_threads(request_data.owner, get_wiki_repo_name(request_data.repo, request_data.ref, request_data.path), request_data.repo_type, request_data.language, reply)
+
+@app.patch("/api/wiki_comments/{thread_id}", response_model=CommentThread)
+async def update_comment_thread(thread_id: str, request_data: CommentThreadUpdateRequest, authorization: Optional[str] = Header(None)):
+    """
+    Resolves or reopens a comment thread on behalf of the signed-in user.
+    """
+    author = await require_session_author(authorization)
+
+    def set_resolved(threads: List[CommentThread]) -> CommentThread:
+        thread = _find_thread(threads, thread_id)
+        thread.resolved = request_data.resolved
+        thread.resolved_by = author if request_data.resolved else None
+        thread.resolved_at = datetime.utcnow().isoformat() + "Z" if request_data.resolved else None
+        return thread
+
+    return await update_comment_threads(request_data.owner, get_wiki_repo_name(request_data.repo, request_data.ref, request_data.path), request_data.repo_type, request_data.language, set_resolved)
+
+# --- Wiki Search ---
+
+from api.wiki_search import SearchMode, WikiSearchHit, search_semantic, search_text
+
+# Wikis loaded for searching across every cache, reused until their file is updated
+_search_corpus: Dict[str, Tuple[Optional[str], Optional[WikiCacheData]]] = {}
+
+async def _searchable_wikis() -> List[Tuple[Dict[str, Optional[str]], Dict[str, Any]]]:
+    """Every cached wiki, with its key."""
+    cache_files = await list_wiki_caches_from_supabase()
+
+    async def load(cache_file: Dict[str, Any]) -> Optional[WikiCacheData]:
+        updated_at = cache_file.get("updated_at") or cache_file.get("created_at")
+        cached = _search_corpus.get(cache_file["id"])
+        if cached and cached[0] == updated_at:
+            return cached[1]
+        data = await read_wiki_cache(
+            cache_file["owner"], get_wiki_repo_name(cache_file["repo"], cache_file["ref"], cache_file["path"]), cache_file["repo_type"], cache_file["language"]
+        )
+        _search_corpus[cache_file["id"]] = (updated_at, data)
+        return data
+
+    loaded = await asyncio.gather(*(load(cache_file) for cache_file in cache_files))
+    return [
+        ({key: cache_file[key] for key in ("owner", "repo", "repo_type", "language", "ref", "path")}, data.model_dump())
+        for cache_file, data in zip(cache_files, loaded)
+        if data
+    ]
+
+@app.get("/api/wiki_search", response_model=List[WikiSearchHit])
+async def search_wikis(
+    q: str = Query(..., min_length=1, description="Text to search for"),
+    owner: Optional[str] = Query(None, description="Repository owner; search every cached wiki when omitted"),
+    repo: Optional[str] = Query(None, description="Repository name"),
+    repo_type: Optional[str] = Query(None, description="Repository type (e.g., github, gitlab)"),
+    language: Optional[str] = Query(None, description="Language of the wiki content"),
+    ref: Optional[str] = Query(None, description="Branch, tag or commit of the wiki; the default branch when omitted"),
+    path: Optional[str] = Query(None, description="Subdirectory of the repository the wiki documents; the whole repository when omitted"),
+    mode: SearchMode = Query("text", description="text matches words; semantic matches meaning"),
+    limit: int = Query(20, ge=1, le=50, description="Maximum number of results")
+):
+    """
+    Searches the pages of one wiki, or of every cached wiki, and returns the best matching sections.
+    """
+    if owner or repo:
+        if not (owner and repo and repo_type and language):
+            raise HTTPException(status_code=400, detail="owner, repo, repo_type and language are required to search one wiki")
+        data = await read_wiki_cache(owner, get_wiki_repo_name(repo, ref, path), repo_type, language)
+        key = {"owner": owner, "repo": repo, "repo_type": repo_type, "language": language, "ref": ref, "path": path}
+        wikis = [(key, data.model_dump())] if data else []
+    else:
+        wikis = await _searchable_wikis()
+
+    try:
+        if mode == "semantic":
+            return await search_semantic(wikis, q, limit)
+        return search_text(wikis, q, limit)
+    except Exception as e:
+        logger.error(f"Error searching wikis for {q!r} ({mode}): {e}", exc_info=True)
+        raise HTTPException(status_code=500, detail=f"Search failed: {str(e)}")
+
 @app.get("/health")
 async def health_check():
     """Health check endpoint for Docker and monitoring"""
@@ -513,12 +1383,31 @@ async def root():
                 "POST /chat/completions/stream - Streaming chat completion (HTTP)",
                 "WebSocket /ws/chat - WebSocket chat completion",
             ],
+            "Collaboration": [
+                "WebSocket /ws/collab?room={room_id} - Edit a wiki page together with other users",
+            ],
             "Wiki Cache (Supabase)": [
                 "GET /api/wiki_cache - Retrieve cached wiki data from Supabase",
-                "POST /api/wiki_cache - Store wiki data to Supabase cache",
+                "POST /api/wiki_cache - Store wiki data to Supabase cache (If-Match: revision)",
+                "GET /api/wiki_cache/pages/{page_id} - Retrieve one page of a cached wiki with its ETag",
+                "PUT /api/wiki_cache/pages/{page_id} - Update one page of a cached wiki (If-Match: page ETag)",
                 "DELETE /api/wiki_cache - Delete specific wiki cache from Supabase",
                 "GET /api/processed_projects - List all cached projects from Supabase"
             ],
+            "Wiki Versions": [
+                "GET /api/wiki_versions - List saved versions of a wiki (optionally of one page)",
+                "GET /api/wiki_versions/{version_id} - Get a saved version with its content",
+                "POST /api/wiki_versions/{version_id}/rollback - Restore a wiki or page to a saved version"
+            ],
+            "Wiki Comments": [
+                "GET /api/wiki_comments - List the comment threads of a wiki (optionally of one page)",
+                "POST /api/wiki_comments - Start a comment thread on a range of a page",
+                "POST /api/wiki_comments/{thread_id}/replies - Reply to a comment thread",
+                "PATCH /api/wiki_comments/{thread_id} - Resolve or reopen a comment thread"
+            ],
+            "Wiki Search": [
+                "GET /api/wiki_search - Search the pages of one wiki, or of every cached wiki (text or semantic)"
+            ],
             "Wiki Export": [
                 "POST /export/wiki - Export wiki content as Markdown or JSON"
             ],
@@ -534,10 +1423,15 @@ async def root():
                 "POST /api/user/github-repos/refresh - Force refresh user's repositories",
                 "GET /api/user/github-repos/status/{user_id} - Get repository fetch status for debugging",
                 "GET /api/user/profile/{user_id} - Get complete user profile with repositories",
+                "GET /api/user/editor-memory/{user_id} - Get the editor's edit memory and writing preferences of a user",
+                "PUT /api/user/editor-memory/{user_id} - Save the edit memory and writing preferences for a repository",
+                "DELETE /api/user/editor-memory/{user_id} - Clear the edit memory and writing preferences",
                 "GET /api/users/github-repos/search - Search users by repository"
             ],
             "LocalRepo": [
                 "GET /local_repo/structure - Get structure of a local repository (with path parameter)",
+                "GET /local_repo/changes - Get HEAD commit and files changed since a commit (with path and since parameters)",
+                "GET /local_repo/file - Get the content of a file of a local repository (with path, file and optional ref parameters)",
             ],
             "Health": [
                 "GET /health - Health check endpoint"
@@ -586,7 +1480,9 @@ async def get_processed_projects():
                         name=cache_file["name"],
                         repo_type=cache_file["repo_type"],
                         submittedAt=submitted_at,
-                        language=cache_file["language"]
+                        language=cache_file["language"],
+                        ref=cache_file["ref"],
+                        path=cache_file["path"]
                     )
                 )
             except Exception as e:
@@ -622,14 +1518,16 @@ async def get_global_wiki_cache(
     owner: str,
     repo: str,
     repo_type: str = Query(..., description="Repository type (e.g., github, gitlab)"),
-    language: str = Query(default="en", description="Language of the wiki content")
+    language: str = Query(default="en", description="Language of the wiki content"),
+    ref: Optional[str] = Query(None, description="Branch, tag or commit of the wiki; the default branch when omitted"),
+    path: Optional[str] = Query(None, description="Subdirectory of the repository the wiki documents; the whole repository when omitted")
 ):
     """
     Retrieve a specific wiki cache from Supabase storage (global history).
     """
     try:
         logger.info(f"Fetching global wiki cache for {owner}/{repo} ({repo_type}), lang: {language}")
-        supabase_data = await download_wiki_cache_from_supabase(owner, repo, repo_type, language)
+        supabase_data = await download_wiki_cache_from_supabase(owner, get_wiki_repo_name(repo, ref, path), repo_type, language)
         
         if supabase_data:
             return WikiCacheData(**supabase_data)
@@ -646,14 +1544,16 @@ async def get_global_wiki_cache_url(
     owner: str,
     repo: str,
     repo_type: str = Query(..., description="Repository type (e.g., github, gitlab)"),
-    language: str = Query(default="en", description="Language of the wiki content")
+    language: str = Query(default="en", description="Language of the wiki content"),
+    ref: Optional[str] = Query(None, description="Branch, tag or commit of the wiki; the default branch when omitted"),
+    path: Optional[str] = Query(None, description="Subdirectory of the repository the wiki documents; the whole repository when omitted")
 ):
     """
     Get public URL for a wiki cache file in Supabase storage.
     """
     try:
         logger.info(f"Getting public URL for {owner}/{repo} ({repo_type}), lang: {language}")
-        public_url = get_public_url(owner, repo, repo_type, language)
+        public_url = get_public_url(owner, get_wiki_repo_name(repo, ref, path), repo_type, language)
         
         if public_url:
             return {"public_url": public_url}
@@ -671,14 +1571,16 @@ async def delete_global_wiki_cache(
     owner: str,
     repo: str,
     repo_type: str = Query(..., description="Repository type (e.g., github, gitlab)"),
-    language: str = Query(default="en", description="Language of the wiki content")
+    language: str = Query(default="en", description="Language of the wiki content"),
+    ref: Optional[str] = Query(None, description="Branch, tag or commit of the wiki; the default branch when omitted"),
+    path: Optional[str] = Query(None, description="Subdirectory of the repository the wiki documents; the whole repository when omitted")
 ):
     """
     Delete a wiki cache from Supabase storage (global history).
     """
     try:
         logger.info(f"Deleting global wiki cache for {owner}/{repo} ({repo_type}), lang: {language}")
-        success = await delete_wiki_cache_from_supabase(owner, repo, repo_type, language)
+        success = await delete_wiki_cache_from_supabase(owner, get_wiki_repo_name(repo, ref, path), repo_type, language)
         
         if success:
             return {"message": f"Global wiki cache for {owner}/{repo} ({language}) deleted successfully"}
@@ -844,6 +1746,116 @@ async def get_user_profile(user_id: str):
         logger.error(f"Error fetching user profile: {e}")
         raise HTTPException(status_code=500, detail="Failed to fetch user profile")
 
+# --- Editor Memory ---
+
+# Edits remembered per user and repository; older ones are dropped
+MAX_EDITOR_MEMORY_EDITS = 20
+
+_editor_memory_locks: Dict[str, asyncio.Lock] = {}
+
+def _editor_memory_key(owner: str, repo: str, repo_type: str) -> str:
+    return f"{repo_type}_{owner}_{repo}"
+
+def _read_editor_memory(supabase, user_id: str) -> Dict[str, Any]:
+    """Reads the editor memory of all repositories from a user's profile."""
+    response = supabase.table('profiles').select('editor_memory').eq('id', user_id).execute()
+    if not response.data:
+        raise HTTPException(status_code=404, detail="User profile not found")
+    return response.data[0].get('editor_memory') or {}
+
+@app.get("/api/user/editor-memory/{user_id}", response_model=Dict[str, RepoEditorMemory])
+async def get_editor_memory(
+    user_id: str,
+    owner: Optional[str] = Query(None, description="Repository owner; all repositories when not set"),
+    repo: Optional[str] = Query(None, description="Repository name"),
+    repo_type: str = Query("github", description="Repository type (e.g., github, gitlab)"),
+    authorization: Optional[str] = Header(None)
+):
+    """
+    Get the editor's edit memory and learned writing preferences of a user, keyed by repository.
+    Only the user themselves can read it.
+    """
+    await require_session_user(user_id, authorization)
+    try:
+        from api.github_repos import SUPABASE_URL, SUPABASE_SERVICE_KEY
+        from supabase import create_client
+
+        supabase = create_client(SUPABASE_URL, SUPABASE_SERVICE_KEY)
+        memory = {key: RepoEditorMemory(**entry) for key, entry in _read_editor_memory(supabase, user_id).items()}
+        if owner and repo:
+            key = _editor_memory_key(owner, repo, repo_type)
+            return {key: memory[key]} if key in memory else {}
+        return memory
+
+    except HTTPException:
+        raise
+    except Exception as e:
+        logger.error(f"Error fetching editor memory for user {user_id}: {e}")
+        raise HTTPException(status_code=500, detail="Failed to fetch editor memory")
+
+@app.put("/api/user/editor-memory/{user_id}", response_model=RepoEditorMemory)
+async def update_editor_memory(user_id: str, request_data: EditorMemoryUpdateRequest, authorization: Optional[str] = Header(None)):
+    """
+    Replace the edit memory and writing preferences of a user for one repository.
+    Only the user themselves can change it.
+    """
+    await require_session_user(user_id, authorization)
+    try:
+        from api.github_repos import SUPABASE_URL, SUPABASE_SERVICE_KEY
+        from supabase import create_client
+
+        supabase = create_client(SUPABASE_URL, SUPABASE_SERVICE_KEY)
+        entry = RepoEditorMemory(
+            **request_data.model_dump(exclude={"edits"}),
+            edits=request_data.edits[-MAX_EDITOR_MEMORY_EDITS:],
+            updated_at=datetime.utcnow().isoformat() + "Z"
+        )
+        # The memory of all repositories is one column, so concurrent updates of a user are serialized
+        async with _editor_memory_locks.setdefault(user_id, asyncio.Lock()):
+            memory = _read_editor_memory(supabase, user_id)
+            memory[_editor_memory_key(request_data.owner, request_data.repo, request_data.repo_type)] = entry.model_dump()
+            supabase.table('profiles').update({'editor_memory': memory}).eq('id', user_id).execute()
+        return entry
+
+    except HTTPException:
+        raise
+    except Exception as e:
+        logger.error(f"Error saving editor memory for user {user_id}: {e}")
+        raise HTTPException(status_code=500, detail="Failed to save editor memory")
+
+@app.delete("/api/user/editor-memory/{user_id}")
+async def clear_editor_memory(
+    user_id: str,
+    owner: Optional[str] = Query(None, description="Repository owner; all repositories when not set"),
+    repo: Optional[str] = Query(None, description="Repository name"),
+    repo_type: str = Query("github", description="Repository type (e.g., github, gitlab)"),
+    authorization: Optional[str] = Header(None)
+):
+    """
+    Clear the edit memory and writing preferences of a user for one repository, or for all of them.
+    Only the user themselves can clear it.
+    """
+    await require_session_user(user_id, authorization)
+    try:
+        from api.github_repos import SUPABASE_URL, SUPABASE_SERVICE_KEY
+        from supabase import create_client
+
+        supabase = create_client(SUPABASE_URL, SUPABASE_SERVICE_KEY)
+        async with _editor_memory_locks.setdefault(user_id, asyncio.Lock()):
+            memory = _read_editor_memory(supabase, user_id)
+            if owner and repo:
+                memory.pop(_editor_memory_key(owner, repo, repo_type), None)
+            else:
+                memory = {}
+            supabase.table('profiles').update({'editor_memory': memory}).eq('id', user_id).execute()
+        return {"message": "Editor memory cleared"}
+
+    except HTTPException:
+        raise
+    except Exception as e:
+        logger.error(f"Error clearing editor memory for user {user_id}: {e}")
+        raise HTTPException(status_code=500, detail="Failed to clear editor memory")
+
 @app.get("/api/users/github-repos/search")
 async def search_users_by_repo(
     repo_name: str = Query(..., description="Repository name to search for"),
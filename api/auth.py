@@ -0,0 +1,73 @@
+"""
+Verification of the Supabase sessions of signed-in users.
+
+The frontend sends the access token of the user's Supabase session, as an
+`Authorization: Bearer <token>` header or in the first message of a WebSocket.
+Supabase checks the token, so the backend learns which user is calling before it
+uses the service key on their behalf.
+"""
+import asyncio
+import logging
+from typing import Optional
+
+from fastapi import HTTPException
+from supabase import create_client
+
+from api.github_repos import SUPABASE_URL, SUPABASE_SERVICE_KEY
+from api.logging_config import setup_logging
+
+setup_logging()
+logger = logging.getLogger(__name__)
+
+
+def read_bearer_token(authorization: Optional[str]) -> Optional[str]:
+    """Returns the token of an `Authorization: Bearer <token>` header, or None without one."""
+    if not authorization:
+        return None
+    scheme, _, token = authorization.partition(" ")
+    if scheme.lower() != "bearer":
+        return None
+    return token.strip() or None
+
+
+async def get_session_user(access_token: Optional[str]):
+    """Returns the Supabase user an access token belongs to, or None if it is missing, expired or invalid."""
+    if not access_token or not SUPABASE_URL or not SUPABASE_SERVICE_KEY:
+        return None
+    try:
+        supabase = create_client(SUPABASE_URL, SUPABASE_SERVICE_KEY)
+        response = await asyncio.to_thread(supabase.auth.get_user, access_token)
+    except Exception as e:
+        logger.info(f"Rejecting Supabase session: {e}")
+        return None
+    return response.user if response else None
+
+
+async def get_session_user_id(access_token: Optional[str]) -> Optional[str]:
+    """Returns the id of the user a Supabase access token belongs to, or None if it is missing, expired or invalid."""
+    user = await get_session_user(access_token)
+    return user.id if user else None
+
+
+async def require_session_author(authorization: Optional[str]) -> str:
+    """
+    Returns the name shown as the author of what the signed-in user writes: their full name, email or id,
+    as the frontend shows it. Raises a 401 error without a valid session.
+    """
+    user = await get_session_user(read_bearer_token(authorization))
+    if not user:
+        raise HTTPException(status_code=401, detail="Sign in to do this")
+    return (user.user_metadata or {}).get("full_name") or user.email or user.id
+
+
+async def require_session_user(user_id: str, authorization: Optional[str]):
+    """
+    Checks that a request comes from the user whose data it reads or changes.
+    Raises a 401 error without a valid session and a 403 error for a session of another user.
+    """
+    session_user_id = await get_session_user_id(read_bearer_token(authorization))
+    if not session_user_id:
+        raise HTTPException(status_code=401, detail="Sign in to access this data")
+    if session_user_id != user_id:
+        logger.warning(f"Rejecting request of user {session_user_id} for the data of user {user_id}")
+        raise HTTPException(status_code=403, detail="This data belongs to another user")
@@ -0,0 +1,167 @@
+"""
+Relay for collaborative editing of wiki pages.
+
+Clients editing the same page join a room over a WebSocket. The text is a CRDT
+(src/utils/textCrdt.ts) whose operations can be applied in any order, so the server
+does not interpret them: it keeps the text the room started from and every operation
+sent since, replays them to clients that join, and forwards new operations and
+presence (names, cursors and selections) to the other clients in the room.
+Only signed-in users can join a room.
+A room is dropped when its last client leaves; edits are persisted by saving the page.
+"""
+import json
+import logging
+import uuid
+from typing import Any, Dict, List, Optional
+
+from fastapi import WebSocket, WebSocketDisconnect
+
+from api.auth import get_session_user_id
+from api.logging_config import setup_logging
+
+setup_logging()
+logger = logging.getLogger(__name__)
+
+# Largest message a client may send, in bytes; the join message carries the whole page
+MAX_MESSAGE_BYTES = 1024 * 1024
+# Most operations a single "ops" message may carry
+MAX_BATCH_OPS = 5000
+# A room refuses further edits once its operation log holds this many operations or bytes,
+# which bounds the memory a single editing session can use
+MAX_ROOM_OPS = 200000
+MAX_ROOM_BYTES = 16 * 1024 * 1024
+
+
+class CollabRoom:
+    """Clients, text and operation log of one page being edited."""
+
+    def __init__(self, seed: str):
+        # Changes when a room is recreated, so reconnecting clients know the operations they had are gone
+        self.session = uuid.uuid4().hex
+        self.seed = seed
+        self.ops: List[Any] = []
+        self.op_count = 0
+        self.op_bytes = 0
+        self.clients: Dict[str, WebSocket] = {}
+        self.presence: Dict[str, Dict[str, Any]] = {}
+
+    async def broadcast(self, message: Dict[str, Any], sender: Optional[str] = None):
+        """Sends a message to every client in the room except the sender."""
+        for client_id, socket in list(self.clients.items()):
+            if client_id == sender:
+                continue
+            try:
+                await socket.send_json(message)
+            except Exception as e:
+                logger.warning(f"Dropping collaboration client {client_id}: {e}")
+                self.clients.pop(client_id, None)
+                self.presence.pop(client_id, None)
+
+
+rooms: Dict[str, CollabRoom] = {}
+
+
+async def _receive_message(websocket: WebSocket) -> Optional[Dict[str, Any]]:
+    """
+    Reads the next JSON object from a client. Closes the connection and returns None
+    when the message is too large or not a JSON object.
+    """
+    text = await websocket.receive_text()
+    if len(text.encode("utf-8")) > MAX_MESSAGE_BYTES:
+        await websocket.close(code=1009, reason="Message too large")
+        return None
+    try:
+        message = json.loads(text)
+    except ValueError:
+        message = None
+    if not isinstance(message, dict):
+        await websocket.close(code=1003, reason="Expected a JSON object")
+        return None
+    return message
+
+
+async def handle_collab_websocket(websocket: WebSocket):
+    """
+    Handle a WebSocket connection to a collaborative editing room.
+
+    The room is named by the `room` query parameter. The first message must be
+    {"type": "join", "clientId", "text", "accessToken"}; `text` seeds the room if it does not exist yet
+    and `accessToken` is the access token of the user's Supabase session.
+    The server answers with {"type": "sync", "session", "seed", "ops", "peers"}, then relays
+    {"type": "ops"}, {"type": "presence"} and {"type": "saved"} messages between clients
+    and sends {"type": "leave", "clientId"} when a client disconnects.
+    """
+    await websocket.accept()
+
+    room_id = websocket.query_params.get("room")
+    if not room_id:
+        await websocket.close(code=1008, reason="Missing room")
+        return
+
+    room: Optional[CollabRoom] = None
+    client_id: Optional[str] = None
+    try:
+        join = await _receive_message(websocket)
+        if join is None:
+            return
+        client_id = join.get("clientId")
+        if join.get("type") != "join" or not isinstance(client_id, str) or not client_id:
+            await websocket.close(code=1008, reason="Expected a join message")
+            return
+        user_id = await get_session_user_id(join.get("accessToken"))
+        if not user_id:
+            await websocket.close(code=1008, reason="Sign in to edit together")
+            return
+
+        room = rooms.get(room_id)
+        if room is None:
+            room = CollabRoom(join.get("text") or "")
+            rooms[room_id] = room
+            logger.info(f"Opened collaboration room {room_id} for user {user_id}")
+        room.clients[client_id] = websocket
+
+        await websocket.send_json({
+            "type": "sync",
+            "session": room.session,
+            "seed": room.seed,
+            "ops": [op for batch in room.ops for op in batch],
+            "peers": list(room.presence.values()),
+        })
+
+        while True:
+            message = await _receive_message(websocket)
+            if message is None:
+                return
+            message_type = message.get("type")
+            if message_type == "ops":
+                ops = message.get("ops")
+                if not isinstance(ops, list) or len(ops) > MAX_BATCH_OPS:
+                    await websocket.send_json({"type": "error", "message": "Too many changes at once, save and reopen the page"})
+                    continue
+                size = len(json.dumps(ops))
+                if room.op_count + len(ops) > MAX_ROOM_OPS or room.op_bytes + size > MAX_ROOM_BYTES:
+                    await websocket.send_json({"type": "error", "message": "This editing session is too long, save and reopen the page"})
+                    continue
+                room.ops.append(ops)
+                room.op_count += len(ops)
+                room.op_bytes += size
+                await room.broadcast({"type": "ops", "ops": ops}, sender=client_id)
+            elif message_type == "presence":
+                presence = {**(message.get("presence") or {}), "clientId": client_id}
+                room.presence[client_id] = presence
+                await room.broadcast({"type": "presence", "presence": presence}, sender=client_id)
+            elif message_type == "saved":
+                await room.broadcast({"type": "saved", "etag": message.get("etag"), "text": message.get("text")}, sender=client_id)
+    except WebSocketDisconnect:
+        pass
+    except Exception as e:
+        logger.error(f"Error in collaboration room {room_id}: {e}")
+    finally:
+        if room is not None and client_id is not None:
+            room.clients.pop(client_id, None)
+            room.presence.pop(client_id, None)
+            if room.clients:
+                await room.broadcast({"type": "leave", "clientId": client_id})
+            elif rooms.get(room_id) is room:
+                del rooms[room_id]
+                logger.info(f"Closed collaboration room {room_id}")
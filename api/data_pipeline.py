@@ -2,6 +2,7 @@ import adalflow as adal
 from adalflow.core.types import Document, List
 from adalflow.components.data_process import TextSplitter, ToEmbeddings
 import os
+import shutil
 import subprocess
 import json
 import tiktoken
@@ -55,7 +56,7 @@ def count_tokens(text: str, is_ollama_embedder: bool = None) -> int:
         # Rough approximation: 4 characters per token
         return len(text) // 4
 
-def download_repo(repo_url: str, local_path: str, type: str = "github", access_token: str = None) -> str:
+def download_repo(repo_url: str, local_path: str, type: str = "github", access_token: str = None, ref: str = None) -> str:
     """
     Downloads a Git repository (GitHub, GitLab, or Bitbucket) to a specified local path.
 
@@ -63,6 +64,7 @@ def download_repo(repo_url: str, local_path: str, type: str = "github", access_t
         repo_url (str): The URL of the Git repository to clone.
         local_path (str): The local directory where the repository will be cloned.
         access_token (str, optional): Access token for private repositories.
+        ref (str, optional): Branch, tag or commit to check out. Defaults to the default branch.
 
     Returns:
         str: The output message from the `git` command.
@@ -77,6 +79,9 @@ def download_repo(repo_url: str, local_path: str, type: str = "github", access_t
             stderr=subprocess.PIPE,
         )
 
+        if ref and ref.startswith("-"):
+            raise ValueError(f"Invalid ref: {ref}")
+
         # Check if repository already exists
         if os.path.exists(local_path) and os.listdir(local_path):
             # Directory exists and is not empty
@@ -113,6 +118,22 @@ def download_repo(repo_url: str, local_path: str, type: str = "github", access_t
         )
 
         logger.info("Repository cloned successfully")
+
+        if ref:
+            logger.info(f"Checking out {ref}")
+            try:
+                subprocess.run(
+                    ["git", "checkout", "--quiet", ref],
+                    cwd=local_path,
+                    check=True,
+                    stdout=subprocess.PIPE,
+                    stderr=subprocess.PIPE,
+                )
+            except subprocess.CalledProcessError:
+                # The clone is on the default branch; leaving it would be reused as the ref next time
+                shutil.rmtree(local_path, ignore_errors=True)
+                raise
+
         return result.stdout.decode("utf-8")
 
     except subprocess.CalledProcessError as e:
@@ -128,7 +149,7 @@ def download_repo(repo_url: str, local_path: str, type: str = "github", access_t
 download_github_repo = download_repo
 
 def read_all_documents(path: str, is_ollama_embedder: bool = None, excluded_dirs: List[str] = None, excluded_files: List[str] = None,
-                      included_dirs: List[str] = None, included_files: List[str] = None):
+                      included_dirs: List[str] = None, included_files: List[str] = None, subdir: str = None):
     """
     Recursively reads all documents in a directory and its subdirectories.
 
@@ -144,6 +165,7 @@ def read_all_documents(path: str, is_ollama_embedder: bool = None, excluded_dirs
             When provided, only files in these directories will be processed.
         included_files (List[str], optional): List of file patterns to include exclusively.
             When provided, only files matching these patterns will be processed.
+        subdir (str, optional): Subdirectory of the root to read. File paths stay relative to the root.
 
     Returns:
         list: A list of Document objects with metadata.
@@ -201,7 +223,8 @@ def read_all_documents(path: str, is_ollama_embedder: bool = None, excluded_dirs
         logger.info(f"Excluded directories: {excluded_dirs}")
         logger.info(f"Excluded files: {excluded_files}")
 
-    logger.info(f"Reading documents from {path}")
+    search_root = os.path.join(path, subdir) if subdir else path
+    logger.info(f"Reading documents from {search_root}")
 
     def should_process_file(file_path: str, use_inclusion: bool, included_dirs: List[str], included_files: List[str],
                            excluded_dirs: List[str], excluded_files: List[str]) -> bool:
@@ -274,7 +297,7 @@ def read_all_documents(path: str, is_ollama_embedder: bool = None, excluded_dirs
 
     # Process code files first
     for ext in code_extensions:
-        files = glob.glob(f"{path}/**/*{ext}", recursive=True)
+        files = glob.glob(f"{search_root}/**/*{ext}", recursive=True)
         for file_path in files:
             # Check if file should be processed based on inclusion/exclusion rules
             if not should_process_file(file_path, use_inclusion_mode, included_dirs, included_files, excluded_dirs, excluded_files):
@@ -315,7 +338,7 @@ def read_all_documents(path: str, is_ollama_embedder: bool = None, excluded_dirs
 
     # Then process documentation files
     for ext in doc_extensions:
-        files = glob.glob(f"{path}/**/*{ext}", recursive=True)
+        files = glob.glob(f"{search_root}/**/*{ext}", recursive=True)
         for file_path in files:
             # Check if file should be processed based on inclusion/exclusion rules
             if not should_process_file(file_path, use_inclusion_mode, included_dirs, included_files, excluded_dirs, excluded_files):
@@ -633,7 +656,8 @@ class DatabaseManager:
 
     def prepare_database(self, repo_url_or_path: str, type: str = "github", access_token: str = None, is_ollama_embedder: bool = None,
                        excluded_dirs: List[str] = None, excluded_files: List[str] = None,
-                       included_dirs: List[str] = None, included_files: List[str] = None) -> List[Document]:
+                       included_dirs: List[str] = None, included_files: List[str] = None, ref: str = None,
+                       path: str = None) -> List[Document]:
         """
         Create a new database from the repository.
 
@@ -646,14 +670,19 @@ class DatabaseManager:
             excluded_files (List[str], optional): List of file patterns to exclude from processing
             included_dirs (List[str], optional): List of directories to include exclusively
             included_files (List[str], optional): List of file patterns to include exclusively
+            ref (str, optional): Branch, tag or commit of a remote repository. Defaults to the default branch.
+            path (str, optional): Subdirectory to index, e.g. one package of a monorepo. Defaults to the whole repository.
 
         Returns:
             List[Document]: List of Document objects
         """
         self.reset_database()
-        self._create_repo(repo_url_or_path, type, access_token)
+        path = (path or "").replace("\\", "/").strip("/") or None
+        if path and ".." in path.split("/"):
+            raise ValueError(f"Invalid path: {path}")
+        self._create_repo(repo_url_or_path, type, access_token, ref, path)
         return self.prepare_db_index(is_ollama_embedder=is_ollama_embedder, excluded_dirs=excluded_dirs, excluded_files=excluded_files,
-                                   included_dirs=included_dirs, included_files=included_files)
+                                   included_dirs=included_dirs, included_files=included_files, subdir=path)
 
     def reset_database(self):
         """
@@ -663,16 +692,21 @@ class DatabaseManager:
         self.repo_url_or_path = None
         self.repo_paths = None
 
-    def _create_repo(self, repo_url_or_path: str, type: str = "github", access_token: str = None) -> None:
+    def _create_repo(self, repo_url_or_path: str, type: str = "github", access_token: str = None, ref: str = None,
+                     path: str = None) -> None:
         """
         Download and prepare all paths.
         Paths:
         ~/.adalflow/repos/{repo_name} (for url, local path will be the same)
         ~/.adalflow/databases/{repo_name}.pkl
+        A ref other than the default branch is kept apart as {repo_name}@{ref}, and the database of a
+        subdirectory as {repo_name}+{path}.pkl.
 
         Args:
             repo_url_or_path (str): The URL or local path of the repository
             access_token (str, optional): Access token for private repositories
+            ref (str, optional): Branch, tag or commit of a remote repository
+            path (str, optional): Subdirectory the database covers
         """
         logger.info(f"Preparing repo storage for {repo_url_or_path}...")
 
@@ -697,19 +731,24 @@ class DatabaseManager:
                     # Generic handling for other Git URLs
                     repo_name = repo_url_or_path.split("/")[-1].replace(".git", "")
 
+                if ref:
+                    # '~' cannot appear in refs, so it keeps the directory names of refs apart
+                    repo_name = f"{repo_name}@{ref.replace('/', '~')}"
+
                 save_repo_dir = os.path.join(root_path, "repos", repo_name)
 
                 # Check if the repository directory already exists and is not empty
                 if not (os.path.exists(save_repo_dir) and os.listdir(save_repo_dir)):
                     # Only download if the repository doesn't exist or is empty
-                    download_repo(repo_url_or_path, save_repo_dir, type, access_token)
+                    download_repo(repo_url_or_path, save_repo_dir, type, access_token, ref)
                 else:
                     logger.info(f"Repository already exists at {save_repo_dir}. Using existing repository.")
             else:  # local path
                 repo_name = os.path.basename(repo_url_or_path)
                 save_repo_dir = repo_url_or_path
 
-            save_db_file = os.path.join(root_path, "databases", f"{repo_name}.pkl")
+            db_name = f"{repo_name}+{path.replace('/', '~')}" if path else repo_name
+            save_db_file = os.path.join(root_path, "databases", f"{db_name}.pkl")
             os.makedirs(save_repo_dir, exist_ok=True)
             os.makedirs(os.path.dirname(save_db_file), exist_ok=True)
 
@@ -725,7 +764,7 @@ class DatabaseManager:
             raise
 
     def prepare_db_index(self, is_ollama_embedder: bool = None, excluded_dirs: List[str] = None, excluded_files: List[str] = None,
-                        included_dirs: List[str] = None, included_files: List[str] = None) -> List[Document]:
+                        included_dirs: List[str] = None, included_files: List[str] = None, subdir: str = None) -> List[Document]:
         """
         Prepare the indexed database for the repository.
 
@@ -736,6 +775,7 @@ class DatabaseManager:
             excluded_files (List[str], optional): List of file patterns to exclude from processing
             included_dirs (List[str], optional): List of directories to include exclusively
             included_files (List[str], optional): List of file patterns to include exclusively
+            subdir (str, optional): Subdirectory of the repository to index
 
         Returns:
             List[Document]: List of Document objects
@@ -761,7 +801,8 @@ class DatabaseManager:
             excluded_dirs=excluded_dirs,
             excluded_files=excluded_files,
             included_dirs=included_dirs,
-            included_files=included_files
+            included_files=included_files,
+            subdir=subdir
         )
         self.db = transform_documents_and_save_to_db(
             documents, self.repo_paths["save_db_file"], is_ollama_embedder=is_ollama_embedder
@@ -771,7 +812,8 @@ class DatabaseManager:
         logger.info(f"Total transformed documents: {len(transformed_docs)}")
         return transformed_docs
 
-    def prepare_retriever(self, repo_url_or_path: str, type: str = "github", access_token: str = None):
+    def prepare_retriever(self, repo_url_or_path: str, type: str = "github", access_token: str = None, ref: str = None,
+                          path: str = None):
         """
         Prepare the retriever for a repository.
         This is a compatibility method for the isolated API.
@@ -779,8 +821,10 @@ class DatabaseManager:
         Args:
             repo_url_or_path (str): The URL or local path of the repository
             access_token (str, optional): Access token for private repositories
+            ref (str, optional): Branch, tag or commit of a remote repository
+            path (str, optional): Subdirectory of the repository
 
         Returns:
             List[Document]: List of Document objects
         """
-        return self.prepare_database(repo_url_or_path, type, access_token)
+        return self.prepare_database(repo_url_or_path, type, access_token, ref=ref, path=path)
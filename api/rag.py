@@ -203,6 +203,62 @@ class RAGAnswer(adal.DataClass):
 
     __output_fields__ = ["rationale", "answer"]
 
+def get_repo_label(repo_url_or_path: str) -> str:
+    """
+    Name of a repository as owner/repo, or its directory name for a local path.
+    File paths of combined wikis are prefixed with it so citations say which repository they point into.
+    """
+    parts = [part for part in repo_url_or_path.replace("\\", "/").rstrip("/").split("/") if part]
+    if not repo_url_or_path.startswith(("https://", "http://")):
+        return parts[-1] if parts else repo_url_or_path
+    parts[-1] = re.sub(r"\.git$", "", parts[-1])
+    return "/".join(parts[-2:])
+
+def glob_to_regex(pattern: str) -> re.Pattern:
+    """
+    Regular expression of a glob pattern from a repository's .deepwiki.yml, matched the way .gitignore patterns are:
+    * and ? stay within a directory, ** spans directories, a directory matches the files under it, and a pattern
+    without a slash before its end matches at any level. Kept in line with matchesGlob in src/utils/deepwikiConfig.ts.
+    """
+    glob = pattern.strip()
+    if glob.startswith("./"):
+        glob = glob[2:]
+    anchored = "/" in glob.rstrip("/")
+    glob = glob.strip("/")
+    source = ""
+    i = 0
+    while i < len(glob):
+        char = glob[i]
+        if glob.startswith("**/", i):
+            source += "(?:.*/)?"
+            i += 3
+        elif glob.startswith("**", i):
+            source += ".*"
+            i += 2
+        else:
+            source += "[^/]*" if char == "*" else "[^/]" if char == "?" else re.escape(char)
+            i += 1
+    return re.compile(f"^{'' if anchored else '(?:.*/)?'}{source}(?:/.*)?$")
+
+def filter_documents_by_globs(documents: List, include_globs: List[str] = None, exclude_globs: List[str] = None) -> List:
+    """Keep the documents whose file path matches an included glob, when any are given, and no excluded one."""
+    included = [glob_to_regex(pattern) for pattern in include_globs or []]
+    excluded = [glob_to_regex(pattern) for pattern in exclude_globs or []]
+
+    def keep(doc) -> bool:
+        file_path = doc.meta_data.get("file_path", "")
+        return (not included or any(regex.match(file_path) for regex in included)) \
+            and not any(regex.match(file_path) for regex in excluded)
+
+    return [doc for doc in documents if keep(doc)]
+
+def qualify_documents(documents: List, repo_label: str) -> List:
+    """Prefix the file path of every document with the repository it comes from."""
+    for doc in documents:
+        file_path = doc.meta_data.get("file_path", "")
+        doc.meta_data = {**doc.meta_data, "file_path": f"{repo_label}/{file_path}"}
+    return documents
+
 class RAG(adal.Component):
     """RAG with one repo.
     If you want to load a new repos, call prepare_retriever(repo_url_or_path) first."""
@@ -382,7 +438,8 @@ IMPORTANT FORMATTING RULES:
 
     def prepare_retriever(self, repo_url_or_path: str, type: str = "github", access_token: str = None,
                       excluded_dirs: List[str] = None, excluded_files: List[str] = None,
-                      included_dirs: List[str] = None, included_files: List[str] = None):
+                      included_dirs: List[str] = None, included_files: List[str] = None, ref: str = None, path: str = None,
+                      other_repos: List[Dict[str, Any]] = None, include_globs: List[str] = None, exclude_globs: List[str] = None):
         """
         Prepare the retriever for a repository.
         Will load database from local storage if available.
@@ -394,6 +451,12 @@ IMPORTANT FORMATTING RULES:
             excluded_files: Optional list of file patterns to exclude from processing
             included_dirs: Optional list of directories to include exclusively
             included_files: Optional list of file patterns to include exclusively
+            ref: Optional branch, tag or commit of a remote repository; the default branch when omitted
+            path: Optional subdirectory to retrieve from; the whole repository when omitted
+            other_repos: Optional further repositories to retrieve from, for a wiki covering several repositories,
+                each a dict with repo_url, type, token and ref. File paths are then prefixed with owner/repo.
+            include_globs: Optional glob patterns from the repository's .deepwiki.yml of the files to retrieve from
+            exclude_globs: Optional glob patterns from the repository's .deepwiki.yml of the files to leave out
         """
         self.initialize_db_manager()
         self.repo_url_or_path = repo_url_or_path
@@ -405,8 +468,28 @@ IMPORTANT FORMATTING RULES:
             excluded_dirs=excluded_dirs,
             excluded_files=excluded_files,
             included_dirs=included_dirs,
-            included_files=included_files
+            included_files=included_files,
+            ref=ref,
+            path=path
         )
+        if include_globs or exclude_globs:
+            self.transformed_docs = filter_documents_by_globs(self.transformed_docs, include_globs, exclude_globs)
+            logger.info(f"Kept {len(self.transformed_docs)} documents matching the repository's file globs")
+        if other_repos:
+            self.transformed_docs = qualify_documents(self.transformed_docs, get_repo_label(repo_url_or_path))
+            for source in other_repos:
+                documents = self.db_manager.prepare_database(
+                    source["repo_url"],
+                    source.get("type") or type,
+                    source.get("token") or access_token,
+                    is_ollama_embedder=self.is_ollama_embedder,
+                    excluded_dirs=excluded_dirs,
+                    excluded_files=excluded_files,
+                    included_dirs=included_dirs,
+                    included_files=included_files,
+                    ref=source.get("ref")
+                )
+                self.transformed_docs += qualify_documents(documents, get_repo_label(source["repo_url"]))
         logger.info(f"Loaded {len(self.transformed_docs)} documents for retrieval")
 
         # Validate and filter embeddings to ensure consistent sizes
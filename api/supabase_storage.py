@@ -4,7 +4,7 @@ Supabase Storage Helper Functions for Wiki Cache
 import os
 import json
 import logging
-from typing import Optional, List, Dict, Any
+from typing import Optional, List, Dict, Any, Tuple
 from supabase import create_client, Client
 from dotenv import load_dotenv
 from datetime import datetime
@@ -30,6 +30,31 @@ def get_supabase_client() -> Client:
     
     return create_client(SUPABASE_URL, SUPABASE_ANON_KEY)
 
+def normalize_repo_path(path: Optional[str]) -> Optional[str]:
+    """Subdirectory of a repository as 'a/b', or None for the whole repository"""
+    path = (path or "").replace("\\", "/").strip().strip("/")
+    return path or None
+
+def get_wiki_repo_name(repo: str, ref: Optional[str], path: Optional[str] = None) -> str:
+    """
+    Name a wiki is stored under. Wikis of a subdirectory append it after '+', and wikis of a branch, tag
+    or commit other than the default branch append it after '@'; '/' becomes '~', which git does not
+    allow in refs, and '@' in a subdirectory becomes '^'.
+    """
+    path = normalize_repo_path(path)
+    name = f"{repo}+{path.replace('/', '~').replace('@', '^')}" if path else repo
+    return f"{name}@{ref.replace('/', '~')}" if ref else name
+
+def split_wiki_repo_name(name: str) -> Tuple[str, Optional[str], Optional[str]]:
+    """Repository, ref and subdirectory of a name made by get_wiki_repo_name"""
+    name, _, ref = name.partition("@")
+    repo, _, path = name.partition("+")
+    return (
+        repo,
+        ref.replace("~", "/") if ref else None,
+        path.replace("~", "/").replace("^", "@") if path else None,
+    )
+
 def get_storage_path(owner: str, repo: str, repo_type: str, language: str) -> str:
     """Generate storage path for wiki cache file"""
     filename = f"deepwiki_cache_{repo_type}_{owner}_{repo}_{language}.json"
@@ -189,12 +214,14 @@ async def list_wiki_caches_from_supabase() -> List[Dict[str, Any]]:
                     repo_type = parts[0]
                     owner = parts[1]
                     language = parts[-1]
-                    repo = "_".join(parts[2:-1])
+                    repo, ref, path = split_wiki_repo_name("_".join(parts[2:-1]))
                     
                     cache_files.append({
                         "id": filename,
                         "owner": owner,
                         "repo": repo,
+                        "ref": ref,
+                        "path": path,
                         "repo_type": repo_type,
                         "language": language,
                         "name": f"{owner}/{repo}",
@@ -282,4 +309,93 @@ def get_public_url(owner: str, repo: str, repo_type: str, language: str) -> Opti
         
     except Exception as e:
         logger.error(f"Exception getting public URL from Supabase: {str(e)}")
-        return None 
\ No newline at end of file
+        return None
+
+
+def get_history_path(owner: str, repo: str, repo_type: str, language: str, name: str) -> str:
+    """Generate storage path for a file in the version history of a wiki"""
+    return f"deepwiki-history/{repo_type}_{owner}_{repo}_{language}/{name}"
+
+
+def get_comments_path(owner: str, repo: str, repo_type: str, language: str) -> str:
+    """Generate storage path for the comment threads of a wiki"""
+    return f"deepwiki-comments/{repo_type}_{owner}_{repo}_{language}.json"
+
+
+async def upload_json_to_supabase(storage_path: str, data: Dict[str, Any]) -> bool:
+    """
+    Upload a JSON document to Supabase storage, replacing any existing file
+
+    Args:
+        storage_path: Path of the file in the storage bucket
+        data: JSON-serializable data
+
+    Returns:
+        bool: True if successful, False otherwise
+    """
+    try:
+        supabase = get_supabase_client()
+        json_bytes = json.dumps(data, ensure_ascii=False).encode('utf-8')
+        response = supabase.storage.from_(STORAGE_BUCKET).upload(
+            path=storage_path,
+            file=json_bytes,
+            file_options={
+                "content-type": "application/json",
+                "upsert": "true"
+            }
+        )
+        if hasattr(response, 'error') and response.error:
+            logger.error(f"Error uploading {storage_path} to Supabase storage: {response.error}")
+            return False
+        return True
+    except Exception as e:
+        logger.error(f"Exception uploading {storage_path} to Supabase: {str(e)}")
+        return False
+
+
+async def download_json_from_supabase(storage_path: str) -> Optional[Dict[str, Any]]:
+    """
+    Download a JSON document from Supabase storage
+
+    Args:
+        storage_path: Path of the file in the storage bucket
+
+    Returns:
+        Parsed JSON if the file exists, None otherwise
+    """
+    try:
+        supabase = get_supabase_client()
+        response = supabase.storage.from_(STORAGE_BUCKET).download(storage_path)
+        if isinstance(response, bytes):
+            return json.loads(response.decode('utf-8'))
+        elif hasattr(response, 'data') and response.data:
+            return json.loads(response.data.decode('utf-8'))
+        return None
+    except Exception as e:
+        # Missing files raise as well, which is expected for new wikis
+        logger.info(f"Could not download {storage_path} from Supabase: {str(e)}")
+        return None
+
+
+async def remove_from_supabase(storage_paths: List[str]) -> bool:
+    """
+    Delete files from Supabase storage
+
+    Args:
+        storage_paths: Paths of the files in the storage bucket
+
+    Returns:
+        bool: True if successful, False otherwise
+    """
+    if not storage_paths:
+        return True
+    try:
+        supabase = get_supabase_client()
+        response = supabase.storage.from_(STORAGE_BUCKET).remove(storage_paths)
+        if hasattr(response, 'error') and response.error:
+            logger.error(f"Error deleting from Supabase storage: {response.error}")
+            return False
+        return True
+    except Exception as e:
+        logger.error(f"Exception deleting {storage_paths} from Supabase: {str(e)}")
+        return False
@@ -35,6 +35,15 @@ class ChatMessage(BaseModel):
     role: str  # 'user' or 'assistant'
     content: str
 
+class RepoSource(BaseModel):
+    """
+    Model for a further repository of a wiki that covers several repositories.
+    """
+    repo_url: str = Field(..., description="URL of the repository")
+    type: Optional[str] = Field(None, description="Type of repository; the type of the request when omitted")
+    token: Optional[str] = Field(None, description="Personal access token; the token of the request when omitted")
+    ref: Optional[str] = Field(None, description="Branch, tag or commit of the repository; the default branch when omitted")
+
 class ChatCompletionRequest(BaseModel):
     """
     Model for requesting a chat completion.
@@ -44,6 +53,9 @@ class ChatCompletionRequest(BaseModel):
     filePath: Optional[str] = Field(None, description="Optional path to a file in the repository to include in the prompt")
     token: Optional[str] = Field(None, description="Personal access token for private repositories")
     type: Optional[str] = Field("github", description="Type of repository (e.g., 'github', 'gitlab', 'bitbucket')")
+    ref: Optional[str] = Field(None, description="Branch, tag or commit of the repository; the default branch when omitted")
+    path: Optional[str] = Field(None, description="Subdirectory of the repository to cover; the whole repository when omitted")
+    repos: Optional[List[RepoSource]] = Field(None, description="Further repositories to retrieve from, for a wiki covering several repositories; file paths are then prefixed with owner/repo")
 
     # model parameters
     provider: str = Field("google", description="Model provider (google, openai, openrouter, ollama)")
@@ -54,6 +66,8 @@ class ChatCompletionRequest(BaseModel):
     excluded_files: Optional[str] = Field(None, description="Comma-separated list of file patterns to exclude from processing")
     included_dirs: Optional[str] = Field(None, description="Comma-separated list of directories to include exclusively")
     included_files: Optional[str] = Field(None, description="Comma-separated list of file patterns to include exclusively")
+    included_globs: Optional[str] = Field(None, description="Newline-separated glob patterns from the repository's .deepwiki.yml of the files to retrieve from")
+    excluded_globs: Optional[str] = Field(None, description="Newline-separated glob patterns from the repository's .deepwiki.yml of the files to leave out")
 
 async def handle_websocket_chat(websocket: WebSocket):
     """
@@ -101,7 +115,10 @@ async def handle_websocket_chat(websocket: WebSocket):
                 included_files = [unquote(file_pattern) for file_pattern in request.included_files.split('\n') if file_pattern.strip()]
                 logger.info(f"Using custom included files: {included_files}")
 
-            request_rag.prepare_retriever(request.repo_url, request.type, request.token, excluded_dirs, excluded_files, included_dirs, included_files)
+            request_rag.prepare_retriever(request.repo_url, request.type, request.token, excluded_dirs, excluded_files, included_dirs, included_files, ref=request.ref, path=request.path,
+                                          other_repos=[source.model_dump() for source in request.repos or []],
+                                          include_globs=[glob for glob in (request.included_globs or '').split('\n') if glob.strip()],
+                                          exclude_globs=[glob for glob in (request.excluded_globs or '').split('\n') if glob.strip()])
             logger.info(f"Retriever prepared for {request.repo_url}")
         except ValueError as e:
             if "No valid documents with embeddings found" in str(e):
@@ -240,6 +257,10 @@ async def handle_websocket_chat(websocket: WebSocket):
         # Get repository information
         repo_url = request.repo_url
         repo_name = repo_url.split("/")[-1] if "/" in repo_url else repo_url
+        if request.repos:
+            # Name every repository of a combined wiki, since file paths start with them
+            repo_url = ", ".join([request.repo_url] + [source.repo_url for source in request.repos])
+            repo_name = f"{len(request.repos) + 1} repositories"
 
         # Determine repository type
         repo_type = request.type
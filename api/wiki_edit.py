@@ -1,6 +1,8 @@
+import asyncio
+import json
 import logging
 import os
-from typing import List, Optional
+from typing import AsyncIterator, Callable, Dict, List, Optional
 from urllib.parse import unquote
 import re
 
@@ -14,12 +16,12 @@ from pydantic import BaseModel, Field
 import jwt
 
 from api.config import get_model_config
-from api.data_pipeline import count_tokens
+from api.data_pipeline import count_tokens, get_file_content
 from api.openai_client import OpenAIClient
 from api.openrouter_client import OpenRouterClient
 from api.bedrock_client import BedrockClient
 from api.rag import RAG
-from api.supabase_storage import download_wiki_cache_from_supabase
+from api.supabase_storage import download_wiki_cache_from_supabase, get_wiki_repo_name
 
 # Unified logging setup
 from api.logging_config import setup_logging
@@ -57,13 +59,15 @@ class WikiEditRequest(BaseModel):
     repo_url: str = Field(..., description="URL of the repository")
     current_page_title: str = Field(..., description="Title of the current wiki page being edited")
     current_page_content: Optional[str] = Field(None, description="Current content of the wiki page (if not provided, will be fetched from wiki cache)")
-    current_page_files: List[str] = Field(..., description="List of files related to this wiki page")
+    current_page_files: List[str] = Field(..., description="Source files the edit is grounded in; their content is sent to the model")
     # Optional: Specific chunk of the wiki page that the user highlighted / pasted into the edit request
     # If this is provided, the model should ONLY modify this chunk and leave the rest of the document untouched.
     highlighted_content: Optional[str] = Field(None, description="Exact chunk of the wiki page that the user wants to modify exclusively")
     edit_request: str = Field(..., description="The user's editing request or instruction")
     token: Optional[str] = Field(None, description="Personal access token for private repositories")
     type: Optional[str] = Field("github", description="Type of repository")
+    ref: Optional[str] = Field(None, description="Branch, tag or commit of the repository; the default branch when omitted")
+    path: Optional[str] = Field(None, description="Subdirectory of the repository to cover; the whole repository when omitted")
 
     # model parameters
     provider: str = Field("google", description="Model provider")
@@ -87,6 +91,147 @@ class WikiEditRequest(BaseModel):
 
 SUPABASE_JWT_SECRET = os.getenv("SUPABASE_JWT_SECRET")
 
+# Limits on the source files included in the prompt
+MAX_SOURCE_FILES = 12
+MAX_SOURCE_FILE_CHARS = 20000
+
+async def load_source_files(request: WikiEditRequest) -> Dict[str, str]:
+    """Fetch the content of the page's source files, skipping the ones that cannot be read"""
+    paths = list(dict.fromkeys(path.strip() for path in request.current_page_files if path.strip()))
+    if len(paths) > MAX_SOURCE_FILES:
+        logger.warning(f"Only the first {MAX_SOURCE_FILES} of {len(paths)} source files are included")
+        paths = paths[:MAX_SOURCE_FILES]
+
+    async def load(path: str) -> Optional[str]:
+        try:
+            content = await asyncio.to_thread(get_file_content, request.repo_url, path, request.type or "github", request.token)
+        except Exception as e:
+            logger.warning(f"Could not load source file {path}: {e}")
+            return None
+        if len(content) > MAX_SOURCE_FILE_CHARS:
+            content = content[:MAX_SOURCE_FILE_CHARS] + "\n... [truncated]"
+        return content
+
+    contents = await asyncio.gather(*(load(path) for path in paths))
+    return {path: content for path, content in zip(paths, contents) if content is not None}
+
+def resolve_model(provider: Optional[str], model_name: Optional[str]):
+    """Provider and model to use, falling back to the defaults from the config"""
+    provider = (provider or "google").strip() or "google"
+
+    # If model not specified, get default from config for this provider
+    if model_name is None or model_name.strip() == "":
+        try:
+            provider_config = get_model_config(provider, None)
+            model_name = provider_config.get("default_model") if isinstance(provider_config, dict) else None
+        except Exception:
+            model_name = None
+
+    return provider, model_name
+
+def create_completion(provider: str, model_name: Optional[str], prompt: str) -> Callable[[], AsyncIterator[str]]:
+    """Set up the model of a provider for `prompt` and return a function that streams the completion"""
+    model_config = get_model_config(provider, model_name)["model_kwargs"]
+
+    if provider == "ollama":
+        prompt += " /no_think"
+        model = OllamaClient()
+        model_kwargs = {
+            "model": model_config["model"],
+            "stream": True,
+            "options": {
+                "temperature": model_config["temperature"],
+                "top_p": model_config["top_p"],
+                "num_ctx": model_config["num_ctx"]
+            }
+        }
+        api_kwargs = model.convert_inputs_to_api_kwargs(
+            input=prompt, model_kwargs=model_kwargs, model_type=ModelType.LLM
+        )
+    elif provider == "openrouter":
+        if not os.environ.get("OPENROUTER_API_KEY"):
+            logger.warning("OPENROUTER_API_KEY not set")
+        model = OpenRouterClient()
+        model_kwargs = {
+            "model": model_name,
+            "stream": True,
+            "temperature": model_config["temperature"],
+            "top_p": model_config["top_p"]
+        }
+        api_kwargs = model.convert_inputs_to_api_kwargs(
+            input=prompt, model_kwargs=model_kwargs, model_type=ModelType.LLM
+        )
+    elif provider == "openai":
+        if not os.environ.get("OPENAI_API_KEY"):
+            logger.warning("OPENAI_API_KEY not set")
+        model = OpenAIClient()
+        model_kwargs = {
+            "model": model_name,
+            "stream": True,
+            "temperature": model_config["temperature"],
+            "top_p": model_config["top_p"]
+        }
+        api_kwargs = model.convert_inputs_to_api_kwargs(
+            input=prompt, model_kwargs=model_kwargs, model_type=ModelType.LLM
+        )
+    elif provider == "bedrock":
+        if not os.environ.get("AWS_ACCESS_KEY_ID") or not os.environ.get("AWS_SECRET_ACCESS_KEY"):
+            logger.warning("AWS credentials not set")
+        model = BedrockClient()
+        model_kwargs = {
+            "model": model_name,
+            "temperature": model_config["temperature"],
+            "top_p": model_config["top_p"]
+        }
+        api_kwargs = model.convert_inputs_to_api_kwargs(
+            input=prompt, model_kwargs=model_kwargs, model_type=ModelType.LLM
+        )
+    else:
+        model = genai.GenerativeModel(
+            model_name=model_config["model"],
+            generation_config={
+                "temperature": model_config["temperature"],
+                "top_p": model_config["top_p"],
+                "top_k": model_config["top_k"]
+            }
+        )
+
+    async def stream():
+        if provider in ["ollama", "openrouter", "openai", "bedrock"]:
+            response = await model.acall(api_kwargs=api_kwargs, model_type=ModelType.LLM)
+            if provider == "ollama":
+                async for chunk in response:
+                    text = getattr(chunk, 'response', None) or getattr(chunk, 'text', None) or str(chunk)
+                    if text and not text.startswith('model=') and not text.startswith('created_at='):
+                        text = text.replace('<think>', '').replace('</think>', '')
+                        yield text
+            elif provider == "openai":
+                async for chunk in response:
+                    choices = getattr(chunk, "choices", [])
+                    if len(choices) > 0:
+                        delta = getattr(choices[0], "delta", None)
+                        if delta is not None:
+                            text = getattr(delta, "content", None)
+                            if text is not None:
+                                yield text
+            else:
+                async for chunk in response:
+                    yield chunk
+        else:
+            response = model.generate_content(prompt, stream=True)
+            for chunk in response:
+                if hasattr(chunk, 'text'):
+                    yield chunk.text
+
+    return stream
+
+async def complete(provider: str, model_name: Optional[str], prompt: str) -> str:
+    """Run `prompt` to completion and return the whole text"""
+    text = ""
+    async for chunk in create_completion(provider, model_name, prompt)():
+        text += chunk
+    return text
+
 @app.post("/edit/suggestions")
 async def get_wiki_edit_suggestions(request_data: WikiEditRequest, http_request: FastAPIRequest):
     """Generate AI-powered editing suggestions for wiki pages using RAG"""
@@ -111,20 +256,7 @@ async def get_wiki_edit_suggestions(request_data: WikiEditRequest, http_request:
     request.user_id = user_id
 
     try:
-        # Normalize provider and model defaults
-        provider = (request.provider or "google").strip()
-        if provider == "":
-            provider = "google"
-
-        # If model not specified, get default from config for this provider
-        if request.model is None or request.model.strip() == "":
-            try:
-                provider_config = get_model_config(provider, None)
-                request.model = provider_config.get("default_model") if isinstance(provider_config, dict) else None
-            except Exception:
-                request.model = None
-
-        request.provider = provider
+        request.provider, request.model = resolve_model(request.provider, request.model)
 
         # -----------------------------
         # Retrieve full wiki content from Supabase cache
@@ -144,7 +276,9 @@ async def get_wiki_edit_suggestions(request_data: WikiEditRequest, http_request:
 
             owner, repo = _extract_owner_repo(request.repo_url)
             if owner and repo:
-                wiki_cache = await download_wiki_cache_from_supabase(owner, repo, request.type or 'github', request.language or 'en')
+                wiki_cache = await download_wiki_cache_from_supabase(
+                    owner, get_wiki_repo_name(repo, request.ref, request.path), request.type or 'github', request.language or 'en'
+                )
                 if wiki_cache:
                     pages_content = []
                     fetched_current_page_content = None
@@ -187,8 +321,14 @@ async def get_wiki_edit_suggestions(request_data: WikiEditRequest, http_request:
         except Exception as wiki_err:
             logger.warning(f"Failed to retrieve full wiki content from Supabase: {wiki_err}")
 
+        source_files = await load_source_files(request)
+        logger.info(f"Loaded {len(source_files)} of {len(request.current_page_files)} source files")
+        source_files_text = "\n\n".join(
+            f"<source_file path=\"{path}\">\n{content}\n</source_file>" for path, content in source_files.items()
+        )
+
         # Include highlighted_content in token counting so we warn on very large requests
-        total_content = (request.current_page_content or "") + (request.highlighted_content or "") + request.edit_request + (request.entire_wiki_content or "")
+        total_content = (request.current_page_content or "") + (request.highlighted_content or "") + request.edit_request + (request.entire_wiki_content or "") + source_files_text
         tokens = count_tokens(total_content, request.provider == "ollama")
         logger.info(f"Wiki edit request size: {tokens} tokens")
 
@@ -222,7 +362,7 @@ async def get_wiki_edit_suggestions(request_data: WikiEditRequest, http_request:
             if request.included_files:
                 included_files = [unquote(file_pattern) for file_pattern in request.included_files.split('\n') if file_pattern.strip()]
 
-            request_rag.prepare_retriever(request.repo_url, request.type, request.token, excluded_dirs, excluded_files, included_dirs, included_files)
+            request_rag.prepare_retriever(request.repo_url, request.type, request.token, excluded_dirs, excluded_files, included_dirs, included_files, ref=request.ref, path=request.path)
             rag_available = True
             logger.info(f"RAG retriever prepared for wiki editing: {request.repo_url}")
         except Exception as e:
@@ -332,7 +472,9 @@ IMPORTANT: Be very strict with irrelevant and off-topic queries. If a user's que
 
 <guidelines>
 - You are editing a wiki page titled: "{request.current_page_title}"
-- The page primarily covers these files: {', '.join(request.current_page_files)}
+- The page primarily covers these files: {', '.join(request.current_page_files) or 'none selected'}
+- The content of these files is provided in <source_files>; ground every change in it first, then in the codebase context
+- For every change, cite the source files it relied on by their exact paths. Only cite files whose content you were given
 - The current page the user wants to edit on is provided here: "{request.current_page_content}"
 - Use the current page content and read the user prompt thoroughly to understand exactly where and what the edit is supposed to implement
 - Use the current page content and the user query to target exactly where the user wants to edit and implement the best edit possible at that location
@@ -360,7 +502,7 @@ IMPORTANT: Be very strict with irrelevant and off-topic queries. If a user's que
 If the query is relevant, return exactly two top-level markdown sections in this order:
 
 ### Editing Suggestions
-* List each change with **What to change** [Specficic Description of the change] and **Why** [Rational based on Codebase and Wiki] bullets.
+* List each change with **What to change** [Specficic Description of the change], **Why** [Rational based on Codebase and Wiki] and **Sources** [Comma-separated paths of the files the change relied on, each in backticks, or `none`] bullets.
 
 ### Revised Document
 The complete revised markdown for the entire page **after** applying every suggestion above.
@@ -384,6 +526,9 @@ No extra prose before or after these sections.
         if request.entire_wiki_content:
             full_prompt += f"<full_wiki_context>\n{request.entire_wiki_content}\n</full_wiki_context>\n\n"
 
+        if source_files_text:
+            full_prompt += f"<source_files>\n{source_files_text}\n</source_files>\n\n"
+
         if context_text.strip():
             full_prompt += f"<codebase_context>\n{context_text}\n</codebase_context>\n\n"
         else:
@@ -419,103 +564,15 @@ No extra prose before or after these sections.
 
         full_prompt += f"<user_memory>\n{user_memory_snippets}\n</user_memory>\n\n"
 
-        model_config = get_model_config(request.provider, request.model)["model_kwargs"]
-
-        if request.provider == "ollama":
-            full_prompt += " /no_think"
-            model = OllamaClient()
-            model_kwargs = {
-                "model": model_config["model"],
-                "stream": True,
-                "options": {
-                    "temperature": model_config["temperature"],
-                    "top_p": model_config["top_p"],
-                    "num_ctx": model_config["num_ctx"]
-                }
-            }
-            api_kwargs = model.convert_inputs_to_api_kwargs(
-                input=full_prompt, model_kwargs=model_kwargs, model_type=ModelType.LLM
-            )
-        elif request.provider == "openrouter":
-            if not os.environ.get("OPENROUTER_API_KEY"):
-                logger.warning("OPENROUTER_API_KEY not set")
-            model = OpenRouterClient()
-            model_kwargs = {
-                "model": request.model,
-                "stream": True,
-                "temperature": model_config["temperature"],
-                "top_p": model_config["top_p"]
-            }
-            api_kwargs = model.convert_inputs_to_api_kwargs(
-                input=full_prompt, model_kwargs=model_kwargs, model_type=ModelType.LLM
-            )
-        elif request.provider == "openai":
-            if not os.environ.get("OPENAI_API_KEY"):
-                logger.warning("OPENAI_API_KEY not set")
-            model = OpenAIClient()
-            model_kwargs = {
-                "model": request.model,
-                "stream": True,
-                "temperature": model_config["temperature"],
-                "top_p": model_config["top_p"]
-            }
-            api_kwargs = model.convert_inputs_to_api_kwargs(
-                input=full_prompt, model_kwargs=model_kwargs, model_type=ModelType.LLM
-            )
-        elif request.provider == "bedrock":
-            if not os.environ.get("AWS_ACCESS_KEY_ID") or not os.environ.get("AWS_SECRET_ACCESS_KEY"):
-                logger.warning("AWS credentials not set")
-            model = BedrockClient()
-            model_kwargs = {
-                "model": request.model,
-                "temperature": model_config["temperature"],
-                "top_p": model_config["top_p"]
-            }
-            api_kwargs = model.convert_inputs_to_api_kwargs(
-                input=full_prompt, model_kwargs=model_kwargs, model_type=ModelType.LLM
-            )
-        else:
-            model = genai.GenerativeModel(
-                model_name=model_config["model"],
-                generation_config={
-                    "temperature": model_config["temperature"],
-                    "top_p": model_config["top_p"],
-                    "top_k": model_config["top_k"]
-                }
-            )
+        stream_completion = create_completion(request.provider, request.model, full_prompt)
 
         async def response_stream():
             try:
-                if request.provider in ["ollama", "openrouter", "openai", "bedrock"]:
-                    response = await model.acall(api_kwargs=api_kwargs, model_type=ModelType.LLM)
-                    if request.provider == "ollama":
-                        async for chunk in response:
-                            text = getattr(chunk, 'response', None) or getattr(chunk, 'text', None) or str(chunk)
-                            if text and not text.startswith('model=') and not text.startswith('created_at='):
-                                text = text.replace('<think>', '').replace('</think>', '')
-                                yield text
-                    elif request.provider == "openai":
-                        async for chunk in response:
-                            choices = getattr(chunk, "choices", [])
-                            if len(choices) > 0:
-                                delta = getattr(choices[0], "delta", None)
-                                if delta is not None:
-                                    text = getattr(delta, "content", None)
-                                    if text is not None:
-                                        yield text
-                    else:
-                        async for chunk in response:
-                            yield chunk
-                else:
-                    response = model.generate_content(full_prompt, stream=True)
-                    for chunk in response:
-                        if hasattr(chunk, 'text'):
-                            yield chunk.text
-
+                async for text in stream_completion():
+                    yield text
             except Exception as e:
                 logger.error(f"Error in wiki edit streaming: {str(e)}")
                 yield f"\nError generating suggestions: {str(e)}"
-
         async def final_stream():
             collected_response = ""
             async for chunk in response_stream():
@@ -543,6 +600,188 @@ No extra prose before or after these sections.
         logger.error(error_msg)
         raise HTTPException(status_code=500, detail=error_msg)
 
+# --- Wiki-wide refactors ---
+
+class WikiRefactorRequest(BaseModel):
+    """Model for requesting one change applied across a whole wiki."""
+    owner: str = Field(..., description="Repository owner")
+    repo: str = Field(..., description="Repository name")
+    repo_type: str = Field("github", description="Type of repository")
+    language: str = Field("en", description="Language of the wiki")
+    ref: Optional[str] = Field(None, description="Branch, tag or commit of the wiki; the default branch when omitted")
+    path: Optional[str] = Field(None, description="Subdirectory the wiki documents; the whole repository when omitted")
+    instruction: str = Field(..., description="Change to make across the wiki")
+    include_structure: bool = Field(False, description="Whether sections may be reorganized")
+    provider: str = Field("google", description="Model provider")
+    model: Optional[str] = Field(None, description="Model name for the specified provider")
+
+class RefactorSection(BaseModel):
+    id: str
+    title: str
+    pages: List[str]
+    subsections: Optional[List[str]] = None
+
+class RefactorStructure(BaseModel):
+    sections: List[RefactorSection]
+    rootSections: List[str]
+
+# Most pages rewritten by one refactor, and how much of each page the planner reads
+MAX_REFACTOR_PAGES = 25
+MAX_PLAN_PAGE_CHARS = 6000
+
+def _strip_code_fence(text: str) -> str:
+    """Remove a fence the model wrapped its whole answer in"""
+    match = re.match(r"^\s*```(?:markdown|md|json)?\n([\s\S]*?)\n```\s*$", text)
+    return match.group(1) if match else text.strip()
+
+def _parse_refactor_plan(text: str) -> dict:
+    """The JSON object in the planner's answer"""
+    text = _strip_code_fence(text)
+    start, end = text.find("{"), text.rfind("}")
+    if start < 0 or end < start:
+        raise ValueError("The plan is not a JSON object")
+    return json.loads(text[start:end + 1])
+
+def _validate_structure(value, page_ids: set) -> RefactorStructure:
+    """Check that a proposed structure only uses known pages and sections that exist"""
+    structure = RefactorStructure.model_validate(value)
+    section_ids = [section.id for section in structure.sections]
+    if len(set(section_ids)) != len(section_ids):
+        raise ValueError("Section ids are not unique")
+    for section in structure.sections:
+        unknown_pages = [page for page in section.pages if page not in page_ids]
+        if unknown_pages:
+            raise ValueError(f"Section {section.id} lists unknown pages: {', '.join(unknown_pages)}")
+        if any(sub not in section_ids for sub in section.subsections or []):
+            raise ValueError(f"Section {section.id} lists unknown subsections")
+    if not structure.rootSections or any(root not in section_ids for root in structure.rootSections):
+        raise ValueError("Root sections must be existing sections")
+    return structure
+
+@app.post("/edit/refactor")
+async def refactor_wiki(request: WikiRefactorRequest):
+    """
+    Apply one instruction across a wiki. Streams newline-delimited JSON events: a "plan" with the
+    pages to change (and the old and new sections when reorganizing), a "page" event with the old and
+    new content of each rewritten page, then "done". Nothing is saved; the client reviews the changes first.
+    """
+    if not request.instruction.strip():
+        raise HTTPException(status_code=400, detail="The instruction is empty")
+
+    wiki_cache = await download_wiki_cache_from_supabase(
+        request.owner, get_wiki_repo_name(request.repo, request.ref, request.path), request.repo_type, request.language
+    )
+    if not wiki_cache:
+        raise HTTPException(status_code=404, detail="Wiki not found")
+
+    structure = wiki_cache.get("wiki_structure") or {}
+    generated_pages = wiki_cache.get("generated_pages") or {}
+    pages = {
+        page["id"]: {**page, "content": (generated_pages.get(page["id"]) or {}).get("content") or page.get("content") or ""}
+        for page in structure.get("pages", [])
+    }
+    provider, model_name = resolve_model(request.provider, request.model)
+
+    current_structure = {
+        "sections": structure.get("sections", []),
+        "rootSections": structure.get("rootSections", []),
+    }
+    outline = json.dumps(current_structure, indent=2)
+    pages_text = "\n\n".join(
+        f"<page id=\"{page_id}\" title=\"{page['title']}\">\n{page['content'][:MAX_PLAN_PAGE_CHARS]}\n</page>"
+        for page_id, page in pages.items()
+    )
+    structure_task = (
+        "You may also reorganize the sections. If the instruction calls for it, set \"structure\" to the complete new "
+        "\"sections\" and \"rootSections\" in the format of <structure>, using only existing page ids; otherwise set it to null."
+        if request.include_structure else "Do not change the sections; set \"structure\" to null."
+    )
+    plan_prompt = f"""You are planning a change across every page of a documentation wiki titled "{structure.get('title', '')}".
+
+<instruction>
+{request.instruction}
+</instruction>
+
+<structure>
+{outline}
+</structure>
+
+<pages>
+{pages_text}
+</pages>
+
+List every page whose content must change to carry out the instruction, at most {MAX_REFACTOR_PAGES}, with a short reason for each. Leave out pages that need no change. {structure_task}
+
+Answer with a single JSON object and nothing else:
+{{"summary": "<one sentence describing the change>", "pages": [{{"id": "<page id>", "reason": "<what changes on this page>"}}], "structure": null}}"""
+
+    async def events():
+        def event(data: dict) -> str:
+            return json.dumps(data) + "\n"
+
+        try:
+            plan = _parse_refactor_plan(await complete(provider, model_name, plan_prompt))
+        except Exception as e:
+            logger.error(f"Error planning wiki refactor: {e}")
+            yield event({"type": "error", "error": f"Could not plan the change: {e}"})
+            return
+
+        planned = []
+        for item in plan.get("pages") or []:
+            page_id = item.get("id") if isinstance(item, dict) else None
+            if page_id in pages and page_id not in (p["id"] for p in planned):
+                planned.append({"id": page_id, "title": pages[page_id]["title"], "reason": str(item.get("reason") or "")})
+        planned = planned[:MAX_REFACTOR_PAGES]
+
+        new_structure = None
+        if request.include_structure and plan.get("structure"):
+            try:
+                new_structure = _validate_structure(plan["structure"], set(pages)).model_dump(exclude_none=True)
+            except Exception as e:
+                logger.warning(f"Ignoring invalid structure in refactor plan: {e}")
+                yield event({"type": "warning", "message": f"The proposed sections were not valid and were left out: {e}"})
+
+        yield event({
+            "type": "plan",
+            "revision": wiki_cache.get("revision", 0),
+            "summary": str(plan.get("summary") or ""),
+            "pages": planned,
+            "structure": {"before": current_structure, "after": new_structure} if new_structure else None,
+        })
+
+        other_titles = ", ".join(f"\"{page['title']}\"" for page in pages.values())
+        for item in planned:
+            page = pages[item["id"]]
+            page_prompt = f"""You are editing one page of a documentation wiki as part of a change made across the whole wiki.
+
+<instruction>
+{request.instruction}
+</instruction>
+
+<change_on_this_page>
+{item['reason']}
+</change_on_this_page>
+
+The wiki has these pages: {other_titles}
+
+<page title="{page['title']}">
+{page['content']}
+</page>
+
+Rewrite the page to carry out the instruction. Change only what the instruction requires and keep everything else, including markdown structure, code blocks and diagrams, exactly as it is. Answer with the complete revised markdown of the page and nothing else."""
+            try:
+                revised = _strip_code_fence(await complete(provider, model_name, page_prompt))
+            except Exception as e:
+                logger.warning(f"Error rewriting page {item['id']} in refactor: {e}")
+                yield event({"type": "page_error", "id": item["id"], "error": str(e)})
+                continue
+            if revised and revised != page["content"].strip():
+                yield event({"type": "page", **item, "before": page["content"], "after": revised})
+
+        yield event({"type": "done"})
+
+    return StreamingResponse(events(), media_type="application/x-ndjson")
+
 @app.get("/")
 async def root():
     """Root endpoint to check if the Wiki Edit API is running"""
@@ -0,0 +1,283 @@
+"""
+Search over the content of cached wikis.
+
+Pages are split at their headings so a result can point at the part of the page that matched.
+Full-text search ranks the sections containing every query term, counting matches in page titles
+and source file paths as well; semantic search ranks sections by the similarity of their embedding
+to the query's. Section embeddings are kept in memory per wiki revision.
+"""
+
+import asyncio
+import logging
+import re
+from dataclasses import dataclass
+from typing import Any, Dict, List, Literal, Optional, Tuple
+
+import numpy as np
+from pydantic import BaseModel, Field
+
+from api.config import is_ollama_embedder
+from api.tools.embedder import get_embedder
+
+logger = logging.getLogger(__name__)
+
+SearchMode = Literal["text", "semantic"]
+
+# Characters of context shown around a match
+SNIPPET_CHARS = 180
+# Characters of a section embedded for semantic search
+MAX_EMBEDDED_CHARS = 2000
+EMBEDDING_BATCH_SIZE = 64
+
+# Score of a query term found in the page title, in a source file path or in a heading,
+# relative to one occurrence in the text
+TITLE_WEIGHT = 5.0
+FILE_WEIGHT = 3.0
+HEADING_WEIGHT = 2.0
+PHRASE_WEIGHT = 4.0
+
+
+class WikiSearchHit(BaseModel):
+    """A section of a wiki page matching a search."""
+    owner: str
+    repo: str
+    repo_type: str
+    language: str
+    ref: Optional[str] = Field(None, description="Branch, tag or commit of the wiki; None for the default branch")
+    path: Optional[str] = Field(None, description="Subdirectory the wiki documents; None for the whole repository")
+    page_id: str
+    page_title: str
+    heading: Optional[str] = Field(None, description="Heading of the matching section; None for the text before the first heading")
+    snippet: str
+    highlights: List[Tuple[int, int]] = Field(default_factory=list, description="Start and end offsets of the matches in the snippet")
+    file: Optional[str] = Field(None, description="Source file path that matched the query")
+    match: Literal["title", "file", "content", "semantic"]
+    score: float
+
+
+@dataclass
+class PageSection:
+    page_id: str
+    page_title: str
+    file_paths: List[str]
+    heading: Optional[str]
+    text: str
+
+
+HEADING_LINE = re.compile(r"^(#{1,4})\s+(.+?)\s*#*\s*$")
+FENCE_LINE = re.compile(r"^\s*(```|~~~)")
+
+
+def _plain_text(markdown: str) -> str:
+    """Markdown reduced to the text a reader sees, on one line."""
+    text = re.sub(r"!\[([^\]]*)\]\([^)]*\)", r"\1", markdown)
+    text = re.sub(r"\[([^\]]*)\]\([^)]*\)", r"\1", text)
+    text = re.sub(r"<[^>]+>", " ", text)
+    text = re.sub(r"[*_`>|]+", " ", text)
+    return re.sub(r"\s+", " ", text).strip()
+
+
+def split_page(page: Dict[str, Any]) -> List[PageSection]:
+    """Splits a page at its headings; headings inside code blocks are left alone."""
+    sections: List[PageSection] = []
+    heading: Optional[str] = None
+    lines: List[str] = []
+    in_code = False
+
+    def flush():
+        text = _plain_text("\n".join(lines))
+        if text or heading:
+            sections.append(PageSection(page["id"], page.get("title", ""), page.get("filePaths", []), heading, text))
+
+    for line in (page.get("content") or "").splitlines():
+        if FENCE_LINE.match(line):
+            in_code = not in_code
+            continue
+        match = None if in_code else HEADING_LINE.match(line)
+        if match:
+            flush()
+            heading = _plain_text(match.group(2))
+            lines = []
+        else:
+            lines.append(line)
+    flush()
+    return sections
+
+
+def _terms(query: str) -> List[str]:
+    return list(dict.fromkeys(term for term in re.findall(r"[\w./-]+", query.lower()) if len(term) > 1))
+
+
+def _occurrences(text: str, term: str) -> List[int]:
+    return [m.start() for m in re.finditer(re.escape(term), text.lower())]
+
+
+def _snippet(text: str, terms: List[str]) -> Tuple[str, List[Tuple[int, int]]]:
+    """Text around the first match, with the offsets of every match inside it."""
+    lower = text.lower()
+    positions = [pos for pos in (lower.find(term) for term in terms) if pos >= 0]
+    first = min(positions) if positions else 0
+    start = max(0, first - SNIPPET_CHARS // 3)
+    end = min(len(text), start + SNIPPET_CHARS)
+    # Start and end on word boundaries
+    if start > 0:
+        space = text.find(" ", start)
+        start = space + 1 if 0 <= space < first else start
+    if end < len(text):
+        space = text.rfind(" ", start, end)
+        end = space if space > first else end
+    prefix = "…" if start > 0 else ""
+    snippet = prefix + text[start:end] + ("…" if end < len(text) else "")
+
+    highlights: List[Tuple[int, int]] = []
+    for term in terms:
+        for pos in _occurrences(snippet, term):
+            highlights.append((pos, pos + len(term)))
+    highlights.sort()
+    # Merge overlapping matches of different terms
+    merged: List[Tuple[int, int]] = []
+    for begin, finish in highlights:
+        if merged and begin <= merged[-1][1]:
+            merged[-1] = (merged[-1][0], max(merged[-1][1], finish))
+        else:
+            merged.append((begin, finish))
+    return snippet, merged
+
+
+def _hit(key: Dict[str, Optional[str]], section: PageSection, terms: List[str], match: str, score: float, file: Optional[str] = None) -> WikiSearchHit:
+    snippet, highlights = _snippet(section.text, terms)
+    return WikiSearchHit(
+        **key,
+        page_id=section.page_id,
+        page_title=section.page_title,
+        heading=section.heading,
+        snippet=snippet,
+        highlights=highlights,
+        file=file,
+        match=match,
+        score=round(score, 4),
+    )
+
+
+def _wiki_pages(data: Dict[str, Any]) -> List[Dict[str, Any]]:
+    """Generated pages of a wiki, in the order of its structure."""
+    generated = data.get("generated_pages") or {}
+    order = [page["id"] for page in (data.get("wiki_structure") or {}).get("pages", [])]
+    ids = [page_id for page_id in order if page_id in generated] + [page_id for page_id in generated if page_id not in order]
+    return [{**generated[page_id], "id": page_id} for page_id in ids]
+
+
+def search_text(wikis: List[Tuple[Dict[str, Optional[str]], Dict[str, Any]]], query: str, limit: int) -> List[WikiSearchHit]:
+    """
+    Best matching section of every page containing all the query terms, best first.
+
+    Args:
+        wikis: Key (owner, repo, repo_type, language) and cache data of each wiki searched
+        query: Words to find; a page matches when each appears in its title, file paths or content
+        limit: Maximum number of results
+    """
+    terms = _terms(query)
+    if not terms:
+        return []
+    phrase = query.strip().lower()
+
+    hits: List[WikiSearchHit] = []
+    for key, data in wikis:
+        for page in _wiki_pages(data):
+            sections = split_page(page)
+            if not sections:
+                continue
+            title = page.get("title", "").lower()
+            files = page.get("filePaths", [])
+            page_text = " ".join([title, *(f.lower() for f in files), *(f"{s.heading or ''} {s.text}".lower() for s in sections)])
+            if not all(term in page_text for term in terms):
+                continue
+
+            title_score = sum(TITLE_WEIGHT for term in terms if term in title)
+            matched_file = next((f for f in files if any(term in f.lower() for term in terms)), None)
+            file_score = sum(FILE_WEIGHT for term in terms if any(term in f.lower() for f in files))
+
+            def section_score(section: PageSection) -> float:
+                heading = (section.heading or "").lower()
+                text = section.text.lower()
+                score = sum(HEADING_WEIGHT for term in terms if term in heading)
+                # Repeated occurrences count less and less
+                score += sum(min(len(_occurrences(text, term)), 5) ** 0.5 for term in terms)
+                if len(terms) > 1 and phrase in f"{heading} {text}":
+                    score += PHRASE_WEIGHT
+                return score
+
+            best = max(sections, key=section_score)
+            content_score = section_score(best)
+            match = "content" if content_score >= max(title_score, file_score) else ("title" if title_score >= file_score else "file")
+            hits.append(_hit(key, best, terms, match, title_score + file_score + content_score, matched_file if match == "file" else None))
+
+    hits.sort(key=lambda hit: hit.score, reverse=True)
+    return hits[:limit]
+
+
+# Section embeddings of each wiki, kept until the wiki is saved again
+_embedding_cache: Dict[str, Tuple[int, List[PageSection], np.ndarray]] = {}
+_embedding_locks: Dict[str, asyncio.Lock] = {}
+
+
+def _embed(texts: List[str]) -> np.ndarray:
+    """Normalized embeddings of some texts, one row per text."""
+    embedder = get_embedder(is_local_ollama=is_ollama_embedder())
+    vectors: List[List[float]] = []
+    if is_ollama_embedder():
+        # The Ollama client embeds one text per call
+        for text in texts:
+            vectors.extend(item.embedding for item in embedder(input=text).data)
+    else:
+        for start in range(0, len(texts), EMBEDDING_BATCH_SIZE):
+            vectors.extend(item.embedding for item in embedder(input=texts[start:start + EMBEDDING_BATCH_SIZE]).data)
+    matrix = np.array(vectors, dtype=np.float32)
+    norms = np.linalg.norm(matrix, axis=1, keepdims=True)
+    return matrix / np.where(norms == 0, 1, norms)
+
+
+async def _wiki_embeddings(key: Dict[str, Optional[str]], data: Dict[str, Any]) -> Tuple[List[PageSection], np.ndarray]:
+    cache_key = "_".join([key["repo_type"], key["owner"], key["repo"], key["language"], key.get("ref") or "", key.get("path") or ""])
+    revision = data.get("revision", 0)
+    async with _embedding_locks.setdefault(cache_key, asyncio.Lock()):
+        cached = _embedding_cache.get(cache_key)
+        if cached and cached[0] == revision:
+            return cached[1], cached[2]
+
+        sections = [section for page in _wiki_pages(data) for section in split_page(page)]
+        texts = [f"{s.page_title} - {s.heading or s.page_title}\n{s.text[:MAX_EMBEDDED_CHARS]}" for s in sections]
+        logger.info(f"Embedding {len(sections)} sections of {cache_key} at revision {revision}")
+        vectors = await asyncio.to_thread(_embed, texts) if texts else np.zeros((0, 0), dtype=np.float32)
+        _embedding_cache[cache_key] = (revision, sections, vectors)
+        return sections, vectors
+
+
+async def search_semantic(wikis: List[Tuple[Dict[str, Optional[str]], Dict[str, Any]]], query: str, limit: int) -> List[WikiSearchHit]:
+    """
+    Sections closest in meaning to the query, best first, with at most one result per page.
+
+    Args:
+        wikis: Key (owner, repo, repo_type, language) and cache data of each wiki searched
+        query: Question or description of what to find
+        limit: Maximum number of results
+    """
+    if not query.strip():
+        return []
+    query_vector = (await asyncio.to_thread(_embed, [query]))[0]
+    terms = _terms(query)
+
+    best: Dict[Tuple[str, str], WikiSearchHit] = {}
+    for key, data in wikis:
+        sections, vectors = await _wiki_embeddings(key, data)
+        if len(sections) == 0:
+            continue
+        scores = vectors @ query_vector
+        for index in np.argsort(-scores)[:limit]:
+            section = sections[int(index)]
+            page_key = (str(key), section.page_id)
+            score = float(scores[int(index)])
+            if page_key not in best or best[page_key].score < score:
+                best[page_key] = _hit(key, section, terms, "semantic", score)
+
+    return sorted(best.values(), key=lambda hit: hit.score, reverse=True)[:limit]
@@ -39,6 +39,26 @@ const nextConfig: NextConfig = {
         source: '/api/wiki_cache/:path*',
         destination: `${TARGET_SERVER_BASE_URL}/api/wiki_cache/:path*`,
       },
+      {
+        source: '/api/wiki_versions/:path*',
+        destination: `${TARGET_SERVER_BASE_URL}/api/wiki_versions/:path*`,
+      },
+      {
+        source: '/api/wiki_versions',
+        destination: `${TARGET_SERVER_BASE_URL}/api/wiki_versions`,
+      },
+      {
+        source: '/api/wiki_comments/:path*',
+        destination: `${TARGET_SERVER_BASE_URL}/api/wiki_comments/:path*`,
+      },
+      {
+        source: '/api/wiki_comments',
+        destination: `${TARGET_SERVER_BASE_URL}/api/wiki_comments`,
+      },
+      {
+        source: '/api/wiki_search',
+        destination: `${TARGET_SERVER_BASE_URL}/api/wiki_search`,
+      },
       {
         source: '/export/wiki/:path*',
         destination: `${TARGET_SERVER_BASE_URL}/export/wiki/:path*`,
@@ -51,6 +71,14 @@ const nextConfig: NextConfig = {
         source: '/local_repo/structure',
         destination: `${TARGET_SERVER_BASE_URL}/local_repo/structure`,
       },
+      {
+        source: '/local_repo/changes',
+        destination: `${TARGET_SERVER_BASE_URL}/local_repo/changes`,
+      },
+      {
+        source: '/local_repo/file',
+        destination: `${TARGET_SERVER_BASE_URL}/local_repo/file`,
+      },
     ];
   },
 };
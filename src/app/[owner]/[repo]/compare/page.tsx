@@ -0,0 +1,454 @@
+'use client';
+
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { useParams, useSearchParams } from 'next/navigation';
+import Link from 'next/link';
+import { FaArrowLeft, FaExchangeAlt, FaMagic, FaSpinner } from 'react-icons/fa';
+import ThemeToggle from '@/components/theme-toggle';
+import Markdown from '@/components/Markdown';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { useProcessedProjects } from '@/hooks/useProcessedProjects';
+import { WikiCacheData, WikiCacheKey } from '@/types/wiki/wikicache';
+import { PageChangeKind, WikiComparison } from '@/types/wiki/wikicompare';
+import { WikiVersion } from '@/types/wiki/wikiversion';
+import getRepoUrl from '@/utils/getRepoUrl';
+import { ChatCompletionRequest } from '@/utils/websocketClient';
+import { collectChatCompletion, isAbortError } from '@/utils/chatStreamClient';
+import { diffLines, DiffRow } from '@/utils/lineDiff';
+import { fetchWikiCache, fetchWikiVersion, fetchWikiVersions } from '@/utils/wikiCacheApi';
+import { compareWikis, describeWikiChanges } from '@/utils/wikiCompare';
+import { buildWikiRouteQuery, parseWikiRouteContext } from '@/utils/wikiRoute';
+
+// A wiki to compare: the cached wiki of a ref, or a saved version of it
+interface WikiVariant {
+  ref: string | null;
+  versionId: string | null;
+}
+
+const variantId = ({ ref, versionId }: WikiVariant) => `${ref ?? ''}#${versionId ?? ''}`;
+
+const ROW_STYLES: Record<DiffRow['type'], { left: string; right: string }> = {
+  same: { left: '', right: '' },
+  removed: { left: 'bg-red-500/15', right: 'bg-[var(--background)]/60' },
+  added: { left: 'bg-[var(--background)]/60', right: 'bg-green-500/15' },
+  changed: { left: 'bg-red-500/15', right: 'bg-green-500/15' },
+};
+
+const KIND_STYLES: Record<PageChangeKind, string> = {
+  added: 'bg-green-500/15 text-green-700 dark:text-green-400',
+  removed: 'bg-red-500/15 text-red-700 dark:text-red-400',
+  changed: 'bg-amber-500/15 text-amber-700 dark:text-amber-400',
+  unchanged: 'bg-[var(--background)] text-[var(--muted)]',
+};
+
+const loadVariant = async (key: WikiCacheKey, { ref, versionId }: WikiVariant): Promise<WikiCacheData | null> => {
+  const variantKey = { ...key, ref: ref ?? undefined };
+  return versionId
+    ? (await fetchWikiVersion(variantKey, versionId)).data
+    : fetchWikiCache(variantKey, { cache: 'no-store' });
+};
+
+/**
+ * Compares two cached variants of a repository's wiki, the wikis of two refs or saved versions of them:
+ * pages are paired and diffed, and the model can summarize the architectural changes as a changelog.
+ * The newer wiki is the one the route points to unless `head_version` is given; `base_ref` and
+ * `base_version` pick the older one.
+ */
+export default function CompareWikisPage() {
+  const params = useParams();
+  const searchParams = useSearchParams();
+  const owner = params.owner as string;
+  const repo = params.repo as string;
+  const { messages } = useLanguage();
+
+  const routeContext = useMemo(
+    () => parseWikiRouteContext(owner, repo, searchParams),
+    [owner, repo, searchParams]
+  );
+  const { repoInfo, language } = routeContext;
+  const providerParam = searchParams.get('provider') || '';
+  const modelParam = searchParams.get('model') || '';
+  const customModelParam = searchParams.get('custom_model') || '';
+
+  // Every variant shares the repository, subdirectory and language; only the ref and version differ
+  const cacheKey = useMemo<WikiCacheKey>(
+    () => ({ owner, repo, repo_type: repoInfo.type, language, ...(repoInfo.path ? { path: repoInfo.path } : {}) }),
+    [owner, repo, repoInfo.type, repoInfo.path, language]
+  );
+
+  const [head, setHead] = useState<WikiVariant>({
+    ref: repoInfo.ref ?? null,
+    versionId: searchParams.get('head_version'),
+  });
+  const [base, setBase] = useState<WikiVariant | null>(
+    searchParams.get('base_ref') !== null || searchParams.get('base_version')
+      ? { ref: searchParams.get('base_ref') || null, versionId: searchParams.get('base_version') }
+      : null
+  );
+
+  const { projects, isLoading: projectsLoading } = useProcessedProjects();
+  // Saved versions of the wiki of each ref, keyed by ref ('' for the default branch)
+  const [versions, setVersions] = useState<Record<string, WikiVersion[]>>({});
+  const [comparison, setComparison] = useState<WikiComparison | null>(null);
+  const [cachedRepoUrl, setCachedRepoUrl] = useState<string | null>(null);
+  const [isComparing, setIsComparing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [selectedPageId, setSelectedPageId] = useState<string | null>(null);
+  const [showUnchanged, setShowUnchanged] = useState(false);
+  const [changelog, setChangelog] = useState('');
+  const [changelogError, setChangelogError] = useState<string | null>(null);
+  const [isGenerating, setIsGenerating] = useState(false);
+  const changelogAbort = useRef<AbortController | null>(null);
+
+  // Refs with a cached wiki, including the ones being compared
+  const refs = useMemo(() => {
+    const cached = projects
+      .filter(p => p.owner === owner && p.repo === repo && p.repo_type === repoInfo.type && p.language === language &&
+        (p.path ?? null) === (repoInfo.path ?? null))
+      .map(p => p.ref ?? null);
+    return [...new Set([head.ref, ...(base ? [base.ref] : []), ...cached])];
+  }, [projects, owner, repo, repoInfo.type, repoInfo.path, language, head.ref, base]);
+
+  const refsKey = refs.join('\n');
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all(refs.map(ref =>
+      fetchWikiVersions({ ...cacheKey, ref: ref ?? undefined })
+        .then(list => [ref ?? '', list] as const)
+        .catch(() => [ref ?? '', []] as const)
+    )).then(entries => {
+      if (!cancelled) setVersions(Object.fromEntries(entries));
+    });
+    return () => {
+      cancelled = true;
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [refsKey, cacheKey]);
+
+  const refLabel = (ref: string | null) => ref || (messages.compare?.defaultBranch || 'default branch');
+  const variantLabel = (variant: WikiVariant) => {
+    if (!variant.versionId) return `${refLabel(variant.ref)} · ${messages.compare?.current || 'current'}`;
+    const version = versions[variant.ref ?? '']?.find(v => v.id === variant.versionId);
+    return version
+      ? `${refLabel(variant.ref)} · ${new Date(version.created_at).toLocaleString()} · ${messages.history?.reasons?.[version.reason] || version.reason}`
+      : `${refLabel(variant.ref)} · ${variant.versionId}`;
+  };
+
+  const options: WikiVariant[] = refs.flatMap(ref => [
+    { ref, versionId: null },
+    ...(versions[ref ?? ''] ?? []).map(version => ({ ref, versionId: version.id })),
+  ]);
+
+  // Compare with another ref by default, or else with the version before the latest save of this one
+  useEffect(() => {
+    if (base || projectsLoading) return;
+    const otherRef = options.find(option => option.ref !== head.ref && !option.versionId);
+    const olderVersion = (versions[head.ref ?? ''] ?? [])[1];
+    if (otherRef) setBase(otherRef);
+    else if (olderVersion) setBase({ ref: head.ref, versionId: olderVersion.id });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [base, projectsLoading, versions, head.ref]);
+
+  const baseId = base ? variantId(base) : null;
+  const headId = variantId(head);
+  useEffect(() => {
+    if (!base) return;
+    let cancelled = false;
+    setIsComparing(true);
+    setError(null);
+    setComparison(null);
+    setChangelog('');
+    setChangelogError(null);
+    changelogAbort.current?.abort();
+    Promise.all([loadVariant(cacheKey, base), loadVariant(cacheKey, head)])
+      .then(([baseData, headData]) => {
+        if (cancelled) return;
+        if (!baseData || !headData) throw new Error(messages.compare?.loadFailed || 'Could not load the wikis to compare');
+        const result = compareWikis(baseData, headData);
+        setComparison(result);
+        setCachedRepoUrl(headData.repo_url ?? baseData.repo_url ?? null);
+        setSelectedPageId(result.pages.find(page => page.kind !== 'unchanged')?.id ?? null);
+      })
+      .catch(err => {
+        if (!cancelled) setError(err instanceof Error ? err.message : String(err));
+      })
+      .finally(() => {
+        if (!cancelled) setIsComparing(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [baseId, headId, cacheKey]);
+
+  useEffect(() => () => changelogAbort.current?.abort(), []);
+
+  const counts = useMemo(() => {
+    const result: Record<PageChangeKind, number> = { added: 0, removed: 0, changed: 0, unchanged: 0 };
+    comparison?.pages.forEach(page => result[page.kind]++);
+    return result;
+  }, [comparison]);
+
+  const selectedPage = comparison?.pages.find(page => page.id === selectedPageId) ?? null;
+  const diffRows = useMemo(
+    () => (selectedPage ? diffLines(selectedPage.base?.content ?? '', selectedPage.head?.content ?? '') : []),
+    [selectedPage]
+  );
+
+  const generateChangelog = async () => {
+    if (!comparison || !base) return;
+    changelogAbort.current?.abort();
+    const controller = new AbortController();
+    changelogAbort.current = controller;
+    setIsGenerating(true);
+    setChangelog('');
+    setChangelogError(null);
+
+    const requestBody: ChatCompletionRequest = {
+      repo_url: getRepoUrl({ ...repoInfo, repoUrl: repoInfo.repoUrl ?? cachedRepoUrl }),
+      type: repoInfo.type,
+      ref: head.ref ?? undefined,
+      path: repoInfo.path || undefined,
+      messages: [{
+        role: 'user',
+        content: `You are writing a changelog for the documentation wiki of ${repoInfo.path ? `the ${repoInfo.path} directory of ` : ''}the ${owner}/${repo} repository. Below are the differences between an older wiki (${variantLabel(base)}) and a newer one (${variantLabel(head)}), each describing the code as it was when the wiki was generated.
+
+<changes>
+${describeWikiChanges(comparison)}
+</changes>
+
+Summarize how the architecture of the project changed: components, modules or services that were added, removed or restructured, changed data flows and interfaces, and new or dropped dependencies. Ignore changes that only reword the documentation. Start with a short overview paragraph, then use a "##" heading per area of change with bullet points, naming the wiki pages each change comes from. If nothing changed architecturally, say so in one or two sentences.`
+      }],
+      language,
+    };
+    if (repoInfo.token) requestBody.token = repoInfo.token;
+    if (providerParam) requestBody.provider = providerParam;
+    if (modelParam) requestBody.model = modelParam;
+    if (customModelParam) requestBody.custom_model = customModelParam;
+
+    try {
+      await collectChatCompletion(requestBody, {
+        label: 'wiki changelog',
+        signal: controller.signal,
+        onChunk: (_chunk, text) => setChangelog(text),
+      });
+    } catch (err) {
+      if (isAbortError(err)) return;
+      console.error('Error generating the wiki changelog:', err);
+      setChangelogError(err instanceof Error ? err.message : String(err));
+    } finally {
+      if (changelogAbort.current === controller) setIsGenerating(false);
+    }
+  };
+
+  const selectVariant = (setVariant: (variant: WikiVariant) => void) => (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const option = options.find(o => variantId(o) === e.target.value);
+    if (option) setVariant(option);
+  };
+
+  const kindLabel = (kind: PageChangeKind) => messages.compare?.[kind] || kind;
+  const visiblePages = comparison?.pages.filter(page => showUnchanged || page.kind !== 'unchanged') ?? [];
+
+  return (
+    <div className="min-h-screen flex flex-col bg-[var(--background)]">
+      {/* Header */}
+      <header className="sticky top-0 z-10 bg-[var(--card-bg)] border-b border-[var(--border-color)] shadow-sm">
+        <div className="container mx-auto px-4 py-3 flex items-center justify-between">
+          <div className="flex items-center space-x-4">
+            <Link
+              href={`/${owner}/${repo}${buildWikiRouteQuery(routeContext)}`}
+              className="flex items-center text-[var(--foreground)] hover:text-[var(--accent-primary)] transition-colors"
+            >
+              <FaArrowLeft className="mr-2" />
+              <span>{messages.compare?.backToWiki || 'Back to Wiki'}</span>
+            </Link>
+            <h1 className="text-xl font-bold text-[var(--accent-primary)]">
+              {messages.compare?.title || 'Compare Wikis'}: {repo}
+            </h1>
+          </div>
+          <ThemeToggle />
+        </div>
+      </header>
+
+      <main className="flex-1 container mx-auto px-4 py-6 space-y-6">
+        {/* Wikis to compare */}
+        <div className="flex flex-col md:flex-row md:items-end gap-3 bg-[var(--card-bg)] border border-[var(--border-color)] rounded-lg shadow-sm p-4">
+          <label className="flex-1 text-sm text-[var(--foreground)]">
+            <span className="block mb-1 font-medium">{messages.compare?.base || 'Older'}</span>
+            <select
+              value={baseId ?? ''}
+              onChange={selectVariant(setBase)}
+              className="input-japanese block w-full px-3 py-2 text-sm rounded-md bg-transparent text-[var(--foreground)] focus:outline-none focus:border-[var(--accent-primary)]"
+            >
+              {!base && <option value="" disabled>—</option>}
+              {options.map(option => (
+                <option key={variantId(option)} value={variantId(option)}>{variantLabel(option)}</option>
+              ))}
+            </select>
+          </label>
+          <button
+            type="button"
+            onClick={() => {
+              if (!base) return;
+              setBase(head);
+              setHead(base);
+            }}
+            disabled={!base}
+            title={messages.compare?.swap || 'Swap'}
+            className="self-center md:self-end p-2.5 rounded-md text-[var(--accent-primary)] bg-[var(--accent-primary)]/10 hover:bg-[var(--accent-primary)]/20 disabled:opacity-50 transition-colors"
+          >
+            <FaExchangeAlt />
+          </button>
+          <label className="flex-1 text-sm text-[var(--foreground)]">
+            <span className="block mb-1 font-medium">{messages.compare?.head || 'Newer'}</span>
+            <select
+              value={headId}
+              onChange={selectVariant(setHead)}
+              className="input-japanese block w-full px-3 py-2 text-sm rounded-md bg-transparent text-[var(--foreground)] focus:outline-none focus:border-[var(--accent-primary)]"
+            >
+              {options.map(option => (
+                <option key={variantId(option)} value={variantId(option)}>{variantLabel(option)}</option>
+              ))}
+            </select>
+          </label>
+        </div>
+
+        {!base && !projectsLoading && options.length < 2 ? (
+          <p className="text-sm text-[var(--muted)]">
+            {messages.compare?.noVariants || 'Only one version of this wiki is cached. Generate it for another branch or tag, or edit it to record versions to compare.'}
+          </p>
+        ) : error ? (
+          <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-md p-4">
+            <h3 className="text-red-800 dark:text-red-400 font-medium mb-2">{messages.common?.error || 'Error'}</h3>
+            <p className="text-red-700 dark:text-red-300">{error}</p>
+          </div>
+        ) : isComparing || !comparison ? (
+          <div className="flex flex-col items-center justify-center p-8">
+            <div className="w-12 h-12 border-4 border-[var(--accent-primary)]/30 border-t-[var(--accent-primary)] rounded-full animate-spin mb-4"></div>
+            <p className="text-[var(--foreground)]">{messages.compare?.comparing || 'Comparing wikis...'}</p>
+          </div>
+        ) : (
+          <>
+            {/* Overview */}
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+              {(['added', 'removed', 'changed', 'unchanged'] as const).map(kind => (
+                <span key={kind} className={`px-2 py-1 rounded-md ${KIND_STYLES[kind]}`}>
+                  {kindLabel(kind)}: {counts[kind]}
+                </span>
+              ))}
+              {comparison.addedSections.length > 0 && (
+                <span className="text-[var(--muted)]">
+                  {messages.compare?.sectionsAdded || 'Sections added'}: {comparison.addedSections.join(', ')}
+                </span>
+              )}
+              {comparison.removedSections.length > 0 && (
+                <span className="text-[var(--muted)]">
+                  {messages.compare?.sectionsRemoved || 'Sections removed'}: {comparison.removedSections.join(', ')}
+                </span>
+              )}
+            </div>
+
+            {/* Changelog */}
+            <div className="bg-[var(--card-bg)] border border-[var(--border-color)] rounded-lg shadow-sm p-6">
+              <div className="flex items-center justify-between gap-4 mb-3">
+                <h2 className="text-lg font-medium text-[var(--accent-primary)]">
+                  {messages.compare?.changelog || 'Architectural Changelog'}
+                </h2>
+                <button
+                  onClick={generateChangelog}
+                  disabled={isGenerating || counts.added + counts.removed + counts.changed === 0}
+                  className="btn-japanese flex items-center gap-2 text-sm px-3 py-1.5 rounded-md disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {isGenerating ? <FaSpinner className="animate-spin" /> : <FaMagic />}
+                  {isGenerating
+                    ? (messages.compare?.generating || 'Writing changelog...')
+                    : (messages.compare?.generateChangelog || 'Generate Changelog')}
+                </button>
+              </div>
+              {changelogError && <p className="text-sm text-[var(--highlight)] mb-2">{changelogError}</p>}
+              {changelog ? (
+                <div className="prose prose-sm max-w-none">
+                  <Markdown content={changelog} />
+                </div>
+              ) : (
+                <p className="text-sm text-[var(--muted)]">
+                  {counts.added + counts.removed + counts.changed === 0
+                    ? (messages.compare?.noChanges || 'The two wikis have the same content.')
+                    : (messages.compare?.changelogHint || 'Let the model summarize how the architecture changed between the two wikis.')}
+                </p>
+              )}
+            </div>
+
+            {/* Pages */}
+            <div className="flex flex-col lg:flex-row min-h-[28rem] bg-[var(--card-bg)] border border-[var(--border-color)] rounded-lg shadow-sm overflow-hidden">
+              <div className="lg:w-72 flex-none border-b lg:border-b-0 lg:border-r border-[var(--border-color)] flex flex-col">
+                <label className="flex items-center gap-2 px-3 py-2 text-xs text-[var(--muted)] border-b border-[var(--border-color)] cursor-pointer">
+                  <input type="checkbox" checked={showUnchanged} onChange={(e) => setShowUnchanged(e.target.checked)} />
+                  {messages.compare?.showUnchanged || 'Show unchanged pages'}
+                </label>
+                <div className="flex-1 overflow-y-auto p-2 space-y-0.5 max-h-[60vh]">
+                  {visiblePages.map(page => (
+                    <button
+                      key={`${page.kind}:${page.id}`}
+                      onClick={() => setSelectedPageId(page.id)}
+                      className={`w-full text-left px-2 py-1.5 rounded text-sm ${selectedPageId === page.id
+                        ? 'bg-[var(--accent-primary)]/10 text-[var(--accent-primary)]'
+                        : 'text-[var(--foreground)] hover:bg-[var(--background)]'}`}
+                    >
+                      <span className="flex items-center gap-2">
+                        <span className="flex-1 truncate">{page.title}</span>
+                        <span className={`flex-none text-[10px] px-1.5 py-0.5 rounded ${KIND_STYLES[page.kind]}`}>
+                          {kindLabel(page.kind)}
+                        </span>
+                      </span>
+                      {page.kind === 'changed' && (
+                        <span className="block text-[10px] font-mono text-[var(--muted)]">
+                          +{page.addedLines} −{page.removedLines}
+                          {page.matchedByTitle && ` · ${messages.compare?.idChanged || 'Paired by title; the page id changed'}`}
+                        </span>
+                      )}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              <div className="flex-1 min-w-0 flex flex-col">
+                {!selectedPage ? (
+                  <p className="m-auto p-6 text-sm text-[var(--muted)]">
+                    {messages.compare?.selectPage || 'Select a page to see how it changed.'}
+                  </p>
+                ) : (
+                  <>
+                    <div className="grid grid-cols-2 text-xs font-medium text-[var(--muted)] border-b border-[var(--border-color)]">
+                      <div className="px-4 py-2 border-r border-[var(--border-color)] truncate">{variantLabel(base!)}</div>
+                      <div className="px-4 py-2 truncate">{variantLabel(head)}</div>
+                    </div>
+                    <div className="flex-1 overflow-auto max-h-[60vh] font-mono text-xs">
+                      {diffRows.map((row, index) => (
+                        <div key={index} className="grid grid-cols-2">
+                          {(['left', 'right'] as const).map(side => (
+                            <div
+                              key={side}
+                              className={`flex ${ROW_STYLES[row.type][side]} ${side === 'left' ? 'border-r border-[var(--border-color)]' : ''}`}
+                            >
+                              <span className="w-10 flex-shrink-0 text-right pr-2 text-[var(--muted)] select-none">
+                                {row[side]?.number ?? ''}
+                              </span>
+                              <span className="whitespace-pre-wrap break-words text-[var(--foreground)] pr-2">
+                                {row[side]?.text ?? ''}
+                              </span>
+                            </div>
+                          ))}
+                        </div>
+                      ))}
+                    </div>
+                  </>
+                )}
+              </div>
+            </div>
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -1,10 +1,14 @@
 "use client"
 
-import { useEffect, useState } from "react"
+import { useEffect, useMemo, useState } from "react"
 import DeepWikiEditor from "@/components/DeepWikiEditor"
 import { useParams, useSearchParams } from "next/navigation"
 import Link from "next/link"
 import { useAuth } from "@/contexts/AuthContext"
+import { fetchWikiCache } from "@/utils/wikiCacheApi"
+import {
+  buildWikiRouteQuery, getEditContentStorageKey, getWikiCacheKey, parseWikiRouteContext,
+} from "@/utils/wikiRoute"
 
 interface RouteParams {
   owner: string
@@ -17,6 +21,11 @@ export default function EditWikiPage() {
   const searchParams = useSearchParams()
   const { user, isAdmin } = useAuth()
   const { owner, repo, pageId } = params
+  // Repository and wiki variant the editor was opened for, so the page is loaded from and saved to that wiki
+  const routeContext = useMemo(
+    () => parseWikiRouteContext(owner, repo, searchParams),
+    [owner, repo, searchParams],
+  )
 
   const [initialContent, setInitialContent] = useState("")
   const [isLoading, setIsLoading] = useState(true)
@@ -93,7 +102,8 @@ export default function EditWikiPage() {
         setError(null)
 
         // First check sessionStorage for cached content
-        const cachedContent = sessionStorage.getItem(`editPageContent_${pageId}`)
+        const cacheKey = getWikiCacheKey(routeContext)
+        const cachedContent = sessionStorage.getItem(getEditContentStorageKey(cacheKey, pageId))
         if (cachedContent) {
           setInitialContent(cachedContent)
           setIsLoading(false)
@@ -101,19 +111,7 @@ export default function EditWikiPage() {
         }
 
         // If no cached content, fetch from API
-        const params = new URLSearchParams({
-          owner,
-          repo,
-          repo_type: searchParams?.get("type") || "github",
-          language: searchParams?.get("language") || "en",
-        })
-
-        const response = await fetch(`/api/wiki_cache?${params.toString()}`)
-        if (!response.ok) {
-          throw new Error(`Failed to fetch page content: ${response.status}`)
-        }
-
-        const data = await response.json()
+        const data = await fetchWikiCache(cacheKey)
         const pageContent = data?.generated_pages?.[pageId]?.content || ""
         setInitialContent(pageContent)
       } catch (err) {
@@ -126,7 +124,7 @@ export default function EditWikiPage() {
     if (pageId) {
       loadPageContent()
     }
-  }, [owner, repo, pageId, searchParams])
+  }, [pageId, routeContext])
 
   if (isLoading) {
     return (
@@ -145,7 +143,7 @@ export default function EditWikiPage() {
         <div className="text-center">
           <p className="text-red-500 mb-4">{error}</p>
           <Link
-            href={`/${owner}/${repo}`}
+            href={`/${owner}/${repo}${buildWikiRouteQuery(routeContext)}`}
             className="text-violet-500 hover:text-violet-600"
           >
             Return to Wiki
@@ -158,8 +156,9 @@ export default function EditWikiPage() {
   return (
     <DeepWikiEditor
       initialContent={initialContent}
-      owner={owner}
-      repo={repo}
+      repoInfo={routeContext.repoInfo}
+      language={routeContext.language}
+      comprehensive={routeContext.comprehensive}
       pageId={pageId}
       isOwner={repositoryPermissions?.isOwner || false}
       isCollaborator={repositoryPermissions?.isCollaborator || false}
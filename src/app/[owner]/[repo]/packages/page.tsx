@@ -0,0 +1,254 @@
+'use client';
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { useParams, useRouter, useSearchParams } from 'next/navigation';
+import Link from 'next/link';
+import { FaArrowLeft, FaBook, FaBoxOpen, FaMagic, FaSpinner } from 'react-icons/fa';
+import ThemeToggle from '@/components/theme-toggle';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { useProcessedProjects } from '@/hooks/useProcessedProjects';
+import { loadSourceTree } from '@/utils/codeCitations';
+import { findPackageDirs } from '@/utils/repoPackages';
+import { fetchWikiCache } from '@/utils/wikiCacheApi';
+import { buildWikiRouteQuery, normalizeRepoPath, parseWikiRouteContext } from '@/utils/wikiRoute';
+
+// What the index shows of a cached wiki
+interface WikiSummary {
+  title: string;
+  description: string;
+  pageCount: number;
+}
+
+// Model settings handed on to the wikis the index opens, so new ones are generated with them
+const MODEL_PARAMS = ['provider', 'model', 'is_custom_model', 'custom_model', 'excluded_dirs', 'excluded_files'];
+
+/**
+ * Index of the wikis of a repository: the wiki of the whole repository and one per documented subdirectory,
+ * such as the packages of a monorepo, at the same ref and in the same language. Package directories without
+ * a wiki are found from their manifest files and can be documented from here.
+ */
+export default function PackageWikisPage() {
+  const params = useParams();
+  const searchParams = useSearchParams();
+  const router = useRouter();
+  const owner = params.owner as string;
+  const repo = params.repo as string;
+  const { messages } = useLanguage();
+
+  const routeContext = useMemo(
+    () => parseWikiRouteContext(owner, repo, searchParams),
+    [owner, repo, searchParams]
+  );
+  const { repoInfo, language } = routeContext;
+
+  const { projects, isLoading: projectsLoading } = useProcessedProjects();
+  const [summaries, setSummaries] = useState<Record<string, WikiSummary | null>>({});
+  const [packageDirs, setPackageDirs] = useState<string[] | null>(null);
+  const [treeError, setTreeError] = useState<string | null>(null);
+  const [otherPath, setOtherPath] = useState('');
+
+  // Viewer URL of the wiki of a subdirectory, or of the whole repository for null
+  const getWikiUrl = (path: string | null) => {
+    const query = new URLSearchParams(buildWikiRouteQuery({ ...routeContext, repoInfo: { ...repoInfo, path } }).slice(1));
+    MODEL_PARAMS.forEach(name => {
+      const value = searchParams.get(name);
+      if (value) query.append(name, value);
+    });
+    return `/${owner}/${repo}?${query.toString()}`;
+  };
+
+  // Subdirectories with a cached wiki
+  const documentedPaths = useMemo(
+    () => projects
+      .filter(p => p.owner === owner && p.repo === repo && p.repo_type === repoInfo.type && p.language === language &&
+        (p.ref ?? null) === (repoInfo.ref ?? null) && p.path)
+      .map(p => p.path as string)
+      .sort(),
+    [projects, owner, repo, repoInfo.type, repoInfo.ref, language]
+  );
+  const hasRepositoryWiki = projects.some(p =>
+    p.owner === owner && p.repo === repo && p.repo_type === repoInfo.type && p.language === language &&
+    (p.ref ?? null) === (repoInfo.ref ?? null) && !p.path
+  );
+
+  const pathsKey = documentedPaths.join('\n');
+  useEffect(() => {
+    let cancelled = false;
+    documentedPaths.forEach(path => {
+      fetchWikiCache({ owner, repo, repo_type: repoInfo.type, language, path, ...(repoInfo.ref ? { ref: repoInfo.ref } : {}) })
+        .then(data => data && {
+          title: data.wiki_structure.title,
+          description: data.wiki_structure.description,
+          pageCount: data.wiki_structure.pages.length,
+        })
+        .catch(() => null)
+        .then(summary => {
+          if (!cancelled) setSummaries(prev => ({ ...prev, [path]: summary }));
+        });
+    });
+    return () => {
+      cancelled = true;
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [pathsKey, owner, repo, repoInfo.type, repoInfo.ref, language]);
+
+  useEffect(() => {
+    let cancelled = false;
+    setTreeError(null);
+    loadSourceTree({ repoInfo, token: repoInfo.token ?? '', ref: repoInfo.ref ?? null })
+      .then(files => {
+        if (!cancelled) setPackageDirs(findPackageDirs(files));
+      })
+      .catch(err => {
+        console.error('Error listing repository files:', err);
+        if (!cancelled) setTreeError(err instanceof Error ? err.message : String(err));
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [repoInfo]);
+
+  const undocumentedDirs = (packageDirs ?? []).filter(dir => !documentedPaths.includes(dir));
+
+  const documentOtherPath = (e: React.FormEvent) => {
+    e.preventDefault();
+    const path = normalizeRepoPath(otherPath);
+    if (path) router.push(getWikiUrl(path));
+  };
+
+  return (
+    <div className="min-h-screen flex flex-col bg-[var(--background)]">
+      {/* Header */}
+      <header className="sticky top-0 z-10 bg-[var(--card-bg)] border-b border-[var(--border-color)] shadow-sm">
+        <div className="container mx-auto px-4 py-3 flex items-center justify-between">
+          <div className="flex items-center space-x-4">
+            <Link
+              href={getWikiUrl(repoInfo.path ?? null)}
+              className="flex items-center text-[var(--foreground)] hover:text-[var(--accent-primary)] transition-colors"
+            >
+              <FaArrowLeft className="mr-2" />
+              <span>{messages.packages?.backToWiki || 'Back to Wiki'}</span>
+            </Link>
+            <h1 className="text-xl font-bold text-[var(--accent-primary)]">
+              {messages.packages?.title || 'Package Wikis'}: {repo}
+              {repoInfo.ref && <span className="ml-2 text-sm font-mono text-[var(--muted)]">{repoInfo.ref}</span>}
+            </h1>
+          </div>
+          <ThemeToggle />
+        </div>
+      </header>
+
+      <main className="flex-1 container mx-auto px-4 py-6 space-y-6">
+        {/* Whole repository */}
+        <Link
+          href={getWikiUrl(null)}
+          className="flex items-center gap-3 bg-[var(--card-bg)] border border-[var(--border-color)] rounded-lg shadow-sm p-4 hover:border-[var(--accent-primary)]/50 transition-colors"
+        >
+          <FaBook className="text-[var(--accent-primary)]" />
+          <span className="flex-1 font-medium text-[var(--foreground)]">
+            {messages.packages?.repositoryWiki || 'Wiki of the whole repository'}
+          </span>
+          {!projectsLoading && !hasRepositoryWiki && (
+            <span className="text-xs text-[var(--muted)]">{messages.packages?.notGenerated || 'Not generated yet'}</span>
+          )}
+        </Link>
+
+        {/* Documented subdirectories */}
+        <section>
+          <h2 className="text-lg font-medium text-[var(--accent-primary)] mb-3">
+            {messages.packages?.documented || 'Package wikis'}
+          </h2>
+          {projectsLoading ? (
+            <p className="flex items-center gap-2 text-sm text-[var(--muted)]">
+              <FaSpinner className="animate-spin" />
+              {messages.common?.loading || 'Loading...'}
+            </p>
+          ) : documentedPaths.length === 0 ? (
+            <p className="text-sm text-[var(--muted)]">
+              {messages.packages?.noPackageWikis || 'No directory of this repository has its own wiki yet.'}
+            </p>
+          ) : (
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+              {documentedPaths.map(path => {
+                const summary = summaries[path];
+                return (
+                  <Link
+                    key={path}
+                    href={getWikiUrl(path)}
+                    className={`block bg-[var(--card-bg)] border rounded-lg shadow-sm p-4 transition-colors ${path === repoInfo.path
+                      ? 'border-[var(--accent-primary)]'
+                      : 'border-[var(--border-color)] hover:border-[var(--accent-primary)]/50'}`}
+                  >
+                    <span className="block text-xs font-mono text-[var(--muted)] mb-1 truncate">{path}/</span>
+                    <span className="block font-medium text-[var(--foreground)] mb-1 line-clamp-2">{summary?.title ?? path}</span>
+                    {summary && (
+                      <>
+                        <span className="block text-sm text-[var(--muted)] line-clamp-3 mb-2">{summary.description}</span>
+                        <span className="block text-xs text-[var(--muted)]">
+                          {(messages.packages?.pageCount || '{count} pages').replace('{count}', String(summary.pageCount))}
+                        </span>
+                      </>
+                    )}
+                  </Link>
+                );
+              })}
+            </div>
+          )}
+        </section>
+
+        {/* Packages without a wiki */}
+        <section>
+          <h2 className="text-lg font-medium text-[var(--accent-primary)] mb-3">
+            {messages.packages?.undocumented || 'Packages without a wiki'}
+          </h2>
+          {treeError ? (
+            <p className="text-sm text-[var(--highlight)]">{treeError}</p>
+          ) : !packageDirs ? (
+            <p className="flex items-center gap-2 text-sm text-[var(--muted)]">
+              <FaSpinner className="animate-spin" />
+              {messages.packages?.findingPackages || 'Looking for packages...'}
+            </p>
+          ) : undocumentedDirs.length === 0 ? (
+            <p className="text-sm text-[var(--muted)]">
+              {messages.packages?.noUndocumented || 'Every package found in the repository has a wiki.'}
+            </p>
+          ) : (
+            <ul className="bg-[var(--card-bg)] border border-[var(--border-color)] rounded-lg shadow-sm divide-y divide-[var(--border-color)]">
+              {undocumentedDirs.map(dir => (
+                <li key={dir} className="flex items-center gap-3 px-4 py-2">
+                  <FaBoxOpen className="flex-none text-[var(--muted)]" />
+                  <span className="flex-1 truncate text-sm font-mono text-[var(--foreground)]">{dir}/</span>
+                  <Link
+                    href={getWikiUrl(dir)}
+                    className="btn-japanese flex items-center gap-2 text-xs px-3 py-1.5 rounded-md"
+                  >
+                    <FaMagic />
+                    {messages.packages?.generate || 'Generate Wiki'}
+                  </Link>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <form onSubmit={documentOtherPath} className="flex gap-2 mt-4">
+            <input
+              value={otherPath}
+              onChange={(e) => setOtherPath(e.target.value)}
+              placeholder={messages.packages?.otherPathPlaceholder || 'Another directory, e.g. services/api'}
+              aria-label={messages.form?.path || 'Subdirectory'}
+              className="input-japanese flex-1 px-3 py-2 text-sm font-mono rounded-md bg-transparent text-[var(--foreground)] focus:outline-none focus:border-[var(--accent-primary)]"
+            />
+            <button
+              type="submit"
+              disabled={!normalizeRepoPath(otherPath)}
+              className="btn-japanese flex items-center gap-2 text-sm px-3 py-2 rounded-md disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <FaMagic />
+              {messages.packages?.generate || 'Generate Wiki'}
+            </button>
+          </form>
+        </section>
+      </main>
+    </div>
+  );
+}
@@ -2,49 +2,107 @@
 'use client';
 
 import React, { useCallback, useState, useMemo, useEffect, useRef } from 'react';
-import { useParams, useSearchParams } from 'next/navigation';
-import { FaExclamationTriangle, FaBookOpen, FaGithub, FaGitlab, FaBitbucket, FaDownload, FaFileExport, FaHome, FaFolder, FaSync, FaChevronUp, FaChevronDown, FaComments, FaTimes } from 'react-icons/fa';
+import { useParams, useRouter, useSearchParams } from 'next/navigation';
+import { FaExclamationTriangle, FaBookOpen, FaGithub, FaGitlab, FaBitbucket, FaDownload, FaFileExport, FaHome, FaFolder, FaSync, FaChevronUp, FaChevronDown, FaComments, FaTimes, FaHistory, FaComment, FaSearch, FaCode, FaCodeBranch, FaBoxes } from 'react-icons/fa';
 import Link from 'next/link';
 import ThemeToggle from '@/components/theme-toggle';
 import Markdown from '@/components/Markdown';
 import Ask from '@/components/Ask';
 import ModelSelectionModal from '@/components/ModelSelectionModal';
 import WikiTreeView from '@/components/WikiTreeView';
+import GenerationQueue, { QueueStatus } from '@/components/GenerationQueue';
+import RegeneratePageModal, { RegenerateRequest } from '@/components/RegeneratePageModal';
+import VersionHistoryModal from '@/components/VersionHistoryModal';
+import CommentMargin from '@/components/CommentMargin';
+import WikiSearchPalette, { PaletteCommand } from '@/components/WikiSearchPalette';
+import CodeBrowser from '@/components/CodeBrowser';
+import RepoConfigPanel from '@/components/RepoConfigPanel';
 import { useLanguage } from '@/contexts/LanguageContext';
 import { useAuth } from '@/contexts/AuthContext';
+import { useWikiComments } from '@/hooks/useWikiComments';
 import { RepoInfo } from '@/types/repoinfo';
+import { RepoConfigFile } from '@/types/deepwikiconfig';
+import { WikiPage } from '@/types/wiki/wikipage';
+import { WikiSection, WikiStructure } from '@/types/wiki/wikistructure';
+import { PageGenerationStatus, WikiCacheData, WikiCacheRequest } from '@/types/wiki/wikicache';
+import { WikiVersionInfo, WikiVersionReason } from '@/types/wiki/wikiversion';
+import { CommentAnchor } from '@/types/wiki/wikicomment';
+import { WikiSearchHit } from '@/types/wiki/wikisearch';
 import { extractUrlDomain, extractUrlPath } from '@/utils/urlDecoder';
+import { createBitbucketHeaders, createGithubHeaders, createGitlabHeaders, fetchChangedFiles, fetchFileContent, fetchHeadCommit } from '@/utils/repoApi';
 import getRepoUrl from '@/utils/getRepoUrl';
-// Define the WikiSection and WikiStructure types directly in this file
-// since the imported types don't have the sections and rootSections properties
-interface WikiSection {
-  id: string;
-  title: string;
-  pages: string[];
-  subsections?: string[];
-}
+import { anchorText } from '@/utils/commentAnchors';
+import { buildWikiRouteQuery, getEditContentStorageKey, getWikiCacheKey, normalizeRepoPath } from '@/utils/wikiRoute';
+import { ChatCompletionRequest } from '@/utils/websocketClient';
+import { collectChatCompletion, isAbortError } from '@/utils/chatStreamClient';
+import { fetchRateLimits, RequestLimiter } from '@/utils/generationLimiter';
+import { fetchWikiCache, fetchWikiPage, getAuthorName, saveGeneratedWiki, saveWikiPage, updateWikiCache, VersionedWikiPage, WikiSaveConflictError } from '@/utils/wikiCacheApi';
+import { buildStructureRepairPrompt, getUnrepairedIssues, parseWikiStructure, WikiStructureParseError } from '@/utils/wikiStructureParser';
+import { saveWikiStructure, syncGeneratedPages } from '@/utils/wikiStructureEdits';
+import { getWikiSearchUrl } from '@/utils/wikiSearch';
+import { headingId } from '@/utils/headingIds';
+import { CitationSource, CodeCitation } from '@/utils/codeCitations';
+import {
+  addConfigFiltersToRequest,
+  applyRequiredOutline,
+  describeConfigForPage,
+  describeConfigForStructure,
+  isFileIncluded,
+  loadRepoConfig,
+  readRepoConfigFile
+} from '@/utils/deepwikiConfig';
+
+// Prefix of the placeholder content written when a page fails to generate
+const PAGE_ERROR_PREFIX = 'Error generating content:';
+
+const getPageGenerationStatus = (page?: WikiPage): PageGenerationStatus => {
+  if (!page || !page.content || page.content === 'Loading...') return 'pending';
+  return page.content.startsWith(PAGE_ERROR_PREFIX) ? 'failed' : 'done';
+};
 
-interface WikiPage {
-  id: string;
-  title: string;
-  content: string;
-  filePaths: string[];
-  importance: 'high' | 'medium' | 'low';
-  relatedPages: string[];
-  parentId?: string;
-  isSection?: boolean;
-  children?: string[];
+interface ModelSelection {
+  provider: string;
+  model: string;
+  isCustomModel: boolean;
+  customModel: string;
 }
 
-interface WikiStructure {
-  id: string;
-  title: string;
-  description: string;
-  pages: WikiPage[];
-  sections: WikiSection[];
-  rootSections: string[];
+// Model name recorded with the versions it produces
+const describeModel = ({ provider, model, isCustomModel, customModel }: ModelSelection): string =>
+  `${provider}/${isCustomModel ? customModel : model}`;
+
+interface PageGenerationOptions {
+  limiter?: RequestLimiter;
+  // Replace existing content; the previous version is kept if generation fails
+  regenerate?: boolean;
+  // Model to use instead of the one selected for the wiki
+  model?: ModelSelection;
+  // Extra instructions appended to the page prompt
+  instructions?: string;
 }
 
+// Collects the ids of all pages in a section, including its subsections
+const getSectionPageIds = (structure: WikiStructure, sectionId: string, visited = new Set<string>()): string[] => {
+  const section = structure.sections.find(s => s.id === sectionId);
+  if (!section || visited.has(sectionId)) return [];
+  visited.add(sectionId);
+  return [
+    ...section.pages,
+    ...(section.subsections || []).flatMap(subsectionId => getSectionPageIds(structure, subsectionId, visited))
+  ];
+};
+
+// Page shown when a wiki is opened: the one asked for in the URL if the wiki has it, otherwise the first
+const getInitialPageId = (structure: WikiStructure, requestedPageId: string | null): string | undefined =>
+  structure.pages.find(page => page.id === requestedPageId)?.id ?? structure.pages[0]?.id;
+
+// Moves the revision a page shows to the one its own save produced, unless another save landed in between
+const followOwnSave = (shownRevision: { current: number }, savedRevision: number) => {
+  if (savedRevision === shownRevision.current + 1) {
+    shownRevision.current = savedRevision;
+  }
+};
+
 // Add CSS styles for wiki with Japanese aesthetic
 const wikiStyles = `
   .prose code {
@@ -89,14 +147,19 @@ const wikiStyles = `
 `;
 
 // Helper function to generate cache key for localStorage
-const getCacheKey = (owner: string, repo: string, repoType: string, language: string, isComprehensive: boolean = true): string => {
-  return `deepwiki_cache_${repoType}_${owner}_${repo}_${language}_${isComprehensive ? 'comprehensive' : 'concise'}`;
+const getCacheKey = (owner: string, repo: string, repoType: string, language: string, isComprehensive: boolean = true, ref?: string | null, path?: string | null): string => {
+  return `deepwiki_cache_${repoType}_${owner}_${repo}${path ? `+${path}` : ''}${ref ? `@${ref}` : ''}_${language}_${isComprehensive ? 'comprehensive' : 'concise'}`;
 };
 
+// Tells the model what a wiki of a subdirectory covers; nothing for wikis of the whole repository
+const describeWikiScope = (path?: string | null): string =>
+  path
+    ? `\nThis wiki documents only the \`${path}\` directory of the repository, such as one package of a monorepo. Cover the code under it, and the rest of the repository only where this code depends on it. File paths are relative to the repository root.\n`
+    : '';
+
 // Helper function to add tokens and other parameters to request body
 const addTokensToRequestBody = (
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  requestBody: Record<string, any>,
+  requestBody: ChatCompletionRequest,
   token: string,
   repoType: string,
   provider: string = '',
@@ -129,47 +192,11 @@ const addTokensToRequestBody = (
   }
 };
 
-const createGithubHeaders = (githubToken: string): HeadersInit => {
-  const headers: HeadersInit = {
-    'Accept': 'application/vnd.github.v3+json'
-  };
-
-  if (githubToken) {
-    headers['Authorization'] = `Bearer ${githubToken}`;
-  }
-
-  return headers;
-};
-
-const createGitlabHeaders = (gitlabToken: string): HeadersInit => {
-  const headers: HeadersInit = {
-    'Content-Type': 'application/json',
-  };
-
-  if (gitlabToken) {
-    headers['PRIVATE-TOKEN'] = gitlabToken;
-  }
-
-  return headers;
-};
-
-const createBitbucketHeaders = (bitbucketToken: string): HeadersInit => {
-  const headers: HeadersInit = {
-    'Content-Type': 'application/json',
-  };
-
-  if (bitbucketToken) {
-    headers['Authorization'] = `Bearer ${bitbucketToken}`;
-  }
-
-  return headers;
-};
-
-
 export default function RepoWikiPage() {
   // Get route parameters and search params
   const params = useParams();
   const searchParams = useSearchParams();
+  const router = useRouter();
   const { user, isAdmin } = useAuth();
 
   // Extract owner and repo from route params
@@ -186,6 +213,14 @@ export default function RepoWikiPage() {
   const isCustomModelParam = searchParams.get('is_custom_model') === 'true';
   const customModelParam = searchParams.get('custom_model') || '';
   const language = searchParams.get('language') || 'en';
+  // Without a language in the URL, the default language of the repository's .deepwiki.yml is used
+  const hasLanguageParam = searchParams.has('language');
+  // Branch, tag or commit to document instead of the default branch
+  const refParam = searchParams.get('ref') || '';
+  // Subdirectory to document instead of the whole repository
+  const pathParam = normalizeRepoPath(searchParams.get('path'));
+  // Page to open once the wiki is loaded, e.g. from a search result
+  const requestedPageId = searchParams.get('page');
 
   // Import language context for translations
   const { messages } = useLanguage();
@@ -197,8 +232,10 @@ export default function RepoWikiPage() {
     type: repoType,
     token: token || null,
     localPath: localPath || null,
-    repoUrl: repoUrl || null
-  }), [owner, repo, repoType, localPath, repoUrl, token]);
+    repoUrl: repoUrl || null,
+    ref: refParam || null,
+    path: pathParam
+  }), [owner, repo, repoType, localPath, repoUrl, token, refParam, pathParam]);
 
   // State variables
   const [isLoading, setIsLoading] = useState(true);
@@ -210,6 +247,19 @@ export default function RepoWikiPage() {
   const [currentPageId, setCurrentPageId] = useState<string | undefined>();
   const [generatedPages, setGeneratedPages] = useState<Record<string, WikiPage>>({});
   const [pagesInProgress, setPagesInProgress] = useState(new Set<string>());
+  const [activePages, setActivePages] = useState(new Set<string>());
+  const [isRegenerateModalOpen, setIsRegenerateModalOpen] = useState(false);
+  const [regenerationError, setRegenerationError] = useState<string | null>(null);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  // Commit the wiki was generated at, compared with the repository head for incremental refresh
+  const [commitSha, setCommitSha] = useState<string | null>(null);
+  // Files of the repository, when fetched to generate the wiki
+  const [repoFiles, setRepoFiles] = useState<string[] | null>(null);
+  // The repository's .deepwiki.yml; generation reads the ref, as it runs in callbacks created before the file was read
+  const [repoConfig, setRepoConfig] = useState<RepoConfigFile | null>(null);
+  const repoConfigRef = useRef<RepoConfigFile | null>(null);
+  const [isCheckingChanges, setIsCheckingChanges] = useState(false);
+  const [refreshNotice, setRefreshNotice] = useState<string | null>(null);
   const [isExporting, setIsExporting] = useState(false);
   const [exportError, setExportError] = useState<string | null>(null);
   const [originalMarkdown, setOriginalMarkdown] = useState<Record<string, string>>({});
@@ -246,16 +296,38 @@ export default function RepoWikiPage() {
   const [structureRequestInProgress, setStructureRequestInProgress] = useState(false);
   // Create a flag to track if data was loaded from cache to prevent immediate re-save
   const cacheLoadedSuccessfully = useRef(false);
+  // Page statuses of the last cache save, so progress is only written when a page settles
+  const lastSavedProgress = useRef('');
+  // Cache writes are chained so an older snapshot never overwrites a newer one
+  const cacheSaveChain = useRef<Promise<void>>(Promise.resolve());
+  // Version recorded with the next complete save, describing the generation in progress
+  const pendingVersion = useRef<WikiVersionInfo | null>(null);
+  // Revision of the stored wiki and content of its pages as last read or saved, to tell edits made by others
+  const cacheRevision = useRef(0);
+  const savedPageContent = useRef<Record<string, string>>({});
+  // Pages taken from the stored wiki, which saves queued before they were shown must not overwrite
+  const pagesEditedByOthers = useRef<Record<string, WikiPage>>({});
+  // Stored version of each page being regenerated, which whole-wiki saves keep until the page update is saved
+  const pagesBeingRegenerated = useRef(new Map<string, WikiPage>());
 
   // Create a flag to ensure the effect only runs once
   const effectRan = React.useRef(false);
 
+  // Aborts in-flight model requests when the wiki is refreshed or the page unmounts
+  const generationAbortRef = useRef(new AbortController());
+
   // State for Ask modal
   const [isAskModalOpen, setIsAskModalOpen] = useState(false);
   const askComponentRef = useRef<{ clearConversation: () => void } | null>(null);
 
   // Memoize repo info to avoid triggering updates in callbacks
 
+  // Cancel any streaming generation when leaving the page
+  useEffect(() => {
+    const controller = generationAbortRef.current;
+    return () => controller.abort();
+  }, []);
+
   // Add useEffect to handle scroll reset
   useEffect(() => {
     // Scroll to top when currentPageId changes
@@ -322,13 +394,16 @@ export default function RepoWikiPage() {
     checkRepositoryPermissions();
   }, [user?.id, owner, repo]);
 
-  // Generate content for a wiki page
-  const generatePageContent = useCallback(async (page: WikiPage, owner: string, repo: string) => {
-    return new Promise<void>(async (resolve) => {
+  // Generate content for a wiki page; resolves to the page's new content, or null when it got none
+  const generatePageContent = useCallback(async (page: WikiPage, owner: string, repo: string, options: PageGenerationOptions = {}) => {
+    const { limiter, regenerate = false, model, instructions } = options;
+    const previousPage = generatedPages[page.id];
+
+    return new Promise<string | null>(async (resolve) => {
       try {
         // Skip if content already exists
-        if (generatedPages[page.id]?.content) {
-          resolve();
+        if (!regenerate && previousPage?.content) {
+          resolve(previousPage.content);
           return;
         }
 
@@ -336,7 +411,7 @@ export default function RepoWikiPage() {
         // Use a synchronized pattern to avoid race conditions
         if (activeContentRequests.get(page.id)) {
           console.log(`Page ${page.id} (${page.title}) is already being processed, skipping duplicate call`);
-          resolve();
+          resolve(null);
           return;
         }
 
@@ -353,7 +428,9 @@ export default function RepoWikiPage() {
         setPagesInProgress(prev => new Set(prev).add(page.id));
         // Don't set loading message for individual pages during queue processing
 
-        const filePaths = page.filePaths;
+        // Files the repository's configuration leaves out are not offered to the model
+        const config = repoConfigRef.current?.config ?? null;
+        const filePaths = config ? page.filePaths.filter(file => isFileIncluded(config, file)) : page.filePaths;
 
         // Store the initially generated content BEFORE rendering/potential modification
         setGeneratedPages(prev => ({
@@ -454,13 +531,14 @@ Remember:
 - Ground every claim in the provided source files.
 - Prioritize accuracy and direct representation of the code's functionality and structure.
 - Structure the document logically for easy understanding by other developers.
-`;
+${describeWikiScope(effectiveRepoInfo.path)}${describeConfigForPage(config, page.title)}${instructions ? `\nAdditional instructions for this page:\n${instructions}\n` : ''}`;
 
         // Prepare request body
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        const requestBody: Record<string, any> = {
+        const requestBody: ChatCompletionRequest = {
           repo_url: repoUrl,
           type: effectiveRepoInfo.type,
+          ref: effectiveRepoInfo.ref || undefined,
+          path: effectiveRepoInfo.path || undefined,
           messages: [{
             role: 'user',
             content: promptContent
@@ -468,109 +546,24 @@ Remember:
         };
 
         // Add tokens if available
-        addTokensToRequestBody(requestBody, currentToken, effectiveRepoInfo.type, selectedProviderState, selectedModelState, isCustomSelectedModelState, customSelectedModelState, language, modelExcludedDirs, modelExcludedFiles);
-
-        // Use WebSocket for communication
-        let content = '';
-
-        try {
-          // Create WebSocket URL from the server base URL
-          const serverBaseUrl = process.env.NEXT_PUBLIC_SERVER_BASE_URL || 'http://localhost:8001';
-          const wsBaseUrl = serverBaseUrl.replace(/^http/, 'ws');
-          const wsUrl = `${wsBaseUrl}/ws/chat`;
-
-          // Create a new WebSocket connection
-          const ws = new WebSocket(wsUrl);
-
-          // Create a promise that resolves when the WebSocket connection is complete
-          await new Promise<void>((resolve, reject) => {
-            // Set up event handlers
-            ws.onopen = () => {
-              console.log(`WebSocket connection established for page: ${page.title}`);
-              // Send the request as JSON
-              ws.send(JSON.stringify(requestBody));
-              resolve();
-            };
-
-            ws.onerror = (error) => {
-              console.error('WebSocket error:', error);
-              reject(new Error('WebSocket connection failed'));
-            };
-
-            // If the connection doesn't open within 5 seconds, fall back to HTTP
-            const timeout = setTimeout(() => {
-              reject(new Error('WebSocket connection timeout'));
-            }, 5000);
-
-            // Clear the timeout if the connection opens successfully
-            ws.onopen = () => {
-              clearTimeout(timeout);
-              console.log(`WebSocket connection established for page: ${page.title}`);
-              // Send the request as JSON
-              ws.send(JSON.stringify(requestBody));
-              resolve();
-            };
-          });
-
-          // Create a promise that resolves when the WebSocket response is complete
-          await new Promise<void>((resolve, reject) => {
-            // Handle incoming messages
-            ws.onmessage = (event) => {
-              content += event.data;
-            };
-
-            // Handle WebSocket close
-            ws.onclose = () => {
-              console.log(`WebSocket connection closed for page: ${page.title}`);
-              resolve();
-            };
-
-            // Handle WebSocket errors
-            ws.onerror = (error) => {
-              console.error('WebSocket error during message reception:', error);
-              reject(new Error('WebSocket error during message reception'));
-            };
-          });
-        } catch (wsError) {
-          console.error('WebSocket error, falling back to HTTP:', wsError);
-
-          // Fall back to HTTP if WebSocket fails
-          const response = await fetch(`/api/chat/stream`, {
-            method: 'POST',
-            headers: {
-              'Content-Type': 'application/json',
-            },
-            body: JSON.stringify(requestBody)
-          });
-
-          if (!response.ok) {
-            const errorText = await response.text().catch(() => 'No error details available');
-            console.error(`API error (${response.status}): ${errorText}`);
-            throw new Error(`Error generating page content: ${response.status} - ${response.statusText}`);
-          }
-
-          // Process the response
-          content = '';
-          const reader = response.body?.getReader();
-          const decoder = new TextDecoder();
+        const pageModel = model ?? {
+          provider: selectedProviderState,
+          model: selectedModelState,
+          isCustomModel: isCustomSelectedModelState,
+          customModel: customSelectedModelState
+        };
+        addTokensToRequestBody(requestBody, currentToken, effectiveRepoInfo.type, pageModel.provider, pageModel.model, pageModel.isCustomModel, pageModel.customModel, language, modelExcludedDirs, modelExcludedFiles);
+        addConfigFiltersToRequest(requestBody, config);
 
-          if (!reader) {
-            throw new Error('Failed to get response reader');
-          }
+        // Wait for the provider's rate limit before sending
+        await limiter?.acquire(generationAbortRef.current.signal);
 
-          try {
-            while (true) {
-              const { done, value } = await reader.read();
-              if (done) break;
-              content += decoder.decode(value, { stream: true });
-            }
-            // Ensure final decoding
-            content += decoder.decode();
-          } catch (readError) {
-            console.error('Error reading stream:', readError);
-            throw new Error('Error processing response stream');
-          }
-        }
+        // Stream the response through the shared chat client
+        let content = await collectChatCompletion(requestBody, {
+          label: `page ${page.title}`,
+          signal: generationAbortRef.current.signal,
+        });
+        limiter?.reportSuccess();
 
         // Clean up markdown delimiters
         content = content.replace(/^```markdown\s*/i, '').replace(/```\s*$/i, '');
@@ -583,17 +576,30 @@ Remember:
         // Store this as the original for potential mermaid retries
         setOriginalMarkdown(prev => ({ ...prev, [page.id]: content }));
 
-        resolve();
+        resolve(content);
       } catch (err) {
+        if (isAbortError(err)) {
+          console.log(`Generation cancelled for page ${page.id}`);
+          resolve(null);
+          return;
+        }
+        limiter?.reportFailure(err);
         console.error(`Error generating content for page ${page.id}:`, err);
         const errorMessage = err instanceof Error ? err.message : 'Unknown error';
+        if (regenerate && getPageGenerationStatus(previousPage) === 'done') {
+          // Keep the previous version rather than replacing a working page with an error
+          setGeneratedPages(prev => ({ ...prev, [page.id]: previousPage }));
+          setRegenerationError(`Failed to regenerate ${page.title}: ${errorMessage}`);
+          resolve(null);
+          return;
+        }
         // Update page state to show error
         setGeneratedPages(prev => ({
           ...prev,
-          [page.id]: { ...page, content: `Error generating content: ${errorMessage}` }
+          [page.id]: { ...page, content: `${PAGE_ERROR_PREFIX} ${errorMessage}` }
         }));
         setError(`Failed to generate content for ${page.title}.`);
-        resolve(); // Resolve even on error to unblock queue
+        resolve(null); // Resolve even on error to unblock queue
       } finally {
         // Clear the processing flag for this page
         // This must happen in the finally block to ensure the flag is cleared
@@ -611,8 +617,177 @@ Remember:
     });
   }, [generatedPages, currentToken, effectiveRepoInfo, selectedProviderState, selectedModelState, isCustomSelectedModelState, customSelectedModelState, modelExcludedDirs, modelExcludedFiles, language, activeContentRequests]);
 
+  // Generate content for the given pages, within the concurrency and rate limits of the selected model
+  // or of the given one
+  const generatePages = useCallback(async (pages: WikiPage[], owner: string, repo: string, model?: ModelSelection) => {
+    if (pages.length === 0) {
+      // Set loading to false if there were no pages to generate
+      setIsLoading(false);
+      setLoadingMessage(undefined);
+      return;
+    }
+
+    // Mark all pages as in progress
+    const initialInProgress = new Set(pages.map(p => p.id));
+    setPagesInProgress(initialInProgress);
+    setActivePages(new Set());
+
+    const generationModel = model ?? {
+      provider: selectedProviderState,
+      model: selectedModelState,
+      isCustomModel: isCustomSelectedModelState,
+      customModel: customSelectedModelState
+    };
+    pendingVersion.current = {
+      author: getAuthorName(user),
+      model: describeModel(generationModel),
+      kind: 'ai',
+      reason: 'generation'
+    };
+
+    const limits = await fetchRateLimits(
+      generationModel.provider,
+      generationModel.isCustomModel ? generationModel.customModel : generationModel.model
+    );
+    const limiter = new RequestLimiter(limits);
+    const maxConcurrent = Math.max(1, limits.maxConcurrent);
+
+    console.log(`Starting generation for ${pages.length} pages with up to ${maxConcurrent} in parallel` +
+      (limits.requestsPerMinute ? ` and ${limits.requestsPerMinute} requests per minute` : ''));
+
+    // Create a queue of pages
+    const queue = [...pages];
+    let activeRequests = 0;
+
+    // Function to process next items in queue
+    const processQueue = () => {
+      // Process as many items as we can up to our concurrency limit
+      while (queue.length > 0 && activeRequests < maxConcurrent) {
+        const page = queue.shift();
+        if (page) {
+          activeRequests++;
+          setActivePages(prev => new Set(prev).add(page.id));
+          console.log(`Starting page ${page.title} (${activeRequests} active, ${queue.length} remaining)`);
+
+          // Start generating content for this page
+          generatePageContent(page, owner, repo, { limiter, model })
+            .finally(() => {
+              // When done (success or error), decrement active count and process more
+              activeRequests--;
+              setActivePages(prev => {
+                const next = new Set(prev);
+                next.delete(page.id);
+                return next;
+              });
+              console.log(`Finished page ${page.title} (${activeRequests} active, ${queue.length} remaining)`);
+
+              // Check if all work is done (queue empty and no active requests)
+              if (queue.length === 0 && activeRequests === 0) {
+                console.log("All page generation tasks completed.");
+                setIsLoading(false);
+                setLoadingMessage(undefined);
+              } else {
+                // Only process more if there are items remaining and we're under capacity
+                if (queue.length > 0 && activeRequests < maxConcurrent) {
+                  processQueue();
+                }
+              }
+            });
+        }
+      }
+    };
+
+    // Start processing the queue
+    processQueue();
+  }, [generatePageContent, user, selectedProviderState, selectedModelState, isCustomSelectedModelState, customSelectedModelState]);
+
+  // Regenerate some pages of a finished wiki; each result is saved as a page update, so edits to other pages are kept
+  const regeneratePages = useCallback(async (
+    pageIds: string[],
+    request: RegenerateRequest,
+    reason: WikiVersionReason = 'regeneration'
+  ): Promise<boolean> => {
+    if (!wikiStructure) return false;
+
+    const pages = wikiStructure.pages.filter(page => pageIds.includes(page.id));
+    if (pages.length === 0) return true;
+
+    setRegenerationError(null);
+    const cacheKey = getWikiCacheKey({ repoInfo: effectiveRepoInfo, language, comprehensive: isComprehensiveView });
+
+    const model: ModelSelection = {
+      provider: request.provider,
+      model: request.model,
+      isCustomModel: request.isCustomModel,
+      customModel: request.customModel
+    };
+    const version: WikiVersionInfo = { author: getAuthorName(user), model: describeModel(model), kind: 'ai', reason };
+
+    const limits = await fetchRateLimits(model.provider, model.isCustomModel ? model.customModel : model.model);
+    const limiter = new RequestLimiter(limits);
+
+    console.log(`Regenerating ${pages.length} page(s) with ${model.provider}/${model.isCustomModel ? model.customModel : model.model}`);
+
+    // Work through the pages with the same concurrency budget as a full generation
+    const queue = [...pages];
+    let allSucceeded = true;
+    const worker = async () => {
+      for (let page = queue.shift(); page; page = queue.shift()) {
+        allSucceeded = await regeneratePage(page) && allSucceeded;
+      }
+    };
+    // The stored page is read first, so an edit saved while it is regenerated is not overwritten
+    const regeneratePage = async (page: WikiPage): Promise<boolean> => {
+      let stored: VersionedWikiPage;
+      try {
+        stored = await fetchWikiPage(cacheKey, page.id);
+      } catch (err) {
+        setRegenerationError(`Failed to regenerate ${page.title}: ${err instanceof Error ? err.message : String(err)}`);
+        return false;
+      }
+
+      if (stored.page.content) {
+        pagesBeingRegenerated.current.set(page.id, stored.page);
+      }
+      try {
+        return await regenerateAndSavePage(page, stored.etag);
+      } finally {
+        pagesBeingRegenerated.current.delete(page.id);
+      }
+    };
+    const regenerateAndSavePage = async (page: WikiPage, etag: string): Promise<boolean> => {
+      const content = await generatePageContent(page, effectiveRepoInfo.owner, effectiveRepoInfo.repo, {
+        limiter,
+        regenerate: true,
+        model,
+        instructions: request.instructions || undefined
+      });
+      if (content === null) return false;
+
+      try {
+        const { revision } = await saveWikiPage(cacheKey, page.id, content, etag, version);
+        followOwnSave(cacheRevision, revision);
+        return true;
+      } catch (err) {
+        if (err instanceof WikiSaveConflictError && err.currentPage) {
+          if (err.currentPage.content === content) return true;
+          // Someone else's edit wins; show it instead of the regenerated content
+          const storedPage = err.currentPage;
+          setGeneratedPages(prev => ({ ...prev, [page.id]: storedPage }));
+          setOriginalMarkdown(prev => ({ ...prev, [page.id]: storedPage.content }));
+          setRegenerationError(`${page.title} was edited by someone else while it was regenerated. Their version was kept.`);
+        } else {
+          setRegenerationError(`Failed to save ${page.title}: ${err instanceof Error ? err.message : String(err)}`);
+        }
+        return false;
+      }
+    };
+    await Promise.all(Array.from({ length: Math.min(Math.max(1, limits.maxConcurrent), pages.length) }, worker));
+    return allSucceeded;
+  }, [wikiStructure, generatePageContent, user, effectiveRepoInfo, language, isComprehensiveView]);
+
   // Determine the wiki structure from repository data
-  const determineWikiStructure = useCallback(async (fileTree: string, readme: string, owner: string, repo: string) => {
+  const determineWikiStructure = useCallback(async (fileTree: string, readme: string, owner: string, repo: string, model?: ModelSelection) => {
     if (!owner || !repo) {
       setError('Invalid repository information. Owner and repo name are required.');
       setIsLoading(false);
@@ -631,16 +806,18 @@ Remember:
 
       // Get repository URL
       const repoUrl = getRepoUrl(effectiveRepoInfo);
+      const config = repoConfigRef.current?.config ?? null;
 
       // Prepare request body
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      const requestBody: Record<string, any> = {
+      const requestBody: ChatCompletionRequest = {
         repo_url: repoUrl,
         type: effectiveRepoInfo.type,
+        ref: effectiveRepoInfo.ref || undefined,
+        path: effectiveRepoInfo.path || undefined,
         messages: [{
           role: 'user',
 content: `Analyze this GitHub repository ${owner}/${repo} and create a wiki structure for it.
-
+${describeWikiScope(effectiveRepoInfo.path)}
 1. The complete file tree of the project:
 <file_tree>
 ${fileTree}
@@ -652,7 +829,7 @@ ${readme}
 </readme>
 
 I want to create a wiki for this repository. Determine the most logical structure for a wiki based on the repository's content.
-
+${describeConfigForStructure(config)}
 IMPORTANT: The wiki content will be generated in ${language === 'en' ? 'English' :
             language === 'ja' ? 'Japanese (日本語)' :
             language === 'zh' ? 'Mandarin Chinese (中文)' :
@@ -758,353 +935,81 @@ IMPORTANT:
       };
 
       // Add tokens if available
-      addTokensToRequestBody(requestBody, currentToken, effectiveRepoInfo.type, selectedProviderState, selectedModelState, isCustomSelectedModelState, customSelectedModelState, language, modelExcludedDirs, modelExcludedFiles);
-
-      // Use WebSocket for communication
-      let responseText = '';
-
-      try {
-        // Create WebSocket URL from the server base URL
-        const serverBaseUrl = process.env.NEXT_PUBLIC_SERVER_BASE_URL || 'http://localhost:8001';
-        const wsBaseUrl = serverBaseUrl.replace(/^http/, 'ws');
-        const wsUrl = `${wsBaseUrl}/ws/chat`;
-
-        // Create a new WebSocket connection
-        const ws = new WebSocket(wsUrl);
-
-        // Create a promise that resolves when the WebSocket connection is complete
-        await new Promise<void>((resolve, reject) => {
-          // Set up event handlers
-          ws.onopen = () => {
-            console.log('WebSocket connection established for wiki structure');
-            // Send the request as JSON
-            ws.send(JSON.stringify(requestBody));
-            resolve();
-          };
-
-          ws.onerror = (error) => {
-            console.error('WebSocket error:', error);
-            reject(new Error('WebSocket connection failed'));
-          };
-
-          // If the connection doesn't open within 5 seconds, fall back to HTTP
-          const timeout = setTimeout(() => {
-            reject(new Error('WebSocket connection timeout'));
-          }, 5000);
-
-          // Clear the timeout if the connection opens successfully
-          ws.onopen = () => {
-            clearTimeout(timeout);
-            console.log('WebSocket connection established for wiki structure');
-            // Send the request as JSON
-            ws.send(JSON.stringify(requestBody));
-            resolve();
-          };
-        });
-
-        // Create a promise that resolves when the WebSocket response is complete
-        await new Promise<void>((resolve, reject) => {
-          // Handle incoming messages
-          ws.onmessage = (event) => {
-            responseText += event.data;
-          };
-
-          // Handle WebSocket close
-          ws.onclose = () => {
-            console.log('WebSocket connection closed for wiki structure');
-            resolve();
-          };
-
-          // Handle WebSocket errors
-          ws.onerror = (error) => {
-            console.error('WebSocket error during message reception:', error);
-            reject(new Error('WebSocket error during message reception'));
-          };
-        });
-      } catch (wsError) {
-        console.error('WebSocket error, falling back to HTTP:', wsError);
-
-        // Fall back to HTTP if WebSocket fails
-        const response = await fetch(`/api/chat/stream`, {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify(requestBody)
-        });
-
-        if (!response.ok) {
-          throw new Error(`Error determining wiki structure: ${response.status}`);
-        }
-
-        // Process the response
-        responseText = '';
-        const reader = response.body?.getReader();
-        const decoder = new TextDecoder();
-
-        if (!reader) {
-          throw new Error('Failed to get response reader');
-        }
-
-        while (true) {
-          const { done, value } = await reader.read();
-          if (done) break;
-          responseText += decoder.decode(value, { stream: true });
-        }
-      }
-
-      // Clean up markdown delimiters
-      responseText = responseText.replace(/^```(?:xml)?\s*/i, '').replace(/```\s*$/i, '');
-
-      // Debug logging
-      console.log('Response text before XML extraction:', responseText.substring(0, 500) + '...');
+      const structureModel = model ?? {
+        provider: selectedProviderState,
+        model: selectedModelState,
+        isCustomModel: isCustomSelectedModelState,
+        customModel: customSelectedModelState
+      };
+      addTokensToRequestBody(requestBody, currentToken, effectiveRepoInfo.type, structureModel.provider, structureModel.model, structureModel.isCustomModel, structureModel.customModel, language, modelExcludedDirs, modelExcludedFiles);
+      addConfigFiltersToRequest(requestBody, config);
 
-      // Extract wiki structure from response
-      // Try different possible formats
-      let xmlMatch = responseText.match(/<wiki_structure[^>]*>[\s\S]*?<\/wiki_structure>/i);
-      let xmlText = '';
+      // Stream the response through the shared chat client
+      const responseText = await collectChatCompletion(requestBody, {
+        label: 'wiki structure',
+        signal: generationAbortRef.current.signal,
+      });
 
-      if (!xmlMatch) {
-        // Try finding JSON-like structure
+      const parseOptions = { requireSections: isComprehensiveView };
+      let result = parseWikiStructure(responseText, parseOptions);
+      let unrepaired = getUnrepairedIssues(result);
+
+      // Ask the model once to fix what could not be repaired locally
+      if (unrepaired.length > 0) {
+        console.warn('Wiki structure has issues, asking the model to fix them:', unrepaired);
+        setLoadingMessage(messages.loading?.repairingStructure || 'Fixing wiki structure...');
+
+        const repairRequest: ChatCompletionRequest = {
+          ...requestBody,
+          messages: [
+            ...requestBody.messages,
+            { role: 'assistant', content: responseText },
+            { role: 'user', content: buildStructureRepairPrompt(unrepaired) },
+          ],
+        };
         try {
-          const parsedResponse = JSON.parse(responseText);
-          if (parsedResponse.wiki_structure) {
-            // Convert JSON to XML format
-            const convertToXml = (obj: any): string => {
-              if (typeof obj !== 'object' || obj === null) return String(obj);
-              return Object.entries(obj).map(([key, value]) => {
-                if (Array.isArray(value)) {
-                  return value.map(item => `<${key}>${convertToXml(item)}</${key}>`).join('');
-                }
-                return `<${key}>${convertToXml(value)}</${key}>`;
-              }).join('');
-            };
-            xmlText = `<wiki_structure>${convertToXml(parsedResponse.wiki_structure)}</wiki_structure>`;
-            xmlMatch = [xmlText];
-            console.log('Converted JSON to XML structure');
+          const repairedText = await collectChatCompletion(repairRequest, {
+            label: 'wiki structure repair',
+            signal: generationAbortRef.current.signal,
+          });
+          const repaired = parseWikiStructure(repairedText, parseOptions);
+          const repairedUnrepaired = getUnrepairedIssues(repaired);
+          // Keep whichever answer needs fewer compromises
+          if (repaired.structure && (!result.structure || repairedUnrepaired.length < unrepaired.length)) {
+            result = repaired;
+            unrepaired = repairedUnrepaired;
           }
-        } catch (e) {
-          console.log('Response is not valid JSON:', e);
+        } catch (repairError) {
+          if (isAbortError(repairError)) throw repairError;
+          console.warn('Wiki structure repair request failed, using the locally repaired structure:', repairError);
         }
       }
 
-      if (!xmlMatch) {
-        console.error('XML extraction failed. Response format:', {
-          length: responseText.length,
-          firstChars: responseText.substring(0, 100),
-          lastChars: responseText.substring(responseText.length - 100),
-          hasWikiStructure: responseText.includes('wiki_structure'),
-          contentType: typeof responseText
-        });
-        throw new Error('No valid XML found in response');
-      }
-
-      xmlText = xmlMatch[0];
-      xmlText = xmlText.replace(/[\x00-\x08\x0B\x0C\x0E-\x1F\x7F]/g, '');
-      // Try parsing with DOMParser
-      const parser = new DOMParser();
-      const xmlDoc = parser.parseFromString(xmlText, "text/xml");
-
-      // Check for parsing errors
-      const parseError = xmlDoc.querySelector('parsererror');
-      if (parseError) {
-        // Log the first few elements to see what was parsed
-        const elements = xmlDoc.querySelectorAll('*');
-        if (elements.length > 0) {
-          console.log('First 5 element names:',
-            Array.from(elements).slice(0, 5).map(el => el.nodeName).join(', '));
-        }
-
-        // We'll continue anyway since the XML might still be usable
-      }
-
-      // Extract wiki structure
-      let title = '';
-      let description = '';
-      let pages: WikiPage[] = [];
-
-      // Try using DOM parsing first
-      const titleEl = xmlDoc.querySelector('title');
-      const descriptionEl = xmlDoc.querySelector('description');
-      const pagesEls = xmlDoc.querySelectorAll('page');
-
-      title = titleEl ? titleEl.textContent || '' : '';
-      description = descriptionEl ? descriptionEl.textContent || '' : '';
-
-      // Parse pages using DOM
-      pages = [];
-
-      if (parseError && (!pagesEls || pagesEls.length === 0)) {
-        console.warn('DOM parsing failed, trying regex fallback');
+      if (result.issues.length > 0) {
+        console.log('Wiki structure issues:', result.issues);
       }
-
-      pagesEls.forEach(pageEl => {
-        const id = pageEl.getAttribute('id') || `page-${pages.length + 1}`;
-        const titleEl = pageEl.querySelector('title');
-        const importanceEl = pageEl.querySelector('importance');
-        const filePathEls = pageEl.querySelectorAll('file_path');
-        const relatedEls = pageEl.querySelectorAll('related');
-
-        const title = titleEl ? titleEl.textContent || '' : '';
-        const importance = importanceEl ?
-          (importanceEl.textContent === 'high' ? 'high' :
-            importanceEl.textContent === 'medium' ? 'medium' : 'low') : 'medium';
-
-        const filePaths: string[] = [];
-        filePathEls.forEach(el => {
-          if (el.textContent) filePaths.push(el.textContent);
-        });
-
-        const relatedPages: string[] = [];
-        relatedEls.forEach(el => {
-          if (el.textContent) relatedPages.push(el.textContent);
-        });
-
-        pages.push({
-          id,
-          title,
-          content: '', // Will be generated later
-          filePaths,
-          importance,
-          relatedPages
-        });
-      });
-
-      // Extract sections if they exist in the XML
-      const sections: WikiSection[] = [];
-      const rootSections: string[] = [];
-
-      // Try to parse sections if we're in comprehensive view
-      if (isComprehensiveView) {
-        const sectionsEls = xmlDoc.querySelectorAll('section');
-
-        if (sectionsEls && sectionsEls.length > 0) {
-          // Process sections
-          sectionsEls.forEach(sectionEl => {
-            const id = sectionEl.getAttribute('id') || `section-${sections.length + 1}`;
-            const titleEl = sectionEl.querySelector('title');
-            const pageRefEls = sectionEl.querySelectorAll('page_ref');
-            const sectionRefEls = sectionEl.querySelectorAll('section_ref');
-
-            const title = titleEl ? titleEl.textContent || '' : '';
-            const pages: string[] = [];
-            const subsections: string[] = [];
-
-            pageRefEls.forEach(el => {
-              if (el.textContent) pages.push(el.textContent);
-            });
-
-            sectionRefEls.forEach(el => {
-              if (el.textContent) subsections.push(el.textContent);
-            });
-
-            sections.push({
-              id,
-              title,
-              pages,
-              subsections: subsections.length > 0 ? subsections : undefined
-            });
-
-            // Check if this is a root section (not referenced by any other section)
-            let isReferenced = false;
-            sectionsEls.forEach(otherSection => {
-              const otherSectionRefs = otherSection.querySelectorAll('section_ref');
-              otherSectionRefs.forEach(ref => {
-                if (ref.textContent === id) {
-                  isReferenced = true;
-                }
-              });
-            });
-
-            if (!isReferenced) {
-              rootSections.push(id);
-            }
-          });
-        }
+      if (!result.structure) {
+        throw new WikiStructureParseError(
+          `Invalid wiki structure: ${unrepaired.map(issue => issue.message).join(' ')}`,
+          result.issues
+        );
       }
 
-      // Create wiki structure
-      const wikiStructure: WikiStructure = {
-        id: 'wiki',
-        title,
-        description,
-        pages,
-        sections,
-        rootSections
-      };
+      // Add the pages the repository's configuration requires and the model left out
+      const wikiStructure: WikiStructure = config ? applyRequiredOutline(result.structure, config) : result.structure;
+      const pages = wikiStructure.pages;
 
       setWikiStructure(wikiStructure);
       setCurrentPageId(pages.length > 0 ? pages[0].id : undefined);
 
       // Start generating content for all pages with controlled concurrency
-      if (pages.length > 0) {
-        // Mark all pages as in progress
-        const initialInProgress = new Set(pages.map(p => p.id));
-        setPagesInProgress(initialInProgress);
-
-        console.log(`Starting generation for ${pages.length} pages with controlled concurrency`);
-
-        // Maximum concurrent requests
-        const MAX_CONCURRENT = 1;
-
-        // Create a queue of pages
-        const queue = [...pages];
-        let activeRequests = 0;
-
-        // Function to process next items in queue
-        const processQueue = () => {
-          // Process as many items as we can up to our concurrency limit
-          while (queue.length > 0 && activeRequests < MAX_CONCURRENT) {
-            const page = queue.shift();
-            if (page) {
-              activeRequests++;
-              console.log(`Starting page ${page.title} (${activeRequests} active, ${queue.length} remaining)`);
-
-              // Start generating content for this page
-              generatePageContent(page, owner, repo)
-                .finally(() => {
-                  // When done (success or error), decrement active count and process more
-                  activeRequests--;
-                  console.log(`Finished page ${page.title} (${activeRequests} active, ${queue.length} remaining)`);
-
-                  // Check if all work is done (queue empty and no active requests)
-                  if (queue.length === 0 && activeRequests === 0) {
-                    console.log("All page generation tasks completed.");
-                    setIsLoading(false);
-                    setLoadingMessage(undefined);
-                  } else {
-                    // Only process more if there are items remaining and we're under capacity
-                    if (queue.length > 0 && activeRequests < MAX_CONCURRENT) {
-                      processQueue();
-                    }
-                  }
-                });
-            }
-          }
-
-          // Additional check: If the queue started empty or becomes empty and no requests were started/active
-          if (queue.length === 0 && activeRequests === 0 && pages.length > 0 && pagesInProgress.size === 0) {
-            // This handles the case where the queue might finish before the finally blocks fully update activeRequests
-            // or if the initial queue was processed very quickly
-            console.log("Queue empty and no active requests after loop, ensuring loading is false.");
-            setIsLoading(false);
-            setLoadingMessage(undefined);
-          } else if (pages.length === 0) {
-            // Handle case where there were no pages to begin with
-            setIsLoading(false);
-            setLoadingMessage(undefined);
-          }
-        };
-
-        // Start processing the queue
-        processQueue();
-      } else {
-        // Set loading to false if there were no pages found
-        setIsLoading(false);
-        setLoadingMessage(undefined);
-      }
+      generatePages(pages, owner, repo, model);
 
     } catch (error) {
+      if (isAbortError(error)) {
+        console.log('Wiki structure request cancelled');
+        return;
+      }
       console.error('Error determining wiki structure:', error);
       setIsLoading(false);
       setError(error instanceof Error ? error.message : 'An unknown error occurred');
@@ -1112,7 +1017,7 @@ IMPORTANT:
     } finally {
       setStructureRequestInProgress(false);
     }
-  }, [generatePageContent, currentToken, effectiveRepoInfo, pagesInProgress.size, structureRequestInProgress, selectedProviderState, selectedModelState, isCustomSelectedModelState, customSelectedModelState, modelExcludedDirs, modelExcludedFiles, language, messages.loading, isComprehensiveView]);
+  }, [generatePages, currentToken, effectiveRepoInfo, structureRequestInProgress, selectedProviderState, selectedModelState, isCustomSelectedModelState, customSelectedModelState, modelExcludedDirs, modelExcludedFiles, language, messages.loading, isComprehensiveView]);
 
   // Fetch repository structure using GitHub or GitLab API
   const fetchRepositoryStructure = useCallback(async () => {
@@ -1127,6 +1032,7 @@ IMPORTANT:
     setCurrentPageId(undefined);
     setGeneratedPages({});
     setPagesInProgress(new Set());
+    setActivePages(new Set());
     setError(null);
 
     try {
@@ -1157,12 +1063,12 @@ IMPORTANT:
         }
       } else if (effectiveRepoInfo.type === 'github') {
         // GitHub API approach
-        // Try to get the tree data for common branch names
+        // Try to get the tree data for the requested ref, or for common branch names
         let treeData = null;
         let apiErrorDetails = '';
 
-        for (const branch of ['main', 'master']) {
-          const apiUrl = `https://api.github.com/repos/${owner}/${repo}/git/trees/${branch}?recursive=1`;
+        for (const branch of effectiveRepoInfo.ref ? [effectiveRepoInfo.ref] : ['main', 'master']) {
+          const apiUrl = `https://api.github.com/repos/${owner}/${repo}/git/trees/${encodeURIComponent(branch)}?recursive=1`;
           const headers = createGithubHeaders(currentToken);
 
           console.log(`Fetching repository structure from branch: ${branch}`);
@@ -1203,7 +1109,8 @@ IMPORTANT:
         try {
           const headers = createGithubHeaders(currentToken);
 
-          const readmeResponse = await fetch(`https://api.github.com/repos/${owner}/${repo}/readme`, {
+          const readmeQuery = effectiveRepoInfo.ref ? `?ref=${encodeURIComponent(effectiveRepoInfo.ref)}` : '';
+          const readmeResponse = await fetch(`https://api.github.com/repos/${owner}/${repo}/readme${readmeQuery}`, {
             headers
           });
 
@@ -1247,9 +1154,10 @@ IMPORTANT:
           // Step 2: Paginate to fetch full file tree
           let page = 1;
           let morePages = true;
+          const refQuery = effectiveRepoInfo.ref ? `ref=${encodeURIComponent(effectiveRepoInfo.ref)}` : '';
 
           while (morePages) {
-            const apiUrl = `${projectInfoUrl}/repository/tree?recursive=true&per_page=100&page=${page}`;
+            const apiUrl = `${projectInfoUrl}/repository/tree?recursive=true&per_page=100&page=${page}${refQuery ? `&${refQuery}` : ''}`;
             const response = await fetch(apiUrl, { headers });
 
             if (!response.ok) {
@@ -1276,7 +1184,7 @@ IMPORTANT:
           .join('\n');
 
           // Step 4: Try to fetch README.md content
-          const readmeUrl = `${projectInfoUrl}/repository/files/README.md/raw`;
+          const readmeUrl = `${projectInfoUrl}/repository/files/README.md/raw${refQuery ? `?${refQuery}` : ''}`;
             try {
             const readmeResponse = await fetch(readmeUrl, { headers });
               if (readmeResponse.ok) {
@@ -1313,7 +1221,7 @@ IMPORTANT:
 
           if (response.ok) {
             const projectData = JSON.parse(responseText);
-            defaultBranch = projectData.mainbranch.name;
+            defaultBranch = effectiveRepoInfo.ref || projectData.mainbranch.name;
 
             const apiUrl = `https://api.bitbucket.org/2.0/repositories/${encodedRepoPath}/src/${defaultBranch}/?recursive=true&per_page=100`;
             try {
@@ -1372,8 +1280,59 @@ IMPORTANT:
         }
       }
 
+      // A .deepwiki.yml at the repository root decides which files the wiki covers, its outline and its prompts
+      const configFile = await loadRepoConfig(effectiveRepoInfo, currentToken, fileTreeData.split('\n'));
+      repoConfigRef.current = configFile;
+      setRepoConfig(configFile);
+      if (configFile) {
+        if (configFile.warnings.length > 0) {
+          console.warn(`Ignoring parts of ${configFile.fileName}:`, configFile.warnings);
+        }
+        const includedFiles = fileTreeData.split('\n').filter(file => file && isFileIncluded(configFile.config, file));
+        if (includedFiles.length === 0) {
+          throw new Error((messages.repoConfig?.noIncludedFiles || 'No files of the repository are included by {file}.')
+            .replace('{file}', configFile.fileName));
+        }
+        fileTreeData = includedFiles.join('\n');
+      }
+
+      // A subdirectory wiki only sees the files under it, and the README of that directory
+      if (effectiveRepoInfo.path) {
+        const prefix = `${effectiveRepoInfo.path}/`;
+        const scopedFiles = fileTreeData.split('\n').filter(file => file.startsWith(prefix));
+        if (scopedFiles.length === 0) {
+          throw new Error(`No files found under ${effectiveRepoInfo.path} in this repository.`);
+        }
+        fileTreeData = scopedFiles.join('\n');
+        const readmePath = scopedFiles.find(file => file.toLowerCase() === `${prefix}readme.md`.toLowerCase());
+        readmeContent = readmePath
+          ? await fetchFileContent(effectiveRepoInfo, currentToken, effectiveRepoInfo.ref ?? null, readmePath).catch(err => {
+            console.warn(`Could not fetch ${readmePath}, continuing with empty README`, err);
+            return '';
+          })
+          : '';
+      }
+
+      // Keep the file tree for the code browser
+      setRepoFiles(fileTreeData.split('\n').filter(Boolean));
+
+      // Record the commit this wiki is generated from, for incremental refresh later
+      setCommitSha(await fetchHeadCommit(effectiveRepoInfo, currentToken));
+
+      // The repository's model is used unless one was chosen in the URL or for a refresh
+      const configProvider = configFile?.config.provider;
+      const configModel: ModelSelection | undefined = configProvider && !selectedProviderState
+        ? { provider: configProvider, model: configFile?.config.model ?? '', isCustomModel: false, customModel: '' }
+        : undefined;
+      if (configModel) {
+        setSelectedProviderState(configModel.provider);
+        setSelectedModelState(configModel.model);
+        setIsCustomSelectedModelState(false);
+        setCustomSelectedModelState('');
+      }
+
       // Now determine the wiki structure
-      await determineWikiStructure(fileTreeData, readmeContent, owner, repo);
+      await determineWikiStructure(fileTreeData, readmeContent, owner, repo, configModel);
 
     } catch (error) {
       console.error('Error fetching repository structure:', error);
@@ -1384,7 +1343,7 @@ IMPORTANT:
       // Reset the request in progress flag
       setRequestInProgress(false);
     }
-  }, [owner, repo, determineWikiStructure, currentToken, effectiveRepoInfo, requestInProgress, messages.loading]);
+  }, [owner, repo, determineWikiStructure, currentToken, effectiveRepoInfo, requestInProgress, messages.loading, messages.repoConfig, selectedProviderState]);
 
   // Function to export wiki content
   const exportWiki = useCallback(async (format: 'markdown' | 'json') => {
@@ -1489,6 +1448,12 @@ IMPORTANT:
       if (modelExcludedFiles) {
         params.append('excluded_files', modelExcludedFiles);
       }
+      if (effectiveRepoInfo.ref) {
+        params.append('ref', effectiveRepoInfo.ref);
+      }
+      if (effectiveRepoInfo.path) {
+        params.append('path', effectiveRepoInfo.path);
+      }
       const response = await fetch(`/api/wiki_cache?${params.toString()}`, {
         method: 'DELETE',
       });
@@ -1524,6 +1489,11 @@ IMPORTANT:
 
     // Reset cache loaded flag
     cacheLoadedSuccessfully.current = false;
+    lastSavedProgress.current = '';
+    savedPageContent.current = {};
+    pagesEditedByOthers.current = {};
+    setCommitSha(null);
+    setRefreshNotice(null);
     effectRan.current = false; // Allow the main data loading useEffect to run again
 
     // Reset all state
@@ -1531,11 +1501,14 @@ IMPORTANT:
     setCurrentPageId(undefined);
     setGeneratedPages({});
     setPagesInProgress(new Set());
+    setActivePages(new Set());
     setError(null);
     setIsLoading(true); // Set loading state for refresh
     setLoadingMessage(messages.loading?.initializing || 'Initializing wiki generation...');
 
-    // Clear any in-progress requests for page content
+    // Stop streaming requests for the previous wiki and clear in-progress markers
+    generationAbortRef.current.abort();
+    generationAbortRef.current = new AbortController();
     activeContentRequests.clear();
     // Reset flags related to request processing if they are component-wide
     setStructureRequestInProgress(false); // Assuming this flag should be reset
@@ -1560,166 +1533,206 @@ IMPORTANT:
         // Try loading from server-side cache first
         setLoadingMessage(messages.loading?.fetchingCache || 'Checking Supabase cache...');
         try {
-          const params = new URLSearchParams({
+          const cachedData = await fetchWikiCache({
             owner: effectiveRepoInfo.owner,
             repo: effectiveRepoInfo.repo,
             repo_type: effectiveRepoInfo.type,
             language: language,
-            comprehensive: isComprehensiveView.toString(),
-          });
-          const response = await fetch(`/api/wiki_cache?${params.toString()}`, {
-            cache: 'no-store',
-          });
+            ref: effectiveRepoInfo.ref || undefined,
+            path: effectiveRepoInfo.path || undefined,
+          }, { cache: 'no-store' });
+          // A wiki generated from scratch replaces an empty cache only while nobody else saved it
+          cacheRevision.current = cachedData?.revision ?? 0;
+
+          const isPartialCache = cachedData?.generation_complete === false;
+          if (cachedData && (Object.keys(cachedData.generated_pages).length > 0 || isPartialCache)) {
+            console.log('Using Supabase-cached wiki data');
+
+            // Update repoInfo with cached repo_url if not provided in URL
+            let updatedRepoInfo = effectiveRepoInfo;
+            if (cachedData.repo_url && !effectiveRepoInfo.repoUrl) {
+              updatedRepoInfo = { ...effectiveRepoInfo, repoUrl: cachedData.repo_url };
+              setEffectiveRepoInfo(updatedRepoInfo); // Update effective repo info state
+              console.log('Using cached repo_url:', cachedData.repo_url);
+            }
 
-          if (response.ok) {
-            const cachedData = await response.json(); // Returns null if no cache
-            if (cachedData && cachedData.wiki_structure && cachedData.generated_pages && Object.keys(cachedData.generated_pages).length > 0) {
-              console.log('Using Supabase-cached wiki data');
-
-              // Update repoInfo with cached repo_url if not provided in URL
-              let updatedRepoInfo = effectiveRepoInfo;
-              if (cachedData.repo_url && !effectiveRepoInfo.repoUrl) {
-                updatedRepoInfo = { ...effectiveRepoInfo, repoUrl: cachedData.repo_url };
-                setEffectiveRepoInfo(updatedRepoInfo); // Update effective repo info state
-                console.log('Using cached repo_url:', cachedData.repo_url);
-              }
+            // Pages generated from here on follow the configuration the wiki was generated with
+            const cachedConfig = cachedData.repo_config
+              ? readRepoConfigFile(cachedData.repo_config.file_name, cachedData.repo_config.content)
+              : null;
+            repoConfigRef.current = cachedConfig;
+            setRepoConfig(cachedConfig);
+
+            // Ensure the cached structure has sections and rootSections
+            const cachedStructure = {
+              ...cachedData.wiki_structure,
+              sections: cachedData.wiki_structure.sections || [],
+              rootSections: cachedData.wiki_structure.rootSections || []
+            };
 
-              // Ensure the cached structure has sections and rootSections
-              const cachedStructure = {
-                ...cachedData.wiki_structure,
-                sections: cachedData.wiki_structure.sections || [],
-                rootSections: cachedData.wiki_structure.rootSections || []
-              };
-
-              // If sections or rootSections are missing, create intelligent ones based on page titles
-              if (!cachedStructure.sections.length || !cachedStructure.rootSections.length) {
-                const pages = cachedStructure.pages;
-                const sections: WikiSection[] = [];
-                const rootSections: string[] = [];
-
-                // Group pages by common prefixes or categories
-                const pageClusters = new Map<string, WikiPage[]>();
-
-                // Define common categories that might appear in page titles
-                const categories = [
-                  { id: 'overview', title: 'Overview', keywords: ['overview', 'introduction', 'about'] },
-                  { id: 'architecture', title: 'Architecture', keywords: ['architecture', 'structure', 'design', 'system'] },
-                  { id: 'features', title: 'Core Features', keywords: ['feature', 'functionality', 'core'] },
-                  { id: 'components', title: 'Components', keywords: ['component', 'module', 'widget'] },
-                  { id: 'api', title: 'API', keywords: ['api', 'endpoint', 'service', 'server'] },
-                  { id: 'data', title: 'Data Flow', keywords: ['data', 'flow', 'pipeline', 'storage'] },
-                  { id: 'models', title: 'Models', keywords: ['model', 'ai', 'ml', 'integration'] },
-                  { id: 'ui', title: 'User Interface', keywords: ['ui', 'interface', 'frontend', 'page'] },
-                  { id: 'setup', title: 'Setup & Configuration', keywords: ['setup', 'config', 'installation', 'deploy'] }
-                ];
-
-                // Initialize clusters with empty arrays
-                categories.forEach(category => {
-                  pageClusters.set(category.id, []);
-                });
-
-                // Add an "Other" category for pages that don't match any category
-                pageClusters.set('other', []);
-
-                // Assign pages to categories based on title keywords
-                pages.forEach((page: WikiPage) => {
-                  const title = page.title.toLowerCase();
-                  let assigned = false;
-
-                  // Try to find a matching category
-                  for (const category of categories) {
-                    if (category.keywords.some(keyword => title.includes(keyword))) {
-                      pageClusters.get(category.id)?.push(page);
-                      assigned = true;
-                      break;
-                    }
-                  }
+            // If sections or rootSections are missing, create intelligent ones based on page titles
+            if (!cachedStructure.sections.length || !cachedStructure.rootSections.length) {
+              const pages = cachedStructure.pages;
+              const sections: WikiSection[] = [];
+              const rootSections: string[] = [];
+
+              // Group pages by common prefixes or categories
+              const pageClusters = new Map<string, WikiPage[]>();
+
+              // Define common categories that might appear in page titles
+              const categories = [
+                { id: 'overview', title: 'Overview', keywords: ['overview', 'introduction', 'about'] },
+                { id: 'architecture', title: 'Architecture', keywords: ['architecture', 'structure', 'design', 'system'] },
+                { id: 'features', title: 'Core Features', keywords: ['feature', 'functionality', 'core'] },
+                { id: 'components', title: 'Components', keywords: ['component', 'module', 'widget'] },
+                { id: 'api', title: 'API', keywords: ['api', 'endpoint', 'service', 'server'] },
+                { id: 'data', title: 'Data Flow', keywords: ['data', 'flow', 'pipeline', 'storage'] },
+                { id: 'models', title: 'Models', keywords: ['model', 'ai', 'ml', 'integration'] },
+                { id: 'ui', title: 'User Interface', keywords: ['ui', 'interface', 'frontend', 'page'] },
+                { id: 'setup', title: 'Setup & Configuration', keywords: ['setup', 'config', 'installation', 'deploy'] }
+              ];
+
+              // Initialize clusters with empty arrays
+              categories.forEach(category => {
+                pageClusters.set(category.id, []);
+              });
 
-                  // If no category matched, put in "Other"
-                  if (!assigned) {
-                    pageClusters.get('other')?.push(page);
-                  }
-                });
-
-                // Create sections for non-empty categories
-                for (const [categoryId, categoryPages] of pageClusters.entries()) {
-                  if (categoryPages.length > 0) {
-                    const category = categories.find(c => c.id === categoryId) ||
-                                    { id: categoryId, title: categoryId === 'other' ? 'Other' : categoryId.charAt(0).toUpperCase() + categoryId.slice(1) };
-
-                    const sectionId = `section-${categoryId}`;
-                    sections.push({
-                      id: sectionId,
-                      title: category.title,
-                      pages: categoryPages.map((p: WikiPage) => p.id)
-                    });
-                    rootSections.push(sectionId);
-
-                    // Update page parentId
-                    categoryPages.forEach((page: WikiPage) => {
-                      page.parentId = sectionId;
-                    });
+              // Add an "Other" category for pages that don't match any category
+              pageClusters.set('other', []);
+
+              // Assign pages to categories based on title keywords
+              pages.forEach((page: WikiPage) => {
+                const title = page.title.toLowerCase();
+                let assigned = false;
+
+                // Try to find a matching category
+                for (const category of categories) {
+                  if (category.keywords.some(keyword => title.includes(keyword))) {
+                    pageClusters.get(category.id)?.push(page);
+                    assigned = true;
+                    break;
                   }
                 }
 
-                // If we still have no sections (unlikely), fall back to importance-based grouping
-                if (sections.length === 0) {
-                  const highImportancePages = pages.filter((p: WikiPage) => p.importance === 'high').map((p: WikiPage) => p.id);
-                  const mediumImportancePages = pages.filter((p: WikiPage) => p.importance === 'medium').map((p: WikiPage) => p.id);
-                  const lowImportancePages = pages.filter((p: WikiPage) => p.importance === 'low').map((p: WikiPage) => p.id);
-
-                  if (highImportancePages.length > 0) {
-                    sections.push({
-                      id: 'section-high',
-                      title: 'Core Components',
-                      pages: highImportancePages
-                    });
-                    rootSections.push('section-high');
-                  }
+                // If no category matched, put in "Other"
+                if (!assigned) {
+                  pageClusters.get('other')?.push(page);
+                }
+              });
 
-                  if (mediumImportancePages.length > 0) {
-                    sections.push({
-                      id: 'section-medium',
-                      title: 'Key Features',
-                      pages: mediumImportancePages
-                    });
-                    rootSections.push('section-medium');
-                  }
+              // Create sections for non-empty categories
+              for (const [categoryId, categoryPages] of pageClusters.entries()) {
+                if (categoryPages.length > 0) {
+                  const category = categories.find(c => c.id === categoryId) ||
+                                  { id: categoryId, title: categoryId === 'other' ? 'Other' : categoryId.charAt(0).toUpperCase() + categoryId.slice(1) };
+
+                  const sectionId = `section-${categoryId}`;
+                  sections.push({
+                    id: sectionId,
+                    title: category.title,
+                    pages: categoryPages.map((p: WikiPage) => p.id)
+                  });
+                  rootSections.push(sectionId);
+
+                  // Update page parentId
+                  categoryPages.forEach((page: WikiPage) => {
+                    page.parentId = sectionId;
+                  });
+                }
+              }
 
-                  if (lowImportancePages.length > 0) {
-                    sections.push({
-                      id: 'section-low',
-                      title: 'Additional Information',
-                      pages: lowImportancePages
-                    });
-                    rootSections.push('section-low');
-                  }
+              // If we still have no sections (unlikely), fall back to importance-based grouping
+              if (sections.length === 0) {
+                const highImportancePages = pages.filter((p: WikiPage) => p.importance === 'high').map((p: WikiPage) => p.id);
+                const mediumImportancePages = pages.filter((p: WikiPage) => p.importance === 'medium').map((p: WikiPage) => p.id);
+                const lowImportancePages = pages.filter((p: WikiPage) => p.importance === 'low').map((p: WikiPage) => p.id);
+
+                if (highImportancePages.length > 0) {
+                  sections.push({
+                    id: 'section-high',
+                    title: 'Core Components',
+                    pages: highImportancePages
+                  });
+                  rootSections.push('section-high');
                 }
 
-                cachedStructure.sections = sections;
-                cachedStructure.rootSections = rootSections;
+                if (mediumImportancePages.length > 0) {
+                  sections.push({
+                    id: 'section-medium',
+                    title: 'Key Features',
+                    pages: mediumImportancePages
+                  });
+                  rootSections.push('section-medium');
+                }
+
+                if (lowImportancePages.length > 0) {
+                  sections.push({
+                    id: 'section-low',
+                    title: 'Additional Information',
+                    pages: lowImportancePages
+                  });
+                  rootSections.push('section-low');
+                }
               }
 
+              cachedStructure.sections = sections;
+              cachedStructure.rootSections = rootSections;
+            }
+
+            if (isPartialCache) {
+              // Generation was interrupted: keep the finished pages and queue the rest
+              const cachedPages: Record<string, WikiPage> = cachedData.generated_pages;
+              const pageStatus: Record<string, PageGenerationStatus> = cachedData.page_status || {};
+              const isDone = (page: WikiPage) =>
+                (pageStatus[page.id] ?? getPageGenerationStatus(cachedPages[page.id])) === 'done';
+              const finishedPages = Object.fromEntries(
+                cachedStructure.pages.filter(isDone).map((page: WikiPage) => [page.id, cachedPages[page.id]])
+              );
+              const remainingPages = cachedStructure.pages.filter((page: WikiPage) => !isDone(page));
+              savedPageContent.current = Object.fromEntries(
+                Object.entries(finishedPages).map(([pageId, page]) => [pageId, page.content])
+              );
+
+              console.log(`Resuming wiki generation with ${remainingPages.length} of ${cachedStructure.pages.length} pages remaining`);
               setWikiStructure(cachedStructure);
-              setGeneratedPages(cachedData.generated_pages);
-              setCurrentPageId(cachedStructure.pages.length > 0 ? cachedStructure.pages[0].id : undefined);
-              setIsLoading(false);
-              setLoadingMessage(undefined);
-              cacheLoadedSuccessfully.current = true;
-              return; // Exit if cache is successfully loaded
-            } else {
-              console.log('No valid wiki data in Supabase cache or cache is empty.');
+              setGeneratedPages(finishedPages);
+              setCommitSha(cachedData.commit_sha ?? null);
+              setCurrentPageId(getInitialPageId(cachedStructure, requestedPageId));
+              setLoadingMessage(messages.loading?.resumingGeneration || 'Resuming wiki generation...');
+              generatePages(remainingPages, updatedRepoInfo.owner, updatedRepoInfo.repo);
+              return;
             }
+
+            setWikiStructure(cachedStructure);
+            setGeneratedPages(cachedData.generated_pages);
+            setCommitSha(cachedData.commit_sha ?? null);
+            setCurrentPageId(getInitialPageId(cachedStructure, requestedPageId));
+            setIsLoading(false);
+            setLoadingMessage(undefined);
+            cacheLoadedSuccessfully.current = true;
+            return; // Exit if cache is successfully loaded
           } else {
-            // Log error but proceed to fetch structure, as cache is optional
-            console.error('Error fetching wiki cache from Supabase:', response.status, await response.text());
+            console.log('No valid wiki data in Supabase cache or cache is empty.');
           }
         } catch (error) {
           console.error('Error loading from Supabase cache:', error);
           // Proceed to fetch structure if cache loading fails
         }
 
-        // If we reached here, either there was no cache, it was invalid, or an error occurred
+        // If we reached here, either there was no cache, it was invalid, or an error occurred.
+        // A wiki generated without a language in the URL uses the one the repository configures
+        if (!hasLanguageParam) {
+          const configLanguage = (await loadRepoConfig(effectiveRepoInfo, currentToken))?.config.language;
+          if (configLanguage && configLanguage !== language) {
+            // Open the wiki in that language; the effect runs again once the URL has changed
+            const query = new URLSearchParams(searchParams.toString());
+            query.set('language', configLanguage);
+            effectRan.current = false;
+            router.replace(`/${owner}/${repo}?${query.toString()}`);
+            return;
+          }
+        }
+
         // Proceed to fetch repository structure
         fetchRepositoryStructure();
       };
@@ -1732,64 +1745,253 @@ IMPORTANT:
 
     // Clean up function for this effect is not strictly necessary for loadData,
     // but keeping the main unmount cleanup in the other useEffect
-  }, [effectiveRepoInfo.owner, effectiveRepoInfo.repo, effectiveRepoInfo.type, language, fetchRepositoryStructure, messages.loading?.fetchingCache, isComprehensiveView]);
+  }, [effectiveRepoInfo.owner, effectiveRepoInfo.repo, effectiveRepoInfo.type, language, fetchRepositoryStructure, generatePages, messages.loading?.fetchingCache, messages.loading?.resumingGeneration, isComprehensiveView, requestedPageId, hasLanguageParam, currentToken, owner, repo, router, searchParams]);
 
-  // Save wiki to Supabase cache when generation is complete
+  // Save wiki to Supabase cache as pages finish, so an interrupted generation can resume
   useEffect(() => {
     const saveCache = async () => {
-      if (!isLoading &&
-          !error &&
-          wikiStructure &&
-          Object.keys(generatedPages).length > 0 &&
-          Object.keys(generatedPages).length >= wikiStructure.pages.length &&
-          !cacheLoadedSuccessfully.current) {
+      if (!wikiStructure || cacheLoadedSuccessfully.current) {
+        return;
+      }
 
-        const allPagesHaveContent = wikiStructure.pages.every(page =>
-          generatedPages[page.id] && generatedPages[page.id].content && generatedPages[page.id].content !== 'Loading...');
+      // Pages being regenerated are written as stored; their new content is saved as a page update
+      const pagesToSave = { ...generatedPages, ...Object.fromEntries(pagesBeingRegenerated.current) };
+      const pageStatus: Record<string, PageGenerationStatus> = Object.fromEntries(
+        wikiStructure.pages.map(page => [page.id, getPageGenerationStatus(pagesToSave[page.id])])
+      );
 
-        if (allPagesHaveContent) {
-          console.log('Attempting to save wiki data to Supabase cache via Next.js proxy');
+      // Only write when a page has settled or the commit changed since the last save
+      const progressKey = JSON.stringify({ pageStatus, commitSha });
+      if (progressKey === lastSavedProgress.current) {
+        return;
+      }
+      lastSavedProgress.current = progressKey;
 
-          try {
-            // Make sure wikiStructure has sections and rootSections
-            const structureToCache = {
-              ...wikiStructure,
-              sections: wikiStructure.sections || [],
-              rootSections: wikiStructure.rootSections || []
-            };
+      const generationComplete = wikiStructure.pages.every(page => pageStatus[page.id] === 'done');
+      console.log(`Attempting to save wiki data to Supabase cache via Next.js proxy (${generationComplete ? 'complete' : 'partial'})`);
 
-            const dataToCache = {
-              owner: effectiveRepoInfo.owner,
-              repo: effectiveRepoInfo.repo,
-              repo_type: effectiveRepoInfo.type,
-              language: language,
-              comprehensive: isComprehensiveView,
-              wiki_structure: structureToCache,
-              generated_pages: generatedPages,
-              repo_url: effectiveRepoInfo.repoUrl || repoUrl || undefined // Include repo_url in cache
-            };
-            const response = await fetch(`/api/wiki_cache`, {
-              method: 'POST',
-              headers: {
-                'Content-Type': 'application/json',
-              },
-              body: JSON.stringify(dataToCache),
-            });
+      try {
+        // Make sure wikiStructure has sections and rootSections
+        const structureToCache = {
+          ...wikiStructure,
+          sections: wikiStructure.sections || [],
+          rootSections: wikiStructure.rootSections || []
+        };
 
-            if (response.ok) {
-              console.log('Wiki data successfully saved to Supabase cache');
-            } else {
-              console.error('Error saving wiki data to Supabase cache:', response.status, await response.text());
-            }
-          } catch (error) {
-            console.error('Error saving to Supabase cache:', error);
-          }
+        // Placeholders and error messages are not cached; their status records what is left to do
+        const pagesToCache = Object.fromEntries(
+          Object.entries({ ...pagesToSave, ...pagesEditedByOthers.current }).filter(([pageId]) => pageStatus[pageId] === 'done')
+        );
+
+        const dataToCache: WikiCacheRequest = {
+          owner: effectiveRepoInfo.owner,
+          repo: effectiveRepoInfo.repo,
+          repo_type: effectiveRepoInfo.type,
+          language: language,
+          ref: effectiveRepoInfo.ref || undefined,
+          path: effectiveRepoInfo.path || undefined,
+          comprehensive: isComprehensiveView,
+          wiki_structure: structureToCache,
+          generated_pages: pagesToCache,
+          repo_url: effectiveRepoInfo.repoUrl || repoUrl || undefined, // Include repo_url in cache
+          generation_complete: generationComplete,
+          page_status: pageStatus,
+          commit_sha: commitSha ?? undefined,
+          repo_config: repoConfig ? { file_name: repoConfig.fileName, content: repoConfig.content } : undefined,
+          // Record the finished generation in the wiki's version history
+          version: generationComplete ? pendingVersion.current ?? undefined : undefined
+        };
+        // Pages edited by others while the wiki was generated are kept and shown instead of the generated ones
+        const { revision, editedPages } = await saveGeneratedWiki(dataToCache, cacheRevision.current, savedPageContent.current);
+        cacheRevision.current = revision;
+        savedPageContent.current = Object.fromEntries(
+          Object.entries({ ...pagesToCache, ...editedPages }).map(([pageId, page]) => [pageId, page.content])
+        );
+        if (Object.keys(editedPages).length > 0) {
+          pagesEditedByOthers.current = { ...pagesEditedByOthers.current, ...editedPages };
+          setGeneratedPages(prev => ({ ...prev, ...editedPages }));
+        }
+        if (dataToCache.version && pendingVersion.current === dataToCache.version) {
+          pendingVersion.current = null;
         }
+        if (generationComplete) {
+          // The wiki is stored in full; from here on pages are saved one by one
+          cacheLoadedSuccessfully.current = true;
+        }
+        console.log('Wiki data successfully saved to Supabase cache');
+      } catch (error) {
+        console.error('Error saving to Supabase cache:', error);
       }
     };
 
-    saveCache();
-  }, [isLoading, error, wikiStructure, generatedPages, effectiveRepoInfo.owner, effectiveRepoInfo.repo, effectiveRepoInfo.type, language, isComprehensiveView]);
+    cacheSaveChain.current = cacheSaveChain.current.then(saveCache);
+  }, [wikiStructure, generatedPages, commitSha, repoConfig, effectiveRepoInfo.owner, effectiveRepoInfo.repo, effectiveRepoInfo.type, effectiveRepoInfo.ref, effectiveRepoInfo.path, effectiveRepoInfo.repoUrl, repoUrl, language, isComprehensiveView]);
+
+  // Status of every page for the generation queue view
+  const queueStatuses = useMemo(() => {
+    const statuses: Record<string, QueueStatus> = {};
+    wikiStructure?.pages.forEach(page => {
+      if (activePages.has(page.id)) {
+        statuses[page.id] = 'active';
+      } else if (pagesInProgress.has(page.id)) {
+        statuses[page.id] = 'queued';
+      } else {
+        statuses[page.id] = getPageGenerationStatus(generatedPages[page.id]) === 'failed' ? 'failed' : 'done';
+      }
+    });
+    return statuses;
+  }, [wikiStructure, activePages, pagesInProgress, generatedPages]);
+
+  // Section containing the current page, offered as a regeneration scope
+  const currentSection = useMemo(() => {
+    if (!wikiStructure || !currentPageId) return undefined;
+    return wikiStructure.sections.find(section => section.pages.includes(currentPageId));
+  }, [wikiStructure, currentPageId]);
+
+  // Same rule as the Edit Page link: starred repositories without ownership or collaboration rights are read-only
+  const canModifyWiki = isAdmin || !(repositoryPermissions &&
+    !repositoryPermissions.isOwner &&
+    !repositoryPermissions.isCollaborator &&
+    (repositoryPermissions.relationship === 'starred' || repositoryPermissions.relationship === 'unknown'));
+
+  // Regenerate only the pages built from files that changed since the wiki's commit
+  const refreshChangedPages = async () => {
+    if (!wikiStructure) return;
+    setRefreshNotice(null);
+
+    if (!commitSha) {
+      setRefreshNotice(messages.repoPage?.noCommitRecorded || 'This wiki has no recorded commit. Use Refresh Wiki to rebuild it.');
+      return;
+    }
+
+    setIsCheckingChanges(true);
+    try {
+      const headSha = await fetchHeadCommit(effectiveRepoInfo, currentToken);
+      if (!headSha) {
+        setRefreshNotice(messages.repoPage?.headCommitUnavailable || 'Could not determine the latest commit of the repository.');
+        return;
+      }
+      if (headSha === commitSha) {
+        setRefreshNotice(messages.repoPage?.wikiUpToDate || 'The wiki is up to date with the repository.');
+        return;
+      }
+
+      // Paths in the wiki structure may carry a leading "./" or "/"
+      const normalizePath = (path: string) => path.trim().replace(/^\.?\//, '');
+      const changedFiles = await fetchChangedFiles(effectiveRepoInfo, currentToken, commitSha, headSha);
+      const changedSet = changedFiles ? new Set(changedFiles.map(normalizePath)) : null;
+      const stalePageIds = wikiStructure.pages
+        .filter(page => !changedSet || page.filePaths.some(path => changedSet.has(normalizePath(path))))
+        .map(page => page.id);
+
+      console.log(`${changedFiles ? changedFiles.length : 'Unknown number of'} files changed since ${commitSha}, regenerating ${stalePageIds.length} page(s)`);
+      setRefreshNotice(
+        (messages.repoPage?.refreshingChangedPages || 'Regenerating {count} page(s) affected by changes since the last generation.')
+          .replace('{count}', stalePageIds.length.toString())
+      );
+
+      const succeeded = await regeneratePages(stalePageIds, {
+        scope: 'page',
+        instructions: '',
+        provider: selectedProviderState,
+        model: selectedModelState,
+        isCustomModel: isCustomSelectedModelState,
+        customModel: customSelectedModelState
+      }, 'refresh');
+
+      // Only move the wiki forward when every affected page was regenerated, so failures are retried next time
+      if (succeeded) {
+        const updated = await updateWikiCache(wikiCacheKey, data => ({ ...data, commit_sha: headSha }));
+        followOwnSave(cacheRevision, updated.revision);
+        setCommitSha(headSha);
+      }
+    } catch (err) {
+      console.error('Error recording the refreshed commit:', err);
+      setRefreshNotice(`${messages.repoPage?.refreshFailed || 'Failed to save the refreshed wiki'}: ${err instanceof Error ? err.message : String(err)}`);
+    } finally {
+      setIsCheckingChanges(false);
+    }
+  };
+
+  const handleRegenerate = (request: RegenerateRequest) => {
+    if (!wikiStructure || !currentPageId) return;
+    const pageIds = request.scope === 'section' && currentSection
+      ? getSectionPageIds(wikiStructure, currentSection.id)
+      : [currentPageId];
+    regeneratePages(pageIds, request, generatedPages[currentPageId] ? 'regeneration' : 'generation');
+  };
+
+  // Repository and wiki variant handed to the editor, so edits are saved to the wiki shown here
+  const wikiRouteContext = { repoInfo: effectiveRepoInfo, language, comprehensive: isComprehensiveView };
+  const wikiCacheKey = getWikiCacheKey(wikiRouteContext);
+  const editQuery = buildWikiRouteQuery(wikiRouteContext);
+
+  // Comment threads of the page shown, in a margin next to it
+  const [isCommentsOpen, setIsCommentsOpen] = useState(false);
+  const [commentDraft, setCommentDraft] = useState<CommentAnchor | null>(null);
+  const [commentNotice, setCommentNotice] = useState<string | null>(null);
+  const pageComments = useWikiComments(wikiCacheKey, currentPageId || null);
+  const openThreadCount = pageComments.threads.filter(thread => !thread.resolved).length;
+
+  useEffect(() => {
+    setCommentDraft(null);
+    setCommentNotice(null);
+  }, [currentPageId]);
+
+  // Text selected in the rendered page starts a thread when it can be found in the page's markdown
+  const handlePageTextSelected = () => {
+    if (!isCommentsOpen || !currentPageId || !generatedPages[currentPageId]) return;
+    const selected = window.getSelection()?.toString().trim();
+    if (!selected) return;
+    const anchor = anchorText(generatedPages[currentPageId].content, selected);
+    setCommentDraft(anchor);
+    setCommentNotice(anchor ? null : (messages.comments?.selectionNotFound || 'Comments can only be added to plain text. Select text without formatting.'));
+  };
+
+  // Show a restored version; the backend has already saved it
+  const handleVersionRestored = (data: WikiCacheData) => {
+    cacheLoadedSuccessfully.current = true;
+    cacheRevision.current = data.revision;
+    setWikiStructure(data.wiki_structure);
+    setGeneratedPages(data.generated_pages);
+    setCommitSha(data.commit_sha ?? null);
+    if (currentPageId && !data.wiki_structure.pages.some(page => page.id === currentPageId)) {
+      setCurrentPageId(data.wiki_structure.pages[0]?.id);
+    }
+  };
+
+  // Structure edits from the page tree are shown at once and saved one after another, each from the structure
+  // the previous one produced; a failed save reloads the stored wiki
+  const [structureNotice, setStructureNotice] = useState<string | null>(null);
+  const structureSaveChain = useRef<Promise<void>>(Promise.resolve());
+
+  const handleStructureChange = (structure: WikiStructure) => {
+    if (!wikiStructure) return;
+    const base = wikiStructure;
+    // The edit is saved below rather than by the generation save effect
+    cacheLoadedSuccessfully.current = true;
+    setStructureNotice(null);
+    setWikiStructure(structure);
+    setGeneratedPages(prev => syncGeneratedPages(prev, structure));
+    if (currentPageId && !structure.pages.some(page => page.id === currentPageId)) {
+      setCurrentPageId(structure.pages[0]?.id);
+    }
+
+    const version: WikiVersionInfo = { author: getAuthorName(user), model: null, kind: 'manual', reason: 'edit' };
+    structureSaveChain.current = structureSaveChain.current.then(async () => {
+      try {
+        const saved = await saveWikiStructure(wikiCacheKey, base, structure, version);
+        followOwnSave(cacheRevision, saved.revision);
+      } catch (err) {
+        console.error('Error saving the wiki structure:', err);
+        setStructureNotice(err instanceof WikiSaveConflictError
+          ? (messages.structure?.conflict || 'The pages were reorganized by someone else. Their version has been loaded.')
+          : `${messages.structure?.saveFailed || 'Failed to save the pages'}: ${err instanceof Error ? err.message : String(err)}`);
+        const data = await fetchWikiCache(wikiCacheKey, { cache: 'no-store' }).catch(() => null);
+        if (data) handleVersionRestored(data);
+      }
+    });
+  };
 
   const handlePageSelect = (pageId: string) => {
     if (currentPageId != pageId) {
@@ -1799,6 +2001,80 @@ IMPORTANT:
 
   const [isModelSelectionModalOpen, setIsModelSelectionModalOpen] = useState(false);
 
+  // Search palette, opened with Ctrl+K or Cmd+K
+  const [isSearchOpen, setIsSearchOpen] = useState(false);
+  // Heading to scroll to once the page showing it is rendered; an empty id scrolls to the top
+  const [pendingHeadingId, setPendingHeadingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    const hash = window.location.hash.slice(1);
+    if (hash) setPendingHeadingId(decodeURIComponent(hash));
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'k') {
+        e.preventDefault();
+        setIsSearchOpen(open => !open);
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  useEffect(() => {
+    if (pendingHeadingId === null || !currentPageId || !generatedPages[currentPageId]) return;
+    const container = document.getElementById('wiki-content');
+    if (!pendingHeadingId) {
+      container?.scrollTo({ top: 0 });
+      setPendingHeadingId(null);
+      return;
+    }
+    const heading = container?.querySelector(`#${CSS.escape(pendingHeadingId)}`);
+    if (heading) {
+      heading.scrollIntoView({ behavior: 'smooth', block: 'start' });
+      setPendingHeadingId(null);
+    }
+  }, [pendingHeadingId, currentPageId, generatedPages]);
+
+  // Code browser, opened at the cited file and lines when a citation is followed
+  const [isCodeBrowserOpen, setIsCodeBrowserOpen] = useState(false);
+  const [codeBrowserTarget, setCodeBrowserTarget] = useState<CodeCitation | null>(null);
+  const citationSource = useMemo<CitationSource>(
+    () => ({ repoInfo: effectiveRepoInfo, token: currentToken, ref: commitSha }),
+    [effectiveRepoInfo, currentToken, commitSha]
+  );
+
+  const openCodeBrowser = (target: CodeCitation | null) => {
+    setCodeBrowserTarget(target);
+    setIsCodeBrowserOpen(true);
+  };
+
+  const handleOpenSearchHit = (hit: WikiSearchHit) => {
+    const isThisWiki = hit.owner === wikiCacheKey.owner && hit.repo === wikiCacheKey.repo &&
+      hit.repo_type === wikiCacheKey.repo_type && hit.language === wikiCacheKey.language &&
+      (hit.ref || undefined) === wikiCacheKey.ref && (hit.path || undefined) === wikiCacheKey.path;
+    if (!isThisWiki) {
+      router.push(getWikiSearchUrl(hit));
+      return;
+    }
+    handlePageSelect(hit.page_id);
+    setPendingHeadingId(hit.heading ? headingId(hit.heading) : '');
+  };
+
+  const paletteCommands: PaletteCommand[] = [
+    { id: 'ask', label: messages.ask?.title || 'Ask about this repository', icon: <FaComments />, run: () => setIsAskModalOpen(true) },
+    { id: 'history', label: messages.history?.title || 'Version History', icon: <FaHistory />, run: () => setIsHistoryOpen(true) },
+    { id: 'comments', label: messages.comments?.title || 'Comments', icon: <FaComment />, run: () => setIsCommentsOpen(open => !open) },
+    { id: 'source', label: messages.codeBrowser?.title || 'Source code', icon: <FaCode />, run: () => openCodeBrowser(null) },
+    { id: 'compare', label: messages.compare?.button || 'Compare Wikis', icon: <FaCodeBranch />, run: () => router.push(`/${effectiveRepoInfo.owner}/${effectiveRepoInfo.repo}/compare${editQuery}`) },
+    { id: 'packages', label: messages.packages?.button || 'Package Wikis', icon: <FaBoxes />, run: () => router.push(`/${effectiveRepoInfo.owner}/${effectiveRepoInfo.repo}/packages${editQuery}`) },
+    ...(canModifyWiki && currentPageId ? [
+      { id: 'regenerate', label: messages.regenerate?.title || 'Regenerate Content', icon: <FaSync />, run: () => setIsRegenerateModalOpen(true) },
+      { id: 'refresh-changed', label: messages.repoPage?.refreshChangedPages || 'Refresh Changed Pages', icon: <FaSync />, run: refreshChangedPages },
+    ] : []),
+    { id: 'export-markdown', label: messages.repoPage?.exportAsMarkdown || 'Export as Markdown', icon: <FaDownload />, run: () => exportWiki('markdown') },
+    { id: 'export-json', label: messages.repoPage?.exportAsJson || 'Export as JSON', icon: <FaFileExport />, run: () => exportWiki('json') },
+  ];
+
   return (
     <div className="h-screen paper-texture p-4 md:p-8 flex flex-col">
       <style>{wikiStyles}</style>
@@ -1816,6 +2092,16 @@ IMPORTANT:
               </div>
             )}
           </div>
+          {wikiStructure && (
+            <button
+              onClick={() => setIsSearchOpen(true)}
+              className="flex items-center gap-2 text-sm text-[var(--muted)] hover:text-[var(--foreground)] bg-[var(--card-bg)] px-3 py-1.5 rounded-md border border-[var(--border-color)] transition-colors md:w-72"
+            >
+              <FaSearch className="text-xs" />
+              <span className="flex-1 text-left">{messages.search?.button || 'Search'}</span>
+              <kbd className="text-[10px] font-mono px-1.5 py-0.5 rounded border border-[var(--border-color)]">Ctrl K</kbd>
+            </button>
+          )}
         </div>
       </header>
 
@@ -1856,29 +2142,8 @@ IMPORTANT:
                         : `${wikiStructure.pages.length - pagesInProgress.size} of ${wikiStructure.pages.length} pages completed`}
                 </p>
 
-                {/* Show list of in-progress pages */}
-                {pagesInProgress.size > 0 && (
-                  <div className="mt-4 text-xs">
-                    <p className="text-[var(--muted)] mb-2">
-                      {messages.repoPage?.currentlyProcessing || 'Currently processing:'}
-                    </p>
-                    <ul className="text-[var(--foreground)] space-y-1">
-                      {Array.from(pagesInProgress).slice(0, 3).map(pageId => {
-                        const page = wikiStructure.pages.find(p => p.id === pageId);
-                        return page ? <li key={pageId} className="truncate border-l-2 border-[var(--accent-primary)]/30 pl-2">{page.title}</li> : null;
-                      })}
-                      {pagesInProgress.size > 3 && (
-                        <li className="text-[var(--muted)]">
-                          {language === 'ja'
-                            ? `...他に${pagesInProgress.size - 3}ページ`
-                            : messages.repoPage?.andMorePages
-                                ? messages.repoPage.andMorePages.replace('{count}', (pagesInProgress.size - 3).toString())
-                                : `...and ${pagesInProgress.size - 3} more`}
-                        </li>
-                      )}
-                    </ul>
-                  </div>
-                )}
+                {/* Live view of the generation queue */}
+                <GenerationQueue pages={wikiStructure.pages} statuses={queueStatuses} />
               </div>
             )}
           </div>
@@ -1933,8 +2198,24 @@ IMPORTANT:
                     >
                       {effectiveRepoInfo.owner}/{effectiveRepoInfo.repo}
                     </a>
+                    {effectiveRepoInfo.ref && (
+                      <span
+                        className="ml-2 px-1.5 py-0.5 rounded font-mono bg-[var(--background)] border border-[var(--border-color)] truncate"
+                        title={messages.form?.ref || 'Branch, tag or commit'}
+                      >
+                        {effectiveRepoInfo.ref}
+                      </span>
+                    )}
                   </>
                 )}
+                {effectiveRepoInfo.path && (
+                  <span
+                    className="ml-2 px-1.5 py-0.5 rounded font-mono bg-[var(--background)] border border-[var(--border-color)] truncate"
+                    title={messages.form?.path || 'Subdirectory'}
+                  >
+                    {effectiveRepoInfo.path}/
+                  </span>
+                )}
               </div>
 
               {/* Wiki Type Indicator */}
@@ -1949,6 +2230,15 @@ IMPORTANT:
                 </span>
               </div>
 
+              {repoConfig && (
+                <RepoConfigPanel
+                  configFile={repoConfig}
+                  language={language}
+                  provider={selectedProviderState}
+                  model={isCustomSelectedModelState ? customSelectedModelState : selectedModelState}
+                />
+              )}
+
               {/* Refresh Wiki button */}
               <div className="mb-5">
                 <button
@@ -1959,6 +2249,20 @@ IMPORTANT:
                   <FaSync className={`mr-2 ${isLoading ? 'animate-spin' : ''}`} />
                   {messages.repoPage?.refreshWiki || 'Refresh Wiki'}
                 </button>
+                {canModifyWiki && (
+                  <button
+                    onClick={refreshChangedPages}
+                    disabled={isLoading || isCheckingChanges || pagesInProgress.size > 0}
+                    title={commitSha ? `${messages.repoPage?.generatedAtCommit || 'Generated at commit'} ${commitSha.slice(0, 7)}` : undefined}
+                    className="flex items-center w-full mt-2 text-xs px-3 py-2 bg-[var(--background)] text-[var(--foreground)] rounded-md hover:bg-[var(--background)]/80 disabled:opacity-50 disabled:cursor-not-allowed border border-[var(--border-color)] transition-colors hover:cursor-pointer"
+                  >
+                    <FaSync className={`mr-2 ${isCheckingChanges ? 'animate-spin' : ''}`} />
+                    {messages.repoPage?.refreshChangedPages || 'Refresh Changed Pages'}
+                  </button>
+                )}
+                {refreshNotice && (
+                  <p className="mt-2 text-xs text-[var(--muted)]">{refreshNotice}</p>
+                )}
               </div>
 
               {/* Export buttons */}
@@ -1993,6 +2297,22 @@ IMPORTANT:
                 </div>
               )}
 
+              <Link
+                href={`/${effectiveRepoInfo.owner}/${effectiveRepoInfo.repo}/compare${editQuery}`}
+                className="flex items-center mb-2 text-xs px-3 py-2 bg-[var(--background)] text-[var(--foreground)] rounded-md hover:bg-[var(--background)]/80 border border-[var(--border-color)] transition-colors"
+              >
+                <FaCodeBranch className="mr-2" />
+                {messages.compare?.button || 'Compare Wikis'}
+              </Link>
+
+              <Link
+                href={`/${effectiveRepoInfo.owner}/${effectiveRepoInfo.repo}/packages${editQuery}`}
+                className="flex items-center mb-5 text-xs px-3 py-2 bg-[var(--background)] text-[var(--foreground)] rounded-md hover:bg-[var(--background)]/80 border border-[var(--border-color)] transition-colors"
+              >
+                <FaBoxes className="mr-2" />
+                {messages.packages?.button || 'Package Wikis'}
+              </Link>
+
               <h4 className="text-md font-semibold text-[var(--foreground)] mb-3 font-serif">
                 {messages.repoPage?.pages || 'Pages'}
               </h4>
@@ -2001,13 +2321,18 @@ IMPORTANT:
                 currentPageId={currentPageId}
                 onPageSelect={handlePageSelect}
                 messages={messages.repoPage}
+                onStructureChange={canModifyWiki && !isLoading && pagesInProgress.size === 0 ? handleStructureChange : undefined}
+                pendingPageIds={new Set(wikiStructure.pages.filter(page => !generatedPages[page.id]).map(page => page.id))}
               />
+              {structureNotice && (
+                <p className="mt-2 text-xs text-[var(--highlight)]">{structureNotice}</p>
+              )}
             </div>
 
             {/* Wiki Content */}
             <div id="wiki-content" className="w-full flex-grow p-6 lg:p-8 overflow-y-auto">
               {currentPageId && generatedPages[currentPageId] ? (
-                <div className="max-w-[900px] xl:max-w-[1000px] mx-auto">
+                <div className={`${isCommentsOpen ? 'max-w-[1200px] xl:max-w-[1300px]' : 'max-w-[900px] xl:max-w-[1000px]'} mx-auto`}>
                   <div className="flex items-center gap-3 mb-4">
                     <h3 className="text-xl font-bold text-[var(--foreground)] break-words font-serif">
                       {generatedPages[currentPageId].title}
@@ -2025,10 +2350,10 @@ IMPORTANT:
                       if (isAdmin) {
                         return (
                           <Link
-                            href={`/${effectiveRepoInfo.owner}/${effectiveRepoInfo.repo}/edit/${currentPageId}`}
+                            href={`/${effectiveRepoInfo.owner}/${effectiveRepoInfo.repo}/edit/${currentPageId}${editQuery}`}
                             onClick={() => {
                               if (generatedPages[currentPageId]) {
-                                sessionStorage.setItem('editPageContent', generatedPages[currentPageId].content)
+                                sessionStorage.setItem(getEditContentStorageKey(wikiCacheKey, currentPageId), generatedPages[currentPageId].content)
                               }
                             }}
                             className="text-sm text-[var(--accent-primary)] hover:text-[var(--highlight)] transition-colors bg-[var(--accent-primary)]/10 hover:bg-[var(--accent-primary)]/20 px-3 py-1.5 rounded-md border border-[var(--accent-primary)]/30"
@@ -2049,10 +2374,10 @@ IMPORTANT:
                       
                       return (
                         <Link
-                          href={`/${effectiveRepoInfo.owner}/${effectiveRepoInfo.repo}/edit/${currentPageId}`}
+                          href={`/${effectiveRepoInfo.owner}/${effectiveRepoInfo.repo}/edit/${currentPageId}${editQuery}`}
                           onClick={() => {
                             if (generatedPages[currentPageId]) {
-                              sessionStorage.setItem('editPageContent', generatedPages[currentPageId].content)
+                              sessionStorage.setItem(getEditContentStorageKey(wikiCacheKey, currentPageId), generatedPages[currentPageId].content)
                             }
                           }}
                           className="text-sm text-[var(--accent-primary)] hover:text-[var(--highlight)] transition-colors bg-[var(--accent-primary)]/10 hover:bg-[var(--accent-primary)]/20 px-3 py-1.5 rounded-md border border-[var(--accent-primary)]/30"
@@ -2061,12 +2386,78 @@ IMPORTANT:
                         </Link>
                       );
                     })()}
+                    {canModifyWiki && (
+                      <button
+                        onClick={() => setIsRegenerateModalOpen(true)}
+                        disabled={pagesInProgress.size > 0}
+                        className="inline-flex items-center text-sm text-[var(--accent-primary)] hover:text-[var(--highlight)] transition-colors bg-[var(--accent-primary)]/10 hover:bg-[var(--accent-primary)]/20 px-3 py-1.5 rounded-md border border-[var(--accent-primary)]/30 disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
+                        <FaSync className={`mr-1.5 ${pagesInProgress.has(currentPageId) ? 'animate-spin' : ''}`} />
+                        {pagesInProgress.has(currentPageId)
+                          ? (messages.regenerate?.regenerating || 'Regenerating...')
+                          : (messages.regenerate?.button || 'Regenerate')}
+                      </button>
+                    )}
+                    <button
+                      onClick={() => setIsHistoryOpen(true)}
+                      disabled={pagesInProgress.size > 0}
+                      className="inline-flex items-center text-sm text-[var(--accent-primary)] hover:text-[var(--highlight)] transition-colors bg-[var(--accent-primary)]/10 hover:bg-[var(--accent-primary)]/20 px-3 py-1.5 rounded-md border border-[var(--accent-primary)]/30 disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      <FaHistory className="mr-1.5" />
+                      {messages.history?.button || 'History'}
+                    </button>
+                    <button
+                      onClick={() => setIsCommentsOpen(!isCommentsOpen)}
+                      className={`inline-flex items-center text-sm text-[var(--accent-primary)] hover:text-[var(--highlight)] transition-colors px-3 py-1.5 rounded-md border border-[var(--accent-primary)]/30 ${isCommentsOpen ? 'bg-[var(--accent-primary)]/20' : 'bg-[var(--accent-primary)]/10 hover:bg-[var(--accent-primary)]/20'}`}
+                    >
+                      <FaComment className="mr-1.5" />
+                      {messages.comments?.button || 'Comments'}
+                      {openThreadCount > 0 && ` (${openThreadCount})`}
+                    </button>
+                    <button
+                      onClick={() => {
+                        const firstFile = generatedPages[currentPageId]?.filePaths[0];
+                        openCodeBrowser(firstFile ? { path: firstFile.replace(/^\.?\//, '') } : null);
+                      }}
+                      className="inline-flex items-center text-sm text-[var(--accent-primary)] hover:text-[var(--highlight)] transition-colors bg-[var(--accent-primary)]/10 hover:bg-[var(--accent-primary)]/20 px-3 py-1.5 rounded-md border border-[var(--accent-primary)]/30"
+                    >
+                      <FaCode className="mr-1.5" />
+                      {messages.codeBrowser?.button || 'Source'}
+                    </button>
                   </div>
 
-                  <div className="prose prose-sm md:prose-base lg:prose-lg max-w-none">
-                    <Markdown
-                      content={generatedPages[currentPageId].content}
-                    />
+                  {regenerationError && (
+                    <div className="flex items-center gap-2 mb-4 px-3 py-2 text-sm text-[var(--highlight)] bg-[var(--highlight)]/5 border border-[var(--highlight)]/30 rounded-md">
+                      <FaExclamationTriangle />
+                      <span className="flex-1">{regenerationError}</span>
+                      <button onClick={() => setRegenerationError(null)} aria-label="Dismiss">
+                        <FaTimes />
+                      </button>
+                    </div>
+                  )}
+
+                  <div className={isCommentsOpen ? 'flex gap-6 items-start' : ''}>
+                    <div className="prose prose-sm md:prose-base lg:prose-lg max-w-none flex-1 min-w-0" onMouseUp={handlePageTextSelected}>
+                      <Markdown
+                        content={generatedPages[currentPageId].content}
+                        citationSource={citationSource}
+                        onOpenCitation={openCodeBrowser}
+                      />
+                    </div>
+                    {isCommentsOpen && (
+                      <CommentMargin
+                        className="w-72 flex-none sticky top-0"
+                        content={generatedPages[currentPageId].content}
+                        threads={pageComments.threads}
+                        draft={commentDraft}
+                        onCancelDraft={() => setCommentDraft(null)}
+                        onStartThread={pageComments.startThread}
+                        onReply={pageComments.reply}
+                        onSetResolved={pageComments.setResolved}
+                        emptyHint={messages.comments?.selectToComment || 'Select text in the page to comment on it.'}
+                        error={commentNotice || pageComments.error}
+                      />
+                    )}
                   </div>
 
                   {generatedPages[currentPageId].relatedPages.length > 0 && (
@@ -2091,6 +2482,31 @@ IMPORTANT:
                     </div>
                   )}
                 </div>
+              ) : currentPageId && wikiStructure.pages.some(page => page.id === currentPageId) ? (
+                // Pages added from the page tree are generated when asked for
+                <div className="flex flex-col items-center justify-center p-8 text-[var(--muted)] h-full">
+                  <h3 className="text-xl font-bold text-[var(--foreground)] break-words font-serif mb-2">
+                    {wikiStructure.pages.find(page => page.id === currentPageId)?.title}
+                  </h3>
+                  <p className="font-serif mb-4">
+                    {messages.structure?.notGeneratedPrompt || 'This page has not been generated yet.'}
+                  </p>
+                  {canModifyWiki && (
+                    <button
+                      onClick={() => setIsRegenerateModalOpen(true)}
+                      disabled={pagesInProgress.size > 0}
+                      className="inline-flex items-center text-sm text-[var(--accent-primary)] hover:text-[var(--highlight)] transition-colors bg-[var(--accent-primary)]/10 hover:bg-[var(--accent-primary)]/20 px-3 py-1.5 rounded-md border border-[var(--accent-primary)]/30 disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      <FaSync className={`mr-1.5 ${pagesInProgress.has(currentPageId) ? 'animate-spin' : ''}`} />
+                      {pagesInProgress.has(currentPageId)
+                        ? (messages.structure?.generating || 'Generating...')
+                        : (messages.structure?.generate || 'Generate page')}
+                    </button>
+                  )}
+                  {regenerationError && (
+                    <p className="mt-4 text-sm text-[var(--highlight)]">{regenerationError}</p>
+                  )}
+                </div>
               ) : (
                 <div className="flex flex-col items-center justify-center p-8 text-[var(--muted)] h-full">
                   <div className="relative mb-4">
@@ -2179,6 +2595,67 @@ IMPORTANT:
         showTokenInput={effectiveRepoInfo.type !== 'local' && !currentToken} // Show token input if not local and no current token
         repositoryType={effectiveRepoInfo.type as 'github' | 'gitlab' | 'bitbucket'}
       />
+
+      {currentPageId && wikiStructure?.pages.some(page => page.id === currentPageId) && (
+        <RegeneratePageModal
+          isOpen={isRegenerateModalOpen}
+          onClose={() => setIsRegenerateModalOpen(false)}
+          onRegenerate={handleRegenerate}
+          pageTitle={generatedPages[currentPageId]?.title ?? wikiStructure.pages.find(page => page.id === currentPageId)?.title ?? ''}
+          sectionTitle={currentSection?.title}
+          sectionPageCount={wikiStructure && currentSection ? getSectionPageIds(wikiStructure, currentSection.id).length : 0}
+          provider={selectedProviderState}
+          model={selectedModelState}
+          isCustomModel={isCustomSelectedModelState}
+          customModel={customSelectedModelState}
+        />
+      )}
+
+      {wikiStructure && (
+        <WikiSearchPalette
+          isOpen={isSearchOpen}
+          onClose={() => setIsSearchOpen(false)}
+          wikiKey={wikiCacheKey}
+          pages={wikiStructure.pages}
+          commands={paletteCommands}
+          onOpenPage={(pageId) => {
+            handlePageSelect(pageId);
+            setPendingHeadingId('');
+          }}
+          onOpenHit={handleOpenSearchHit}
+        />
+      )}
+
+      {wikiStructure && (
+        <CodeBrowser
+          isOpen={isCodeBrowserOpen}
+          onClose={() => setIsCodeBrowserOpen(false)}
+          source={citationSource}
+          files={repoFiles}
+          pages={Object.values(generatedPages)}
+          target={codeBrowserTarget}
+          onOpenPage={(pageId) => {
+            setIsCodeBrowserOpen(false);
+            handlePageSelect(pageId);
+            setPendingHeadingId('');
+          }}
+        />
+      )}
+
+      {wikiStructure && (
+        <VersionHistoryModal
+          isOpen={isHistoryOpen}
+          onClose={() => setIsHistoryOpen(false)}
+          cacheKey={wikiCacheKey}
+          pages={wikiStructure.pages}
+          currentPages={generatedPages}
+          pageId={currentPageId}
+          canRestore={canModifyWiki}
+          author={getAuthorName(user)}
+          getRevision={() => cacheRevision.current}
+          onRestored={handleVersionRestored}
+        />
+      )}
     </div>
   );
 }
@@ -7,12 +7,16 @@ import { FaArrowLeft, FaSync, FaDownload, FaArrowRight, FaArrowUp, FaTimes } fro
 import ThemeToggle from '@/components/theme-toggle';
 import { useLanguage } from '@/contexts/LanguageContext';
 import { RepoInfo } from '@/types/repoinfo';
+import { WikiCacheData } from '@/types/wiki/wikicache';
 import getRepoUrl from '@/utils/getRepoUrl';
+import { ChatCompletionRequest } from '@/utils/websocketClient';
+import { collectChatCompletion, isAbortError } from '@/utils/chatStreamClient';
+import { fetchWikiCache } from '@/utils/wikiCacheApi';
+import { normalizeRepoPath } from '@/utils/wikiRoute';
 
 // Helper function to add tokens and other parameters to request body
 const addTokensToRequestBody = (
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  requestBody: Record<string, any>,
+  requestBody: ChatCompletionRequest,
   token: string,
   repoType: string,
   provider: string = '',
@@ -56,6 +60,8 @@ export default function SlidesPage() {
   const repoType = searchParams.get('type') || 'github';
   const localPath = searchParams.get('local_path') ? decodeURIComponent(searchParams.get('local_path') || '') : undefined;
   const repoUrl = searchParams.get('repo_url') ? decodeURIComponent(searchParams.get('repo_url') || '') : undefined;
+  const ref = searchParams.get('ref') || '';
+  const repoPath = normalizeRepoPath(searchParams.get('path'));
   const providerParam = searchParams.get('provider') || '';
   const modelParam = searchParams.get('model') || '';
   const isCustomModelParam = searchParams.get('is_custom_model') === 'true';
@@ -72,8 +78,10 @@ export default function SlidesPage() {
     type: repoType,
     token: token || null,
     localPath: localPath || null,
-    repoUrl: repoUrl || null
-  }), [owner, repo, repoType, token, localPath, repoUrl]);
+    repoUrl: repoUrl || null,
+    ref: ref || null,
+    path: repoPath
+  }), [owner, repo, repoType, token, localPath, repoUrl, ref, repoPath]);
 
   // State variables
   const [isLoading, setIsLoading] = useState(false);
@@ -86,71 +94,41 @@ export default function SlidesPage() {
   const [isExporting, setIsExporting] = useState(false);
   const [exportError, setExportError] = useState<string | null>(null);
   const [isFullscreen, setIsFullscreen] = useState(false);
+  const abortControllerRef = useRef(new AbortController());
 
-  // Define a type for the wiki content
-  interface WikiPage {
-    id: string;
-    title: string;
-    content: string;
-    importance: string;
-    filePaths: string[];
-    relatedPages: string[];
-  }
-
-  interface WikiSection {
-    id: string;
-    title: string;
-    pages: string[];
-    subsections: string[];
-  }
-
-  interface WikiStructure {
-    description: string;
-    pages: WikiPage[];
-    sections: WikiSection[];
-    rootSections: string[];
-  }
-
-  interface WikiCacheData {
-    wiki_structure: WikiStructure;
-    generated_pages: Record<string, WikiPage>;
-  }
+  // Stop streaming slide generation when leaving the page
+  useEffect(() => {
+    const controller = abortControllerRef.current;
+    return () => controller.abort();
+  }, []);
 
   const [cachedWikiContent, setCachedWikiContent] = useState<WikiCacheData | null>(null);
 
   // Function to fetch cached wiki content
   const fetchCachedWikiContent = useCallback(async () => {
     try {
-      const params = new URLSearchParams({
+      const cachedData = await fetchWikiCache({
         owner: repoInfo.owner,
         repo: repoInfo.repo,
         repo_type: repoInfo.type,
         language: language,
-      });
-      const response = await fetch(`/api/wiki_cache?${params.toString()}`, {
-        cache: 'no-store',
-      });
-
-      if (response.ok) {
-        const cachedData = await response.json();
-        if (cachedData && cachedData.wiki_structure && cachedData.generated_pages &&
-            Object.keys(cachedData.generated_pages).length > 0) {
-          console.log('Successfully fetched cached wiki data for slides generation');
-          setCachedWikiContent(cachedData);
-          return cachedData;
-        } else {
-          console.log('No valid wiki data in server cache or cache is empty.');
-          return null;
-        }
+        ref: repoInfo.ref || undefined,
+        path: repoInfo.path || undefined,
+      }, { cache: 'no-store' });
+
+      if (cachedData && Object.keys(cachedData.generated_pages).length > 0) {
+        console.log('Successfully fetched cached wiki data for slides generation');
+        setCachedWikiContent(cachedData);
+        return cachedData;
       } else {
-        console.error('Error fetching wiki cache from server:', response.status);
+        console.log('No valid wiki data in server cache or cache is empty.');
         return null;
       }
     } catch (error) {
       console.error('Error loading from server cache:', error);
       return null;
     }
-  }, [repoInfo.owner, repoInfo.repo, repoInfo.type, language]);
+  }, [repoInfo.owner, repoInfo.repo, repoInfo.type, repoInfo.ref, repoInfo.path, language]);
 
   // Generate slides content
   const generateSlidesContent = useCallback(async () => {
@@ -231,9 +209,11 @@ export default function SlidesPage() {
       }
 
       // First, get a plan for the slides
-      const planRequestBody: Record<string, unknown> = {
+      const planRequestBody: ChatCompletionRequest = {
         repo_url: repoUrl,
         type: repoInfo.type,
+        ref: repoInfo.ref || undefined,
+        path: repoInfo.path || undefined,
         messages: [{
           role: 'user',
           content: `Create an engaging outline for a high-quality marketing slide presentation about the ${owner}/${repo} repository.
@@ -262,104 +242,10 @@ Give me the numbered list with brief descriptions for each slide. Be creative bu
       // Add tokens if available
       addTokensToRequestBody(planRequestBody, token, repoInfo.type, providerParam, modelParam, isCustomModelParam, customModelParam, language);
 
-      // Use WebSocket for communication
-      let planContent = '';
-
-      try {
-        // Create WebSocket URL from the server base URL
-        const serverBaseUrl = process.env.NEXT_PUBLIC_SERVER_BASE_URL || 'http://localhost:8001';
-        const wsBaseUrl = serverBaseUrl.replace(/^http/, 'ws');
-        const wsUrl = `${wsBaseUrl}/ws/chat`;
-
-        // Create a new WebSocket connection
-        const ws = new WebSocket(wsUrl);
-
-        // Create a single promise that handles the entire WebSocket lifecycle
-        await new Promise<void>((resolve, reject) => {
-          let isResolved = false;
-
-          // If the connection doesn't open or complete within 10 seconds, fall back to HTTP
-          const timeout = setTimeout(() => {
-            if (!isResolved) {
-              isResolved = true;
-              // Try to close the WebSocket if it's still open
-              if (ws.readyState === WebSocket.OPEN) {
-                ws.close();
-              }
-              reject(new Error('WebSocket connection timeout'));
-            }
-          }, 10000);
-
-          // Set up event handlers
-          ws.onopen = () => {
-            console.log('WebSocket connection established for slide plan');
-            // Send the request as JSON
-            ws.send(JSON.stringify(planRequestBody));
-            // Don't resolve here, wait for the complete response
-          };
-
-          ws.onmessage = (event) => {
-            const chunk = event.data;
-            planContent += chunk;
-          };
-
-          ws.onclose = () => {
-            clearTimeout(timeout);
-            console.log('WebSocket connection closed for slide plan');
-            if (!isResolved) {
-              isResolved = true;
-              resolve();
-            }
-          };
-
-          ws.onerror = (error) => {
-            console.error('WebSocket error:', error);
-            if (!isResolved) {
-              isResolved = true;
-              reject(new Error('WebSocket connection failed'));
-            }
-          };
-        });
-      } catch (wsError) {
-        console.error('WebSocket error, falling back to HTTP:', wsError);
-
-        // Fall back to HTTP if WebSocket fails
-        const planResponse = await fetch(`/api/chat/stream`, {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify(planRequestBody)
-        });
-
-        if (!planResponse.ok) {
-          throw new Error(`Error generating slide plan: ${planResponse.status}`);
-        }
-
-        // Process the plan response
-        planContent = '';
-        const planReader = planResponse.body?.getReader();
-        const planDecoder = new TextDecoder();
-
-        if (!planReader) {
-          throw new Error('Failed to get plan response reader');
-        }
-
-        try {
-          while (true) {
-            const { done, value } = await planReader.read();
-            if (done) break;
-            const chunk = planDecoder.decode(value, { stream: true });
-            planContent += chunk;
-          }
-          // Ensure final decoding
-          const finalChunk = planDecoder.decode();
-          planContent += finalChunk;
-        } catch (readError) {
-          console.error('Error reading plan stream:', readError);
-          throw new Error('Error processing plan response stream');
-        }
-      }
+      const planContent = await collectChatCompletion(planRequestBody, {
+        label: 'slide plan',
+        signal: abortControllerRef.current.signal,
+      });
 
       // Log the plan content for debugging
       console.log("Received slide plan:", planContent);
@@ -439,9 +325,11 @@ Give me the numbered list with brief descriptions for each slide. Be creative bu
         setLoadingMessage(`Generating slide ${slideCounter} of ${slideMatches.length}: ${slideTitle}`);
 
         // Create a request for this specific slide
-        const slideRequestBody: Record<string, unknown> = {
+        const slideRequestBody: ChatCompletionRequest = {
           repo_url: repoUrl,
           type: repoInfo.type,
+          ref: repoInfo.ref || undefined,
+          path: repoInfo.path || undefined,
           messages: [{
             role: 'user',
             content: `Create a single HTML slide about the ${owner}/${repo} repository with the title "${slideTitle}".
@@ -538,104 +426,10 @@ Please return ONLY the HTML with no markdown formatting or code blocks. Just the
         // Add tokens if available
         addTokensToRequestBody(slideRequestBody, token, repoInfo.type, providerParam, modelParam, isCustomModelParam, customModelParam, language);
 
-        // Use WebSocket for communication
-        let slideContent = '';
-
-        try {
-          // Create WebSocket URL from the server base URL
-          const serverBaseUrl = process.env.NEXT_PUBLIC_SERVER_BASE_URL || 'http://localhost:8001';
-          const wsBaseUrl = serverBaseUrl.replace(/^http/, 'ws');
-          const wsUrl = `${wsBaseUrl}/ws/chat`;
-
-          // Create a new WebSocket connection
-          const ws = new WebSocket(wsUrl);
-
-          // Create a single promise that handles the entire WebSocket lifecycle
-          await new Promise<void>((resolve, reject) => {
-            let isResolved = false;
-
-            // If the connection doesn't open or complete within 10 seconds, fall back to HTTP
-            const timeout = setTimeout(() => {
-              if (!isResolved) {
-                isResolved = true;
-                // Try to close the WebSocket if it's still open
-                if (ws.readyState === WebSocket.OPEN) {
-                  ws.close();
-                }
-                reject(new Error('WebSocket connection timeout'));
-              }
-            }, 10000);
-
-            // Set up event handlers
-            ws.onopen = () => {
-              console.log(`WebSocket connection established for slide ${slideCounter}`);
-              // Send the request as JSON
-              ws.send(JSON.stringify(slideRequestBody));
-              // Don't resolve here, wait for the complete response
-            };
-
-            ws.onmessage = (event) => {
-              const chunk = event.data;
-              slideContent += chunk;
-            };
-
-            ws.onclose = () => {
-              clearTimeout(timeout);
-              console.log(`WebSocket connection closed for slide ${slideCounter}`);
-              if (!isResolved) {
-                isResolved = true;
-                resolve();
-              }
-            };
-
-            ws.onerror = (error) => {
-              console.error('WebSocket error:', error);
-              if (!isResolved) {
-                isResolved = true;
-                reject(new Error('WebSocket connection failed'));
-              }
-            };
-          });
-        } catch (wsError) {
-          console.error('WebSocket error, falling back to HTTP:', wsError);
-
-          // Fall back to HTTP if WebSocket fails
-          const slideResponse = await fetch(`/api/chat/stream`, {
-            method: 'POST',
-            headers: {
-              'Content-Type': 'application/json',
-            },
-            body: JSON.stringify(slideRequestBody)
-          });
-
-          if (!slideResponse.ok) {
-            throw new Error(`Error generating slide ${slideCounter}: ${slideResponse.status}`);
-          }
-
-          // Process the slide response
-          slideContent = '';
-          const slideReader = slideResponse.body?.getReader();
-          const slideDecoder = new TextDecoder();
-
-          if (!slideReader) {
-            throw new Error(`Failed to get reader for slide ${slideCounter}`);
-          }
-
-          try {
-            while (true) {
-              const { done, value } = await slideReader.read();
-              if (done) break;
-              const chunk = slideDecoder.decode(value, { stream: true });
-              slideContent += chunk;
-            }
-            // Ensure final decoding
-            const finalChunk = slideDecoder.decode();
-            slideContent += finalChunk;
-          } catch (readError) {
-            console.error(`Error reading slide ${slideCounter} stream:`, readError);
-            throw new Error(`Error processing slide ${slideCounter} response stream`);
-          }
-        }
+        const slideContent = await collectChatCompletion(slideRequestBody, {
+          label: `slide ${slideCounter}`,
+          signal: abortControllerRef.current.signal,
+        });
 
         // Extract HTML content - look for content between HTML tags or code blocks
         let slideHtml = '';
@@ -876,6 +670,7 @@ Please return ONLY the HTML with no markdown formatting or code blocks. Just the
       setSlides(generatedSlides);
 
     } catch (err) {
+      if (isAbortError(err)) return;
       console.error('Error generating slides content:', err);
       setError(err instanceof Error ? err.message : 'An unknown error occurred');
     } finally {
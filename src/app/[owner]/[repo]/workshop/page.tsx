@@ -8,12 +8,16 @@ import ThemeToggle from '@/components/theme-toggle';
 import Markdown from '@/components/Markdown';
 import { useLanguage } from '@/contexts/LanguageContext';
 import { RepoInfo } from '@/types/repoinfo';
+import { WikiCacheData } from '@/types/wiki/wikicache';
 import getRepoUrl from '@/utils/getRepoUrl';
+import { ChatCompletionRequest } from '@/utils/websocketClient';
+import { collectChatCompletion, isAbortError } from '@/utils/chatStreamClient';
+import { fetchWikiCache } from '@/utils/wikiCacheApi';
+import { normalizeRepoPath } from '@/utils/wikiRoute';
 
 // Helper function to add tokens and other parameters to request body
 const addTokensToRequestBody = (
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  requestBody: Record<string, any>,
+  requestBody: ChatCompletionRequest,
   token: string,
   repoType: string,
   provider: string = '',
@@ -50,6 +54,8 @@ export default function WorkshopPage() {
   const repoType = searchParams.get('type') || 'github';
   const localPath = searchParams.get('local_path') ? decodeURIComponent(searchParams.get('local_path') || '') : undefined;
   const repoUrl = searchParams.get('repo_url') ? decodeURIComponent(searchParams.get('repo_url') || '') : undefined;
+  const ref = searchParams.get('ref') || '';
+  const repoPath = normalizeRepoPath(searchParams.get('path'));
   const providerParam = searchParams.get('provider') || '';
   const modelParam = searchParams.get('model') || '';
   const isCustomModelParam = searchParams.get('is_custom_model') === 'true';
@@ -66,8 +72,10 @@ export default function WorkshopPage() {
     type: repoType,
     token: token || null,
     localPath: localPath || null,
-    repoUrl: repoUrl || null
-  }), [owner, repo, repoType, token, localPath, repoUrl]);
+    repoUrl: repoUrl || null,
+    ref: ref || null,
+    path: repoPath
+  }), [owner, repo, repoType, token, localPath, repoUrl, ref, repoPath]);
 
   // State variables
   const [isLoading, setIsLoading] = useState(false);
@@ -78,70 +86,40 @@ export default function WorkshopPage() {
   const [workshopContent, setWorkshopContent] = useState<string>('');
   const [isExporting, setIsExporting] = useState(false);
   const [exportError, setExportError] = useState<string | null>(null);
-  // Define a type for the wiki content
-  interface WikiPage {
-    id: string;
-    title: string;
-    content: string;
-    importance: string;
-    filePaths: string[];
-    relatedPages: string[];
-  }
-
-  interface WikiSection {
-    id: string;
-    title: string;
-    pages: string[];
-    subsections: string[];
-  }
-
-  interface WikiStructure {
-    description: string;
-    pages: WikiPage[];
-    sections: WikiSection[];
-    rootSections: string[];
-  }
-
-  interface WikiCacheData {
-    wiki_structure: WikiStructure;
-    generated_pages: Record<string, WikiPage>;
-  }
+  const abortControllerRef = useRef(new AbortController());
 
+  // Stop streaming workshop generation when leaving the page
+  useEffect(() => {
+    const controller = abortControllerRef.current;
+    return () => controller.abort();
+  }, []);
   const [cachedWikiContent, setCachedWikiContent] = useState<WikiCacheData | null>(null);
 
   // Function to fetch cached wiki content
   const fetchCachedWikiContent = useCallback(async () => {
     try {
-      const params = new URLSearchParams({
+      const cachedData = await fetchWikiCache({
         owner: repoInfo.owner,
         repo: repoInfo.repo,
         repo_type: repoInfo.type,
         language: language,
-      });
-      const response = await fetch(`/api/wiki_cache?${params.toString()}`, {
-        cache: 'no-store',
-      });
-
-      if (response.ok) {
-        const cachedData = await response.json();
-        if (cachedData && cachedData.wiki_structure && cachedData.generated_pages &&
-            Object.keys(cachedData.generated_pages).length > 0) {
-          console.log('Successfully fetched cached wiki data for workshop generation');
-          setCachedWikiContent(cachedData);
-          return cachedData;
-        } else {
-          console.log('No valid wiki data in server cache or cache is empty.');
-          return null;
-        }
+        ref: repoInfo.ref || undefined,
+        path: repoInfo.path || undefined,
+      }, { cache: 'no-store' });
+
+      if (cachedData && Object.keys(cachedData.generated_pages).length > 0) {
+        console.log('Successfully fetched cached wiki data for workshop generation');
+        setCachedWikiContent(cachedData);
+        return cachedData;
       } else {
-        console.error('Error fetching wiki cache from server:', response.status);
+        console.log('No valid wiki data in server cache or cache is empty.');
         return null;
       }
     } catch (error) {
       console.error('Error loading from server cache:', error);
       return null;
     }
-  }, [repoInfo.owner, repoInfo.repo, repoInfo.type, language]);
+  }, [repoInfo.owner, repoInfo.repo, repoInfo.type, repoInfo.ref, repoInfo.path, language]);
 
   // Generate workshop content
   const generateWorkshopContent = useCallback(async () => {
@@ -221,9 +199,11 @@ export default function WorkshopPage() {
       }
 
       // Prepare request body with enhanced context from wiki
-      const requestBody: Record<string, unknown> = {
+      const requestBody: ChatCompletionRequest = {
         repo_url: repoUrl,
         type: repoInfo.type,
+        ref: repoInfo.ref || undefined,
+        path: repoInfo.path || undefined,
         messages: [{
           role: 'user',
           content: `Create a comprehensive workshop for learning how to use and contribute to the ${owner}/${repo} repository.
@@ -309,125 +289,12 @@ Make the workshop content in ${language === 'en' ? 'English' :
       // Add tokens if available
       addTokensToRequestBody(requestBody, token, repoInfo.type, providerParam, modelParam, isCustomModelParam, customModelParam, language);
 
-      // Use WebSocket for communication
-      let content = '';
-
-      try {
-        // Create WebSocket URL from the server base URL
-        const serverBaseUrl = process.env.NEXT_PUBLIC_SERVER_BASE_URL || 'http://localhost:8001';
-        const wsBaseUrl = serverBaseUrl.replace(/^http/, 'ws');
-        const wsUrl = `${wsBaseUrl}/ws/chat`;
-
-        // Create a new WebSocket connection
-        const ws = new WebSocket(wsUrl);
-
-        // Create a promise that resolves when the WebSocket connection is complete
-        await new Promise<void>((resolve, reject) => {
-          // Set up event handlers
-          ws.onopen = () => {
-            console.log('WebSocket connection established for workshop generation');
-            // Send the request as JSON
-            ws.send(JSON.stringify(requestBody));
-            resolve();
-          };
-
-          ws.onerror = (error) => {
-            console.error('WebSocket error:', error);
-            reject(new Error('WebSocket connection failed'));
-          };
-
-          // If the connection doesn't open within 5 seconds, fall back to HTTP
-          const timeout = setTimeout(() => {
-            reject(new Error('WebSocket connection timeout'));
-          }, 5000);
-
-          // Clear the timeout if the connection opens successfully
-          ws.onopen = () => {
-            clearTimeout(timeout);
-            console.log('WebSocket connection established for workshop generation');
-            // Send the request as JSON
-            ws.send(JSON.stringify(requestBody));
-            resolve();
-          };
-        });
-
-        // Create a promise that resolves when the WebSocket response is complete
-        await new Promise<void>((resolve, reject) => {
-          // Use a local variable to accumulate content
-          let accumulatedContent = '';
-
-          // Handle incoming messages
-          ws.onmessage = (event) => {
-            const chunk = event.data;
-            content += chunk;
-            accumulatedContent += chunk;
-
-            // Update the state with the accumulated content
-            setWorkshopContent(accumulatedContent);
-          };
-
-          // Handle WebSocket close
-          ws.onclose = () => {
-            console.log('WebSocket connection closed for workshop generation');
-            resolve();
-          };
-
-          // Handle WebSocket errors
-          ws.onerror = (error) => {
-            console.error('WebSocket error during message reception:', error);
-            reject(new Error('WebSocket error during message reception'));
-          };
-        });
-      } catch (wsError) {
-        console.error('WebSocket error, falling back to HTTP:', wsError);
-
-        // Fall back to HTTP if WebSocket fails
-        const response = await fetch(`/api/chat/stream`, {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify(requestBody)
-        });
-
-        if (!response.ok) {
-          const errorText = await response.text().catch(() => 'No error details available');
-          throw new Error(`Error generating workshop content: ${response.status} - ${errorText}`);
-        }
-
-        // Process the response
-        content = '';
-        const reader = response.body?.getReader();
-        const decoder = new TextDecoder();
-
-        if (!reader) {
-          throw new Error('Failed to get response reader');
-        }
-
-        try {
-          // Use a local variable to accumulate content
-          let accumulatedContent = '';
-
-          while (true) {
-            const { done, value } = await reader.read();
-            if (done) break;
-            const chunk = decoder.decode(value, { stream: true });
-            content += chunk;
-            accumulatedContent += chunk;
-
-            // Update the state with the accumulated content
-            setWorkshopContent(accumulatedContent);
-          }
-          // Ensure final decoding
-          const finalChunk = decoder.decode();
-          content += finalChunk;
-          accumulatedContent += finalChunk;
-          setWorkshopContent(accumulatedContent);
-        } catch (readError) {
-          console.error('Error reading stream:', readError);
-          throw new Error('Error processing response stream');
-        }
-      }
+      // Stream the workshop into the page as it is generated
+      let content = await collectChatCompletion(requestBody, {
+        label: 'workshop generation',
+        signal: abortControllerRef.current.signal,
+        onChunk: (_chunk, text) => setWorkshopContent(text),
+      });
 
       // Clean up markdown delimiters
       content = content.replace(/^```markdown\s*/i, '').replace(/```\s*$/i, '');
@@ -509,6 +376,7 @@ Estimated time: 20-30 minutes | Combines concepts from all exercises
       setWorkshopContent(content);
 
     } catch (err) {
+      if (isAbortError(err)) return;
       console.error('Error generating workshop content:', err);
       setError(err instanceof Error ? err.message : 'An unknown error occurred');
     } finally {
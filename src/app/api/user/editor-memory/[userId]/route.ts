@@ -0,0 +1,81 @@
+import { NextRequest } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+
+const SERVER_BASE_URL = process.env.NEXT_PUBLIC_SERVER_BASE_URL || 'http://localhost:8001';
+
+const errorResponse = (error: string, status: number) =>
+  new Response(JSON.stringify({ error }), {
+    status,
+    headers: { 'Content-Type': 'application/json' }
+  });
+
+// Id of the user whose Supabase session the request's bearer token belongs to, or null if it has no valid one
+async function getSessionUserId(request: NextRequest): Promise<string | null> {
+  const token = request.headers.get('Authorization')?.match(/^Bearer\s+(.+)$/i)?.[1];
+  if (!token) return null;
+  const supabase = createClient(process.env.NEXT_PUBLIC_SUPABASE_URL!, process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!);
+  const { data, error } = await supabase.auth.getUser(token);
+  return error || !data.user ? null : data.user.id;
+}
+
+// Forwards a request to the backend's editor memory of a user, keeping its query, body and session.
+// Only the user themselves can read or change their memory.
+async function forward(request: NextRequest, userId: string, method: string) {
+  try {
+    const sessionUserId = await getSessionUserId(request);
+    if (!sessionUserId) {
+      return errorResponse('Sign in to access this data', 401);
+    }
+    if (sessionUserId !== userId) {
+      return errorResponse('This data belongs to another user', 403);
+    }
+
+    const { search } = new URL(request.url);
+    const response = await fetch(
+      `${SERVER_BASE_URL}/api/user/editor-memory/${encodeURIComponent(userId)}${search}`,
+      {
+        method,
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: request.headers.get('Authorization') || '',
+        },
+        body: method === 'PUT' ? await request.text() : undefined,
+      }
+    );
+
+    if (!response.ok) {
+      return errorResponse(`Backend error: ${response.status}`, response.status);
+    }
+
+    const data = await response.json();
+    return new Response(JSON.stringify(data), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' }
+    });
+
+  } catch (error) {
+    console.error('Error in editor memory API:', error);
+    return errorResponse('Internal server error', 500);
+  }
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { userId: string } }
+) {
+  return forward(request, params.userId, 'GET');
+}
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { userId: string } }
+) {
+  return forward(request, params.userId, 'PUT');
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { userId: string } }
+) {
+  return forward(request, params.userId, 'DELETE');
+}
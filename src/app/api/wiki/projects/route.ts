@@ -1,4 +1,5 @@
 import { NextResponse } from 'next/server';
+import { isWikiCacheKey } from '@/types/wiki/validators';
 
 // This should match the expected structure from your Python backend
 interface ApiProcessedProject {
@@ -9,26 +10,11 @@ interface ApiProcessedProject {
   repo_type: string;
   submittedAt: number;
   language: string;
+  // Branch, tag or commit of the wiki; null for the default branch
+  ref?: string | null;
+  // Subdirectory of the wiki; null for the whole repository
+  path?: string | null;
 }
-// Payload for deleting a project cache
-interface DeleteProjectCachePayload {
-  owner: string;
-  repo: string;
-  repo_type: string;
-  language: string;
-}
-
-/** Type guard to validate DeleteProjectCachePayload at runtime */
-function isDeleteProjectCachePayload(obj: any): obj is DeleteProjectCachePayload {
-  return (
-    obj != null &&
-    typeof obj.owner === 'string' && obj.owner.trim() !== '' &&
-    typeof obj.repo === 'string' && obj.repo.trim() !== '' &&
-    typeof obj.repo_type === 'string' && obj.repo_type.trim() !== '' &&
-    typeof obj.language === 'string' && obj.language.trim() !== ''
-  );
-}
-
 // Ensure this matches your Python backend configuration
 const PYTHON_BACKEND_URL = process.env.PYTHON_BACKEND_HOST || 'http://localhost:8001';
 const PROJECTS_API_ENDPOINT = `${PYTHON_BACKEND_URL}/api/processed_projects`;
@@ -74,14 +60,16 @@ export async function GET() {
 export async function DELETE(request: Request) {
   try {
     const body: unknown = await request.json();
-    if (!isDeleteProjectCachePayload(body)) {
+    if (!isWikiCacheKey(body)) {
       return NextResponse.json(
         { error: 'Invalid request body: owner, repo, repo_type, and language are required and must be non-empty strings.' },
         { status: 400 }
       );
     }
-    const { owner, repo, repo_type, language } = body;
+    const { owner, repo, repo_type, language, ref, path } = body;
     const params = new URLSearchParams({ owner, repo, repo_type, language });
+    if (ref) params.append('ref', ref);
+    if (path) params.append('path', path);
     const response = await fetch(`${CACHE_API_ENDPOINT}?${params}`, {
       method: 'DELETE',
       headers: { 'Content-Type': 'application/json' },
@@ -11,7 +11,11 @@ import ConfigurationModal from '@/components/ConfigurationModal';
 import ProcessedProjects from '@/components/ProcessedProjects';
 import GitHubReposSidebar from '@/components/GitHubReposSidebar';
 import GitHubCollaboratorReposSidebar from '@/components/GitHubCollaboratorReposSidebar';
+import CombinedWikiBar from '@/components/CombinedWikiBar';
+import { WikiCacheRepo } from '@/types/wiki/wikicache';
+import { getRepoLabel } from '@/utils/combinedWiki';
 import { extractUrlPath } from '@/utils/urlDecoder';
+import { normalizeRepoPath } from '@/utils/wikiRoute';
 import { useProcessedProjects } from '@/hooks/useProcessedProjects';
 
 import { useLanguage } from '@/contexts/LanguageContext';
@@ -81,6 +85,10 @@ export default function Home() {
   };
 
   const [repositoryInput, setRepositoryInput] = useState('https://github.com/AsyncFuncAI/deepwiki-open');
+  // Branch, tag or commit to document; the default branch when empty
+  const [gitRef, setGitRef] = useState('');
+  // Subdirectory to document, e.g. one package of a monorepo; the whole repository when empty
+  const [repoPath, setRepoPath] = useState('');
 
   // Provider-based model selection state
   const [provider, setProvider] = useState<string>('');
@@ -112,12 +120,23 @@ export default function Home() {
     repo: string,
     type: string,
     fullPath?: string,
-    localPath?: string
+    localPath?: string,
+    repoUrl?: string,
+    ref?: string,
+    path?: string
   } | null => {
     input = input.trim();
 
     let owner = '', repo = '', type = 'github', fullPath;
-    let localPath: string | undefined;
+    let localPath: string | undefined, repoUrl: string | undefined, ref: string | undefined, path: string | undefined;
+
+    // Folder URLs (.../tree/<ref>/<path> on GitHub and GitLab, .../src/<ref>/<path> on Bitbucket) name a ref and
+    // a subdirectory; a ref containing '/' cannot be told apart from the path and has to be entered separately
+    const folderUrlMatch = input.match(/^((?:https?:\/\/)?[^\/]+\/.+?)\/(?:-\/)?(?:tree|src)\/([^\/]+)(?:\/(.+?))?\/?$/);
+    if (folderUrlMatch && !/^(\/|[a-zA-Z]:\\)/.test(input)) {
+      [, repoUrl, ref, path] = folderUrlMatch;
+      input = repoUrl;
+    }
 
     // Handle Windows absolute paths (e.g., C:\path\to\folder)
     const windowsPathRegex = /^[a-zA-Z]:\\(?:[^\\/:*?"<>|\r\n]+\\)*[^\\/:*?"<>|\r\n]*$/;
@@ -164,12 +183,23 @@ export default function Home() {
       repo = repo.slice(0, -4);
     }
 
-    return { owner, repo, type, fullPath, localPath };
+    return { owner, repo, type, fullPath, localPath, repoUrl, ref, path };
   };
 
   // State for configuration modal
   const [isConfigModalOpen, setIsConfigModalOpen] = useState(false);
 
+  // Repositories picked in the sidebar lists to document together in a combined wiki
+  const [combinedRepos, setCombinedRepos] = useState<WikiCacheRepo[]>([]);
+  const toggleCombinedRepo = (repo: WikiCacheRepo) => setCombinedRepos(prev =>
+    prev.some(r => getRepoLabel(r) === getRepoLabel(repo))
+      ? prev.filter(r => getRepoLabel(r) !== getRepoLabel(repo))
+      : [...prev, repo]
+  );
+
+  // Local folders are documented as they are on disk, so they have no ref to pick
+  const isLocalInput = /^(\/|[a-zA-Z]:\\)/.test(repositoryInput.trim());
+
   const handleFormSubmit = (e: React.FormEvent) => {
     e.preventDefault();
 
@@ -181,6 +211,14 @@ export default function Home() {
       return;
     }
 
+    // Fill in the ref and subdirectory of a folder URL unless they were entered
+    if (parsedRepo.ref && !gitRef.trim()) {
+      setGitRef(parsedRepo.ref);
+    }
+    if (parsedRepo.path && !repoPath.trim()) {
+      setRepoPath(parsedRepo.path);
+    }
+
     // If valid, open the configuration modal
     setError(null);
     setIsConfigModalOpen(true);
@@ -204,7 +242,7 @@ export default function Home() {
       return;
     }
 
-    const { owner, repo, type, localPath } = parsedRepo;
+    const { owner, repo, type, localPath, repoUrl } = parsedRepo;
 
     // Store tokens in query params if they exist
     const params = new URLSearchParams();
@@ -217,7 +255,14 @@ export default function Home() {
     if (localPath) {
       params.append('local_path', encodeURIComponent(localPath));
     } else {
-      params.append('repo_url', encodeURIComponent(repositoryInput));
+      params.append('repo_url', encodeURIComponent(repoUrl ?? repositoryInput));
+      if (gitRef.trim()) {
+        params.append('ref', gitRef.trim());
+      }
+    }
+    const path = normalizeRepoPath(repoPath);
+    if (path) {
+      params.append('path', path);
     }
     // Add model parameters
     params.append('provider', provider);
@@ -301,6 +346,17 @@ export default function Home() {
                   </div>
                 )}
               </div>
+              {!isLocalInput && (
+                <input
+                  type="text"
+                  value={gitRef}
+                  onChange={(e) => setGitRef(e.target.value)}
+                  placeholder={t('form.refPlaceholder') || 'Default branch'}
+                  title={t('form.ref') || 'Branch, tag or commit'}
+                  aria-label={t('form.ref') || 'Branch, tag or commit'}
+                  className="input-japanese block w-full sm:w-40 px-3 py-2.5 border-[var(--border-color)] rounded-lg bg-transparent text-[var(--foreground)] font-mono text-sm focus:outline-none focus:border-[var(--accent-primary)]"
+                />
+              )}
               <button
                 type="submit"
                 className="btn-japanese px-6 py-2.5 rounded-lg disabled:opacity-50 disabled:cursor-not-allowed"
@@ -316,6 +372,10 @@ export default function Home() {
             isOpen={isConfigModalOpen}
             onClose={() => setIsConfigModalOpen(false)}
             repositoryInput={repositoryInput}
+            gitRef={isLocalInput ? undefined : gitRef}
+            setGitRef={setGitRef}
+            repoPath={repoPath}
+            setRepoPath={setRepoPath}
             selectedLanguage={selectedLanguage}
             setSelectedLanguage={setSelectedLanguage}
             isComprehensiveView={isComprehensiveView}
@@ -468,8 +528,11 @@ export default function Home() {
         {/* Sidebar */}
         <aside className="flex-shrink-0 w-80 overflow-y-auto max-h-full">
           <div className="flex flex-col gap-4 sticky top-0">
-            <GitHubReposSidebar />
-            <GitHubCollaboratorReposSidebar />
+            {combinedRepos.length > 0 && (
+              <CombinedWikiBar repos={combinedRepos} onRemove={toggleCombinedRepo} onClear={() => setCombinedRepos([])} />
+            )}
+            <GitHubReposSidebar selectedRepos={combinedRepos.map(getRepoLabel)} onToggleRepo={toggleCombinedRepo} />
+            <GitHubCollaboratorReposSidebar selectedRepos={combinedRepos.map(getRepoLabel)} onToggleRepo={toggleCombinedRepo} />
           </div>
         </aside>
       </div>
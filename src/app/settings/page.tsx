@@ -0,0 +1,76 @@
+'use client';
+
+import React, { useEffect } from 'react';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import { FaCog, FaHome } from 'react-icons/fa';
+import { useAuth } from '@/contexts/AuthContext';
+import { useLanguage } from '@/contexts/LanguageContext';
+import EditorMemorySettings from '@/components/EditorMemorySettings';
+import ThemeToggle from '@/components/theme-toggle';
+import UserMenu from '@/components/UserMenu';
+
+export default function SettingsPage() {
+  const { user, loading } = useAuth();
+  const { messages } = useLanguage();
+  const router = useRouter();
+
+  useEffect(() => {
+    if (!loading && !user) {
+      router.push('/');
+    }
+  }, [user, loading, router]);
+
+  if (loading) {
+    return (
+      <div className="h-screen paper-texture p-4 md:p-8 flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-violet-500 mx-auto mb-4"></div>
+          <p className="text-[var(--muted)]">{messages.common?.loading || 'Loading...'}</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!user) {
+    return null;
+  }
+
+  return (
+    <div className="h-screen paper-texture p-4 md:p-8 flex flex-col">
+      {/* Header */}
+      <header className="max-w-full mx-auto mb-6 h-fit w-full">
+        <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4 bg-[var(--card-bg)] rounded-lg shadow-custom border border-[var(--border-color)] p-4">
+          <div className="flex items-center">
+            <div className="bg-[var(--accent-primary)] p-2 rounded-lg mr-3">
+              <FaCog className="text-2xl text-white" />
+            </div>
+            <h1 className="text-xl md:text-2xl font-bold text-[var(--accent-primary)]">
+              {messages.settings?.title || 'Settings'}
+            </h1>
+          </div>
+
+          <div className="flex items-center gap-4">
+            <Link href="/" className="text-[var(--accent-primary)] hover:text-[var(--highlight)] flex items-center gap-1.5 transition-colors border-b border-[var(--border-color)] hover:border-[var(--accent-primary)] pb-0.5">
+              <FaHome /> {messages.repoPage?.home || 'Home'}
+            </Link>
+            <ThemeToggle />
+            <UserMenu />
+          </div>
+        </div>
+      </header>
+
+      {/* Main content */}
+      <main className="flex-1 overflow-y-auto">
+        <div className="max-w-4xl mx-auto">
+          <div className="bg-[var(--card-bg)] rounded-lg shadow-custom border border-[var(--border-color)] p-6">
+            <h2 className="text-2xl font-bold text-[var(--foreground)] mb-4">
+              {messages.settings?.editorMemory || 'Editor memory and writing preferences'}
+            </h2>
+            <EditorMemorySettings userId={user.id} />
+          </div>
+        </div>
+      </main>
+    </div>
+  );
+}
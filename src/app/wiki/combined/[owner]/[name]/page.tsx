@@ -0,0 +1,477 @@
+'use client';
+
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { useParams, useSearchParams } from 'next/navigation';
+import Link from 'next/link';
+import { FaExclamationTriangle, FaGithub, FaHome, FaSpinner, FaSync } from 'react-icons/fa';
+import ThemeToggle from '@/components/theme-toggle';
+import Markdown from '@/components/Markdown';
+import WikiTreeView from '@/components/WikiTreeView';
+import { useAuth } from '@/contexts/AuthContext';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { PageGenerationStatus, WikiCacheRepo } from '@/types/wiki/wikicache';
+import { WikiPage } from '@/types/wiki/wikipage';
+import { WikiStructure } from '@/types/wiki/wikistructure';
+import { collectChatCompletion, isAbortError } from '@/utils/chatStreamClient';
+import { CitationSource, loadSourceFile, loadSourceTree } from '@/utils/codeCitations';
+import { getCombinedWikiKey, getRepoLabel, parseRepoSpec, toRepoInfo } from '@/utils/combinedWiki';
+import { ChatCompletionRequest } from '@/utils/websocketClient';
+import { fetchWikiCache, getAuthorName, saveWikiCache } from '@/utils/wikiCacheApi';
+import { buildWikiRouteQuery } from '@/utils/wikiRoute';
+import { buildStructureRepairPrompt, getUnrepairedIssues, parseWikiStructure } from '@/utils/wikiStructureParser';
+
+// Files and README text of each repository given to the structure prompt, to keep it within the model's context
+const MAX_FILES_PER_REPO = 300;
+const MAX_README_LENGTH = 4000;
+
+const README = /^readme(\.md|\.rst|\.txt)?$/i;
+
+// What the structure prompt is told about a repository
+interface RepoOverview {
+  label: string;
+  files: string[];
+  readme: string;
+}
+
+const describeLanguage = (language: string) =>
+  language === 'ja' ? 'Japanese (日本語)' :
+  language === 'zh' ? 'Mandarin Chinese (中文)' :
+  language === 'es' ? 'Spanish (Español)' :
+  language === 'kr' ? 'Korean (한국어)' :
+  language === 'vi' ? 'Vietnamese (Tiếng Việt)' : 'English';
+
+const buildStructurePrompt = (owner: string, overviews: RepoOverview[], language: string) =>
+`Analyze these ${overviews.length} repositories of ${owner} and create one wiki that documents them together as a single system.
+
+Every file path below starts with the repository it belongs to, e.g. "${overviews[0].label}/README.md". Always use these qualified paths.
+
+${overviews.map(({ label, files, readme }) => `<repository name="${label}">
+<file_tree>
+${files.join('\n')}
+</file_tree>
+<readme>
+${readme}
+</readme>
+</repository>`).join('\n\n')}
+
+Create a structured wiki with the following main sections:
+- Architecture Overview: how the repositories fit together, what each one is responsible for, and the infrastructure and conventions they share
+- One section per repository, titled with its name, with pages on its main components
+- Service Interactions: how the repositories talk to each other, such as HTTP or gRPC APIs, events and message queues, shared databases, shared libraries and client SDKs, and the contracts between them
+
+Include pages that benefit from diagrams, such as the system architecture, requests that cross repositories and deployment.
+
+IMPORTANT: The wiki content will be generated in ${describeLanguage(language)} language.
+
+Return your analysis in the following XML format:
+
+<wiki_structure>
+  <title>[Overall title for the wiki]</title>
+  <description>[Brief description of the system]</description>
+  <sections>
+    <section id="section-1">
+      <title>[Section title]</title>
+      <pages>
+        <page_ref>page-1</page_ref>
+      </pages>
+      <subsections>
+        <section_ref>section-2</section_ref>
+      </subsections>
+    </section>
+    <!-- More sections as needed -->
+  </sections>
+  <pages>
+    <page id="page-1">
+      <title>[Page title]</title>
+      <description>[Brief description of what this page will cover]</description>
+      <importance>high|medium|low</importance>
+      <relevant_files>
+        <file_path>[Qualified path to a relevant file]</file_path>
+        <!-- More file paths as needed, from any of the repositories -->
+      </relevant_files>
+      <related_pages>
+        <related>page-2</related>
+      </related_pages>
+      <parent_section>section-1</parent_section>
+    </page>
+    <!-- More pages as needed -->
+  </pages>
+</wiki_structure>
+
+IMPORTANT FORMATTING INSTRUCTIONS:
+- Return ONLY the valid XML structure specified above
+- DO NOT wrap the XML in markdown code blocks (no \`\`\` or \`\`\`xml)
+- DO NOT include any explanation text before or after the XML
+- Start directly with <wiki_structure> and end with </wiki_structure>
+
+IMPORTANT:
+1. Create 2-4 pages per repository and 3-5 pages about the system as a whole and the interactions between repositories
+2. The relevant_files must be actual files from the file trees above, with their qualified paths
+3. Pages about interactions should list files from every repository taking part`;
+
+const buildPagePrompt = (page: WikiPage, labels: string[], language: string) =>
+`You are an expert technical writer and software architect documenting a system made of several repositories: ${labels.join(', ')}.
+Generate a technical wiki page in Markdown about "${page.title}".
+
+Every file path starts with the repository it belongs to. The page is based on these files:
+${page.filePaths.map(path => `- ${path}`).join('\n')}
+
+Start the page with a \`<details>\` block listing the files used, without any preface:
+<details>
+<summary>Relevant source files</summary>
+
+${page.filePaths.map(path => `- [${path}](${path})`).join('\n')}
+</details>
+
+Immediately after it, the title of the page as a H1 heading: \`# ${page.title}\`.
+
+Then:
+1. Introduce the purpose and scope of "${page.title}" within the system, and name the repositories involved.
+2. Break the topic down with H2 and H3 headings, explaining architecture, components, data flow and APIs as evidenced in the files. When the topic spans repositories, explain how they communicate: endpoints, messages, shared schemas and which side calls which.
+3. Use Mermaid diagrams, always "graph TD" (never "graph LR") with short node labels, and "sequenceDiagram" for requests that cross repositories, with one participant per service.
+4. Use Markdown tables to summarize endpoints, configuration and data models, and short code snippets from the files.
+5. Cite the source of every significant statement, diagram, table or snippet as \`Sources: [repository/path/file.ext:start_line-end_line]()\`, always starting with the repository, e.g. \`[${labels[0]}/src/index.ts:10-20]()\`.
+6. Ground everything in the provided files; do not invent behavior that the code does not show.
+
+IMPORTANT: Generate the content in ${describeLanguage(language)} language.`;
+
+/**
+ * A wiki documenting several repositories together: an architecture overview of the whole system, a section
+ * per repository and pages on how the services talk to each other, with citations qualified by repository.
+ * It is generated for the repositories in the `repos` query parameter when it is not cached yet, and
+ * resumes generation when a partial cache is found.
+ */
+export default function CombinedWikiPage() {
+  const params = useParams();
+  const searchParams = useSearchParams();
+  const owner = decodeURIComponent(params.owner as string);
+  const name = decodeURIComponent(params.name as string);
+  const { messages } = useLanguage();
+  const { user } = useAuth();
+
+  const language = searchParams.get('language') || 'en';
+  const token = searchParams.get('token') || null;
+  const providerParam = searchParams.get('provider') || '';
+  const modelParam = searchParams.get('model') || '';
+  const customModelParam = searchParams.get('custom_model') || '';
+  const reposParam = searchParams.get('repos') || '';
+
+  const cacheKey = useMemo(() => getCombinedWikiKey(owner, name, language), [owner, name, language]);
+  const requestedRepos = useMemo(
+    () => reposParam.split(',').map(parseRepoSpec).filter((repo): repo is WikiCacheRepo => repo !== null),
+    [reposParam]
+  );
+
+  const [repos, setRepos] = useState<WikiCacheRepo[]>([]);
+  const [wikiStructure, setWikiStructure] = useState<WikiStructure | null>(null);
+  const [generatedPages, setGeneratedPages] = useState<Record<string, WikiPage>>({});
+  const [pageStatus, setPageStatus] = useState<Record<string, PageGenerationStatus>>({});
+  const [currentPageId, setCurrentPageId] = useState<string | undefined>();
+  const [generatingPageId, setGeneratingPageId] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [loadingMessage, setLoadingMessage] = useState<string | undefined>();
+  const [error, setError] = useState<string | null>(null);
+  const generationAbortRef = useRef(new AbortController());
+  const startedRef = useRef(false);
+
+  const citationSources = useMemo<CitationSource[]>(
+    () => repos.map(repo => ({ repoInfo: toRepoInfo(repo, token), token: token ?? '', ref: repo.ref ?? null })),
+    [repos, token]
+  );
+
+  const buildRequest = useCallback((wikiRepos: WikiCacheRepo[], content: string): ChatCompletionRequest => {
+    const [primary, ...others] = wikiRepos;
+    const requestBody: ChatCompletionRequest = {
+      repo_url: primary.repo_url ?? getRepoLabel(primary),
+      type: primary.type,
+      ref: primary.ref || undefined,
+      repos: others.map(repo => ({ repo_url: repo.repo_url ?? getRepoLabel(repo), type: repo.type, ref: repo.ref || undefined })),
+      messages: [{ role: 'user', content }],
+      language,
+    };
+    if (token) requestBody.token = token;
+    if (providerParam) requestBody.provider = providerParam;
+    if (modelParam) requestBody.model = modelParam;
+    if (customModelParam) requestBody.custom_model = customModelParam;
+    return requestBody;
+  }, [language, token, providerParam, modelParam, customModelParam]);
+
+  const saveWiki = useCallback(async (
+    wikiRepos: WikiCacheRepo[],
+    structure: WikiStructure,
+    pages: Record<string, WikiPage>,
+    status: Record<string, PageGenerationStatus>,
+  ) => {
+    const generationComplete = Object.values(status).every(pageState => pageState !== 'pending');
+    try {
+      await saveWikiCache({
+        ...cacheKey,
+        wiki_structure: structure,
+        generated_pages: Object.fromEntries(Object.entries(pages).filter(([pageId]) => status[pageId] === 'done')),
+        comprehensive: true,
+        generation_complete: generationComplete,
+        page_status: status,
+        repos: wikiRepos,
+        version: generationComplete
+          ? { author: getAuthorName(user), model: customModelParam || modelParam || null, kind: 'ai', reason: 'generation' }
+          : undefined,
+      });
+    } catch (err) {
+      // The wiki stays usable in this tab; a later save includes the pages that could not be saved now
+      console.error('Error saving combined wiki:', err);
+    }
+  }, [cacheKey, user, modelParam, customModelParam]);
+
+  // Generates the pages that are not done yet, one at a time, saving the wiki after each
+  const generatePages = useCallback(async (
+    wikiRepos: WikiCacheRepo[],
+    structure: WikiStructure,
+    initialPages: Record<string, WikiPage>,
+    initialStatus: Record<string, PageGenerationStatus>,
+  ) => {
+    const pages = { ...initialPages };
+    const status = { ...initialStatus };
+    const labels = wikiRepos.map(getRepoLabel);
+    const signal = generationAbortRef.current.signal;
+
+    for (const page of structure.pages) {
+      if (status[page.id] === 'done') continue;
+      setGeneratingPageId(page.id);
+      try {
+        const content = await collectChatCompletion(buildRequest(wikiRepos, buildPagePrompt(page, labels, language)), {
+          label: `page ${page.title}`,
+          signal,
+        });
+        pages[page.id] = { ...page, content: content.replace(/^```markdown\s*/i, '').replace(/```\s*$/i, '') };
+        status[page.id] = 'done';
+      } catch (err) {
+        if (isAbortError(err)) return;
+        console.error(`Error generating content for page ${page.id}:`, err);
+        status[page.id] = 'failed';
+      }
+      setGeneratedPages({ ...pages });
+      setPageStatus({ ...status });
+      await saveWiki(wikiRepos, structure, pages, status);
+    }
+    setGeneratingPageId(null);
+  }, [buildRequest, saveWiki, language]);
+
+  const generateWiki = useCallback(async (wikiRepos: WikiCacheRepo[]) => {
+    const signal = generationAbortRef.current.signal;
+    setRepos(wikiRepos);
+    setWikiStructure(null);
+    setGeneratedPages({});
+    setPageStatus({});
+
+    setLoadingMessage(messages.combinedWiki?.readingRepositories || 'Reading the repositories...');
+    const overviews = await Promise.all(wikiRepos.map(async (repo): Promise<RepoOverview> => {
+      const source: CitationSource = { repoInfo: toRepoInfo(repo, token), token: token ?? '', ref: repo.ref ?? null };
+      const files = await loadSourceTree(source);
+      const readmePath = files.find(file => README.test(file));
+      const readme = readmePath ? await loadSourceFile(source, readmePath).catch(() => '') : '';
+      const label = getRepoLabel(repo);
+      return {
+        label,
+        files: files.slice(0, MAX_FILES_PER_REPO).map(file => `${label}/${file}`),
+        readme: readme.slice(0, MAX_README_LENGTH),
+      };
+    }));
+
+    setLoadingMessage(messages.loading?.determiningStructure || 'Determining wiki structure...');
+    const requestBody = buildRequest(wikiRepos, buildStructurePrompt(owner, overviews, language));
+    const responseText = await collectChatCompletion(requestBody, { label: 'combined wiki structure', signal });
+    let result = parseWikiStructure(responseText, { requireSections: true });
+    const unrepaired = getUnrepairedIssues(result);
+    if (unrepaired.length > 0) {
+      setLoadingMessage(messages.loading?.repairingStructure || 'Fixing wiki structure...');
+      const repairedText = await collectChatCompletion({
+        ...requestBody,
+        messages: [
+          ...requestBody.messages,
+          { role: 'assistant', content: responseText },
+          { role: 'user', content: buildStructureRepairPrompt(unrepaired) },
+        ],
+      }, { label: 'combined wiki structure repair', signal });
+      const repaired = parseWikiStructure(repairedText, { requireSections: true });
+      if (repaired.structure && (!result.structure || getUnrepairedIssues(repaired).length < unrepaired.length)) {
+        result = repaired;
+      }
+    }
+    if (!result.structure) {
+      throw new Error(`Invalid wiki structure: ${getUnrepairedIssues(result).map(issue => issue.message).join(' ')}`);
+    }
+
+    const structure = result.structure;
+    const status: Record<string, PageGenerationStatus> = Object.fromEntries(structure.pages.map(page => [page.id, 'pending']));
+    setWikiStructure(structure);
+    setPageStatus(status);
+    setCurrentPageId(structure.pages[0]?.id);
+    setIsLoading(false);
+    setLoadingMessage(undefined);
+    await saveWiki(wikiRepos, structure, {}, status);
+    await generatePages(wikiRepos, structure, {}, status);
+  }, [buildRequest, generatePages, saveWiki, messages.combinedWiki, messages.loading, owner, language, token]);
+
+  const runGeneration = useCallback(async (load: () => Promise<void>) => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      await load();
+    } catch (err) {
+      if (isAbortError(err)) return;
+      console.error('Error generating combined wiki:', err);
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setIsLoading(false);
+      setLoadingMessage(undefined);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (startedRef.current) return;
+    startedRef.current = true;
+    runGeneration(async () => {
+      setLoadingMessage(messages.combinedWiki?.checkingCache || 'Checking for a cached wiki...');
+      const cached = await fetchWikiCache(cacheKey, { cache: 'no-store' });
+      if (cached?.repos?.length) {
+        setRepos(cached.repos);
+        setWikiStructure(cached.wiki_structure);
+        setGeneratedPages(cached.generated_pages);
+        setPageStatus(cached.page_status);
+        setCurrentPageId(cached.wiki_structure.pages[0]?.id);
+        setIsLoading(false);
+        if (!cached.generation_complete) {
+          await generatePages(cached.repos, cached.wiki_structure, cached.generated_pages, cached.page_status);
+        }
+        return;
+      }
+      if (requestedRepos.length < 2) {
+        throw new Error(messages.combinedWiki?.noRepositories || 'This combined wiki has not been generated yet. Select at least two repositories to generate it.');
+      }
+      await generateWiki(requestedRepos);
+    });
+  }, [runGeneration, cacheKey, requestedRepos, generatePages, generateWiki, messages.loading, messages.combinedWiki]);
+
+  const regenerate = () => {
+    if (repos.length < 2 || !confirm(messages.combinedWiki?.confirmRegenerate || 'Generate the whole wiki again from the current code of its repositories?')) return;
+    generationAbortRef.current.abort();
+    generationAbortRef.current = new AbortController();
+    const wikiRepos = repos;
+    runGeneration(() => generateWiki(wikiRepos));
+  };
+
+  const currentPage = currentPageId ? generatedPages[currentPageId] : undefined;
+  const isGenerating = isLoading || generatingPageId !== null;
+  const pendingPageIds = useMemo(
+    () => new Set(wikiStructure?.pages.filter(page => pageStatus[page.id] !== 'done').map(page => page.id) ?? []),
+    [wikiStructure, pageStatus]
+  );
+
+  return (
+    <div className="min-h-screen flex flex-col bg-[var(--background)]">
+      {/* Header */}
+      <header className="sticky top-0 z-10 bg-[var(--card-bg)] border-b border-[var(--border-color)] shadow-sm">
+        <div className="container mx-auto px-4 py-3 flex items-center justify-between">
+          <div className="flex items-center space-x-4">
+            <Link href="/" className="flex items-center text-[var(--foreground)] hover:text-[var(--accent-primary)] transition-colors">
+              <FaHome className="mr-2" />
+              <span>{messages.repoPage?.home || 'Home'}</span>
+            </Link>
+            <h1 className="text-xl font-bold text-[var(--accent-primary)]">
+              {messages.combinedWiki?.title || 'Combined Wiki'}: {owner}/{name}
+            </h1>
+          </div>
+          <div className="flex items-center gap-3">
+            {wikiStructure && (
+              <button
+                onClick={regenerate}
+                disabled={isGenerating}
+                className="flex items-center gap-2 text-xs px-3 py-2 bg-[var(--background)] text-[var(--foreground)] rounded-md hover:bg-[var(--background)]/80 disabled:opacity-50 disabled:cursor-not-allowed border border-[var(--border-color)] transition-colors"
+              >
+                <FaSync className={isGenerating ? 'animate-spin' : ''} />
+                {messages.combinedWiki?.regenerate || 'Regenerate'}
+              </button>
+            )}
+            <ThemeToggle />
+          </div>
+        </div>
+      </header>
+
+      <main className="flex-1 container mx-auto px-4 py-6">
+        {error ? (
+          <div className="bg-[var(--highlight)]/5 border border-[var(--highlight)]/30 rounded-lg p-5 flex items-start gap-3">
+            <FaExclamationTriangle className="text-[var(--highlight)] mt-0.5" />
+            <div className="text-sm text-[var(--foreground)]">{error}</div>
+          </div>
+        ) : !wikiStructure ? (
+          <div className="flex flex-col items-center justify-center py-24 text-[var(--muted)]">
+            <FaSpinner className="animate-spin text-2xl mb-3 text-[var(--accent-primary)]" />
+            <p className="text-sm">{loadingMessage || messages.common?.loading || 'Loading...'}</p>
+          </div>
+        ) : (
+          <div className="flex flex-col lg:flex-row bg-[var(--card-bg)] rounded-lg border border-[var(--border-color)] shadow-custom min-h-[70vh]">
+            {/* Wiki Navigation */}
+            <div className="w-full lg:w-[280px] xl:w-[320px] flex-shrink-0 bg-[var(--background)]/50 rounded-lg rounded-r-none p-5 border-b lg:border-b-0 lg:border-r border-[var(--border-color)] overflow-y-auto">
+              <h3 className="text-lg font-bold text-[var(--foreground)] mb-3 font-serif">{wikiStructure.title}</h3>
+              <p className="text-[var(--muted)] text-sm mb-5 leading-relaxed">{wikiStructure.description}</p>
+
+              {/* Repositories of the wiki, each linking to its own wiki */}
+              <h4 className="text-xs font-semibold text-[var(--muted)] uppercase mb-2">
+                {messages.combinedWiki?.repositories || 'Repositories'}
+              </h4>
+              <ul className="mb-5 space-y-1">
+                {repos.map(repo => (
+                  <li key={getRepoLabel(repo)}>
+                    <Link
+                      href={`/${repo.owner}/${repo.repo}${buildWikiRouteQuery({ repoInfo: toRepoInfo(repo, token), language, comprehensive: true })}`}
+                      className="flex items-center gap-2 text-xs text-[var(--foreground)] hover:text-[var(--accent-primary)] transition-colors"
+                    >
+                      <FaGithub className="flex-none text-[var(--muted)]" />
+                      <span className="truncate">{getRepoLabel(repo)}</span>
+                      {repo.ref && <span className="font-mono text-[var(--muted)] truncate">@{repo.ref}</span>}
+                    </Link>
+                  </li>
+                ))}
+              </ul>
+
+              {generatingPageId && (
+                <p className="flex items-center gap-2 mb-4 text-xs text-[var(--muted)]">
+                  <FaSpinner className="animate-spin flex-none" />
+                  {(messages.combinedWiki?.generatingPages || 'Generating pages: {done} of {total}')
+                    .replace('{done}', String(wikiStructure.pages.length - pendingPageIds.size))
+                    .replace('{total}', String(wikiStructure.pages.length))}
+                </p>
+              )}
+
+              <WikiTreeView
+                wikiStructure={wikiStructure}
+                currentPageId={currentPageId}
+                onPageSelect={setCurrentPageId}
+                messages={messages.repoPage}
+                pendingPageIds={pendingPageIds}
+              />
+            </div>
+
+            {/* Wiki Content */}
+            <div className="flex-1 p-6 lg:p-8 overflow-y-auto">
+              {currentPage ? (
+                <div className="prose prose-sm md:prose-base lg:prose-lg max-w-none">
+                  <Markdown content={currentPage.content} citationSources={citationSources} />
+                </div>
+              ) : currentPageId && pageStatus[currentPageId] === 'failed' ? (
+                <p className="text-sm text-[var(--highlight)]">
+                  {messages.combinedWiki?.pageFailed || 'This page could not be generated. Regenerate the wiki to try again.'}
+                </p>
+              ) : (
+                <div className="flex items-center gap-2 text-sm text-[var(--muted)]">
+                  <FaSpinner className="animate-spin" />
+                  {messages.combinedWiki?.pagePending || 'This page is being generated...'}
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
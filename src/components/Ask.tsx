@@ -7,7 +7,8 @@ import { useLanguage } from '@/contexts/LanguageContext';
 import RepoInfo from '@/types/repoinfo';
 import getRepoUrl from '@/utils/getRepoUrl';
 import ModelSelectionModal from './ModelSelectionModal';
-import { createChatWebSocket, closeWebSocket, ChatCompletionRequest } from '@/utils/websocketClient';
+import { ChatCompletionRequest } from '@/utils/websocketClient';
+import { ChatStreamError, collectChatCompletion, isAbortError } from '@/utils/chatStreamClient';
 
 interface Model {
   id: string;
@@ -43,6 +44,10 @@ interface AskProps {
   onRef?: (ref: { clearConversation: () => void }) => void;
 }
 
+// Error reports of the backend, such as a missing API key, are shown as sent
+const describeChatError = (error: unknown, fallback: string): string =>
+  error instanceof ChatStreamError && error.status !== undefined ? error.message : `Error: ${fallback}`;
+
 const Ask: React.FC<AskProps> = ({
   repoInfo,
   provider = '',
@@ -98,10 +103,10 @@ const Ask: React.FC<AskProps> = ({
     }
   }, [response]);
 
-  // Close WebSocket when component unmounts
+  // Cancel any streaming answer when component unmounts
   useEffect(() => {
     return () => {
-      closeWebSocket(webSocketRef.current);
+      abortControllerRef.current?.abort();
     };
   }, []);
 
@@ -252,8 +257,15 @@ const Ask: React.FC<AskProps> = ({
     }
   };
 
-  // WebSocket reference
-  const webSocketRef = useRef<WebSocket | null>(null);
+  // Controller for the request that is currently streaming
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  // Cancel the previous request and return a signal for the next one
+  const startRequest = () => {
+    abortControllerRef.current?.abort();
+    abortControllerRef.current = new AbortController();
+    return abortControllerRef.current.signal;
+  };
 
   // Function to continue research automatically
   const continueResearch = async () => {
@@ -295,6 +307,8 @@ const Ask: React.FC<AskProps> = ({
       const requestBody: ChatCompletionRequest = {
         repo_url: getRepoUrl(repoInfo),
         type: repoInfo.type,
+        ref: repoInfo.ref || undefined,
+        path: repoInfo.path || undefined,
         messages: newHistory.map(msg => ({ role: msg.role as 'user' | 'assistant', content: msg.content })),
         provider: selectedProvider,
         model: isCustomSelectedModel ? customSelectedModel : selectedModel,
@@ -306,22 +320,15 @@ const Ask: React.FC<AskProps> = ({
         requestBody.token = repoInfo.token;
       }
 
-      // Close any existing WebSocket connection
-      closeWebSocket(webSocketRef.current);
-
-      let fullResponse = '';
-
-      // Create a new WebSocket connection
-      webSocketRef.current = createChatWebSocket(
-        requestBody,
-        // Message handler
-        (message: string) => {
-          fullResponse += message;
-          setResponse(fullResponse);
+      let fullResponse = await collectChatCompletion(requestBody, {
+        label: 'deep research',
+        signal: startRequest(),
+        onChunk: (_chunk, text) => {
+          setResponse(text);
 
           // Extract research stage if this is a deep research response
           if (deepResearch) {
-            const stage = extractResearchStage(fullResponse, newIteration);
+            const stage = extractResearchStage(text, newIteration);
             if (stage) {
               // Add the stage to the research stages if it's not already there
               setResearchStages(prev => {
@@ -343,101 +350,13 @@ const Ask: React.FC<AskProps> = ({
             }
           }
         },
-        // Error handler
-        (error: Event) => {
-          console.error('WebSocket error:', error);
-          setResponse(prev => prev + '\n\nError: WebSocket connection failed. Falling back to HTTP...');
-
-          // Fallback to HTTP if WebSocket fails
-          fallbackToHttp(requestBody);
-        },
-        // Close handler
-        () => {
-          // Check if research is complete when the WebSocket closes
-          const isComplete = checkIfResearchComplete(fullResponse);
-
-          // Force completion after a maximum number of iterations (5)
-          const forceComplete = newIteration >= 5;
-
-          if (forceComplete && !isComplete) {
-            // If we're forcing completion, append a comprehensive conclusion to the response
-            const completionNote = "\n\n## Final Conclusion\nAfter multiple iterations of deep research, we've gathered significant insights about this topic. This concludes our investigation process, having reached the maximum number of research iterations. The findings presented across all iterations collectively form our comprehensive answer to the original question.";
-            fullResponse += completionNote;
-            setResponse(fullResponse);
-            setResearchComplete(true);
-          } else {
-            setResearchComplete(isComplete);
-          }
-
-          setIsLoading(false);
-        }
-      );
-    } catch (error) {
-      console.error('Error during API call:', error);
-      setResponse(prev => prev + '\n\nError: Failed to continue research. Please try again.');
-      setResearchComplete(true);
-      setIsLoading(false);
-    }
-  };
-
-  // Fallback to HTTP if WebSocket fails
-  const fallbackToHttp = async (requestBody: ChatCompletionRequest) => {
-    try {
-      // Make the API call using HTTP
-      const apiResponse = await fetch(`/api/chat/stream`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(requestBody)
       });
 
-      if (!apiResponse.ok) {
-        throw new Error(`API error: ${apiResponse.status}`);
-      }
-
-      // Process the streaming response
-      const reader = apiResponse.body?.getReader();
-      const decoder = new TextDecoder();
-
-      if (!reader) {
-        throw new Error('Failed to get response reader');
-      }
-
-      // Read the stream
-      let fullResponse = '';
-      while (true) {
-        const { done, value } = await reader.read();
-        if (done) break;
-
-        const chunk = decoder.decode(value, { stream: true });
-        fullResponse += chunk;
-        setResponse(fullResponse);
-
-        // Extract research stage if this is a deep research response
-        if (deepResearch) {
-          const stage = extractResearchStage(fullResponse, researchIteration);
-          if (stage) {
-            // Add the stage to the research stages
-            setResearchStages(prev => {
-              const existingStageIndex = prev.findIndex(s => s.iteration === stage.iteration && s.type === stage.type);
-              if (existingStageIndex >= 0) {
-                const newStages = [...prev];
-                newStages[existingStageIndex] = stage;
-                return newStages;
-              } else {
-                return [...prev, stage];
-              }
-            });
-          }
-        }
-      }
-
-      // Check if research is complete
+      // Check if research is complete once the answer has finished streaming
       const isComplete = checkIfResearchComplete(fullResponse);
 
       // Force completion after a maximum number of iterations (5)
-      const forceComplete = researchIteration >= 5;
+      const forceComplete = newIteration >= 5;
 
       if (forceComplete && !isComplete) {
         // If we're forcing completion, append a comprehensive conclusion to the response
@@ -448,11 +367,13 @@ const Ask: React.FC<AskProps> = ({
       } else {
         setResearchComplete(isComplete);
       }
+
+      setIsLoading(false);
     } catch (error) {
-      console.error('Error during HTTP fallback:', error);
-      setResponse(prev => prev + '\n\nError: Failed to get a response. Please try again.');
+      if (isAbortError(error)) return;
+      console.error('Error during API call:', error);
+      setResponse(prev => prev + `\n\n${describeChatError(error, 'Failed to continue research. Please try again.')}`);
       setResearchComplete(true);
-    } finally {
       setIsLoading(false);
     }
   };
@@ -537,6 +458,8 @@ const Ask: React.FC<AskProps> = ({
       const requestBody: ChatCompletionRequest = {
         repo_url: getRepoUrl(repoInfo),
         type: repoInfo.type,
+        ref: repoInfo.ref || undefined,
+        path: repoInfo.path || undefined,
         messages: newHistory.map(msg => ({ role: msg.role as 'user' | 'assistant', content: msg.content })),
         provider: selectedProvider,
         model: isCustomSelectedModel ? customSelectedModel : selectedModel,
@@ -548,22 +471,15 @@ const Ask: React.FC<AskProps> = ({
         requestBody.token = repoInfo.token;
       }
 
-      // Close any existing WebSocket connection
-      closeWebSocket(webSocketRef.current);
-
-      let fullResponse = '';
-
-      // Create a new WebSocket connection
-      webSocketRef.current = createChatWebSocket(
-        requestBody,
-        // Message handler
-        (message: string) => {
-          fullResponse += message;
-          setResponse(fullResponse);
+      const fullResponse = await collectChatCompletion(requestBody, {
+        label: 'question',
+        signal: startRequest(),
+        onChunk: (_chunk, text) => {
+          setResponse(text);
 
           // Extract research stage if this is a deep research response
           if (deepResearch) {
-            const stage = extractResearchStage(fullResponse, 1); // First iteration
+            const stage = extractResearchStage(text, 1); // First iteration
             if (stage) {
               // Add the stage to the research stages
               setResearchStages([stage]);
@@ -571,34 +487,25 @@ const Ask: React.FC<AskProps> = ({
             }
           }
         },
-        // Error handler
-        (error: Event) => {
-          console.error('WebSocket error:', error);
-          setResponse(prev => prev + '\n\nError: WebSocket connection failed. Falling back to HTTP...');
-
-          // Fallback to HTTP if WebSocket fails
-          fallbackToHttp(requestBody);
-        },
-        // Close handler
-        () => {
-          // If deep research is enabled, check if we should continue
-          if (deepResearch) {
-            const isComplete = checkIfResearchComplete(fullResponse);
-            setResearchComplete(isComplete);
+      });
 
-            // If not complete, start the research process
-            if (!isComplete) {
-              setResearchIteration(1);
-              // The continueResearch function will be triggered by the useEffect
-            }
-          }
+      // If deep research is enabled, check if we should continue
+      if (deepResearch) {
+        const isComplete = checkIfResearchComplete(fullResponse);
+        setResearchComplete(isComplete);
 
-          setIsLoading(false);
+        // If not complete, start the research process
+        if (!isComplete) {
+          setResearchIteration(1);
+          // The continueResearch function will be triggered by the useEffect
         }
-      );
+      }
+
+      setIsLoading(false);
     } catch (error) {
+      if (isAbortError(error)) return;
       console.error('Error during API call:', error);
-      setResponse(prev => prev + '\n\nError: Failed to get a response. Please try again.');
+      setResponse(prev => prev + `\n\n${describeChatError(error, 'Failed to get a response. Please try again.')}`);
       setResearchComplete(true);
       setIsLoading(false);
     }
@@ -0,0 +1,303 @@
+'use client';
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { FaChevronDown, FaChevronRight, FaCode, FaExternalLinkAlt, FaFileAlt, FaFileCode, FaFolder, FaSpinner } from 'react-icons/fa';
+import { useLanguage } from '@/contexts/LanguageContext';
+import SourceCodeView from '@/components/SourceCodeView';
+import { WikiPage } from '@/types/wiki/wikipage';
+import { CitationSource, CodeCitation, getCitationUrl, loadSourceFile, loadSourceTree } from '@/utils/codeCitations';
+
+interface CodeBrowserProps {
+  isOpen: boolean;
+  onClose: () => void;
+  source: CitationSource;
+  // Files of the repository when already known, e.g. from generating the wiki; fetched otherwise
+  files: string[] | null;
+  // Pages of the wiki, linked from the files they are based on
+  pages: WikiPage[];
+  // File and lines to show, e.g. from a citation
+  target: CodeCitation | null;
+  onOpenPage: (pageId: string) => void;
+}
+
+interface TreeDir {
+  name: string;
+  path: string;
+  dirs: Map<string, TreeDir>;
+  files: string[];
+}
+
+// Files listed at most while filtering, to keep huge repositories responsive
+const MAX_FILTER_RESULTS = 200;
+
+const normalizePath = (path: string) => path.trim().replace(/^\.?\//, '');
+
+const buildTree = (paths: string[]): TreeDir => {
+  const root: TreeDir = { name: '', path: '', dirs: new Map(), files: [] };
+  for (const path of [...paths].sort()) {
+    const parts = path.split('/');
+    let dir = root;
+    for (const part of parts.slice(0, -1)) {
+      const dirPath = dir.path ? `${dir.path}/${part}` : part;
+      if (!dir.dirs.has(part)) dir.dirs.set(part, { name: part, path: dirPath, dirs: new Map(), files: [] });
+      dir = dir.dirs.get(part)!;
+    }
+    dir.files.push(path);
+  }
+  return root;
+};
+
+// Directories containing a file, outermost first
+const getAncestors = (path: string) => {
+  const parts = path.split('/').slice(0, -1);
+  return parts.map((_, i) => parts.slice(0, i + 1).join('/'));
+};
+
+/**
+ * Browser for the repository a wiki documents: a file tree, the selected file with its cited lines
+ * highlighted, and the wiki pages based on that file.
+ */
+export default function CodeBrowser({ isOpen, onClose, source, files, pages, target, onOpenPage }: CodeBrowserProps) {
+  const { messages: t } = useLanguage();
+  const [loadedFiles, setLoadedFiles] = useState<string[] | null>(null);
+  const [treeError, setTreeError] = useState<string | null>(null);
+  const [selected, setSelected] = useState<CodeCitation | null>(null);
+  const [content, setContent] = useState<string | null>(null);
+  const [contentError, setContentError] = useState<string | null>(null);
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+  const [filter, setFilter] = useState('');
+  const [onlyReferenced, setOnlyReferenced] = useState(false);
+
+  // Load the file tree when it was not handed over
+  useEffect(() => {
+    if (!isOpen || files || loadedFiles) return;
+    setTreeError(null);
+    loadSourceTree(source)
+      .then(setLoadedFiles)
+      .catch(err => {
+        console.error('Error listing repository files:', err);
+        setTreeError(err instanceof Error ? err.message : String(err));
+      });
+  }, [isOpen, files, loadedFiles, source]);
+
+  // Show the requested file, opening the directories leading to it
+  useEffect(() => {
+    if (!isOpen || !target) return;
+    setSelected(target);
+    setExpanded(prev => new Set([...prev, ...getAncestors(target.path)]));
+  }, [isOpen, target]);
+
+  const selectedPath = selected?.path;
+  useEffect(() => {
+    if (!selectedPath) return;
+    let cancelled = false;
+    setContent(null);
+    setContentError(null);
+    loadSourceFile(source, selectedPath)
+      .then(text => !cancelled && setContent(text))
+      .catch(err => !cancelled && setContentError(err instanceof Error ? err.message : String(err)));
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedPath, source]);
+
+  // Pages based on each file
+  const pagesByFile = useMemo(() => {
+    const byFile = new Map<string, WikiPage[]>();
+    for (const page of pages) {
+      for (const path of new Set(page.filePaths.map(normalizePath))) {
+        byFile.set(path, [...(byFile.get(path) ?? []), page]);
+      }
+    }
+    return byFile;
+  }, [pages]);
+
+  const allFiles = files ?? loadedFiles;
+  const visibleFiles = useMemo(
+    () => (allFiles ?? []).filter(path => !onlyReferenced || pagesByFile.has(path)),
+    [allFiles, onlyReferenced, pagesByFile]
+  );
+  const tree = useMemo(() => buildTree(visibleFiles), [visibleFiles]);
+  const filteredFiles = useMemo(() => {
+    const text = filter.trim().toLowerCase();
+    return text ? visibleFiles.filter(path => path.toLowerCase().includes(text)).slice(0, MAX_FILTER_RESULTS) : [];
+  }, [filter, visibleFiles]);
+
+  if (!isOpen) return null;
+
+  const toggleDir = (path: string) => {
+    setExpanded(prev => {
+      const next = new Set(prev);
+      if (next.has(path)) next.delete(path);
+      else next.add(path);
+      return next;
+    });
+  };
+
+  const renderFile = (path: string, label: string, depth: number) => {
+    const referenceCount = pagesByFile.get(path)?.length ?? 0;
+    return (
+      <button
+        key={path}
+        onClick={() => setSelected({ path })}
+        title={path}
+        style={{ paddingLeft: `${depth * 12 + 8}px` }}
+        className={`flex items-center gap-1.5 w-full text-left pr-2 py-0.5 text-xs rounded ${selectedPath === path
+          ? 'bg-[var(--accent-primary)]/10 text-[var(--accent-primary)]'
+          : 'text-[var(--foreground)] hover:bg-[var(--background)]'}`}
+      >
+        <FaFileCode className="flex-none text-[var(--muted)]" />
+        <span className="truncate flex-1">{label}</span>
+        {referenceCount > 0 && (
+          <span
+            className="flex-none text-[10px] px-1 rounded bg-[var(--accent-primary)]/10 text-[var(--accent-primary)]"
+            title={t.codeBrowser?.referencedBy || 'Pages based on this file'}
+          >
+            {referenceCount}
+          </span>
+        )}
+      </button>
+    );
+  };
+
+  const renderDir = (dir: TreeDir, depth: number): React.ReactNode => (
+    <>
+      {[...dir.dirs.values()].map(child => (
+        <div key={child.path}>
+          <button
+            onClick={() => toggleDir(child.path)}
+            style={{ paddingLeft: `${depth * 12 + 8}px` }}
+            className="flex items-center gap-1.5 w-full text-left pr-2 py-0.5 text-xs text-[var(--foreground)] rounded hover:bg-[var(--background)]"
+          >
+            {expanded.has(child.path) ? <FaChevronDown className="flex-none text-[8px]" /> : <FaChevronRight className="flex-none text-[8px]" />}
+            <FaFolder className="flex-none text-[var(--muted)]" />
+            <span className="truncate">{child.name}</span>
+          </button>
+          {expanded.has(child.path) && renderDir(child, depth + 1)}
+        </div>
+      ))}
+      {dir.files.map(path => renderFile(path, path.split('/').pop() ?? path, depth))}
+    </>
+  );
+
+  const referencingPages = selectedPath ? pagesByFile.get(selectedPath) ?? [] : [];
+  const hostUrl = selected ? getCitationUrl(source.repoInfo, source.ref, selected) : null;
+
+  return (
+    <div className="fixed inset-0 z-50 flex justify-end bg-black/50" onClick={onClose}>
+      <div
+        className="flex flex-col w-full max-w-6xl h-full bg-[var(--card-bg)] shadow-xl"
+        onClick={(e) => e.stopPropagation()}
+        role="dialog"
+        aria-label={t.codeBrowser?.title || 'Source code'}
+      >
+        <div className="flex items-center justify-between px-6 py-4 border-b border-[var(--border-color)]">
+          <h3 className="text-lg font-medium text-[var(--accent-primary)] flex items-center gap-2">
+            <FaCode />
+            {t.codeBrowser?.title || 'Source code'}
+          </h3>
+          <button
+            type="button"
+            onClick={onClose}
+            className="text-[var(--muted)] hover:text-[var(--foreground)] focus:outline-none transition-colors"
+          >
+            <svg className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="flex flex-1 min-h-0">
+          {/* File tree */}
+          <div className="w-72 flex-none flex flex-col border-r border-[var(--border-color)]">
+            <div className="p-3 space-y-2 border-b border-[var(--border-color)]">
+              <input
+                value={filter}
+                onChange={(e) => setFilter(e.target.value)}
+                placeholder={t.codeBrowser?.filter || 'Filter files'}
+                className="input-japanese block w-full px-2 py-1 text-xs rounded-md bg-transparent text-[var(--foreground)] focus:outline-none focus:border-[var(--accent-primary)]"
+              />
+              <label className="flex items-center gap-2 text-xs text-[var(--muted)] cursor-pointer">
+                <input type="checkbox" checked={onlyReferenced} onChange={(e) => setOnlyReferenced(e.target.checked)} />
+                {t.codeBrowser?.onlyReferenced || 'Only files the wiki is based on'}
+              </label>
+            </div>
+            <div className="flex-1 overflow-y-auto p-2">
+              {treeError ? (
+                <p className="p-2 text-xs text-[var(--highlight)]">{treeError}</p>
+              ) : !allFiles ? (
+                <p className="flex items-center gap-2 p-2 text-xs text-[var(--muted)]">
+                  <FaSpinner className="animate-spin" />
+                  {t.common?.loading || 'Loading...'}
+                </p>
+              ) : filter.trim() ? (
+                filteredFiles.length
+                  ? filteredFiles.map(path => renderFile(path, path, 0))
+                  : <p className="p-2 text-xs text-[var(--muted)]">{t.codeBrowser?.noFiles || 'No files match.'}</p>
+              ) : (
+                renderDir(tree, 0)
+              )}
+            </div>
+          </div>
+
+          {/* Selected file */}
+          <div className="flex-1 min-w-0 flex flex-col">
+            {selected ? (
+              <>
+                <div className="flex items-center gap-3 px-4 py-2 border-b border-[var(--border-color)]">
+                  <span className="flex-1 truncate text-sm font-mono text-[var(--foreground)]">{selected.path}</span>
+                  {hostUrl && (
+                    <a
+                      href={hostUrl}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="flex-none flex items-center gap-1 text-xs text-[var(--muted)] hover:text-[var(--accent-primary)]"
+                    >
+                      <FaExternalLinkAlt />
+                      {t.citations?.openOnHost || 'Open on the repository host'}
+                    </a>
+                  )}
+                </div>
+                {referencingPages.length > 0 && (
+                  <div className="flex flex-wrap items-center gap-2 px-4 py-2 border-b border-[var(--border-color)] text-xs">
+                    <span className="text-[var(--muted)]">{t.codeBrowser?.referencedBy || 'Pages based on this file'}:</span>
+                    {referencingPages.map(page => (
+                      <button
+                        key={page.id}
+                        onClick={() => onOpenPage(page.id)}
+                        className="flex items-center gap-1 px-2 py-0.5 rounded-md border border-[var(--border-color)] text-[var(--foreground)] hover:border-[var(--accent-primary)]/50 hover:text-[var(--accent-primary)]"
+                      >
+                        <FaFileAlt className="text-[var(--muted)]" />
+                        {page.title}
+                      </button>
+                    ))}
+                  </div>
+                )}
+                {contentError ? (
+                  <p className="p-4 text-xs text-[var(--highlight)]">{contentError}</p>
+                ) : content === null ? (
+                  <p className="flex items-center gap-2 p-4 text-xs text-[var(--muted)]">
+                    <FaSpinner className="animate-spin" />
+                    {t.common?.loading || 'Loading...'}
+                  </p>
+                ) : (
+                  <SourceCodeView
+                    content={content}
+                    path={selected.path}
+                    startLine={selected.startLine}
+                    endLine={selected.endLine}
+                    className="flex-1"
+                  />
+                )}
+              </>
+            ) : (
+              <p className="m-auto text-sm text-[var(--muted)]">
+                {t.codeBrowser?.selectFile || 'Select a file to view its source.'}
+              </p>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,168 @@
+'use client';
+
+import React, { useEffect, useRef, useState } from 'react';
+import { FaExternalLinkAlt, FaFileCode, FaTimes } from 'react-icons/fa';
+import { useLanguage } from '@/contexts/LanguageContext';
+import SourceCodeView from '@/components/SourceCodeView';
+import { CitationSource, CodeCitation, getCitationUrl, loadSourceFile } from '@/utils/codeCitations';
+
+interface CodeCitationLinkProps {
+  citation: CodeCitation;
+  source: CitationSource;
+  // Opens the citation in the app's code browser; without it the citation opens on the repository's host
+  onOpen?: (citation: CodeCitation) => void;
+  children: React.ReactNode;
+}
+
+// Lines shown when hovering a citation, and how long the pointer must rest on it first
+const PREVIEW_LINES = 15;
+const PREVIEW_DELAY_MS = 300;
+
+const describeLines = ({ startLine, endLine }: CodeCitation) =>
+  startLine ? (endLine && endLine !== startLine ? `${startLine}-${endLine}` : `${startLine}`) : '';
+
+/**
+ * A source citation of a wiki page. It opens the cited lines in the code browser, on the repository's host,
+ * or in an in-app viewer for local repositories, and previews them on hover.
+ */
+export default function CodeCitationLink({ citation, source, onOpen, children }: CodeCitationLinkProps) {
+  const { messages: t } = useLanguage();
+  const [isPreviewOpen, setIsPreviewOpen] = useState(false);
+  const [isViewerOpen, setIsViewerOpen] = useState(false);
+  const [content, setContent] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const hoverTimer = useRef<ReturnType<typeof setTimeout>>(undefined);
+
+  const url = getCitationUrl(source.repoInfo, source.ref, citation);
+
+  const load = () => {
+    if (content !== null) return;
+    setError(null);
+    loadSourceFile(source, citation.path)
+      .then(setContent)
+      .catch(err => setError(err instanceof Error ? err.message : String(err)));
+  };
+
+  useEffect(() => () => clearTimeout(hoverTimer.current), []);
+
+  const showPreview = () => {
+    hoverTimer.current = setTimeout(() => {
+      setIsPreviewOpen(true);
+      load();
+    }, PREVIEW_DELAY_MS);
+  };
+
+  const hidePreview = () => {
+    clearTimeout(hoverTimer.current);
+    setIsPreviewOpen(false);
+  };
+
+  const renderPreview = () => {
+    if (error) return <p className="p-3 text-xs text-[var(--highlight)]">{t.citations?.loadFailed || 'Could not load the file.'}</p>;
+    if (content === null) return <p className="p-3 text-xs text-[var(--muted)]">{t.common?.loading || 'Loading...'}</p>;
+
+    const lines = content.split('\n');
+    const first = Math.min(citation.startLine ?? 1, lines.length);
+    const last = Math.min(citation.endLine ?? first + PREVIEW_LINES - 1, first + PREVIEW_LINES - 1, lines.length);
+    const hidden = Math.min(citation.endLine ?? last, lines.length) - last;
+    return (
+      <>
+        <SourceCodeView
+          content={lines.slice(first - 1, last).join('\n')}
+          path={citation.path}
+          firstLineNumber={first}
+          className="max-h-72"
+        />
+        {hidden > 0 && (
+          <p className="px-3 py-1 text-[10px] text-[var(--muted)] border-t border-[var(--border-color)]">
+            … {hidden} {t.citations?.moreLines || 'more lines'}
+          </p>
+        )}
+      </>
+    );
+  };
+
+  return (
+    <span className="relative inline-block" onMouseEnter={showPreview} onMouseLeave={hidePreview}>
+      <a
+        href={url ?? '#'}
+        target={url ? '_blank' : undefined}
+        rel={url ? 'noopener noreferrer' : undefined}
+        onClick={(e) => {
+          if (onOpen) {
+            e.preventDefault();
+            hidePreview();
+            onOpen(citation);
+            return;
+          }
+          if (url) return;
+          // Local repositories have no host to link to
+          e.preventDefault();
+          hidePreview();
+          setIsViewerOpen(true);
+          load();
+        }}
+        className="inline-flex items-center gap-1 text-purple-600 dark:text-purple-400 hover:underline font-mono text-xs"
+      >
+        <FaFileCode className="flex-none" />
+        {children}
+      </a>
+
+      {isPreviewOpen && (
+        // Padded rather than offset so the pointer can move onto the preview without closing it
+        <span className="absolute left-0 top-full z-40 block pt-1 w-[32rem] max-w-[80vw] not-prose">
+          <span className="block rounded-md border border-[var(--border-color)] bg-[var(--card-bg)] shadow-lg overflow-hidden">
+            <span className="flex items-center gap-2 px-3 py-1.5 text-xs font-mono text-[var(--muted)] border-b border-[var(--border-color)]">
+              <span className="flex-1 truncate">
+                {citation.path}{citation.startLine ? `:${describeLines(citation)}` : ''}
+              </span>
+              {onOpen && url && (
+                <a
+                  href={url}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  title={t.citations?.openOnHost || 'Open on the repository host'}
+                  className="flex-none hover:text-[var(--accent-primary)]"
+                >
+                  <FaExternalLinkAlt />
+                </a>
+              )}
+            </span>
+            {renderPreview()}
+          </span>
+        </span>
+      )}
+
+      {isViewerOpen && (
+        <span className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50 not-prose" onClick={() => setIsViewerOpen(false)}>
+          <span
+            className="flex flex-col w-full max-w-5xl max-h-[85vh] rounded-lg bg-[var(--card-bg)] shadow-xl overflow-hidden"
+            onClick={(e) => e.stopPropagation()}
+          >
+            <span className="flex items-center justify-between px-4 py-3 border-b border-[var(--border-color)]">
+              <span className="text-sm font-mono text-[var(--foreground)] truncate">
+                {citation.path}{citation.startLine ? `:${describeLines(citation)}` : ''}
+              </span>
+              <button
+                onClick={() => setIsViewerOpen(false)}
+                aria-label={t.common?.close || 'Close'}
+                className="text-[var(--muted)] hover:text-[var(--foreground)]"
+              >
+                <FaTimes />
+              </button>
+            </span>
+            {content !== null ? (
+              <SourceCodeView
+                content={content}
+                path={citation.path}
+                startLine={citation.startLine}
+                endLine={citation.endLine}
+                className="flex-1"
+              />
+            ) : renderPreview()}
+          </span>
+        </span>
+      )}
+    </span>
+  );
+}
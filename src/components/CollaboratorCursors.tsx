@@ -0,0 +1,71 @@
+'use client';
+
+import React from 'react';
+import { Collaborator } from '@/hooks/useCollaborativeText';
+
+interface CollaboratorCursorsProps {
+  text: string;
+  collaborators: Collaborator[];
+  // Scroll offset and content width of the textarea the overlay sits behind
+  scrollTop: number;
+  width: number;
+  className?: string;
+}
+
+/**
+ * Draws the cursors and selections of collaborators behind a transparent textarea.
+ * The text is laid out with the same font and padding as the textarea but not painted,
+ * so only the colored selections and cursor markers show through.
+ */
+export default function CollaboratorCursors({ text, collaborators, scrollTop, width, className = '' }: CollaboratorCursorsProps) {
+  const withSelection = collaborators.filter(collaborator => collaborator.selection !== null);
+  if (withSelection.length === 0) return null;
+
+  // Split the text wherever a selection starts or ends
+  const boundaries = new Set([0, text.length]);
+  withSelection.forEach(({ selection }) => {
+    boundaries.add(Math.min(selection!.start, text.length));
+    boundaries.add(Math.min(selection!.end, text.length));
+  });
+  const points = [...boundaries].sort((a, b) => a - b);
+
+  const parts: React.ReactNode[] = [];
+  points.forEach((point, index) => {
+    withSelection
+      .filter(({ selection }) => Math.min(selection!.end, text.length) === point)
+      .forEach(({ clientId, name, color }) => {
+        parts.push(
+          <span key={`cursor-${clientId}`} className="relative" style={{ borderLeft: `2px solid ${color}`, marginLeft: -1, marginRight: -1 }}>
+            <span
+              className="absolute -top-4 left-0 px-1 rounded-sm text-[10px] leading-4 text-white whitespace-nowrap font-sans"
+              style={{ backgroundColor: color }}
+            >
+              {name}
+            </span>
+          </span>,
+        );
+      });
+
+    const next = points[index + 1];
+    if (next === undefined || next === point) return;
+    const covering = withSelection.find(({ selection }) => selection!.start <= point && selection!.end >= next);
+    parts.push(
+      <span key={`text-${point}`} style={covering ? { backgroundColor: `${covering.color}33` } : undefined}>
+        {text.slice(point, next)}
+      </span>,
+    );
+  });
+
+  return (
+    <div className={`absolute inset-0 overflow-hidden pointer-events-none ${className}`} aria-hidden="true">
+      <div
+        className="p-6 font-mono text-sm leading-relaxed whitespace-pre-wrap break-words text-transparent"
+        style={{ width: width || undefined, transform: `translateY(${-scrollTop}px)` }}
+      >
+        {parts}
+        {/* Keeps a trailing newline from collapsing, as it does not in the textarea */}
+        {'\u200b'}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,100 @@
+'use client';
+
+import React, { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { FaLayerGroup, FaTimes } from 'react-icons/fa';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { WikiCacheRepo } from '@/types/wiki/wikicache';
+import { getCombinedWikiUrl, getRepoLabel, slugifyWikiName } from '@/utils/combinedWiki';
+
+interface CombinedWikiBarProps {
+  // Repositories picked in the repository lists
+  repos: WikiCacheRepo[];
+  onRemove: (repo: WikiCacheRepo) => void;
+  onClear: () => void;
+}
+
+/**
+ * Repositories picked for a combined wiki, with the name of the wiki and the button that generates it.
+ * The wiki belongs to the owner of the first repository picked.
+ */
+const CombinedWikiBar: React.FC<CombinedWikiBarProps> = ({ repos, onRemove, onClear }) => {
+  const router = useRouter();
+  const { messages, language } = useLanguage();
+  const [name, setName] = useState('');
+
+  const owner = repos[0]?.owner ?? '';
+  const slug = slugifyWikiName(name);
+  const canGenerate = repos.length >= 2 && slug !== '';
+
+  const generate = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (canGenerate) router.push(getCombinedWikiUrl(owner, slug, language, repos));
+  };
+
+  return (
+    <form onSubmit={generate} className="w-full bg-[var(--card-bg)] rounded-lg border border-[var(--accent-primary)]/40 shadow-custom p-4">
+      <div className="flex items-center justify-between mb-3">
+        <div className="flex items-center gap-2">
+          <FaLayerGroup className="text-[var(--accent-primary)]" />
+          <h3 className="text-sm font-semibold text-[var(--foreground)]">
+            {messages.combinedWiki?.title || 'Combined Wiki'}
+          </h3>
+        </div>
+        <button
+          type="button"
+          onClick={onClear}
+          className="text-xs text-[var(--muted)] hover:text-[var(--foreground)] transition-colors"
+        >
+          {messages.combinedWiki?.clear || 'Clear'}
+        </button>
+      </div>
+
+      <ul className="flex flex-wrap gap-1.5 mb-3">
+        {repos.map(repo => (
+          <li
+            key={getRepoLabel(repo)}
+            className="flex items-center gap-1 px-2 py-0.5 text-xs rounded-full bg-[var(--background)] text-[var(--foreground)] border border-[var(--border-color)]"
+          >
+            <span className="truncate max-w-[12rem]">{getRepoLabel(repo)}</span>
+            <button
+              type="button"
+              onClick={() => onRemove(repo)}
+              className="text-[var(--muted)] hover:text-[var(--highlight)]"
+              aria-label={messages.combinedWiki?.remove || 'Remove'}
+            >
+              <FaTimes className="text-[10px]" />
+            </button>
+          </li>
+        ))}
+      </ul>
+
+      {repos.length < 2 ? (
+        <p className="text-xs text-[var(--muted)]">
+          {messages.combinedWiki?.selectMore || 'Select at least two repositories to document together.'}
+        </p>
+      ) : (
+        <>
+          <input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder={messages.combinedWiki?.namePlaceholder || 'Name of the wiki, e.g. Platform'}
+            className="input-japanese w-full px-3 py-2 mb-1 text-sm rounded-md bg-transparent text-[var(--foreground)] focus:outline-none focus:border-[var(--accent-primary)]"
+          />
+          {slug && (
+            <p className="text-xs text-[var(--muted)] mb-2 font-mono truncate">{owner}/{slug}</p>
+          )}
+          <button
+            type="submit"
+            disabled={!canGenerate}
+            className="w-full mt-1 px-3 py-2 text-xs bg-[var(--accent-primary)] text-white rounded-md hover:bg-[var(--accent-primary)]/90 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            {(messages.combinedWiki?.generate || 'Generate Combined Wiki of {count} Repositories').replace('{count}', String(repos.length))}
+          </button>
+        </>
+      )}
+    </form>
+  );
+};
+
+export default CombinedWikiBar;
@@ -0,0 +1,252 @@
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import { FaCheck, FaComment, FaRedo, FaSpinner } from 'react-icons/fa';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { CommentAnchor, CommentThread } from '@/types/wiki/wikicomment';
+import { resolveAnchor } from '@/utils/commentAnchors';
+
+interface CommentMarginProps {
+  // Current page content, used to find where each thread is now
+  content: string;
+  threads: CommentThread[];
+  // Range picked for a new thread, shown with a comment box until it is posted or cancelled
+  draft: CommentAnchor | null;
+  onCancelDraft: () => void;
+  onStartThread: (anchor: CommentAnchor, body: string) => Promise<boolean>;
+  onReply: (threadId: string, body: string) => Promise<boolean>;
+  onSetResolved: (threadId: string, resolved: boolean) => Promise<boolean>;
+  // Called with the current range of a thread when it is clicked
+  onSelectThread?: (range: { start: number; end: number }) => void;
+  // Shown when there is nothing to display, e.g. how to start a thread on this screen
+  emptyHint?: string;
+  error?: string | null;
+  className?: string;
+}
+
+// Longest quote shown above a thread
+const MAX_QUOTE_LENGTH = 140;
+
+const quote = (text: string) =>
+  text.length > MAX_QUOTE_LENGTH ? `${text.slice(0, MAX_QUOTE_LENGTH)}…` : text;
+
+/**
+ * Comment threads of a page, shown in the margin in the order of the text they are attached to.
+ * Threads whose text can no longer be found are listed last as detached.
+ */
+export default function CommentMargin({
+  content,
+  threads,
+  draft,
+  onCancelDraft,
+  onStartThread,
+  onReply,
+  onSetResolved,
+  onSelectThread,
+  emptyHint,
+  error,
+  className = '',
+}: CommentMarginProps) {
+  const { messages: t } = useLanguage();
+
+  const [showResolved, setShowResolved] = useState(false);
+  const [draftBody, setDraftBody] = useState('');
+  const [replyTo, setReplyTo] = useState<string | null>(null);
+  const [replyBody, setReplyBody] = useState('');
+  const [busy, setBusy] = useState<string | null>(null);
+
+  const placed = useMemo(() => threads
+    .map(thread => ({ thread, range: resolveAnchor(content, thread.anchor) }))
+    .sort((a, b) => (a.range?.start ?? Infinity) - (b.range?.start ?? Infinity)),
+  [threads, content]);
+
+  const resolvedCount = threads.filter(thread => thread.resolved).length;
+  const visible = placed.filter(({ thread }) => showResolved || !thread.resolved);
+
+  const run = async (id: string, action: () => Promise<boolean>) => {
+    setBusy(id);
+    try {
+      return await action();
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const submitDraft = async () => {
+    if (!draft || !draftBody.trim()) return;
+    if (await run('draft', () => onStartThread(draft, draftBody.trim()))) {
+      setDraftBody('');
+      onCancelDraft();
+    }
+  };
+
+  const submitReply = async (threadId: string) => {
+    if (!replyBody.trim()) return;
+    if (await run(threadId, () => onReply(threadId, replyBody.trim()))) {
+      setReplyBody('');
+      setReplyTo(null);
+    }
+  };
+
+  return (
+    <aside className={`flex flex-col gap-3 text-sm ${className}`}>
+      <div className="flex items-center justify-between">
+        <h4 className="flex items-center gap-2 font-semibold text-[var(--foreground)]">
+          <FaComment className="text-[var(--accent-primary)]" />
+          {t.comments?.title || 'Comments'}
+        </h4>
+        {resolvedCount > 0 && (
+          <label className="flex items-center gap-1.5 text-xs text-[var(--muted)] cursor-pointer">
+            <input
+              type="checkbox"
+              checked={showResolved}
+              onChange={(e) => setShowResolved(e.target.checked)}
+            />
+            {t.comments?.showResolved || 'Show resolved'} ({resolvedCount})
+          </label>
+        )}
+      </div>
+
+      {error && (
+        <div className="px-3 py-2 text-xs text-[var(--highlight)] bg-[var(--highlight)]/5 border border-[var(--highlight)]/30 rounded-md">
+          {error}
+        </div>
+      )}
+
+      {draft && (
+        <div className="p-3 rounded-md border border-[var(--accent-primary)]/50 bg-[var(--card-bg)] shadow-sm">
+          <blockquote className="mb-2 pl-2 border-l-2 border-[var(--accent-primary)] text-xs text-[var(--muted)] italic break-words">
+            {quote(draft.text)}
+          </blockquote>
+          <textarea
+            value={draftBody}
+            onChange={(e) => setDraftBody(e.target.value)}
+            placeholder={t.comments?.placeholder || 'Add a comment...'}
+            rows={3}
+            autoFocus
+            className="w-full p-2 rounded-md border border-[var(--border-color)] bg-[var(--background)] text-[var(--foreground)] text-sm resize-y"
+          />
+          <div className="flex justify-end gap-2 mt-2">
+            <button
+              onClick={() => {
+                setDraftBody('');
+                onCancelDraft();
+              }}
+              className="px-2.5 py-1 text-xs rounded-md text-[var(--muted)] hover:text-[var(--foreground)]"
+            >
+              {t.common?.cancel || 'Cancel'}
+            </button>
+            <button
+              onClick={submitDraft}
+              disabled={!draftBody.trim() || busy === 'draft'}
+              className="inline-flex items-center gap-1.5 px-2.5 py-1 text-xs rounded-md bg-[var(--accent-primary)] text-white disabled:opacity-50"
+            >
+              {busy === 'draft' && <FaSpinner className="animate-spin" />}
+              {t.comments?.comment || 'Comment'}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {visible.length === 0 && !draft && (
+        <p className="text-xs text-[var(--muted)]">
+          {emptyHint || t.comments?.empty || 'No comments on this page.'}
+        </p>
+      )}
+
+      {visible.map(({ thread, range }) => (
+        <div
+          key={thread.id}
+          className={`p-3 rounded-md border border-[var(--border-color)] bg-[var(--card-bg)] ${thread.resolved ? 'opacity-60' : ''}`}
+        >
+          <button
+            onClick={() => range && onSelectThread?.(range)}
+            disabled={!range || !onSelectThread}
+            className="block w-full text-left mb-2 pl-2 border-l-2 border-[var(--accent-primary)]/60 text-xs text-[var(--muted)] italic break-words disabled:cursor-default"
+          >
+            {quote(range ? content.slice(range.start, range.end) : thread.anchor.text)}
+          </button>
+          {!range && (
+            <p className="mb-2 text-xs text-[var(--highlight)]">
+              {t.comments?.detached || 'The commented text is no longer on this page.'}
+            </p>
+          )}
+
+          <ul className="space-y-2">
+            {thread.comments.map(comment => (
+              <li key={comment.id}>
+                <div className="flex items-baseline justify-between gap-2 text-xs">
+                  <span className="font-medium text-[var(--foreground)] truncate">
+                    {comment.author || t.comments?.anonymous || 'Anonymous'}
+                  </span>
+                  <span className="text-[var(--muted)] flex-none">{new Date(comment.created_at).toLocaleString()}</span>
+                </div>
+                <p className="mt-0.5 text-[var(--foreground)] whitespace-pre-wrap break-words">{comment.body}</p>
+              </li>
+            ))}
+          </ul>
+
+          {thread.resolved && thread.resolved_by && (
+            <p className="mt-2 text-xs text-[var(--muted)]">
+              {t.comments?.resolvedBy || 'Resolved by'} {thread.resolved_by}
+            </p>
+          )}
+
+          {replyTo === thread.id ? (
+            <div className="mt-2">
+              <textarea
+                value={replyBody}
+                onChange={(e) => setReplyBody(e.target.value)}
+                placeholder={t.comments?.replyPlaceholder || 'Reply...'}
+                rows={2}
+                autoFocus
+                className="w-full p-2 rounded-md border border-[var(--border-color)] bg-[var(--background)] text-[var(--foreground)] text-sm resize-y"
+              />
+              <div className="flex justify-end gap-2 mt-1">
+                <button
+                  onClick={() => {
+                    setReplyTo(null);
+                    setReplyBody('');
+                  }}
+                  className="px-2.5 py-1 text-xs rounded-md text-[var(--muted)] hover:text-[var(--foreground)]"
+                >
+                  {t.common?.cancel || 'Cancel'}
+                </button>
+                <button
+                  onClick={() => submitReply(thread.id)}
+                  disabled={!replyBody.trim() || busy === thread.id}
+                  className="inline-flex items-center gap-1.5 px-2.5 py-1 text-xs rounded-md bg-[var(--accent-primary)] text-white disabled:opacity-50"
+                >
+                  {busy === thread.id && <FaSpinner className="animate-spin" />}
+                  {t.comments?.reply || 'Reply'}
+                </button>
+              </div>
+            </div>
+          ) : (
+            <div className="flex justify-end gap-3 mt-2 text-xs">
+              {!thread.resolved && (
+                <button
+                  onClick={() => {
+                    setReplyTo(thread.id);
+                    setReplyBody('');
+                  }}
+                  className="text-[var(--accent-primary)] hover:text-[var(--highlight)]"
+                >
+                  {t.comments?.reply || 'Reply'}
+                </button>
+              )}
+              <button
+                onClick={() => run(thread.id, () => onSetResolved(thread.id, !thread.resolved))}
+                disabled={busy === thread.id}
+                className="inline-flex items-center gap-1 text-[var(--accent-primary)] hover:text-[var(--highlight)] disabled:opacity-50"
+              >
+                {thread.resolved ? <FaRedo /> : <FaCheck />}
+                {thread.resolved ? (t.comments?.reopen || 'Reopen') : (t.comments?.resolve || 'Resolve')}
+              </button>
+            </div>
+          )}
+        </div>
+      ))}
+    </aside>
+  );
+}
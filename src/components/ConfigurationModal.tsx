@@ -12,6 +12,14 @@ interface ConfigurationModalProps {
   // Repository input
   repositoryInput: string;
 
+  // Branch, tag or commit to document; left out for local repositories
+  gitRef?: string;
+  setGitRef: (value: string) => void;
+
+  // Subdirectory to document, e.g. one package of a monorepo
+  repoPath: string;
+  setRepoPath: (value: string) => void;
+
   // Language selection
   selectedLanguage: string;
   setSelectedLanguage: (value: string) => void;
@@ -57,6 +65,10 @@ export default function ConfigurationModal({
   isOpen,
   onClose,
   repositoryInput,
+  gitRef,
+  setGitRef,
+  repoPath,
+  setRepoPath,
   selectedLanguage,
   setSelectedLanguage,
   isComprehensiveView,
@@ -123,6 +135,44 @@ export default function ConfigurationModal({
               </div>
             </div>
 
+            {/* Ref selection */}
+            {gitRef !== undefined && (
+              <div className="mb-4">
+                <label htmlFor="ref-input" className="block text-sm font-medium text-[var(--foreground)] mb-2">
+                  {t.form?.ref || 'Branch, tag or commit'}
+                </label>
+                <input
+                  id="ref-input"
+                  type="text"
+                  value={gitRef}
+                  onChange={(e) => setGitRef(e.target.value)}
+                  placeholder={t.form?.refPlaceholder || 'Default branch'}
+                  className="input-japanese block w-full px-3 py-2 text-sm font-mono rounded-md bg-transparent text-[var(--foreground)] focus:outline-none focus:border-[var(--accent-primary)]"
+                />
+                <p className="mt-1 text-xs text-[var(--muted)]">
+                  {t.form?.refHelp || 'Leave empty to document the default branch. Each branch, tag or commit gets its own wiki.'}
+                </p>
+              </div>
+            )}
+
+            {/* Subdirectory selection */}
+            <div className="mb-4">
+              <label htmlFor="path-input" className="block text-sm font-medium text-[var(--foreground)] mb-2">
+                {t.form?.path || 'Subdirectory'}
+              </label>
+              <input
+                id="path-input"
+                type="text"
+                value={repoPath}
+                onChange={(e) => setRepoPath(e.target.value)}
+                placeholder={t.form?.pathPlaceholder || 'Whole repository'}
+                className="input-japanese block w-full px-3 py-2 text-sm font-mono rounded-md bg-transparent text-[var(--foreground)] focus:outline-none focus:border-[var(--accent-primary)]"
+              />
+              <p className="mt-1 text-xs text-[var(--muted)]">
+                {t.form?.pathHelp || 'Document one directory, such as a package of a monorepo, in its own wiki. Leave empty for the whole repository.'}
+              </p>
+            </div>
+
             {/* Language selection */}
             <div className="mb-4">
               <label htmlFor="language-select" className="block text-sm font-medium text-[var(--foreground)] mb-2">
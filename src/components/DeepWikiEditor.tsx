@@ -1,20 +1,47 @@
 "use client"
 
-import { useState, useRef, useCallback, useEffect, useMemo } from "react"
+import { useState, useRef, useCallback, useEffect, useLayoutEffect, useMemo } from "react"
 import { Button } from "@/components/ui/button"
 import { Textarea } from "@/components/ui/textarea"
 import { Separator } from "@/components/ui/separator"
 import { ScrollArea } from "@/components/ui/scroll-area"
 import {
   Save, ChevronRight, Sparkles, Send, RefreshCw, PanelLeft, PanelRight,
-  Bot, ChevronDown, ChevronUp, User, Quote, Check, X, ArrowLeft, FileText,
+  Bot, ChevronDown, ChevronUp, User, Quote, Check, X, ArrowLeft, FileText, MessageSquare, Wand2,
 } from "lucide-react"
 import Markdown from "./Markdown"
 import WikiTreeView from "./WikiTreeView"
-import { useRouter, useSearchParams } from "next/navigation"
+import { useRouter } from "next/navigation"
 import { FaHome } from "react-icons/fa"
 import Link from "next/link"
 import ThemeToggle from "@/components/theme-toggle"
+import RepoInfo from "@/types/repoinfo"
+import { WikiStructure } from "@/types/wiki/wikistructure"
+import { WikiCacheData } from "@/types/wiki/wikicache"
+import { WikiVersionKind } from "@/types/wiki/wikiversion"
+import { EditMemory, UserPreferences } from "@/types/editormemory"
+import { useAuth } from "@/contexts/AuthContext"
+import { useCollaborativeText } from "@/hooks/useCollaborativeText"
+import { useWikiComments } from "@/hooks/useWikiComments"
+import MergeConflictModal from "./MergeConflictModal"
+import CollaboratorCursors from "./CollaboratorCursors"
+import CommentMargin from "./CommentMargin"
+import SuggestedChanges from "./SuggestedChanges"
+import SourceFilePicker from "./SourceFilePicker"
+import WikiRefactorModal from "./WikiRefactorModal"
+import { CommentAnchor } from "@/types/wiki/wikicomment"
+import { createAnchor } from "@/utils/commentAnchors"
+import {
+  fetchWikiCache, fetchWikiPage, getAuthorName, saveWikiPage, WikiSaveConflictError,
+} from "@/utils/wikiCacheApi"
+import getRepoUrl from "@/utils/getRepoUrl"
+import { fetchEditorMemory, getEditorMemoryKey, saveEditorMemory, withoutSnapshots } from "@/utils/editorMemoryApi"
+import { buildWikiRouteQuery, getCollabRoomId, getEditContentStorageKey, getWikiCacheKey } from "@/utils/wikiRoute"
+import { mergeLines } from "@/utils/lineDiff"
+import { getCitedFiles } from "@/utils/sourceCitations"
+import {
+  applySuggestion, createSuggestion, decideChanges, getChanges, SuggestedChangeStatus, SuggestionSegment,
+} from "@/utils/trackedChanges"
 
 interface Selection {
   text: string
@@ -23,34 +50,39 @@ interface Selection {
   sourceText?: string
 }
 
-interface FloatingButton {
-  visible: boolean
-  x: number
-  y: number
+// A page save rejected because the page changed on the server since the edit started
+interface SaveConflict {
+  baseContent: string
+  localContent: string
+  savedContent: string
+  savedEtag: string
+  kind: WikiVersionKind
 }
 
-// Add new interfaces for memory functionality
-interface EditMemory {
-  id: string
-  timestamp: number
+// An edit request and the model's answer, with the source files the request was grounded in
+interface ChatEntry {
   prompt: string
   response: string
-  pageId: string
-  contentSnapshot?: string
+  files: string[]
 }
 
-interface UserPreferences {
-  writingStyle?: string
-  preferredFormats?: string[]
-  commonInstructions?: string[]
+interface FloatingButton {
+  visible: boolean
+  x: number
+  y: number
 }
 
+// Signed-in users' memory is saved to their profile once it has not changed for this long
+const MEMORY_SAVE_DELAY_MS = 2000
+
 export interface DeepWikiEditorProps {
   /** Initial markdown content to populate the editor with */
   initialContent?: string
-  /** Optional information that might be useful when saving */
-  owner?: string
-  repo?: string
+  /** Repository the wiki was generated from */
+  repoInfo: RepoInfo
+  /** Language and wiki type of the wiki being edited; together with `repoInfo` they select the cached wiki */
+  language: string
+  comprehensive: boolean
   pageId?: string
   /** Repository permissions for access control */
   isOwner?: boolean
@@ -59,39 +91,11 @@ export interface DeepWikiEditorProps {
   isAdmin?: boolean
 }
 
-// Types for wiki structure
-interface WikiPage {
-  id: string;
-  title: string;
-  content: string;
-  filePaths: string[];
-  importance: "high" | "medium" | "low";
-  relatedPages: string[];
-  parentId?: string;
-  isSection?: boolean;
-  children?: string[];
-}
-
-interface WikiSection {
-  id: string;
-  title: string;
-  pages: string[];
-  subsections?: string[];
-}
-
-interface WikiStructure {
-  id: string;
-  title: string;
-  description: string;
-  pages: WikiPage[];
-  sections: WikiSection[];
-  rootSections: string[];
-}
-
 export default function DeepWikiEditor({
   initialContent = "",
-  owner,
-  repo,
+  repoInfo,
+  language,
+  comprehensive,
   pageId,
   isOwner = false,
   isCollaborator = false,
@@ -109,28 +113,134 @@ export default function DeepWikiEditor({
   const [isProcessing, setIsProcessing] = useState(false)
   const [leftSidebarVisible, setLeftSidebarVisible] = useState(true)
   const [rightSidebarVisible, setRightSidebarVisible] = useState(true)
-  const [chatHistory, setChatHistory] = useState<Array<{prompt: string, response: string}>>([])
+  const [commentsVisible, setCommentsVisible] = useState(false)
+  const [isRefactorOpen, setIsRefactorOpen] = useState(false)
+  const [commentDraft, setCommentDraft] = useState<CommentAnchor | null>(null)
+  const [chatHistory, setChatHistory] = useState<ChatEntry[]>([])
   const [floatingButton, setFloatingButton] = useState<FloatingButton>({ visible: false, x: 0, y: 0 })
   const [isAIPanelExpanded, setIsAIPanelExpanded] = useState(false)
   const [wikiStructure, setWikiStructure] = useState<WikiStructure | null>(null)
+  // Source files sent with AI edits; starts as the files the wiki structure lists for the page
+  const [sourceFiles, setSourceFiles] = useState<string[]>([])
   const [isStructureLoading, setIsStructureLoading] = useState(false)
   const [cachedStructures, setCachedStructures] = useState<Record<string, WikiStructure>>({})
   const [currentPageId, setCurrentPageId] = useState(pageId || "")
   const [highlightedRanges, setHighlightedRanges] = useState<Selection[]>([])
-  const [proposedContent, setProposedContent] = useState<string | null>(null)
-  const [originalContentForRevert, setOriginalContentForRevert] = useState<string | null>(null)
+  // AI revision under review as tracked changes; the page shows it with the pending changes accepted
+  const [suggestion, setSuggestion] = useState<SuggestionSegment[] | null>(null)
   const [wikiMatches, setWikiMatches] = useState<Selection[]>([])
 
   // Add new state for memory functionality
   const [editMemory, setEditMemory] = useState<EditMemory[]>([])
   const [userPreferences, setUserPreferences] = useState<UserPreferences>({})
+  // Memory is only saved once it was loaded, so loading cannot overwrite what is stored
+  const [memoryLoaded, setMemoryLoaded] = useState(false)
+  // Memory as last loaded from or saved to the profile
+  const syncedMemory = useRef<string | null>(null)
   const [saveStatus, setSaveStatus] = useState<'idle' | 'saving' | 'saved' | 'error'>('idle')
   const [saveMessage, setSaveMessage] = useState('')
+  const [saveConflict, setSaveConflict] = useState<SaveConflict | null>(null)
 
   const router = useRouter()
-  const searchParams = useSearchParams()
+  const { user, session } = useAuth()
+
+  // The repository URL is filled in from the cache when the route does not carry it
+  const [effectiveRepoInfo, setEffectiveRepoInfo] = useState(repoInfo)
+  useEffect(() => {
+    setEffectiveRepoInfo(repoInfo)
+  }, [repoInfo])
+  const { owner, repo } = effectiveRepoInfo
 
   const editorRef = useRef<HTMLTextAreaElement>(null)
+  // Page as stored on the server when the edit started; saves only succeed if it is still unchanged
+  const pageBase = useRef<{ content: string; etag: string } | null>(null)
+  // Latest text and AI selections, read when a streamed AI edit completes after others changed the page
+  const contentRef = useRef(content)
+  contentRef.current = content
+  const highlightedRangesRef = useRef(highlightedRanges)
+  highlightedRangesRef.current = highlightedRanges
+  // Local selection to restore after the text was replaced by a remote change
+  const pendingSelection = useRef<{ start: number; end: number } | null>(null)
+  const [editorViewport, setEditorViewport] = useState({ scrollTop: 0, width: 0 })
+
+  const routeContext = useMemo(
+    () => ({ repoInfo: effectiveRepoInfo, language, comprehensive }),
+    [effectiveRepoInfo, language, comprehensive],
+  )
+  // Every read and write goes to the wiki variant the editor was opened for
+  const saveKey = useMemo(
+    () => getWikiCacheKey({ repoInfo, language, comprehensive }),
+    [repoInfo, language, comprehensive],
+  )
+
+  // Moves a selection in the previous text to the same place in the text changed by a collaborator
+  const remapSelection = useCallback(
+    (range: Selection, text: string, mapPosition: (position: number) => number): Selection => {
+      const start = mapPosition(range.start)
+      const end = Math.max(start, mapPosition(range.end))
+      return { ...range, start, end, text: text.substring(start, end) }
+    },
+    [],
+  )
+
+  // Everyone editing this page shares its text, cursors and saves; rooms are open to signed-in users
+  const collaboration = useCollaborativeText({
+    roomId: session && owner && repo && currentPageId ? getCollabRoomId(saveKey, currentPageId) : null,
+    accessToken: session?.access_token ?? null,
+    userName: getAuthorName(user) || "Anonymous",
+    getText: () => contentRef.current,
+    onRemoteText: (text, mapPosition) => {
+      const editor = editorRef.current
+      if (editor && document.activeElement === editor) {
+        pendingSelection.current = {
+          start: mapPosition(editor.selectionStart),
+          end: mapPosition(editor.selectionEnd),
+        }
+      }
+      setContent(text)
+      setHighlightedRanges(prev => prev.map(range => remapSelection(range, text, mapPosition)))
+      setWikiMatches(prev => prev.map(range => remapSelection(range, text, mapPosition)))
+      setSelectedText(prev => prev && remapSelection(prev, text, mapPosition))
+    },
+    onRemoteSave: (etag, text) => {
+      pageBase.current = { content: text, etag }
+    },
+  })
+  const { applyLocalText, updateSelection, announceSaved } = collaboration
+
+  // Threads are found again in the text as it is edited, so they stay next to what they discuss
+  const pageComments = useWikiComments(saveKey, currentPageId || null)
+
+  const selectCommentedText = useCallback((range: { start: number; end: number }) => {
+    editorRef.current?.focus()
+    editorRef.current?.setSelectionRange(range.start, range.end)
+  }, [])
+
+  // Local edits go through here so collaborators receive them
+  const updateContent = useCallback((next: string) => {
+    setContent(next)
+    applyLocalText(next)
+  }, [applyLocalText])
+
+  // Keep the local cursor in place when a remote change replaces the text
+  useLayoutEffect(() => {
+    const selection = pendingSelection.current
+    if (selection && editorRef.current) {
+      editorRef.current.setSelectionRange(selection.start, selection.end)
+    }
+    pendingSelection.current = null
+  }, [content])
+
+  // The collaborator overlay has to match the textarea's scroll position and content width
+  useEffect(() => {
+    const editor = editorRef.current
+    if (!editor) return
+    const measure = () => setEditorViewport({ scrollTop: editor.scrollTop, width: editor.clientWidth })
+    measure()
+    const observer = new ResizeObserver(measure)
+    observer.observe(editor)
+    return () => observer.disconnect()
+  }, [])
 
   // Determine editing permissions - Admins have full access to everything
   const hasManualEditingAccess = isAdmin || isOwner || (!isOwner && !isCollaborator) // Admins override all, owners or unknown permissions have manual editing
@@ -162,32 +272,24 @@ export default function DeepWikiEditor({
       if (!owner || !repo) return
       
       // Check if we already have the structure cached
-      const cacheKey = `${owner}/${repo}`
+      const cacheKey = `${saveKey.repo_type}_${owner}_${repo}+${saveKey.path ?? ''}@${saveKey.ref ?? ''}_${saveKey.language}`
       if (cachedStructures[cacheKey]) {
         setWikiStructure(cachedStructures[cacheKey])
         return
       }
       try {
         setIsStructureLoading(true)
-        const params = new URLSearchParams({
-          owner,
-          repo,
-          repo_type: searchParams?.get("type") || "github",
-          language: searchParams?.get("language") || "en",
-        })
-        const res = await fetch(`/api/wiki_cache?${params.toString()}`)
-        if (res.ok) {
-          const data = await res.json()
-          if (data?.wiki_structure) {
-            setWikiStructure(data.wiki_structure)
-            // Cache the structure
-            setCachedStructures(prev => ({
-              ...prev,
-              [cacheKey]: data.wiki_structure
-            }))
+        const data = await fetchWikiCache(saveKey)
+        if (data) {
+          setWikiStructure(data.wiki_structure)
+          if (data.repo_url) {
+            setEffectiveRepoInfo(prev => prev.repoUrl ? prev : { ...prev, repoUrl: data.repo_url ?? null })
           }
-        } else {
-          console.error("Failed to fetch wiki_structure")
+          // Cache the structure
+          setCachedStructures(prev => ({
+            ...prev,
+            [cacheKey]: data.wiki_structure
+          }))
         }
       } catch (err) {
         console.error(err)
@@ -196,43 +298,118 @@ export default function DeepWikiEditor({
       }
     }
     fetchStructure()
-  }, [owner, repo, searchParams, cachedStructures])
+  }, [owner, repo, saveKey, cachedStructures])
+
+  const pageFiles = useMemo(
+    () => wikiStructure?.pages.find(page => page.id === currentPageId)?.filePaths ?? [],
+    [wikiStructure, currentPageId]
+  )
+  // Files of every page of the wiki, offered when adding a source file
+  const knownFiles = useMemo(
+    () => Array.from(new Set(wikiStructure?.pages.flatMap(page => page.filePaths) ?? [])).sort(),
+    [wikiStructure]
+  )
+
+  // Edits on another page start from that page's files
+  useEffect(() => {
+    setSourceFiles(pageFiles)
+  }, [pageFiles])
 
   // When navigating to a different page, refresh editor state
   useEffect(() => {
     if (initialContent) {
       setContent(initialContent)
       setSelectedText(null)
+      setCommentDraft(null)
       setLlmPrompt("")
       setLlmResponse("")
     }
   }, [initialContent])
 
-  // Load memory and preferences from localStorage on component mount
+  // Remember the stored version of the page being edited
   useEffect(() => {
+    pageBase.current = null
+    if (!owner || !repo || !currentPageId) return
+
+    let cancelled = false
+    fetchWikiPage(saveKey, currentPageId)
+      .then(({ page, etag }) => {
+        if (!cancelled) pageBase.current = { content: page.content, etag }
+      })
+      .catch(err => console.error('Error loading stored page:', err))
+    return () => {
+      cancelled = true
+    }
+  }, [owner, repo, currentPageId, saveKey])
+
+  // Signed-in users keep their memory in their profile so it follows them to other browsers;
+  // it is also kept in this browser, which is all there is for users who are not signed in
+  const userId = user?.id
+  const repoType = effectiveRepoInfo.type
+  useEffect(() => {
+    if (!owner || !repo) return
     const memoryKey = `editMemory_${owner}_${repo}`
     const prefsKey = `userPreferences_${owner}_${repo}`
-    
+    const syncedKey = `editMemorySynced_${owner}_${repo}`
+    let cancelled = false
+    setMemoryLoaded(false)
+    syncedMemory.current = null
+
+    let localMemory: EditMemory[] = []
+    let localPrefs: UserPreferences = {}
     try {
       const savedMemory = localStorage.getItem(memoryKey)
       if (savedMemory) {
-        const parsed = JSON.parse(savedMemory)
         // Keep only the last 20 entries
-        setEditMemory(parsed.slice(-20))
+        localMemory = JSON.parse(savedMemory).slice(-20)
       }
-      
+
       const savedPrefs = localStorage.getItem(prefsKey)
       if (savedPrefs) {
-        setUserPreferences(JSON.parse(savedPrefs))
+        localPrefs = JSON.parse(savedPrefs)
       }
     } catch (error) {
       console.error('Error loading memory from localStorage:', error)
     }
-  }, [owner, repo])
+
+    const applyMemory = (edits: EditMemory[], preferences: UserPreferences) => {
+      if (cancelled) return
+      setEditMemory(edits)
+      setUserPreferences(preferences)
+      setMemoryLoaded(true)
+    }
+
+    if (!userId) {
+      applyMemory(localMemory, localPrefs)
+    } else {
+      const memoryRepo = { owner, repo, repo_type: repoType }
+      fetchEditorMemory(userId, memoryRepo)
+        .then(memory => {
+          const stored = memory[getEditorMemoryKey(memoryRepo)]
+          if (stored) {
+            syncedMemory.current = JSON.stringify({ edits: stored.edits, preferences: stored.preferences })
+            applyMemory(stored.edits, stored.preferences)
+          } else if (localStorage.getItem(syncedKey) === userId) {
+            // Saved from this browser before, so it was cleared since
+            applyMemory([], {})
+          } else {
+            // Nothing stored yet: what this browser remembers is saved to the profile
+            applyMemory(localMemory, localPrefs)
+          }
+        })
+        .catch(error => {
+          console.error('Error loading editor memory:', error)
+          applyMemory(localMemory, localPrefs)
+        })
+    }
+    return () => {
+      cancelled = true
+    }
+  }, [owner, repo, repoType, userId])
 
   // Save memory to localStorage whenever it changes
   useEffect(() => {
-    if (!owner || !repo) return
+    if (!owner || !repo || !memoryLoaded) return
     
     const memoryKey = `editMemory_${owner}_${repo}`
     try {
@@ -247,11 +424,11 @@ export default function DeepWikiEditor({
     } catch (error) {
       console.error('Error saving memory to localStorage:', error)
     }
-  }, [editMemory, owner, repo])
+  }, [editMemory, owner, repo, memoryLoaded])
 
   // Save preferences to localStorage whenever they change
   useEffect(() => {
-    if (!owner || !repo) return
+    if (!owner || !repo || !memoryLoaded) return
     
     const prefsKey = `userPreferences_${owner}_${repo}`
     try {
@@ -259,7 +436,28 @@ export default function DeepWikiEditor({
     } catch (error) {
       console.error('Error saving preferences to localStorage:', error)
     }
-  }, [userPreferences, owner, repo])
+  }, [userPreferences, owner, repo, memoryLoaded])
+
+  // Save memory and preferences to the profile once they stop changing
+  useEffect(() => {
+    if (!owner || !repo || !userId || !memoryLoaded) return
+    const edits = editMemory.slice(-20)
+    const snapshot = JSON.stringify({
+      edits: withoutSnapshots(edits),
+      preferences: userPreferences,
+    })
+    if (snapshot === syncedMemory.current) return
+
+    const timer = setTimeout(() => {
+      saveEditorMemory(userId, { owner, repo, repo_type: repoType }, edits, userPreferences)
+        .then(() => {
+          syncedMemory.current = snapshot
+          localStorage.setItem(`editMemorySynced_${owner}_${repo}`, userId)
+        })
+        .catch(error => console.error('Error saving editor memory:', error))
+    }, MEMORY_SAVE_DELAY_MS)
+    return () => clearTimeout(timer)
+  }, [editMemory, userPreferences, owner, repo, repoType, userId, memoryLoaded])
 
   // Function to add new edit to memory
   const addToEditMemory = useCallback((prompt: string, response: string, contentSnapshot?: string) => {
@@ -330,32 +528,17 @@ export default function DeepWikiEditor({
 
     try {
       // Fetch the new page content
-      const params = new URLSearchParams({
-        owner,
-        repo,
-        repo_type: searchParams?.get("type") || "github",
-        language: searchParams?.get("language") || "en",
-      })
-      
-      const res = await fetch(`/api/wiki_cache?${params.toString()}`)
-      if (!res.ok) {
-        throw new Error('Failed to fetch page content')
-      }
-      
-      const data = await res.json()
+      const data = await fetchWikiCache(saveKey)
       const newPageContent = data?.generated_pages?.[targetPageId]?.content || ""
 
       // Store the content in sessionStorage for the target page
-      sessionStorage.setItem(`editPageContent_${targetPageId}`, newPageContent)
+      sessionStorage.setItem(getEditContentStorageKey(saveKey, targetPageId), newPageContent)
       
-      // Navigate to the new page using Next.js router
-      const queryParams = new URLSearchParams(searchParams?.toString())
-      const queryString = queryParams.toString()
-      const newUrl = `/${owner}/${repo}/edit/${targetPageId}${queryString ? `?${queryString}` : ''}`
-      router.push(newUrl)
+      // Navigate to the new page of the same wiki using Next.js router
+      router.push(`/${owner}/${repo}/edit/${targetPageId}${buildWikiRouteQuery(routeContext)}`)
 
       // Update wiki structure if it's not already cached
-      const cacheKey = `${owner}/${repo}`
+      const cacheKey = `${saveKey.repo_type}_${owner}_${repo}+${saveKey.path ?? ''}@${saveKey.ref ?? ''}_${saveKey.language}`
       if (data?.wiki_structure && !cachedStructures[cacheKey]) {
         setWikiStructure(data.wiki_structure)
         setCachedStructures(prev => ({
@@ -374,6 +557,7 @@ export default function DeepWikiEditor({
       const start = editorRef.current.selectionStart
       const end = editorRef.current.selectionEnd
       console.log('Selection range:', start, end)
+      updateSelection(start, end)
 
       if (start !== end) {
         const selectedText = content.substring(start, end)
@@ -429,7 +613,7 @@ export default function DeepWikiEditor({
         setFloatingButton({ visible: false, x: 0, y: 0 })
       }
     }
-  }, [content, rightSidebarVisible])
+  }, [content, rightSidebarVisible, updateSelection])
 
   // Helper function to merge overlapping ranges and prevent duplicates
   const mergeHighlightRanges = useCallback((ranges: Selection[], newRange: Selection): Selection[] => {
@@ -521,13 +705,16 @@ export default function DeepWikiEditor({
     if (!llmPrompt.trim() && wikiMatches.length === 0 && highlightedRanges.length === 0) return
 
     // Add user's message to chat history immediately
-    setChatHistory(prev => [...prev, { prompt: llmPrompt, response: '' }]);
+    setChatHistory(prev => [...prev, { prompt: llmPrompt, response: '', files: sourceFiles }]);
     
     setIsProcessing(true)
     setLlmResponse("")
 
     try {
-      const repoUrl = owner && repo ? `https://github.com/${owner}/${repo}` : "";
+      // Wikis opened without a repository URL and generated before the cache stored one are GitHub repositories
+      const repoUrl = effectiveRepoInfo.type === 'github' && !effectiveRepoInfo.repoUrl
+        ? `https://github.com/${owner}/${repo}`
+        : getRepoUrl(effectiveRepoInfo);
 
       // Build the highlighted content string (if any)
       const highlightedContent = highlightedRanges.length > 0
@@ -547,9 +734,13 @@ export default function DeepWikiEditor({
 
       const requestBody: Record<string, any> = {
         repo_url: repoUrl,
+        type: effectiveRepoInfo.type,
+        ref: effectiveRepoInfo.ref || undefined,
+        path: effectiveRepoInfo.path || undefined,
+        token: effectiveRepoInfo.token,
         current_page_title: currentPageId || "Current Page",
         current_page_content: content,
-        current_page_files: [],
+        current_page_files: sourceFiles,
         edit_request: llmPrompt,
         // Add memory and preferences
         edit_memory: memoryContext,
@@ -622,30 +813,37 @@ export default function DeepWikiEditor({
         });
 
         // Preserve a snapshot of the content **before** applying any change so that
-        // the user can still revert      
-        const preEditContent = content;
+        // the user can still revert. Collaborators may have edited the page while the
+        // response streamed in, so the edit is applied to the latest text.
+        const preEditContent = contentRef.current;
+        const ranges = highlightedRangesRef.current;
 
         let nextContent = revisedPart;
+        if (preEditContent !== content) {
+          // Keep the collaborators' changes unless they overlap the AI edit
+          const merged = mergeLines(content, revisedPart, preEditContent);
+          if (merged.conflicts === 0) nextContent = merged.text;
+        }
 
         // If we originally sent `highlighted_content` then the LLM response may
         // contain **only** the edited selection(s) (some models ignore the
         // instruction to return the full document). When that happens we need to
         // stitch the edited chunks back into the original document ourselves so
         // that non-selected parts are preserved.
-        if (highlightedContent && highlightedRanges.length > 0) {
+        if (highlightedContent && ranges.length > 0) {
           // Build an array of replacement chunks, keeping the same delimiter that
           // we sent to the backend so that multiple disjoint selections are handled.
-          const replacements = highlightedRanges.length > 1
+          const replacements = ranges.length > 1
             ? revisedPart.split("\n\n-----\n\n")
             : [revisedPart];
 
-          if (replacements.length === highlightedRanges.length) {
+          if (replacements.length === ranges.length) {
             // Start with the original page content and progressively splice in
             // each replacement while accounting for changes in string length.
             let assembled = preEditContent;
             let offset = 0;
 
-            highlightedRanges.forEach((range, idx) => {
+            ranges.forEach((range, idx) => {
               const start = range.start + offset;
               const end = range.end + offset;
               let replacement = replacements[idx];
@@ -666,13 +864,15 @@ export default function DeepWikiEditor({
           }
         }
 
-        setProposedContent(nextContent);
-        setOriginalContentForRevert(preEditContent);
-        setContent(nextContent);
+        const segments = createSuggestion(preEditContent, nextContent);
+        if (getChanges(segments).length > 0) {
+          setSuggestion(segments);
+          updateContent(applySuggestion(segments));
+        }
 
         // Reset highlighted ranges after a successful round-trip so they don't
         // leak into the next edit session
-        if (highlightedRanges.length > 0) {
+        if (ranges.length > 0) {
           setHighlightedRanges([])
         }
 
@@ -715,102 +915,45 @@ export default function DeepWikiEditor({
     if (match && match.length > 1) {
       const suggestion = match[1].replace(/"/g, "")
       const newContent = content.substring(0, selectedText.start) + suggestion + content.substring(selectedText.end)
-      setContent(newContent)
+      updateContent(newContent)
       setSelectedText(null)
       setLlmResponse("")
       setLlmPrompt("")
     }
   }
 
-  const handleSave = async () => {
+  // Saves `text` as the content of the current page. Only this page is written, so edits to other
+  // pages are kept; if this page was changed by someone else since the edit started, the merge dialog opens.
+  // `kind` records whether the saved content came from an accepted AI edit or from typing
+  const savePage = async (text: string, kind: WikiVersionKind) => {
+    let base = pageBase.current
     try {
       setSaveStatus('saving')
       setSaveMessage('Saving...')
       
-      console.log('Starting save process for:', { owner, repo, pageId })
-      
-      // First update the local cache
-      const params = new URLSearchParams({
-        owner: owner || '',
-        repo: repo || '',
-        repo_type: 'github', // Default to github for now
-        language: 'en', // Default to English for now
-      })
-      
-      console.log('Fetching current cache with params:', params.toString())
-      
-      // Fetch current cache
-      const response = await fetch(`/api/wiki_cache?${params.toString()}`)
-      if (!response.ok) {
-        const errorText = await response.text()
-        console.error('Failed to fetch cache:', {
-          status: response.status,
-          statusText: response.statusText,
-          error: errorText
-        })
-        throw new Error(`Failed to fetch current wiki cache: ${response.status} ${response.statusText}`)
-      }
-      
-      const cachedData = await response.json()
-      console.log('Retrieved cache data:', {
-        hasGeneratedPages: !!cachedData?.generated_pages,
-        pageCount: Object.keys(cachedData?.generated_pages || {}).length,
-        targetPageExists: !!cachedData?.generated_pages?.[currentPageId || '']
-      })
-
-      if (!cachedData?.generated_pages || !cachedData?.wiki_structure) {
-        throw new Error('Invalid cache data structure: missing required fields')
-      }
+      console.log('Saving page:', { owner, repo, pageId: currentPageId, contentLength: text.length })
 
-      // Update the specific page content
-      const updatedPage = {
-        ...cachedData.generated_pages[currentPageId || ''],
-        content: content,
-        updated_at: new Date().toISOString()
+      if (!base) {
+        // The stored page could not be loaded when the editor opened, so the edit is based on what is stored now
+        const { page, etag } = await fetchWikiPage(saveKey, currentPageId)
+        base = { content: page.content, etag }
       }
-      
-      console.log('Updating page content:', {
-        pageId: currentPageId,
-        contentLength: content.length,
-        hasExistingPage: !!cachedData.generated_pages[currentPageId || '']
-      })
-
-      cachedData.generated_pages[currentPageId || ''] = updatedPage
 
-      // Save back to Supabase
-      console.log('Saving updated cache to Supabase...')
-      const saveResponse = await fetch(`/api/wiki_cache`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          owner: owner || '',
-          repo: repo || '',
-          repo_type: 'github',
-          language: 'en',
-          wiki_structure: cachedData.wiki_structure,
-          generated_pages: cachedData.generated_pages,
-          repo_url: cachedData.repo_url
-        }),
+      const { etag } = await saveWikiPage(saveKey, currentPageId, text, base.etag, {
+        author: getAuthorName(user),
+        // The edit API uses the default model of its default provider
+        model: kind === 'ai' ? 'google' : null,
+        kind,
+        reason: 'edit',
       })
-
-      if (!saveResponse.ok) {
-        const errorText = await saveResponse.text()
-        console.error('Failed to save to Supabase:', {
-          status: saveResponse.status,
-          statusText: saveResponse.statusText,
-          error: errorText
-        })
-        throw new Error(`Failed to save to Supabase: ${saveResponse.status} ${saveResponse.statusText}`)
-      }
-
-      const saveResult = await saveResponse.json()
-      console.log('Save response:', saveResult)
+      pageBase.current = { content: text, etag }
+      announceSaved(etag, text)
+      setSaveConflict(null)
+      console.log('Wiki page saved')
 
       // Also update sessionStorage for immediate viewing (page specific)
       if (currentPageId) {
-        sessionStorage.setItem(`editPageContent_${currentPageId}`, content)
+        sessionStorage.setItem(getEditContentStorageKey(saveKey, currentPageId), text)
       }
       
       // Show success message
@@ -824,6 +967,19 @@ export default function DeepWikiEditor({
       }, 3000)
       
     } catch (err) {
+      if (err instanceof WikiSaveConflictError && err.currentPage && err.etag && base) {
+        setSaveConflict({
+          baseContent: base.content,
+          localContent: text,
+          savedContent: err.currentPage.content,
+          savedEtag: err.etag,
+          kind,
+        })
+        setSaveStatus('idle')
+        setSaveMessage('')
+        return
+      }
+
       console.error('Error saving content:', err)
       setSaveStatus('error')
       setSaveMessage(err instanceof Error ? err.message : 'Failed to save content')
@@ -836,22 +992,93 @@ export default function DeepWikiEditor({
     }
   }
 
-  const handleAccept = async () => {
-    if (!proposedContent) return;
-    setProposedContent(null);
-    setOriginalContentForRevert(null);
-    setLlmResponse("");
-    await handleSave();
-  };
+  const handleSave = (kind: WikiVersionKind = 'manual') => savePage(content, kind)
 
-  const handleReject = () => {
-    if (originalContentForRevert) {
-      setContent(originalContentForRevert);
+  // A wiki-wide edit was saved: show the new sections, and the new content of this page unless it has unsaved edits
+  const handleRefactorSaved = async (data: WikiCacheData) => {
+    setWikiStructure(data.wiki_structure)
+    setCachedStructures(prev => ({
+      ...prev,
+      [`${saveKey.repo_type}_${owner}_${repo}+${saveKey.path ?? ''}@${saveKey.ref ?? ''}_${saveKey.language}`]: data.wiki_structure
+    }))
+
+    const base = pageBase.current
+    if (!currentPageId || !base || contentRef.current !== base.content) return
+    try {
+      const { page, etag } = await fetchWikiPage(saveKey, currentPageId)
+      if (page.content === base.content) return
+      pageBase.current = { content: page.content, etag }
+      updateContent(page.content)
+      announceSaved(etag, page.content)
+    } catch (err) {
+      console.error('Error loading the edited page:', err)
+    }
+  }
+
+  // Resolving a conflict bases the next save on the page that was saved in the meantime
+  const rebaseOnSavedPage = (conflict: SaveConflict) => {
+    pageBase.current = { content: conflict.savedContent, etag: conflict.savedEtag }
+  }
+
+  const handleKeepLocal = () => {
+    if (!saveConflict) return
+    rebaseOnSavedPage(saveConflict)
+    savePage(saveConflict.localContent, saveConflict.kind)
+  }
+
+  const handleUseSaved = () => {
+    if (!saveConflict) return
+    rebaseOnSavedPage(saveConflict)
+    updateContent(saveConflict.savedContent)
+    if (currentPageId) {
+      sessionStorage.setItem(getEditContentStorageKey(saveKey, currentPageId), saveConflict.savedContent)
+    }
+    setSaveConflict(null)
+  }
+
+  const handleSaveMerged = (merged: string) => {
+    if (!saveConflict) return
+    rebaseOnSavedPage(saveConflict)
+    updateContent(merged)
+    savePage(merged, 'manual')
+  }
+
+  // Shows the page with the decisions in `next` applied. The review ends once every change is
+  // decided, and the page is saved if any change was accepted.
+  const reviewSuggestion = (next: SuggestionSegment[]) => {
+    if (!suggestion) return
+    const shown = applySuggestion(suggestion)
+    let nextContent = applySuggestion(next)
+    if (contentRef.current !== shown) {
+      // Keep what collaborators changed since the suggestion was shown
+      const merged = mergeLines(shown, nextContent, contentRef.current)
+      if (merged.conflicts === 0) nextContent = merged.text
+    }
+    updateContent(nextContent)
+
+    const changes = getChanges(next)
+    if (changes.some(change => change.status === 'pending')) {
+      setSuggestion(next)
+      return
+    }
+    setSuggestion(null)
+    setLlmResponse("")
+    if (changes.some(change => change.status === 'accepted')) {
+      savePage(nextContent, 'ai')
     }
-    setProposedContent(null);
-    setOriginalContentForRevert(null);
-    setLlmResponse("");
-  };
+  }
+
+  const handleDecideChange = (id: string, status: SuggestedChangeStatus) => {
+    if (suggestion) reviewSuggestion(decideChanges(suggestion, id, status))
+  }
+
+  const handleAccept = () => {
+    if (suggestion) reviewSuggestion(decideChanges(suggestion, null, 'accepted'))
+  }
+
+  const handleReject = () => {
+    if (suggestion) reviewSuggestion(decideChanges(suggestion, null, 'rejected'))
+  }
 
   // Helper function to filter out stale ranges
   const cleanStaleRanges = useCallback((ranges: Selection[]): Selection[] => {
@@ -940,7 +1167,7 @@ export default function DeepWikiEditor({
             
             {owner && repo && (
               <Link
-                href={`/${owner}/${repo}`}
+                href={`/${owner}/${repo}${buildWikiRouteQuery(routeContext)}`}
                 className="flex items-center gap-1.5 text-[var(--accent-primary)] hover:text-[var(--highlight)] transition-colors border-b border-[var(--border-color)] hover:border-[var(--accent-primary)] pb-0.5"
               >
                 <ArrowLeft className="w-4 h-4" />
@@ -957,18 +1184,44 @@ export default function DeepWikiEditor({
             <h1 className="text-xl font-semibold text-[var(--foreground)]">DeepWiki Editor</h1>
           </div>
           <div className="flex items-center space-x-2">
-            {proposedContent && (
+            {/* People editing this page */}
+            {collaboration.status !== 'offline' || collaboration.error ? (
+              <div className="flex items-center gap-2 px-2" title={collaboration.error || undefined}>
+                <div className="flex -space-x-1.5">
+                  {collaboration.collaborators.map(collaborator => (
+                    <span
+                      key={collaborator.clientId}
+                      title={collaborator.name}
+                      className="w-6 h-6 rounded-full border-2 border-[var(--background)] text-[10px] font-semibold text-white flex items-center justify-center"
+                      style={{ backgroundColor: collaborator.color }}
+                    >
+                      {collaborator.name.slice(0, 2).toUpperCase()}
+                    </span>
+                  ))}
+                </div>
+                <span className={`text-xs ${collaboration.error ? 'text-red-600' : 'text-[var(--muted-foreground)]'}`}>
+                  {collaboration.error
+                    ? 'Sync stopped'
+                    : collaboration.status === 'connecting'
+                      ? 'Connecting...'
+                      : collaboration.collaborators.length > 0
+                        ? `${collaboration.collaborators.length + 1} editing`
+                        : 'Live'}
+                </span>
+              </div>
+            ) : null}
+            {suggestion && (
               <>
                 <button
                   onClick={handleAccept}
-                  title="Accept changes"
+                  title="Accept remaining changes"
                   className="p-2 rounded-md bg-green-600 hover:bg-green-700 text-white flex items-center justify-center"
                 >
                   <Check className="w-4 h-4" />
                 </button>
                 <button
                   onClick={handleReject}
-                  title="Reject changes"
+                  title="Reject remaining changes"
                   className="p-2 rounded-md bg-red-600 hover:bg-red-700 text-white flex items-center justify-center"
                 >
                   <X className="w-4 h-4" />
@@ -1001,7 +1254,7 @@ export default function DeepWikiEditor({
             )}
             
             <button 
-              onClick={handleSave} 
+              onClick={() => handleSave()} 
               disabled={saveStatus === 'saving' || !hasManualEditingAccess}
               className={`btn-japanese flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed text-sm ${
                 !hasManualEditingAccess ? 'cursor-not-allowed' : ''
@@ -1012,7 +1265,27 @@ export default function DeepWikiEditor({
               Save
             </button>
 
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setIsRefactorOpen(true)}
+              disabled={!wikiStructure || !!suggestion}
+              className="text-[var(--muted-foreground)] hover:text-[var(--foreground)] p-2"
+              title="Edit across the wiki"
+            >
+              <Wand2 className="w-4 h-4" />
+            </Button>
+
             {/* Fixed Right Sidebar Toggle Button */}
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setCommentsVisible(!commentsVisible)}
+              className="text-[var(--muted-foreground)] hover:text-[var(--foreground)] p-2"
+              title="Toggle Comments"
+            >
+              <MessageSquare className="w-4 h-4" />
+            </Button>
             <Button
               variant="ghost"
               size="sm"
@@ -1118,30 +1391,75 @@ export default function DeepWikiEditor({
                     </div>
                   )}
                   <ScrollArea className="h-full">
-                    <Textarea
-                      ref={editorRef}
-                      value={content}
-                      onChange={hasManualEditingAccess ? (e: React.ChangeEvent<HTMLTextAreaElement>) => setContent(e.target.value) : undefined}
-                      onSelect={handleTextSelection}
-                      readOnly={!hasManualEditingAccess}
-                      className={`min-h-[600px] max-h-[calc(100vh-200px)] border-none resize-none focus:ring-0 text-[var(--foreground)] leading-relaxed p-6 bg-[var(--background)] h-full font-mono text-sm ${
-                        !hasManualEditingAccess ? 'cursor-text' : ''
-                      }`}
-                      placeholder={hasManualEditingAccess ? "Start editing your documentation..." : "Content is read-only - select text and use AI assistant for edits"}
-                    />
+                    <div className="relative h-full bg-[var(--background)]">
+                      <CollaboratorCursors
+                        text={content}
+                        collaborators={collaboration.collaborators}
+                        scrollTop={editorViewport.scrollTop}
+                        width={editorViewport.width}
+                      />
+                      <Textarea
+                        ref={editorRef}
+                        value={content}
+                        onChange={hasManualEditingAccess ? (e: React.ChangeEvent<HTMLTextAreaElement>) => updateContent(e.target.value) : undefined}
+                        onSelect={handleTextSelection}
+                        onScroll={(e: React.UIEvent<HTMLTextAreaElement>) => {
+                          const editor = e.currentTarget
+                          setEditorViewport({ scrollTop: editor.scrollTop, width: editor.clientWidth })
+                        }}
+                        readOnly={!hasManualEditingAccess || !!suggestion}
+                        className={`relative min-h-[600px] max-h-[calc(100vh-200px)] border-none resize-none focus:ring-0 text-[var(--foreground)] leading-relaxed p-6 bg-transparent h-full font-mono text-sm ${
+                          !hasManualEditingAccess ? 'cursor-text' : ''
+                        }`}
+                        placeholder={hasManualEditingAccess ? "Start editing your documentation..." : "Content is read-only - select text and use AI assistant for edits"}
+                      />
+                    </div>
                   </ScrollArea>
                 </div>
 
-                {/* Rendered preview */}
+                {/* Rendered preview, or the AI changes while they are reviewed */}
                 <div className="w-1/2 h-full border-l border-[var(--border-color)] bg-[var(--background)] overflow-hidden">
                   <ScrollArea className="h-full">
-                    <div className="p-6">
-                      <Markdown content={highlightedContent} />
-                    </div>
+                    {suggestion ? (
+                      <SuggestedChanges segments={suggestion} onDecide={handleDecideChange} />
+                    ) : (
+                      <div className="p-6">
+                        <Markdown content={highlightedContent} />
+                      </div>
+                    )}
                   </ScrollArea>
                 </div>
               </div>
 
+              {/* Comment threads */}
+              {commentsVisible && (
+                <div className="w-80 flex-none border-l border-[var(--border-color)] bg-[var(--background)] overflow-y-auto p-4">
+                  {selectedText && !commentDraft && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setCommentDraft(createAnchor(content, selectedText))}
+                      className="w-full mb-3"
+                    >
+                      <MessageSquare className="w-4 h-4 mr-2" />
+                      Comment on selection
+                    </Button>
+                  )}
+                  <CommentMargin
+                    content={content}
+                    threads={pageComments.threads}
+                    draft={commentDraft}
+                    onCancelDraft={() => setCommentDraft(null)}
+                    onStartThread={pageComments.startThread}
+                    onReply={pageComments.reply}
+                    onSetResolved={pageComments.setResolved}
+                    onSelectThread={selectCommentedText}
+                    emptyHint="Select text in the editor to comment on it."
+                    error={pageComments.error}
+                  />
+                </div>
+              )}
+
               {/* AI Assistant Sidebar */}
               {rightSidebarVisible && (
                 <div className="w-96 flex-none border-l border-[var(--border-color)] flex flex-col bg-[var(--background)]">
@@ -1181,6 +1499,31 @@ export default function DeepWikiEditor({
                                       : chat.response
                                   } 
                                 />
+                                {chat.files.length > 0 && !chat.response.includes("### IRRELEVANT_QUERY") && (() => {
+                                  const cited = getCitedFiles(chat.response, chat.files)
+                                  return (
+                                    <div className="mt-2 pt-2 border-t border-[var(--border-color)]">
+                                      <div className="text-xs text-[var(--muted-foreground)] mb-1">
+                                        Cited {cited.length} of {chat.files.length} source file{chat.files.length > 1 ? 's' : ''}
+                                      </div>
+                                      <div className="flex flex-wrap gap-1">
+                                        {chat.files.map(file => (
+                                          <span
+                                            key={file}
+                                            title={file}
+                                            className={`max-w-full truncate px-1.5 py-0.5 rounded text-xs font-mono border ${
+                                              cited.includes(file)
+                                                ? "bg-[var(--accent-primary)]/10 border-[var(--accent-primary)]/30 text-[var(--foreground)]"
+                                                : "border-[var(--border-color)] text-[var(--muted-foreground)]"
+                                            }`}
+                                          >
+                                            {file}
+                                          </span>
+                                        ))}
+                                      </div>
+                                    </div>
+                                  )
+                                })()}
                               </div>
                             ) : (
                               <div className="flex-1 flex items-center gap-2 text-sm text-[var(--muted-foreground)]">
@@ -1216,6 +1559,11 @@ export default function DeepWikiEditor({
                               Clear Memory
                             </button>
                           </div>
+                          {user && (
+                            <Link href="/settings" className="block text-xs text-blue-600 dark:text-blue-400 hover:underline mb-1">
+                              Kept in your profile · Manage preferences
+                            </Link>
+                          )}
                           
                           {editMemory.length > 0 && (
                             <div className="text-xs text-blue-700 dark:text-blue-300 mb-1">
@@ -1244,6 +1592,14 @@ export default function DeepWikiEditor({
                         </div>
                       )}
 
+                      <SourceFilePicker
+                        files={sourceFiles}
+                        pageFiles={pageFiles}
+                        knownFiles={knownFiles}
+                        onChange={setSourceFiles}
+                        disabled={isProcessing}
+                      />
+
                       {/* Highlight controls */}
                       {highlightedRanges.length > 0 && (
                         <div className="mb-6 p-4 bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 rounded-lg">
@@ -1267,18 +1623,18 @@ export default function DeepWikiEditor({
                           onKeyDown={(e: React.KeyboardEvent<HTMLTextAreaElement>) => {
                             if (e.key === 'Enter' && !e.shiftKey) {
                               e.preventDefault();
-                              if (llmPrompt.trim() && !isProcessing) {
+                              if (llmPrompt.trim() && !isProcessing && !suggestion) {
                                 handleLlmSubmit();
                                 setLlmPrompt(''); // Clear the input after sending
                               }
                             }
                           }}
-                          placeholder="Ask the AI assistant..."
+                          placeholder={suggestion ? "Review the suggested changes first" : "Ask the AI assistant..."}
                           className="flex-1 min-h-[56px] max-h-32 px-4 py-3 rounded-lg border-[var(--border-color)] focus:border-[var(--accent)] focus:ring-[var(--accent)]/20 bg-[var(--background)] text-[var(--foreground)] text-sm leading-relaxed resize-none transition-all duration-200"
                         />
                         <Button
                           onClick={handleLlmSubmit}
-                          disabled={!llmPrompt.trim() || isProcessing}
+                          disabled={!llmPrompt.trim() || isProcessing || !!suggestion}
                           className="btn-japanese flex items-center justify-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed h-[44px] px-3"
                         >
                           {isProcessing ? (
@@ -1297,6 +1653,27 @@ export default function DeepWikiEditor({
         </div>
       </div>
 
+      <MergeConflictModal
+        isOpen={!!saveConflict}
+        onClose={() => setSaveConflict(null)}
+        baseContent={saveConflict?.baseContent ?? ""}
+        localContent={saveConflict?.localContent ?? ""}
+        savedContent={saveConflict?.savedContent ?? ""}
+        isSaving={saveStatus === 'saving'}
+        onKeepLocal={handleKeepLocal}
+        onUseSaved={handleUseSaved}
+        onSaveMerged={handleSaveMerged}
+      />
+
+      <WikiRefactorModal
+        isOpen={isRefactorOpen}
+        onClose={() => setIsRefactorOpen(false)}
+        cacheKey={saveKey}
+        pages={wikiStructure?.pages ?? []}
+        author={getAuthorName(user)}
+        onSaved={handleRefactorSaved}
+      />
+
       {/* Footer - Fixed */}
       <footer className="flex-none z-50 bg-[var(--card-bg)] border-t border-[var(--border-color)] px-6 py-3">
         <div className="flex items-center justify-end">
@@ -0,0 +1,260 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { FaSpinner, FaTimes, FaTrash } from 'react-icons/fa';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { RepoEditorMemory, UserPreferences } from '@/types/editormemory';
+import { clearEditorMemory, fetchEditorMemory, saveEditorMemory } from '@/utils/editorMemoryApi';
+
+interface EditorMemorySettingsProps {
+  userId: string;
+}
+
+// Styles the editor detects in edit requests; any other text can be entered as well
+const WRITING_STYLES = ['formal', 'casual', 'technical'];
+
+type ListField = 'preferredFormats' | 'commonInstructions';
+
+/**
+ * Lists what the wiki editor has learned for each repository and lets the user change or forget it.
+ */
+export default function EditorMemorySettings({ userId }: EditorMemorySettingsProps) {
+  const { messages: t } = useLanguage();
+
+  const [memory, setMemory] = useState<Record<string, RepoEditorMemory>>({});
+  // Preferences as edited here, per repository, until they are saved
+  const [drafts, setDrafts] = useState<Record<string, UserPreferences>>({});
+  const [newItems, setNewItems] = useState<Record<string, string>>({});
+  const [isLoading, setIsLoading] = useState(true);
+  const [busyKey, setBusyKey] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      setMemory(await fetchEditorMemory(userId));
+      setDrafts({});
+    } catch (err) {
+      console.error('Error loading editor memory:', err);
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const run = async (key: string, action: () => Promise<void>) => {
+    setBusyKey(key);
+    setError(null);
+    try {
+      await action();
+    } catch (err) {
+      console.error('Error updating editor memory:', err);
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setBusyKey(null);
+    }
+  };
+
+  const preferencesOf = (key: string) => drafts[key] ?? memory[key].preferences;
+
+  const updateDraft = (key: string, change: Partial<UserPreferences>) =>
+    setDrafts(prev => ({ ...prev, [key]: { ...preferencesOf(key), ...change } }));
+
+  const save = (key: string, edits = memory[key].edits) => run(key, async () => {
+    const saved = await saveEditorMemory(userId, memory[key], edits, preferencesOf(key));
+    setMemory(prev => ({ ...prev, [key]: saved }));
+    setDrafts(prev => {
+      const next = { ...prev };
+      delete next[key];
+      return next;
+    });
+  });
+
+  const forget = (key: string) => run(key, async () => {
+    await clearEditorMemory(userId, memory[key]);
+    setMemory(prev => {
+      const next = { ...prev };
+      delete next[key];
+      return next;
+    });
+  });
+
+  const forgetAll = () => {
+    if (!window.confirm(t.settings?.confirmClearAll || 'Forget the edits and preferences of every repository?')) return;
+    run('all', async () => {
+      await clearEditorMemory(userId);
+      setMemory({});
+      setDrafts({});
+    });
+  };
+
+  const addItem = (key: string, field: ListField) => {
+    const item = (newItems[`${key}:${field}`] || '').trim();
+    if (!item) return;
+    const items = preferencesOf(key)[field] || [];
+    if (!items.includes(item)) updateDraft(key, { [field]: [...items, item] });
+    setNewItems(prev => ({ ...prev, [`${key}:${field}`]: '' }));
+  };
+
+  const renderList = (key: string, field: ListField, label: string) => {
+    const items = preferencesOf(key)[field] || [];
+    return (
+      <div>
+        <div className="text-xs font-medium text-[var(--muted)] mb-1">{label}</div>
+        <div className="flex flex-wrap gap-1.5 mb-1.5">
+          {items.map(item => (
+            <span
+              key={item}
+              className="inline-flex items-center gap-1 px-2 py-0.5 rounded-md bg-[var(--accent-primary)]/10 border border-[var(--accent-primary)]/20 text-xs text-[var(--foreground)]"
+            >
+              {item}
+              <button
+                onClick={() => updateDraft(key, { [field]: items.filter(other => other !== item) })}
+                aria-label={t.settings?.remove || 'Remove'}
+                className="text-[var(--muted)] hover:text-[var(--highlight)]"
+              >
+                <FaTimes className="text-[10px]" />
+              </button>
+            </span>
+          ))}
+          {items.length === 0 && <span className="text-xs text-[var(--muted)]">{t.settings?.none || 'None'}</span>}
+        </div>
+        <input
+          value={newItems[`${key}:${field}`] || ''}
+          onChange={(e) => setNewItems(prev => ({ ...prev, [`${key}:${field}`]: e.target.value }))}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') {
+              e.preventDefault();
+              addItem(key, field);
+            }
+          }}
+          placeholder={t.settings?.addItem || 'Add and press Enter'}
+          className="input-japanese block w-full px-2 py-1 text-xs rounded-md border border-[var(--border-color)] bg-transparent text-[var(--foreground)] focus:outline-none focus:border-[var(--accent-primary)]"
+        />
+      </div>
+    );
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center gap-2 text-sm text-[var(--muted)]">
+        <FaSpinner className="animate-spin" /> {t.common?.loading || 'Loading...'}
+      </div>
+    );
+  }
+
+  const keys = Object.keys(memory).sort();
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-start justify-between gap-4">
+        <p className="text-sm text-[var(--muted)]">
+          {t.settings?.editorMemoryDescription || 'The wiki editor remembers your recent AI edits and learns your writing preferences for each repository, and sends them with your edit requests.'}
+        </p>
+        {keys.length > 0 && (
+          <button
+            onClick={forgetAll}
+            disabled={busyKey !== null}
+            className="flex-none inline-flex items-center gap-1.5 text-sm text-[var(--highlight)] px-3 py-1.5 rounded-md border border-[var(--highlight)]/30 hover:bg-[var(--highlight)]/10 disabled:opacity-50"
+          >
+            <FaTrash /> {t.settings?.clearAll || 'Forget everything'}
+          </button>
+        )}
+      </div>
+
+      {error && (
+        <div className="px-3 py-2 text-sm text-[var(--highlight)] bg-[var(--highlight)]/5 border border-[var(--highlight)]/30 rounded-md">
+          {error}
+        </div>
+      )}
+
+      {keys.length === 0 && (
+        <p className="text-sm text-[var(--muted)]">
+          {t.settings?.noEditorMemory || 'Nothing has been learned yet. Preferences appear here after you use the AI assistant in the editor.'}
+        </p>
+      )}
+
+      {keys.map(key => {
+        const entry = memory[key];
+        const preferences = preferencesOf(key);
+        return (
+          <div key={key} className="p-4 rounded-lg border border-[var(--border-color)] bg-[var(--background)]/50 space-y-3">
+            <div className="flex items-center justify-between gap-3">
+              <div>
+                <div className="font-medium text-[var(--foreground)]">{entry.owner}/{entry.repo}</div>
+                <div className="text-xs text-[var(--muted)]">
+                  {entry.repo_type} · {entry.edits.length} {t.settings?.rememberedEdits || 'remembered edits'}
+                  {entry.updated_at && ` · ${new Date(entry.updated_at).toLocaleString()}`}
+                </div>
+              </div>
+              <div className="flex items-center gap-2">
+                {entry.edits.length > 0 && (
+                  <button
+                    onClick={() => save(key, [])}
+                    disabled={busyKey !== null}
+                    className="text-xs text-[var(--accent-primary)] hover:text-[var(--highlight)] px-2 py-1 rounded-md border border-[var(--accent-primary)]/30 disabled:opacity-50"
+                  >
+                    {t.settings?.forgetEdits || 'Forget edits'}
+                  </button>
+                )}
+                <button
+                  onClick={() => forget(key)}
+                  disabled={busyKey !== null}
+                  className="text-xs text-[var(--highlight)] px-2 py-1 rounded-md border border-[var(--highlight)]/30 hover:bg-[var(--highlight)]/10 disabled:opacity-50"
+                >
+                  {t.settings?.forgetRepo || 'Forget all'}
+                </button>
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-xs font-medium text-[var(--muted)] mb-1">
+                {t.settings?.writingStyle || 'Writing style'}
+              </label>
+              <input
+                list="editor-writing-styles"
+                value={preferences.writingStyle || ''}
+                onChange={(e) => updateDraft(key, { writingStyle: e.target.value || null })}
+                className="input-japanese block w-full px-2 py-1 text-sm rounded-md border border-[var(--border-color)] bg-transparent text-[var(--foreground)] focus:outline-none focus:border-[var(--accent-primary)]"
+              />
+            </div>
+            {renderList(key, 'preferredFormats', t.settings?.preferredFormats || 'Preferred formats')}
+            {renderList(key, 'commonInstructions', t.settings?.commonInstructions || 'Standing instructions')}
+
+            {drafts[key] && (
+              <div className="flex justify-end gap-2">
+                <button
+                  onClick={() => setDrafts(prev => {
+                    const next = { ...prev };
+                    delete next[key];
+                    return next;
+                  })}
+                  className="text-sm text-[var(--muted)] hover:text-[var(--foreground)] px-3 py-1.5"
+                >
+                  {t.common?.cancel || 'Cancel'}
+                </button>
+                <button
+                  onClick={() => save(key)}
+                  disabled={busyKey !== null}
+                  className="inline-flex items-center gap-1.5 text-sm text-white bg-[var(--accent-primary)] px-3 py-1.5 rounded-md disabled:opacity-50"
+                >
+                  {busyKey === key && <FaSpinner className="animate-spin" />}
+                  {t.settings?.save || 'Save preferences'}
+                </button>
+              </div>
+            )}
+          </div>
+        );
+      })}
+
+      <datalist id="editor-writing-styles">
+        {WRITING_STYLES.map(style => <option key={style} value={style} />)}
+      </datalist>
+    </div>
+  );
+}
@@ -0,0 +1,62 @@
+'use client';
+
+import React from 'react';
+import { FaCheck, FaExclamationTriangle, FaHourglassHalf, FaSpinner } from 'react-icons/fa';
+import { useLanguage } from '@/contexts/LanguageContext';
+
+export type QueueStatus = 'active' | 'queued' | 'failed' | 'done';
+
+interface GenerationQueueProps {
+  pages: { id: string; title: string }[];
+  statuses: Record<string, QueueStatus>;
+}
+
+const GROUPS: { status: QueueStatus; icon: React.ReactNode; fallbackLabel: string }[] = [
+  { status: 'active', icon: <FaSpinner className="animate-spin text-[var(--accent-primary)]" />, fallbackLabel: 'Generating' },
+  { status: 'queued', icon: <FaHourglassHalf className="text-[var(--muted)]" />, fallbackLabel: 'Queued' },
+  { status: 'failed', icon: <FaExclamationTriangle className="text-[var(--highlight)]" />, fallbackLabel: 'Failed' },
+  { status: 'done', icon: <FaCheck className="text-green-600" />, fallbackLabel: 'Done' },
+];
+
+// Number of titles shown per group before collapsing into a count
+const MAX_TITLES = 5;
+
+/**
+ * Live view of the page generation queue, grouped by status.
+ */
+const GenerationQueue: React.FC<GenerationQueueProps> = ({ pages, statuses }) => {
+  const { messages } = useLanguage();
+
+  return (
+    <div className="mt-4 text-xs grid grid-cols-2 gap-3">
+      {GROUPS.map(({ status, icon, fallbackLabel }) => {
+        const groupPages = pages.filter(page => statuses[page.id] === status);
+        return (
+          <div key={status} className="border border-[var(--border-color)] rounded-md p-2 bg-[var(--background)]/50">
+            <p className="flex items-center gap-1.5 text-[var(--muted)] mb-1.5">
+              {icon}
+              <span>{messages.repoPage?.queue?.[status] || fallbackLabel}</span>
+              <span className="ml-auto font-mono">{groupPages.length}</span>
+            </p>
+            <ul className="text-[var(--foreground)] space-y-1">
+              {groupPages.slice(0, MAX_TITLES).map(page => (
+                <li key={page.id} className="truncate border-l-2 border-[var(--accent-primary)]/30 pl-2" title={page.title}>
+                  {page.title}
+                </li>
+              ))}
+              {groupPages.length > MAX_TITLES && (
+                <li className="text-[var(--muted)]">
+                  {messages.repoPage?.andMorePages
+                    ? messages.repoPage.andMorePages.replace('{count}', (groupPages.length - MAX_TITLES).toString())
+                    : `...and ${groupPages.length - MAX_TITLES} more`}
+                </li>
+              )}
+            </ul>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default GenerationQueue;
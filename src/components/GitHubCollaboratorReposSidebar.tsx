@@ -2,6 +2,8 @@
 
 import React, { useState, useEffect } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
+import { WikiCacheRepo } from '@/types/wiki/wikicache';
+import { fromGitHubRepo } from '@/utils/combinedWiki';
 import { FaGithub, FaStar, FaCodeBranch, FaSync, FaExternalLinkAlt, FaClock, FaCode } from 'react-icons/fa';
 
 interface GitHubRepo {
@@ -27,7 +29,14 @@ interface UserProfile {
   github_collaborator_repos_updated_at: string;
 }
 
-export default function GitHubCollaboratorReposSidebar() {
+interface GitHubCollaboratorReposSidebarProps {
+  // Full names of the repositories picked for a combined wiki
+  selectedRepos?: string[];
+  // Picks or unpicks a repository for a combined wiki; the lists have no checkboxes without it
+  onToggleRepo?: (repo: WikiCacheRepo) => void;
+}
+
+export default function GitHubCollaboratorReposSidebar({ selectedRepos = [], onToggleRepo }: GitHubCollaboratorReposSidebarProps) {
   const { user } = useAuth();
   const [profile, setProfile] = useState<UserProfile | null>(null);
   const [collaboratorRepositories, setCollaboratorRepositories] = useState<GitHubRepo[]>([]);
@@ -211,6 +220,15 @@ export default function GitHubCollaboratorReposSidebar() {
                 <div className="flex items-start justify-between mb-2">
                   <div className="flex-1 min-w-0">
                     <h4 className="text-sm font-medium text-[var(--foreground)] truncate">
+                      {onToggleRepo && (
+                        <input
+                          type="checkbox"
+                          checked={selectedRepos.includes(repo.full_name)}
+                          onChange={() => onToggleRepo(fromGitHubRepo(repo))}
+                          className="mr-2 align-middle accent-[var(--accent-primary)]"
+                          title="Add to a combined wiki"
+                        />
+                      )}
                       {repo.name}
                     </h4>
                     {repo.description && (
@@ -3,6 +3,7 @@
 import React, { useState, useEffect } from 'react';
 import Link from 'next/link';
 import { FaGlobe, FaDownload, FaTrash, FaExternalLinkAlt, FaSyncAlt } from 'react-icons/fa';
+import { COMBINED_WIKI_TYPE, getCombinedWikiUrl } from '@/utils/combinedWiki';
 
 interface GlobalCacheItem {
   id: string;
@@ -10,6 +11,10 @@ interface GlobalCacheItem {
   repo: string;
   repo_type: string;
   language: string;
+  // Branch, tag or commit of the wiki; null for the default branch
+  ref: string | null;
+  // Subdirectory of the wiki; null for the whole repository
+  path: string | null;
   name: string;
   created_at?: string;
   updated_at?: string;
@@ -63,6 +68,8 @@ export default function GlobalWikiCache({ className = "", maxItems }: GlobalWiki
         repo_type: item.repo_type,
         language: item.language,
       });
+      if (item.ref) params.append('ref', item.ref);
+      if (item.path) params.append('path', item.path);
       
       const response = await fetch(`/api/global-wiki-cache/${item.owner}/${item.repo}?${params.toString()}`, {
         method: 'DELETE',
@@ -87,6 +94,8 @@ export default function GlobalWikiCache({ className = "", maxItems }: GlobalWiki
         repo_type: item.repo_type,
         language: item.language,
       });
+      if (item.ref) params.append('ref', item.ref);
+      if (item.path) params.append('path', item.path);
       
       const response = await fetch(`/api/global-wiki-cache/${item.owner}/${item.repo}?${params.toString()}`);
       
@@ -190,6 +199,16 @@ export default function GlobalWikiCache({ className = "", maxItems }: GlobalWiki
                     <span className="text-xs px-2 py-1 bg-gray-100 text-gray-600 rounded">
                       {item.language}
                     </span>
+                    {item.ref && (
+                      <span className="text-xs px-2 py-1 bg-gray-100 text-gray-600 rounded font-mono">
+                        {item.ref}
+                      </span>
+                    )}
+                    {item.path && (
+                      <span className="text-xs px-2 py-1 bg-gray-100 text-gray-600 rounded font-mono">
+                        {item.path}/
+                      </span>
+                    )}
                   </div>
                   
                   <div className="flex items-center gap-4 text-sm text-[var(--muted)]">
@@ -202,7 +221,9 @@ export default function GlobalWikiCache({ className = "", maxItems }: GlobalWiki
 
                 <div className="flex items-center gap-2 ml-4">
                   <Link
-                    href={`/${item.owner}/${item.repo}?repo_type=${item.repo_type}&language=${item.language}`}
+                    href={item.repo_type === COMBINED_WIKI_TYPE
+                      ? getCombinedWikiUrl(item.owner, item.repo, item.language)
+                      : `/${item.owner}/${item.repo}?repo_type=${item.repo_type}&language=${item.language}${item.ref ? `&ref=${encodeURIComponent(item.ref)}` : ''}${item.path ? `&path=${encodeURIComponent(item.path)}` : ''}`}
                     className="p-2 text-[var(--accent-primary)] hover:bg-[var(--accent-primary)]/10 rounded transition-colors"
                     title="View Wiki"
                   >
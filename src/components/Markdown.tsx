@@ -7,21 +7,30 @@ import { tomorrow } from 'react-syntax-highlighter/dist/cjs/styles/prism';
 import Mermaid from './Mermaid';
 import Link from 'next/link';
 import { useRouter } from 'next/navigation';
+import CodeCitationLink from './CodeCitationLink';
+import { headingId, nodeText } from '@/utils/headingIds';
+import { CitationSource, CodeCitation, parseCitation, resolveRepoCitation } from '@/utils/codeCitations';
 
 interface MarkdownProps {
   content: string;
+  // Repository that source citations such as [src/app.ts:10-20]() point into; left as plain links without it
+  citationSource?: CitationSource;
+  // Repositories of a combined wiki, whose citations start with the repository, as in [acme/api/src/app.ts]()
+  citationSources?: CitationSource[];
+  // Opens a source citation in the app's code browser
+  onOpenCitation?: (citation: CodeCitation) => void;
 }
 
-const Markdown: React.FC<MarkdownProps> = ({ content }) => {
+const Markdown: React.FC<MarkdownProps> = ({ content, citationSource, citationSources, onOpenCitation }) => {
   const router = useRouter();
   
-  // Define markdown components
+  // Define markdown components; headings get ids so search results can jump to a section
   const MarkdownComponents: React.ComponentProps<typeof ReactMarkdown>['components'] = {
     p({ children, ...props }: { children?: React.ReactNode }) {
       return <p className="mb-3 text-sm leading-relaxed dark:text-white" {...props}>{children}</p>;
     },
     h1({ children, ...props }: { children?: React.ReactNode }) {
-      return <h1 className="text-xl font-bold mt-6 mb-3 dark:text-white" {...props}>{children}</h1>;
+      return <h1 id={headingId(nodeText(children))} className="text-xl font-bold mt-6 mb-3 dark:text-white" {...props}>{children}</h1>;
     },
     h2({ children, ...props }: { children?: React.ReactNode }) {
       // Special styling for ReAct headings
@@ -30,6 +39,7 @@ const Markdown: React.FC<MarkdownProps> = ({ content }) => {
         if (text.includes('Thought') || text.includes('Action') || text.includes('Observation') || text.includes('Answer')) {
           return (
             <h2
+              id={headingId(text)}
               className={`text-base font-bold mt-5 mb-3 p-2 rounded ${
                 text.includes('Thought') ? 'bg-blue-100 dark:bg-blue-900/30 text-blue-800 dark:text-blue-300' :
                 text.includes('Action') ? 'bg-green-100 dark:bg-green-900/30 text-green-800 dark:text-green-300' :
@@ -44,13 +54,13 @@ const Markdown: React.FC<MarkdownProps> = ({ content }) => {
           );
         }
       }
-      return <h2 className="text-lg font-bold mt-5 mb-3 dark:text-white" {...props}>{children}</h2>;
+      return <h2 id={headingId(nodeText(children))} className="text-lg font-bold mt-5 mb-3 dark:text-white" {...props}>{children}</h2>;
     },
     h3({ children, ...props }: { children?: React.ReactNode }) {
-      return <h3 className="text-base font-semibold mt-4 mb-2 dark:text-white" {...props}>{children}</h3>;
+      return <h3 id={headingId(nodeText(children))} className="text-base font-semibold mt-4 mb-2 dark:text-white" {...props}>{children}</h3>;
     },
     h4({ children, ...props }: { children?: React.ReactNode }) {
-      return <h4 className="text-sm font-semibold mt-3 mb-2 dark:text-white" {...props}>{children}</h4>;
+      return <h4 id={headingId(nodeText(children))} className="text-sm font-semibold mt-3 mb-2 dark:text-white" {...props}>{children}</h4>;
     },
     ul({ children, ...props }: { children?: React.ReactNode }) {
       return <ul className="list-disc pl-6 mb-4 text-sm dark:text-white space-y-2" {...props}>{children}</ul>;
@@ -62,6 +72,17 @@ const Markdown: React.FC<MarkdownProps> = ({ content }) => {
       return <li className="mb-2 text-sm leading-relaxed dark:text-white" {...props}>{children}</li>;
     },
     a({ children, href, ...props }: { children?: React.ReactNode; href?: string }) {
+      // Handle source citations, which the wiki prompt writes as links without a target
+      const citation = !href && (citationSource || citationSources) ? parseCitation(nodeText(children)) : null;
+      const target = citation && (citationSources
+        ? resolveRepoCitation(citation, citationSources)
+        : citationSource ? { citation, source: citationSource } : null);
+      if (target) {
+        return (
+          <CodeCitationLink citation={target.citation} source={target.source} onOpen={onOpenCitation}>{children}</CodeCitationLink>
+        );
+      }
+
       // Handle repository file links
       if (href?.startsWith('/') || href?.startsWith('./') || href?.startsWith('../')) {
         // Get the current URL path segments
@@ -0,0 +1,179 @@
+'use client';
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { FaCodeBranch, FaSpinner } from 'react-icons/fa';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { diffLines, DiffRow, mergeLines } from '@/utils/lineDiff';
+
+interface MergeConflictModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  // Content the local edit started from
+  baseContent: string;
+  // Local edit that could not be saved
+  localContent: string;
+  // Content saved by someone else in the meantime
+  savedContent: string;
+  isSaving: boolean;
+  onKeepLocal: () => void;
+  onUseSaved: () => void;
+  onSaveMerged: (content: string) => void;
+}
+
+const ROW_STYLES: Record<DiffRow['type'], { left: string; right: string }> = {
+  same: { left: '', right: '' },
+  removed: { left: 'bg-red-500/15', right: 'bg-[var(--background)]/60' },
+  added: { left: 'bg-[var(--background)]/60', right: 'bg-green-500/15' },
+  changed: { left: 'bg-red-500/15', right: 'bg-green-500/15' },
+};
+
+const CONFLICT_MARKER = /^(<{7}|={7}|>{7})( |$)/m;
+
+/**
+ * Shown when saving a page fails because it was changed since the edit started.
+ * Compares the saved page with the local edit and offers a three-way merge of both,
+ * with regions changed on both sides left as conflict markers to resolve by hand.
+ */
+export default function MergeConflictModal({
+  isOpen,
+  onClose,
+  baseContent,
+  localContent,
+  savedContent,
+  isSaving,
+  onKeepLocal,
+  onUseSaved,
+  onSaveMerged,
+}: MergeConflictModalProps) {
+  const { messages: t } = useLanguage();
+
+  const initialMerge = useMemo(
+    () => mergeLines(baseContent, localContent, savedContent, {
+      mine: t.merge?.yourChanges || 'Your changes',
+      theirs: t.merge?.savedVersion || 'Saved version',
+    }),
+    [baseContent, localContent, savedContent, t.merge?.yourChanges, t.merge?.savedVersion],
+  );
+  const [merged, setMerged] = useState(initialMerge.text);
+
+  // Start from the automatic merge whenever a new conflict is shown
+  useEffect(() => {
+    if (isOpen) setMerged(initialMerge.text);
+  }, [isOpen, initialMerge]);
+
+  const diffRows = useMemo(
+    () => (isOpen ? diffLines(savedContent, localContent) : []),
+    [isOpen, savedContent, localContent],
+  );
+
+  if (!isOpen) return null;
+
+  const hasMarkers = CONFLICT_MARKER.test(merged);
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto">
+      <div className="flex min-h-screen items-center justify-center p-4 text-center bg-black/50">
+        <div className="relative transform overflow-hidden rounded-lg bg-[var(--card-bg)] text-left shadow-xl transition-all sm:my-8 w-full max-w-6xl">
+          {/* Modal header with close button */}
+          <div className="flex items-center justify-between px-6 py-4 border-b border-[var(--border-color)]">
+            <h3 className="text-lg font-medium text-[var(--accent-primary)] flex items-center gap-2">
+              <FaCodeBranch />
+              {t.merge?.title || 'This page was changed by someone else'}
+            </h3>
+            <button
+              type="button"
+              onClick={onClose}
+              className="text-[var(--muted)] hover:text-[var(--foreground)] focus:outline-none transition-colors"
+            >
+              <svg className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+
+          <p className="px-6 pt-4 text-sm text-[var(--muted)]">
+            {t.merge?.description || 'Your changes were not saved. Review both versions and choose what to keep.'}
+          </p>
+
+          {/* Saved page against the local edit */}
+          <div className="mx-6 mt-4 border border-[var(--border-color)] rounded-md overflow-hidden">
+            <div className="grid grid-cols-2 text-xs font-medium text-[var(--muted)] border-b border-[var(--border-color)]">
+              <div className="px-4 py-2 border-r border-[var(--border-color)]">{t.merge?.savedVersion || 'Saved version'}</div>
+              <div className="px-4 py-2">{t.merge?.yourChanges || 'Your changes'}</div>
+            </div>
+            <div className="h-[30vh] overflow-auto font-mono text-xs">
+              {diffRows.map((row, index) => (
+                <div key={index} className="grid grid-cols-2">
+                  {(['left', 'right'] as const).map(side => (
+                    <div
+                      key={side}
+                      className={`flex ${ROW_STYLES[row.type][side]} ${side === 'left' ? 'border-r border-[var(--border-color)]' : ''}`}
+                    >
+                      <span className="w-10 flex-shrink-0 text-right pr-2 text-[var(--muted)] select-none">
+                        {row[side]?.number ?? ''}
+                      </span>
+                      <span className="whitespace-pre-wrap break-words text-[var(--foreground)] pr-2">
+                        {row[side]?.text ?? ''}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {/* Editable merge result */}
+          <div className="mx-6 mt-4">
+            <div className="flex items-center justify-between text-xs font-medium text-[var(--muted)] mb-2">
+              <span>{t.merge?.merged || 'Merged'}</span>
+              {initialMerge.conflicts > 0 && (
+                <span className="text-[var(--highlight)]">
+                  {initialMerge.conflicts} {t.merge?.conflicts || 'conflicting changes to resolve'}
+                </span>
+              )}
+            </div>
+            <textarea
+              value={merged}
+              onChange={(e) => setMerged(e.target.value)}
+              spellCheck={false}
+              className="w-full h-[25vh] p-3 font-mono text-xs rounded-md border border-[var(--border-color)] bg-[var(--background)] text-[var(--foreground)] focus:outline-none focus:border-[var(--accent-primary)]"
+            />
+            {hasMarkers && (
+              <p className="mt-1 text-xs text-[var(--highlight)]">
+                {t.merge?.resolveMarkers || 'Remove the conflict markers before saving the merged page.'}
+              </p>
+            )}
+          </div>
+
+          <div className="flex justify-end gap-2 px-6 py-4 mt-2 border-t border-[var(--border-color)]">
+            <button
+              type="button"
+              onClick={onUseSaved}
+              disabled={isSaving}
+              className="px-3 py-1.5 text-xs font-medium rounded-md border border-[var(--border-color)] text-[var(--foreground)] hover:bg-[var(--background)] transition-colors disabled:opacity-50"
+            >
+              {t.merge?.useSaved || 'Discard my changes'}
+            </button>
+            <button
+              type="button"
+              onClick={onKeepLocal}
+              disabled={isSaving}
+              className="px-3 py-1.5 text-xs font-medium rounded-md border border-[var(--border-color)] text-[var(--foreground)] hover:bg-[var(--background)] transition-colors disabled:opacity-50"
+            >
+              {t.merge?.keepLocal || 'Overwrite with my changes'}
+            </button>
+            <button
+              type="button"
+              onClick={() => onSaveMerged(merged)}
+              disabled={isSaving || hasMarkers}
+              className="px-3 py-1.5 text-xs font-medium rounded-md border border-transparent bg-[var(--accent-primary)]/90 text-white hover:bg-[var(--accent-primary)] transition-colors disabled:opacity-50 flex items-center gap-1.5"
+            >
+              {isSaving && <FaSpinner className="animate-spin" />}
+              {t.merge?.saveMerged || 'Save merged page'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
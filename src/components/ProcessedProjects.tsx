@@ -4,6 +4,7 @@ import React, { useState, useEffect, useMemo } from 'react';
 import Link from 'next/link';
 import { FaTimes, FaTh, FaList } from 'react-icons/fa';
 import { useAuth } from '@/contexts/AuthContext';
+import { COMBINED_WIKI_TYPE, getCombinedWikiUrl } from '@/utils/combinedWiki';
 
 // Interface should match the structure from the API
 interface ProcessedProject {
@@ -14,6 +15,10 @@ interface ProcessedProject {
   repo_type: string;
   submittedAt: number;
   language: string;
+  // Branch, tag or commit of the wiki; null for the default branch
+  ref?: string | null;
+  // Subdirectory of the wiki; null for the whole repository
+  path?: string | null;
 }
 
 interface UserGitHubRepo {
@@ -32,6 +37,11 @@ interface UserGitHubRepo {
   relationship?: string; // 'collaborator' or 'organization_member' for collaborator repos
 }
 
+// Viewer URL of a processed project's wiki
+const getProjectUrl = (project: ProcessedProject) => project.repo_type === COMBINED_WIKI_TYPE
+  ? getCombinedWikiUrl(project.owner, project.repo, project.language)
+  : `/${project.owner}/${project.repo}?type=${project.repo_type}&language=${project.language}${project.ref ? `&ref=${encodeURIComponent(project.ref)}` : ''}${project.path ? `&path=${encodeURIComponent(project.path)}` : ''}`;
+
 interface ProcessedProjectsProps {
   showHeader?: boolean;
   maxItems?: number;
@@ -230,6 +240,8 @@ export default function ProcessedProjects({
           repo: project.repo,
           repo_type: project.repo_type,
           language: project.language,
+          ref: project.ref || undefined,
+          path: project.path || undefined,
         }),
       });
       if (!response.ok) {
@@ -259,7 +271,7 @@ export default function ProcessedProjects({
               </button>
             )}
             <Link
-              href={`/${project.owner}/${project.repo}?type=${project.repo_type}&language=${project.language}`}
+              href={getProjectUrl(project)}
               className="block"
             >
               <h3 className="text-lg font-semibold text-[var(--link-color)] hover:underline mb-2 line-clamp-2">
@@ -272,6 +284,16 @@ export default function ProcessedProjects({
                 <span className="px-2 py-1 text-xs bg-[var(--background)] text-[var(--muted)] rounded-full border border-[var(--border-color)]">
                   {project.language}
                 </span>
+                {project.ref && (
+                  <span className="px-2 py-1 text-xs font-mono bg-[var(--background)] text-[var(--muted)] rounded-full border border-[var(--border-color)]">
+                    {project.ref}
+                  </span>
+                )}
+                {project.path && (
+                  <span className="px-2 py-1 text-xs font-mono bg-[var(--background)] text-[var(--muted)] rounded-full border border-[var(--border-color)]">
+                    {project.path}/
+                  </span>
+                )}
               </div>
               <p className="text-xs text-[var(--muted)]">
                 {t('processedOn')} {new Date(project.submittedAt).toLocaleDateString()}
@@ -292,7 +314,7 @@ export default function ProcessedProjects({
               </button>
             )}
             <Link
-              href={`/${project.owner}/${project.repo}?type=${project.repo_type}&language=${project.language}`}
+              href={getProjectUrl(project)}
               className="flex items-center justify-between"
             >
               <div className="flex-1 min-w-0">
@@ -300,7 +322,7 @@ export default function ProcessedProjects({
                   {project.name}
                 </h3>
                 <p className="text-xs text-[var(--muted)] mt-1">
-                  {t('processedOn')} {new Date(project.submittedAt).toLocaleDateString()} • {project.repo_type} • {project.language}
+                  {t('processedOn')} {new Date(project.submittedAt).toLocaleDateString()} • {project.repo_type} • {project.language}{project.ref ? ` • ${project.ref}` : ''}{project.path ? ` • ${project.path}/` : ''}
                 </p>
               </div>
               <div className="flex gap-2 ml-4">
@@ -0,0 +1,181 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { useLanguage } from '@/contexts/LanguageContext';
+import UserSelector from './UserSelector';
+
+export type RegenerateScope = 'page' | 'section';
+
+export interface RegenerateRequest {
+  scope: RegenerateScope;
+  instructions: string;
+  provider: string;
+  model: string;
+  isCustomModel: boolean;
+  customModel: string;
+}
+
+interface RegeneratePageModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onRegenerate: (request: RegenerateRequest) => void;
+  pageTitle: string;
+  // Title and page count of the section containing the page, if any
+  sectionTitle?: string;
+  sectionPageCount?: number;
+
+  // Model used for the wiki, preselected in the form
+  provider: string;
+  model: string;
+  isCustomModel: boolean;
+  customModel: string;
+}
+
+export default function RegeneratePageModal({
+  isOpen,
+  onClose,
+  onRegenerate,
+  pageTitle,
+  sectionTitle,
+  sectionPageCount = 0,
+  provider,
+  model,
+  isCustomModel,
+  customModel,
+}: RegeneratePageModalProps) {
+  const { messages: t } = useLanguage();
+
+  const [scope, setScope] = useState<RegenerateScope>('page');
+  const [instructions, setInstructions] = useState('');
+  const [localProvider, setLocalProvider] = useState(provider);
+  const [localModel, setLocalModel] = useState(model);
+  const [localIsCustomModel, setLocalIsCustomModel] = useState(isCustomModel);
+  const [localCustomModel, setLocalCustomModel] = useState(customModel);
+
+  // Reset the form when modal is opened
+  useEffect(() => {
+    if (isOpen) {
+      setScope('page');
+      setInstructions('');
+      setLocalProvider(provider);
+      setLocalModel(model);
+      setLocalIsCustomModel(isCustomModel);
+      setLocalCustomModel(customModel);
+    }
+  }, [isOpen, provider, model, isCustomModel, customModel]);
+
+  const handleRegenerate = () => {
+    onRegenerate({
+      scope,
+      instructions: instructions.trim(),
+      provider: localProvider,
+      model: localModel,
+      isCustomModel: localIsCustomModel,
+      customModel: localCustomModel,
+    });
+    onClose();
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto">
+      <div className="flex min-h-screen items-center justify-center p-4 text-center bg-black/50">
+        <div className="relative transform overflow-hidden rounded-lg bg-[var(--card-bg)] text-left shadow-xl transition-all sm:my-8 sm:max-w-lg sm:w-full">
+          {/* Modal header with close button */}
+          <div className="flex items-center justify-between px-6 py-4 border-b border-[var(--border-color)]">
+            <h3 className="text-lg font-medium text-[var(--accent-primary)]">
+              {t.regenerate?.title || 'Regenerate Content'}
+            </h3>
+            <button
+              type="button"
+              onClick={onClose}
+              className="text-[var(--muted)] hover:text-[var(--foreground)] focus:outline-none transition-colors"
+            >
+              <svg className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+
+          {/* Modal body */}
+          <div className="p-6 space-y-4">
+            {/* Scope */}
+            <div className="space-y-2 text-sm text-[var(--foreground)]">
+              <label className="flex items-center gap-2 cursor-pointer">
+                <input
+                  type="radio"
+                  name="regenerate-scope"
+                  checked={scope === 'page'}
+                  onChange={() => setScope('page')}
+                />
+                <span>{t.regenerate?.thisPage || 'This page'}: <span className="font-medium">{pageTitle}</span></span>
+              </label>
+              {sectionTitle && (
+                <label className="flex items-center gap-2 cursor-pointer">
+                  <input
+                    type="radio"
+                    name="regenerate-scope"
+                    checked={scope === 'section'}
+                    onChange={() => setScope('section')}
+                  />
+                  <span>
+                    {t.regenerate?.thisSection || 'This section'}: <span className="font-medium">{sectionTitle}</span>
+                    <span className="text-[var(--muted)]"> ({sectionPageCount} {t.regenerate?.pages || 'pages'})</span>
+                  </span>
+                </label>
+              )}
+            </div>
+
+            {/* Extra instructions */}
+            <div>
+              <label className="block text-sm font-medium text-[var(--foreground)] mb-2">
+                {t.regenerate?.instructions || 'Additional instructions (optional)'}
+              </label>
+              <textarea
+                value={instructions}
+                onChange={(e) => setInstructions(e.target.value)}
+                rows={3}
+                placeholder={t.regenerate?.instructionsPlaceholder || 'e.g. Focus on the error handling paths and add a sequence diagram'}
+                className="input-japanese block w-full px-3 py-2 text-sm rounded-md bg-transparent text-[var(--foreground)] focus:outline-none focus:border-[var(--accent-primary)]"
+              />
+            </div>
+
+            {/* Divider */}
+            <div className="border-t border-[var(--border-color)]/30"></div>
+
+            {/* Model Selector */}
+            <UserSelector
+              provider={localProvider}
+              setProvider={setLocalProvider}
+              model={localModel}
+              setModel={setLocalModel}
+              isCustomModel={localIsCustomModel}
+              setIsCustomModel={setLocalIsCustomModel}
+              customModel={localCustomModel}
+              setCustomModel={setLocalCustomModel}
+            />
+          </div>
+
+          {/* Modal footer */}
+          <div className="flex items-center justify-end gap-2 px-6 py-4 border-t border-[var(--border-color)]">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 text-sm font-medium rounded-md border border-[var(--border-color)]/50 text-[var(--muted)] bg-transparent hover:bg-[var(--background)] hover:text-[var(--foreground)] transition-colors"
+            >
+              {t.common?.cancel || 'Cancel'}
+            </button>
+            <button
+              type="button"
+              onClick={handleRegenerate}
+              className="px-4 py-2 text-sm font-medium rounded-md border border-transparent bg-[var(--accent-primary)]/90 text-white hover:bg-[var(--accent-primary)] transition-colors"
+            >
+              {t.regenerate?.submit || 'Regenerate'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,96 @@
+'use client';
+
+import React from 'react';
+import { FaExclamationTriangle, FaSlidersH } from 'react-icons/fa';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { RepoConfigFile } from '@/types/deepwikiconfig';
+
+interface RepoConfigPanelProps {
+  configFile: RepoConfigFile;
+  // Language and model the wiki is generated with, to tell whether the file's defaults were used
+  language: string;
+  provider: string;
+  model: string;
+}
+
+/**
+ * Settings of the wiki that come from the repository's .deepwiki.yml rather than from the generation form,
+ * and the entries of the file that were ignored.
+ */
+const RepoConfigPanel: React.FC<RepoConfigPanelProps> = ({ configFile, language, provider, model }) => {
+  const { messages } = useLanguage();
+  const { config, fileName, warnings } = configFile;
+  const requiredPages = [...config.sections.flatMap(section => section.pages), ...config.pages];
+  const glossary = Object.entries(config.glossary);
+  const notApplied = messages.repoConfig?.notApplied || 'not used: chosen for this wiki';
+
+  const rows: { label: string; value: React.ReactNode }[] = [];
+  if (config.include.length > 0) {
+    rows.push({ label: messages.repoConfig?.include || 'Included files', value: <code>{config.include.join(', ')}</code> });
+  }
+  if (config.exclude.length > 0) {
+    rows.push({ label: messages.repoConfig?.exclude || 'Excluded files', value: <code>{config.exclude.join(', ')}</code> });
+  }
+  if (config.sections.length > 0) {
+    rows.push({ label: messages.repoConfig?.sections || 'Required sections', value: config.sections.map(section => section.title).join(', ') });
+  }
+  if (requiredPages.length > 0) {
+    rows.push({ label: messages.repoConfig?.pages || 'Required pages', value: requiredPages.map(page => page.title).join(', ') });
+  }
+  if (glossary.length > 0) {
+    rows.push({
+      label: messages.repoConfig?.glossary || 'Glossary',
+      value: <span title={glossary.map(([term, meaning]) => `${term}: ${meaning}`).join('\n')}>{glossary.map(([term]) => term).join(', ')}</span>
+    });
+  }
+  if (config.language) {
+    rows.push({
+      label: messages.repoConfig?.language || 'Language',
+      value: <>{config.language}{config.language !== language && <span className="italic"> ({notApplied})</span>}</>
+    });
+  }
+  if (config.provider) {
+    // A wiki opened from the cache without a model in the URL does not say which model it was generated with
+    const applied = !provider || (config.provider === provider && (!config.model || config.model === model));
+    rows.push({
+      label: messages.repoConfig?.model || 'Model',
+      value: <>{config.provider}{config.model ? `/${config.model}` : ''}{!applied && <span className="italic"> ({notApplied})</span>}</>
+    });
+  }
+  if (config.instructions) {
+    rows.push({
+      label: messages.repoConfig?.instructions || 'Instructions',
+      value: <span className="whitespace-pre-wrap line-clamp-4" title={config.instructions}>{config.instructions}</span>
+    });
+  }
+
+  return (
+    <details className="mb-5 text-xs bg-[var(--background)] border border-[var(--border-color)] rounded-md">
+      <summary className="flex items-center gap-2 px-3 py-2 cursor-pointer text-[var(--foreground)]">
+        <FaSlidersH className="text-[var(--accent-primary)]" />
+        <span className="flex-1">
+          {(messages.repoConfig?.title || 'Settings from {file}').replace('{file}', fileName)}
+        </span>
+        {warnings.length > 0 && <FaExclamationTriangle className="text-[var(--highlight)]" />}
+      </summary>
+      <div className="px-3 pb-3 space-y-2">
+        {rows.length === 0 && (
+          <p className="text-[var(--muted)]">{messages.repoConfig?.empty || 'The file sets nothing this wiki uses.'}</p>
+        )}
+        {rows.map(row => (
+          <div key={row.label}>
+            <div className="text-[var(--muted)]">{row.label}</div>
+            <div className="text-[var(--foreground)] break-words">{row.value}</div>
+          </div>
+        ))}
+        {warnings.length > 0 && (
+          <ul className="pt-2 border-t border-[var(--border-color)] text-[var(--highlight)] space-y-1">
+            {warnings.map(warning => <li key={warning}>{warning}</li>)}
+          </ul>
+        )}
+      </div>
+    </details>
+  );
+};
+
+export default RepoConfigPanel;
@@ -0,0 +1,69 @@
+'use client';
+
+import React, { useEffect, useRef } from 'react';
+import { Prism as SyntaxHighlighter } from 'react-syntax-highlighter';
+import { tomorrow } from 'react-syntax-highlighter/dist/cjs/styles/prism';
+
+interface SourceCodeViewProps {
+  content: string;
+  // Path of the file, used to pick the highlighting language
+  path: string;
+  // Lines to highlight and scroll to
+  startLine?: number;
+  endLine?: number;
+  // Number of the first line of `content`, when it is an excerpt of the file
+  firstLineNumber?: number;
+  className?: string;
+}
+
+const LANGUAGES: Record<string, string> = {
+  ts: 'typescript', tsx: 'tsx', js: 'javascript', jsx: 'jsx', mjs: 'javascript', cjs: 'javascript',
+  py: 'python', rb: 'ruby', go: 'go', rs: 'rust', java: 'java', kt: 'kotlin', swift: 'swift',
+  c: 'c', h: 'c', cc: 'cpp', cpp: 'cpp', hpp: 'cpp', cs: 'csharp', php: 'php', scala: 'scala',
+  sh: 'bash', bash: 'bash', zsh: 'bash', ps1: 'powershell', sql: 'sql', graphql: 'graphql',
+  json: 'json', yml: 'yaml', yaml: 'yaml', toml: 'toml', xml: 'markup', html: 'markup', vue: 'markup',
+  css: 'css', scss: 'scss', less: 'less', md: 'markdown', mdx: 'markdown', dockerfile: 'docker',
+};
+
+/** Highlighting language of a file, from its extension or name */
+export const getCodeLanguage = (path: string): string => {
+  const name = path.split('/').pop()?.toLowerCase() ?? '';
+  return LANGUAGES[name] ?? LANGUAGES[name.split('.').pop() ?? ''] ?? 'text';
+};
+
+/**
+ * Source code with line numbers, highlighting a range of lines and scrolling it into view.
+ */
+export default function SourceCodeView({ content, path, startLine, endLine, firstLineNumber = 1, className = '' }: SourceCodeViewProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const lastLine = endLine ?? startLine;
+
+  useEffect(() => {
+    if (!startLine) return;
+    containerRef.current?.querySelector(`[data-line="${startLine}"]`)?.scrollIntoView({ block: 'center' });
+  }, [startLine, content]);
+
+  return (
+    <div ref={containerRef} className={`overflow-auto text-xs ${className}`}>
+      <SyntaxHighlighter
+        language={getCodeLanguage(path)}
+        style={tomorrow}
+        showLineNumbers
+        startingLineNumber={firstLineNumber}
+        wrapLines
+        lineProps={(lineNumber: number) => ({
+          'data-line': lineNumber,
+          style: {
+            display: 'block',
+            backgroundColor: startLine && lastLine && lineNumber >= startLine && lineNumber <= lastLine
+              ? 'rgba(155, 124, 185, 0.25)'
+              : undefined,
+          },
+        })}
+        customStyle={{ margin: 0, borderRadius: 0, fontSize: 'inherit', minHeight: '100%' }}
+      >
+        {content}
+      </SyntaxHighlighter>
+    </div>
+  );
+}
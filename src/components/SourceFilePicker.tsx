@@ -0,0 +1,93 @@
+'use client';
+
+import React, { useState } from 'react';
+import { FaFileCode, FaTimes } from 'react-icons/fa';
+import { useLanguage } from '@/contexts/LanguageContext';
+
+interface SourceFilePickerProps {
+  files: string[];
+  // Files the wiki structure lists for the page, restored by "Reset"
+  pageFiles: string[];
+  // Paths offered while typing: the files of every page of the wiki
+  knownFiles: string[];
+  onChange: (files: string[]) => void;
+  disabled?: boolean;
+}
+
+const sameFiles = (a: string[], b: string[]) => a.length === b.length && a.every((file, i) => file === b[i]);
+
+/**
+ * Source files an AI edit is grounded in, which the user can add to or remove from.
+ */
+export default function SourceFilePicker({ files, pageFiles, knownFiles, onChange, disabled = false }: SourceFilePickerProps) {
+  const { messages: t } = useLanguage();
+  const [newFile, setNewFile] = useState('');
+
+  const addFile = () => {
+    const file = newFile.trim();
+    if (!file) return;
+    if (!files.includes(file)) onChange([...files, file]);
+    setNewFile('');
+  };
+
+  return (
+    <div className="mb-4">
+      <div className="flex items-center justify-between mb-1.5">
+        <span className="text-xs font-medium text-[var(--muted-foreground)]">
+          {t.sourceFiles?.title || 'Source files'} ({files.length})
+        </span>
+        {!sameFiles(files, pageFiles) && (
+          <button
+            onClick={() => onChange(pageFiles)}
+            disabled={disabled}
+            className="text-xs text-[var(--accent-primary)] hover:underline disabled:opacity-50"
+          >
+            {t.sourceFiles?.reset || 'Reset to page files'}
+          </button>
+        )}
+      </div>
+      <div className="flex flex-wrap gap-1 mb-1.5 max-h-24 overflow-y-auto">
+        {files.map(file => (
+          <span
+            key={file}
+            title={file}
+            className="inline-flex items-center gap-1 max-w-full px-1.5 py-0.5 rounded bg-[var(--accent-primary)]/10 border border-[var(--accent-primary)]/20 text-xs font-mono text-[var(--foreground)]"
+          >
+            <FaFileCode className="flex-none text-[var(--muted-foreground)]" />
+            <span className="truncate">{file}</span>
+            <button
+              onClick={() => onChange(files.filter(other => other !== file))}
+              disabled={disabled}
+              aria-label={t.sourceFiles?.remove || 'Remove'}
+              className="flex-none text-[var(--muted-foreground)] hover:text-[var(--highlight)] disabled:opacity-50"
+            >
+              <FaTimes className="text-[10px]" />
+            </button>
+          </span>
+        ))}
+        {files.length === 0 && (
+          <span className="text-xs text-[var(--muted-foreground)]">
+            {t.sourceFiles?.none || 'No files: the edit relies on the wiki and search results only.'}
+          </span>
+        )}
+      </div>
+      <input
+        list="source-file-options"
+        value={newFile}
+        onChange={(e) => setNewFile(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter') {
+            e.preventDefault();
+            addFile();
+          }
+        }}
+        disabled={disabled}
+        placeholder={t.sourceFiles?.add || 'Add a file path and press Enter'}
+        className="block w-full px-2 py-1 text-xs font-mono rounded-md border border-[var(--border-color)] bg-transparent text-[var(--foreground)] focus:outline-none focus:border-[var(--accent-primary)] disabled:opacity-50"
+      />
+      <datalist id="source-file-options">
+        {knownFiles.filter(file => !files.includes(file)).map(file => <option key={file} value={file} />)}
+      </datalist>
+    </div>
+  );
+}
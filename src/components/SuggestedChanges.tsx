@@ -0,0 +1,107 @@
+'use client';
+
+import React from 'react';
+import { FaCheck, FaTimes, FaUndo } from 'react-icons/fa';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { getChanges, SuggestedChangeStatus, SuggestionSegment } from '@/utils/trackedChanges';
+
+interface SuggestedChangesProps {
+  segments: SuggestionSegment[];
+  onDecide: (id: string, status: SuggestedChangeStatus) => void;
+}
+
+// Lines of unchanged text shown around each change
+const CONTEXT_LINES = 2;
+
+/**
+ * Tracked changes proposed by the AI, each shown with the text around it and accepted or rejected on its own.
+ */
+export default function SuggestedChanges({ segments, onDecide }: SuggestedChangesProps) {
+  const { messages: t } = useLanguage();
+  const pendingCount = getChanges(segments).filter(change => change.status === 'pending').length;
+
+  const context = (index: number, side: 'before' | 'after') => {
+    const segment = segments[index];
+    if (!segment || segment.kind !== 'same') return null;
+    const lines = side === 'before' ? segment.lines.slice(-CONTEXT_LINES) : segment.lines.slice(0, CONTEXT_LINES);
+    return <pre className="px-3 text-[var(--muted)] whitespace-pre-wrap break-words">{lines.join('\n')}</pre>;
+  };
+
+  return (
+    <div className="p-4 space-y-4">
+      <div className="text-sm text-[var(--muted-foreground)]">
+        {t.suggestions?.description || 'Review the changes suggested by the AI one at a time.'}{' '}
+        <span className="font-medium text-[var(--foreground)]">
+          {pendingCount} {t.suggestions?.pending || 'left to review'}
+        </span>
+      </div>
+
+      {segments.map((segment, index) => {
+        if (segment.kind !== 'change') return null;
+        const { change } = segment;
+        return (
+          <div
+            key={change.id}
+            className={`rounded-md border text-xs font-mono overflow-hidden ${
+              change.status === 'pending' ? 'border-[var(--accent-primary)]/50' : 'border-[var(--border-color)] opacity-70'
+            }`}
+          >
+            <div className="flex items-center justify-between px-3 py-1.5 bg-[var(--card-bg)] border-b border-[var(--border-color)] font-sans">
+              <span className="text-[var(--muted-foreground)]">
+                {change.status === 'accepted'
+                  ? (t.suggestions?.accepted || 'Accepted')
+                  : change.status === 'rejected'
+                    ? (t.suggestions?.rejected || 'Rejected')
+                    : change.removed.length === 0
+                      ? (t.suggestions?.insertion || 'Insertion')
+                      : change.added.length === 0
+                        ? (t.suggestions?.deletion || 'Deletion')
+                        : (t.suggestions?.replacement || 'Replacement')}
+              </span>
+              {change.status === 'pending' ? (
+                <div className="flex gap-1">
+                  <button
+                    onClick={() => onDecide(change.id, 'accepted')}
+                    title={t.suggestions?.accept || 'Accept'}
+                    className="p-1 rounded text-green-600 hover:bg-green-600/10"
+                  >
+                    <FaCheck />
+                  </button>
+                  <button
+                    onClick={() => onDecide(change.id, 'rejected')}
+                    title={t.suggestions?.reject || 'Reject'}
+                    className="p-1 rounded text-red-600 hover:bg-red-600/10"
+                  >
+                    <FaTimes />
+                  </button>
+                </div>
+              ) : (
+                <button
+                  onClick={() => onDecide(change.id, 'pending')}
+                  title={t.suggestions?.undo || 'Undo'}
+                  className="p-1 rounded text-[var(--muted-foreground)] hover:text-[var(--foreground)]"
+                >
+                  <FaUndo />
+                </button>
+              )}
+            </div>
+            <div className="py-1 bg-[var(--background)]">
+              {context(index - 1, 'before')}
+              {change.removed.length > 0 && (
+                <pre className={`px-3 bg-red-500/15 whitespace-pre-wrap break-words ${change.status !== 'rejected' ? 'line-through' : ''}`}>
+                  {change.removed.join('\n')}
+                </pre>
+              )}
+              {change.added.length > 0 && (
+                <pre className={`px-3 bg-green-500/15 whitespace-pre-wrap break-words ${change.status === 'rejected' ? 'line-through' : ''}`}>
+                  {change.added.join('\n')}
+                </pre>
+              )}
+              {context(index + 1, 'after')}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
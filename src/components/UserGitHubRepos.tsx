@@ -2,6 +2,8 @@
 
 import React, { useState, useEffect } from 'react';
 import { FaGithub, FaStar, FaCodeBranch, FaSync, FaUser, FaCalendarAlt, FaExternalLinkAlt } from 'react-icons/fa';
+import { WikiCacheRepo } from '@/types/wiki/wikicache';
+import { fromGitHubRepo } from '@/utils/combinedWiki';
 
 interface GitHubRepo {
   name: string;
@@ -42,6 +44,10 @@ interface Props {
   showUpdateButton?: boolean;
   className?: string;
   repoType?: 'owned' | 'collaborator' | 'other' | 'all';
+  // Full names of the repositories picked for a combined wiki
+  selectedRepos?: string[];
+  // Picks or unpicks a repository for a combined wiki; the list has no checkboxes without it
+  onToggleRepo?: (repo: WikiCacheRepo) => void;
 }
 
 const UserGitHubRepos: React.FC<Props> = ({ 
@@ -49,7 +55,9 @@ const UserGitHubRepos: React.FC<Props> = ({
   maxRepos = 10, 
   showUpdateButton = false, 
   className = "",
-  repoType = 'all'
+  repoType = 'all',
+  selectedRepos = [],
+  onToggleRepo
 }) => {
   const [profile, setProfile] = useState<UserProfile | null>(null);
   const [ownedRepositories, setOwnedRepositories] = useState<GitHubRepo[]>([]);
@@ -336,6 +344,15 @@ const UserGitHubRepos: React.FC<Props> = ({
               <div className="flex items-start justify-between">
                 <div className="flex-1">
                   <div className="flex items-center gap-2 mb-2">
+                    {onToggleRepo && (
+                      <input
+                        type="checkbox"
+                        checked={selectedRepos.includes(repo.full_name)}
+                        onChange={() => onToggleRepo(fromGitHubRepo(repo))}
+                        className="accent-[var(--accent-primary)]"
+                        title="Add to a combined wiki"
+                      />
+                    )}
                     <a
                       href={repo.html_url}
                       target="_blank"
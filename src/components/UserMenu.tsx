@@ -2,10 +2,13 @@
 
 import { useAuth } from '@/contexts/AuthContext'
 import { useState, useRef, useEffect } from 'react'
-import { FaUser, FaSignOutAlt, FaChevronDown } from 'react-icons/fa'
+import { FaUser, FaSignOutAlt, FaChevronDown, FaCog } from 'react-icons/fa'
+import Link from 'next/link'
+import { useLanguage } from '@/contexts/LanguageContext'
 
 export default function UserMenu() {
   const { user, signOut } = useAuth()
+  const { messages } = useLanguage()
   const [isOpen, setIsOpen] = useState(false)
   const menuRef = useRef<HTMLDivElement>(null)
 
@@ -62,7 +65,15 @@ export default function UserMenu() {
               {user.email}
             </p>
           </div>
-          
+
+          <Link
+            href="/settings"
+            onClick={() => setIsOpen(false)}
+            className="flex items-center space-x-2 w-full px-4 py-2 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors duration-200"
+          >
+            <FaCog className="text-gray-400" />
+            <span>{messages.settings?.menuItem || 'Settings'}</span>
+          </Link>
           <button
             onClick={handleSignOut}
             className="flex items-center space-x-2 w-full px-4 py-2 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors duration-200"
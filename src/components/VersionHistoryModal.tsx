@@ -0,0 +1,309 @@
+'use client';
+
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { FaHistory, FaRobot, FaSpinner, FaUndo, FaUser } from 'react-icons/fa';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { WikiPage } from '@/types/wiki/wikipage';
+import { WikiCacheData, WikiCacheKey } from '@/types/wiki/wikicache';
+import { WikiVersion, WikiVersionSnapshot } from '@/types/wiki/wikiversion';
+import { fetchWikiVersion, fetchWikiVersions, rollbackWikiVersion, WikiSaveConflictError } from '@/utils/wikiCacheApi';
+import { diffLines, DiffRow } from '@/utils/lineDiff';
+
+interface VersionHistoryModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  cacheKey: WikiCacheKey;
+  // Pages of the current wiki, compared against the selected version
+  pages: WikiPage[];
+  currentPages: Record<string, WikiPage>;
+  // Page the history is opened for; its versions are listed first
+  pageId?: string;
+  // Whether the user may restore versions
+  canRestore: boolean;
+  author: string | null;
+  // Revision of the wiki shown; the whole wiki is only restored while the stored one is still at it
+  getRevision: () => number;
+  onRestored: (data: WikiCacheData) => void;
+}
+
+const ROW_STYLES: Record<DiffRow['type'], { left: string; right: string }> = {
+  same: { left: '', right: '' },
+  removed: { left: 'bg-red-500/15', right: 'bg-[var(--background)]/60' },
+  added: { left: 'bg-[var(--background)]/60', right: 'bg-green-500/15' },
+  changed: { left: 'bg-red-500/15', right: 'bg-green-500/15' },
+};
+
+/**
+ * Version history of a wiki: lists saved versions, shows a side-by-side diff of a page
+ * against the current content, and restores a page or the whole wiki.
+ */
+export default function VersionHistoryModal({
+  isOpen,
+  onClose,
+  cacheKey,
+  pages,
+  currentPages,
+  pageId,
+  canRestore,
+  author,
+  getRevision,
+  onRestored,
+}: VersionHistoryModalProps) {
+  const { messages: t } = useLanguage();
+
+  const [onlyThisPage, setOnlyThisPage] = useState(!!pageId);
+  const [versions, setVersions] = useState<WikiVersion[]>([]);
+  const [selected, setSelected] = useState<WikiVersionSnapshot | null>(null);
+  const [diffPageId, setDiffPageId] = useState<string | undefined>(pageId);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isRestoring, setIsRestoring] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const { owner, repo, repo_type, language, ref, path } = cacheKey;
+
+  const loadVersions = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const key = { owner, repo, repo_type, language, ref, path };
+      setVersions(await fetchWikiVersions(key, onlyThisPage ? pageId : undefined));
+    } catch (err) {
+      console.error('Error loading wiki versions:', err);
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [owner, repo, repo_type, language, ref, path, onlyThisPage, pageId]);
+
+  // Reset and load the history when the modal is opened
+  useEffect(() => {
+    if (isOpen) {
+      setSelected(null);
+      setDiffPageId(pageId);
+      loadVersions();
+    }
+  }, [isOpen, pageId, loadVersions]);
+
+  const selectVersion = async (version: WikiVersion) => {
+    setError(null);
+    try {
+      const snapshot = await fetchWikiVersion({ owner, repo, repo_type, language, ref, path }, version.id);
+      setSelected(snapshot);
+      // Show the page the history was opened for, or the first page the version changed
+      if (!pageId || !snapshot.data.generated_pages[pageId]) {
+        setDiffPageId(version.changed_pages[0] ?? snapshot.data.wiki_structure.pages[0]?.id);
+      }
+    } catch (err) {
+      console.error('Error loading wiki version:', err);
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const restore = async (restorePageId?: string) => {
+    if (!selected) return;
+    const target = restorePageId
+      ? `"${selected.data.generated_pages[restorePageId]?.title ?? restorePageId}"`
+      : (t.history?.wholeWiki || 'the whole wiki');
+    if (!confirm(`${t.history?.confirmRestore || 'Restore this version of'} ${target}?`)) {
+      return;
+    }
+
+    setIsRestoring(true);
+    setError(null);
+    try {
+      const data = await rollbackWikiVersion({ owner, repo, repo_type, language, ref, path }, selected.version.id, {
+        pageId: restorePageId,
+        author,
+        ifMatch: restorePageId ? undefined : getRevision(),
+      });
+      onRestored(data);
+      onClose();
+    } catch (err) {
+      console.error('Error restoring wiki version:', err);
+      setError(err instanceof WikiSaveConflictError
+        ? (t.history?.changedSinceLoaded || 'The wiki was changed since it was loaded. Reload it before restoring the whole wiki.')
+        : err instanceof Error ? err.message : String(err));
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  const diffRows = useMemo(() => {
+    if (!selected || !diffPageId) return [];
+    return diffLines(
+      selected.data.generated_pages[diffPageId]?.content ?? '',
+      currentPages[diffPageId]?.content ?? ''
+    );
+  }, [selected, diffPageId, currentPages]);
+
+  const pageTitle = (id: string) =>
+    pages.find(page => page.id === id)?.title ?? selected?.data.generated_pages[id]?.title ?? id;
+
+  const reasonLabel = (version: WikiVersion) =>
+    t.history?.reasons?.[version.reason] || version.reason;
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto">
+      <div className="flex min-h-screen items-center justify-center p-4 text-center bg-black/50">
+        <div className="relative transform overflow-hidden rounded-lg bg-[var(--card-bg)] text-left shadow-xl transition-all sm:my-8 w-full max-w-6xl">
+          {/* Modal header with close button */}
+          <div className="flex items-center justify-between px-6 py-4 border-b border-[var(--border-color)]">
+            <h3 className="text-lg font-medium text-[var(--accent-primary)] flex items-center gap-2">
+              <FaHistory />
+              {t.history?.title || 'Version History'}
+            </h3>
+            <div className="flex items-center gap-4">
+              {pageId && (
+                <label className="flex items-center gap-2 text-sm text-[var(--foreground)] cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={onlyThisPage}
+                    onChange={(e) => setOnlyThisPage(e.target.checked)}
+                  />
+                  {t.history?.onlyThisPage || 'Only versions that changed this page'}
+                </label>
+              )}
+              <button
+                type="button"
+                onClick={onClose}
+                className="text-[var(--muted)] hover:text-[var(--foreground)] focus:outline-none transition-colors"
+              >
+                <svg className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                </svg>
+              </button>
+            </div>
+          </div>
+
+          {error && (
+            <div className="mx-6 mt-4 p-3 text-xs rounded-md border border-[var(--highlight)]/30 bg-[var(--highlight)]/5 text-[var(--highlight)]">
+              {error}
+            </div>
+          )}
+
+          <div className="flex h-[70vh]">
+            {/* Version list */}
+            <ul className="w-72 flex-shrink-0 overflow-y-auto border-r border-[var(--border-color)] text-sm">
+              {isLoading && (
+                <li className="p-4 text-[var(--muted)] flex items-center gap-2">
+                  <FaSpinner className="animate-spin" /> {t.common?.loading || 'Loading...'}
+                </li>
+              )}
+              {!isLoading && versions.length === 0 && (
+                <li className="p-4 text-[var(--muted)]">{t.history?.empty || 'No saved versions yet.'}</li>
+              )}
+              {versions.map(version => (
+                <li key={version.id}>
+                  <button
+                    type="button"
+                    onClick={() => selectVersion(version)}
+                    className={`w-full text-left px-4 py-3 border-b border-[var(--border-color)]/50 hover:bg-[var(--background)] transition-colors ${
+                      selected?.version.id === version.id ? 'bg-[var(--accent-primary)]/10' : ''
+                    }`}
+                  >
+                    <div className="flex items-center gap-2 text-[var(--foreground)]">
+                      {version.kind === 'ai'
+                        ? <FaRobot className="text-[var(--accent-primary)]" title={t.history?.aiChange || 'AI change'} />
+                        : <FaUser className="text-[var(--muted)]" title={t.history?.manualChange || 'Manual change'} />}
+                      <span className="font-medium">{reasonLabel(version)}</span>
+                      <span className="ml-auto text-xs text-[var(--muted)]">
+                        {new Date(version.created_at).toLocaleString()}
+                      </span>
+                    </div>
+                    <div className="mt-1 text-xs text-[var(--muted)] truncate">
+                      {version.author || t.history?.unknownAuthor || 'Unknown author'}
+                      {version.model && ` · ${version.model}`}
+                    </div>
+                    <div className="mt-1 text-xs text-[var(--muted)]">
+                      {version.changed_pages.length} {t.history?.pagesChanged || 'pages changed'}
+                    </div>
+                  </button>
+                </li>
+              ))}
+            </ul>
+
+            {/* Diff of the selected version against the current wiki */}
+            <div className="flex-1 flex flex-col min-w-0">
+              {!selected ? (
+                <p className="p-6 text-sm text-[var(--muted)]">
+                  {t.history?.selectVersion || 'Select a version to compare it with the current wiki.'}
+                </p>
+              ) : (
+                <>
+                  <div className="flex items-center gap-3 px-4 py-3 border-b border-[var(--border-color)] text-sm">
+                    <select
+                      value={diffPageId ?? ''}
+                      onChange={(e) => setDiffPageId(e.target.value)}
+                      className="input-japanese px-2 py-1 rounded-md bg-transparent text-[var(--foreground)] max-w-xs"
+                    >
+                      {selected.data.wiki_structure.pages.map(page => (
+                        <option key={page.id} value={page.id}>
+                          {selected.version.changed_pages.includes(page.id) ? '● ' : ''}{pageTitle(page.id)}
+                        </option>
+                      ))}
+                    </select>
+                    {canRestore && (
+                      <div className="ml-auto flex gap-2">
+                        {diffPageId && (
+                          <button
+                            type="button"
+                            onClick={() => restore(diffPageId)}
+                            disabled={isRestoring || !selected.data.generated_pages[diffPageId]}
+                            className="px-3 py-1.5 text-xs font-medium rounded-md border border-[var(--border-color)] text-[var(--foreground)] hover:bg-[var(--background)] transition-colors disabled:opacity-50 flex items-center gap-1.5"
+                          >
+                            <FaUndo /> {t.history?.restorePage || 'Restore this page'}
+                          </button>
+                        )}
+                        <button
+                          type="button"
+                          onClick={() => restore()}
+                          disabled={isRestoring}
+                          className="px-3 py-1.5 text-xs font-medium rounded-md border border-transparent bg-[var(--accent-primary)]/90 text-white hover:bg-[var(--accent-primary)] transition-colors disabled:opacity-50 flex items-center gap-1.5"
+                        >
+                          {isRestoring ? <FaSpinner className="animate-spin" /> : <FaUndo />}
+                          {t.history?.restoreWiki || 'Restore whole wiki'}
+                        </button>
+                      </div>
+                    )}
+                  </div>
+
+                  <div className="grid grid-cols-2 text-xs font-medium text-[var(--muted)] border-b border-[var(--border-color)]">
+                    <div className="px-4 py-2 border-r border-[var(--border-color)]">
+                      {t.history?.selectedVersion || 'Selected version'} ({new Date(selected.version.created_at).toLocaleString()})
+                    </div>
+                    <div className="px-4 py-2">{t.history?.currentVersion || 'Current'}</div>
+                  </div>
+
+                  <div className="flex-1 overflow-auto font-mono text-xs">
+                    {diffRows.every(row => row.type === 'same') && (
+                      <p className="px-4 py-2 text-[var(--muted)] font-sans">{t.history?.noDifferences || 'No differences in this page.'}</p>
+                    )}
+                    {diffRows.map((row, index) => (
+                      <div key={index} className="grid grid-cols-2">
+                        {(['left', 'right'] as const).map(side => (
+                          <div
+                            key={side}
+                            className={`flex ${ROW_STYLES[row.type][side]} ${side === 'left' ? 'border-r border-[var(--border-color)]' : ''}`}
+                          >
+                            <span className="w-10 flex-shrink-0 text-right pr-2 text-[var(--muted)] select-none">
+                              {row[side]?.number ?? ''}
+                            </span>
+                            <span className="whitespace-pre-wrap break-words text-[var(--foreground)] pr-2">
+                              {row[side]?.text ?? ''}
+                            </span>
+                          </div>
+                        ))}
+                      </div>
+                    ))}
+                  </div>
+                </>
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,395 @@
+'use client';
+
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { FaCheck, FaExclamationTriangle, FaMagic, FaSitemap, FaSpinner } from 'react-icons/fa';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { WikiPage } from '@/types/wiki/wikipage';
+import { WikiCacheData, WikiCacheKey } from '@/types/wiki/wikicache';
+import { WikiChangeset, WikiOutline, WikiRefactorEvent } from '@/types/wiki/wikirefactor';
+import { diffLines, DiffRow } from '@/utils/lineDiff';
+import { saveChangeset, streamWikiRefactor } from '@/utils/wikiRefactor';
+import { WikiSaveConflictError } from '@/utils/wikiCacheApi';
+
+interface WikiRefactorModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  cacheKey: WikiCacheKey;
+  // Pages of the wiki, used to show page titles in the sections
+  pages: WikiPage[];
+  author: string | null;
+  onSaved: (data: WikiCacheData) => void;
+}
+
+// Entry of the change list showing the sections instead of a page
+const STRUCTURE = '__sections__';
+
+const ROW_STYLES: Record<DiffRow['type'], { left: string; right: string }> = {
+  same: { left: '', right: '' },
+  removed: { left: 'bg-red-500/15', right: 'bg-[var(--background)]/60' },
+  added: { left: 'bg-[var(--background)]/60', right: 'bg-green-500/15' },
+  changed: { left: 'bg-red-500/15', right: 'bg-green-500/15' },
+};
+
+// Sections as an indented outline, so a reorganization can be compared line by line
+const outlineText = ({ sections, rootSections }: WikiOutline, pageTitle: (id: string) => string): string => {
+  const lines: string[] = [];
+  const visited = new Set<string>();
+  const visit = (sectionId: string, depth: number) => {
+    const section = sections.find(s => s.id === sectionId);
+    if (!section || visited.has(sectionId)) return;
+    visited.add(sectionId);
+    const indent = '  '.repeat(depth);
+    lines.push(`${indent}${section.title}`);
+    section.pages.forEach(pageId => lines.push(`${indent}  - ${pageTitle(pageId)}`));
+    section.subsections?.forEach(sub => visit(sub, depth + 1));
+  };
+  rootSections.forEach(id => visit(id, 0));
+  return lines.join('\n');
+};
+
+/**
+ * Applies one AI instruction across the whole wiki. The model plans which pages to change, rewrites
+ * them one by one, and the changes are reviewed as a diff per page before the accepted ones are saved together.
+ */
+export default function WikiRefactorModal({ isOpen, onClose, cacheKey, pages, author, onSaved }: WikiRefactorModalProps) {
+  const { messages: t } = useLanguage();
+
+  const [instruction, setInstruction] = useState('');
+  const [includeStructure, setIncludeStructure] = useState(false);
+  const [changeset, setChangeset] = useState<WikiChangeset | null>(null);
+  // Pages the model planned to change, in the order they are rewritten
+  const [planned, setPlanned] = useState<{ id: string; title: string; reason: string }[]>([]);
+  const [failed, setFailed] = useState<Record<string, string>>({});
+  const [warnings, setWarnings] = useState<string[]>([]);
+  const [accepted, setAccepted] = useState<Set<string>>(new Set());
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const abort = useRef<AbortController | null>(null);
+
+  // Stop a running edit when the modal is closed
+  useEffect(() => {
+    if (!isOpen) abort.current?.abort();
+  }, [isOpen]);
+
+  const handleEvent = (event: WikiRefactorEvent) => {
+    switch (event.type) {
+      case 'plan':
+        setChangeset({ revision: event.revision, summary: event.summary, pages: [], structure: event.structure });
+        setPlanned(event.pages);
+        if (event.structure) {
+          setAccepted(new Set([STRUCTURE]));
+          setSelectedId(STRUCTURE);
+        }
+        break;
+      case 'page': {
+        const change = { id: event.id, title: event.title, reason: event.reason, before: event.before, after: event.after };
+        setChangeset(prev => prev && { ...prev, pages: [...prev.pages, change] });
+        setAccepted(prev => new Set(prev).add(event.id));
+        setSelectedId(prev => prev ?? event.id);
+        break;
+      }
+      case 'page_error':
+        setFailed(prev => ({ ...prev, [event.id]: event.error }));
+        break;
+      case 'warning':
+        setWarnings(prev => [...prev, event.message]);
+        break;
+      case 'error':
+        setError(event.error);
+        break;
+    }
+  };
+
+  const run = async () => {
+    if (!instruction.trim()) return;
+    setChangeset(null);
+    setPlanned([]);
+    setFailed({});
+    setWarnings([]);
+    setAccepted(new Set());
+    setSelectedId(null);
+    setError(null);
+    setIsRunning(true);
+    const controller = new AbortController();
+    abort.current = controller;
+    try {
+      await streamWikiRefactor(cacheKey, instruction.trim(), includeStructure, handleEvent, controller.signal);
+    } catch (err) {
+      if (!controller.signal.aborted) {
+        console.error('Error editing the wiki:', err);
+        setError(err instanceof Error ? err.message : String(err));
+      }
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const toggle = (id: string) => setAccepted(prev => {
+    const next = new Set(prev);
+    if (next.has(id)) next.delete(id);
+    else next.add(id);
+    return next;
+  });
+
+  const save = async () => {
+    if (!changeset) return;
+    setIsSaving(true);
+    setError(null);
+    try {
+      const data = await saveChangeset(
+        cacheKey,
+        changeset,
+        { pageIds: changeset.pages.map(page => page.id).filter(id => accepted.has(id)), structure: accepted.has(STRUCTURE) },
+        // The edit API uses the default model of its default provider
+        { author, model: 'google', kind: 'ai', reason: 'refactor' },
+      );
+      onSaved(data);
+      onClose();
+    } catch (err) {
+      console.error('Error saving wiki changes:', err);
+      const message = err instanceof Error ? err.message : String(err);
+      setError(err instanceof WikiSaveConflictError
+        ? `${message}. ${t.refactor?.runAgain || 'Run the edit again to start from the latest wiki.'}`
+        : message);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const diffRows = useMemo(() => {
+    if (!changeset || !selectedId) return [];
+    if (selectedId === STRUCTURE) {
+      if (!changeset.structure) return [];
+      const pageTitle = (id: string) => pages.find(page => page.id === id)?.title ?? id;
+      return diffLines(outlineText(changeset.structure.before, pageTitle), outlineText(changeset.structure.after, pageTitle));
+    }
+    const change = changeset.pages.find(page => page.id === selectedId);
+    return change ? diffLines(change.before, change.after) : [];
+  }, [changeset, selectedId, pages]);
+
+  if (!isOpen) return null;
+
+  const changedIds = new Set(changeset?.pages.map(page => page.id));
+  const acceptedCount = [...accepted].filter(id => id === STRUCTURE || changedIds.has(id)).length;
+  const selectedChange = changeset?.pages.find(page => page.id === selectedId);
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto">
+      <div className="flex min-h-screen items-center justify-center p-4 text-center bg-black/50">
+        <div className="relative transform overflow-hidden rounded-lg bg-[var(--card-bg)] text-left shadow-xl transition-all sm:my-8 w-full max-w-6xl">
+          {/* Modal header with close button */}
+          <div className="flex items-center justify-between px-6 py-4 border-b border-[var(--border-color)]">
+            <h3 className="text-lg font-medium text-[var(--accent-primary)] flex items-center gap-2">
+              <FaMagic />
+              {t.refactor?.title || 'Edit across the wiki'}
+            </h3>
+            <button
+              type="button"
+              onClick={onClose}
+              className="text-[var(--muted)] hover:text-[var(--foreground)] focus:outline-none transition-colors"
+            >
+              <svg className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+
+          {/* Instruction */}
+          <div className="px-6 py-4 border-b border-[var(--border-color)] space-y-2">
+            <textarea
+              value={instruction}
+              onChange={(e) => setInstruction(e.target.value)}
+              disabled={isRunning}
+              rows={2}
+              placeholder={t.refactor?.placeholder || 'Describe a change to make on every page, e.g. "Rename the Indexer to the Crawler" or "Move the deployment pages into their own section"'}
+              className="input-japanese block w-full px-3 py-2 text-sm rounded-md bg-transparent text-[var(--foreground)] focus:outline-none focus:border-[var(--accent-primary)] disabled:opacity-60 resize-none"
+            />
+            <div className="flex items-center justify-between gap-4">
+              <label className="flex items-center gap-2 text-sm text-[var(--foreground)] cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={includeStructure}
+                  onChange={(e) => setIncludeStructure(e.target.checked)}
+                  disabled={isRunning}
+                />
+                {t.refactor?.includeStructure || 'Allow reorganizing sections'}
+              </label>
+              <div className="flex gap-2">
+                {isRunning && (
+                  <button
+                    type="button"
+                    onClick={() => abort.current?.abort()}
+                    className="px-3 py-1.5 text-xs font-medium rounded-md border border-[var(--border-color)] text-[var(--foreground)] hover:bg-[var(--background)] transition-colors"
+                  >
+                    {t.refactor?.stop || 'Stop'}
+                  </button>
+                )}
+                <button
+                  type="button"
+                  onClick={run}
+                  disabled={isRunning || isSaving || !instruction.trim()}
+                  className="px-3 py-1.5 text-xs font-medium rounded-md border border-transparent bg-[var(--accent-primary)]/90 text-white hover:bg-[var(--accent-primary)] transition-colors disabled:opacity-50 flex items-center gap-1.5"
+                >
+                  {isRunning ? <FaSpinner className="animate-spin" /> : <FaMagic />}
+                  {isRunning ? (t.refactor?.running || 'Working...') : (t.refactor?.run || 'Propose changes')}
+                </button>
+              </div>
+            </div>
+          </div>
+
+          {(error || warnings.length > 0) && (
+            <div className="mx-6 mt-4 space-y-2">
+              {error && (
+                <div className="p-3 text-xs rounded-md border border-[var(--highlight)]/30 bg-[var(--highlight)]/5 text-[var(--highlight)]">
+                  {error}
+                </div>
+              )}
+              {warnings.map((warning, index) => (
+                <div key={index} className="p-3 text-xs rounded-md border border-yellow-500/30 bg-yellow-500/5 text-yellow-700 dark:text-yellow-300">
+                  {warning}
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div className="flex h-[60vh]">
+            {/* Changed pages */}
+            <ul className="w-72 flex-shrink-0 overflow-y-auto border-r border-[var(--border-color)] text-sm">
+              {changeset?.summary && (
+                <li className="px-4 py-3 border-b border-[var(--border-color)]/50 text-xs text-[var(--muted)]">{changeset.summary}</li>
+              )}
+              {isRunning && !changeset && (
+                <li className="p-4 text-[var(--muted)] flex items-center gap-2">
+                  <FaSpinner className="animate-spin" /> {t.refactor?.planning || 'Finding the pages to change...'}
+                </li>
+              )}
+              {!isRunning && changeset && planned.length === 0 && !changeset.structure && (
+                <li className="p-4 text-[var(--muted)]">{t.refactor?.noChanges || 'No page needs to change.'}</li>
+              )}
+              {changeset?.structure && (
+                <li className="flex items-center border-b border-[var(--border-color)]/50">
+                  <input
+                    type="checkbox"
+                    checked={accepted.has(STRUCTURE)}
+                    onChange={() => toggle(STRUCTURE)}
+                    className="ml-4"
+                    aria-label={t.refactor?.include || 'Include this change'}
+                  />
+                  <button
+                    type="button"
+                    onClick={() => setSelectedId(STRUCTURE)}
+                    className={`flex-1 min-w-0 text-left px-3 py-3 hover:bg-[var(--background)] transition-colors flex items-center gap-2 ${
+                      selectedId === STRUCTURE ? 'bg-[var(--accent-primary)]/10' : ''
+                    }`}
+                  >
+                    <FaSitemap className="text-[var(--accent-primary)]" />
+                    <span className="font-medium text-[var(--foreground)]">{t.refactor?.sections || 'Sections'}</span>
+                  </button>
+                </li>
+              )}
+              {planned.map(page => {
+                const isChanged = changedIds.has(page.id);
+                return (
+                  <li key={page.id} className="flex items-center border-b border-[var(--border-color)]/50">
+                    <input
+                      type="checkbox"
+                      checked={accepted.has(page.id)}
+                      onChange={() => toggle(page.id)}
+                      disabled={!isChanged}
+                      className="ml-4"
+                      aria-label={t.refactor?.include || 'Include this change'}
+                    />
+                    <button
+                      type="button"
+                      onClick={() => setSelectedId(page.id)}
+                      disabled={!isChanged}
+                      className={`flex-1 min-w-0 text-left px-3 py-3 hover:bg-[var(--background)] transition-colors disabled:hover:bg-transparent ${
+                        selectedId === page.id ? 'bg-[var(--accent-primary)]/10' : ''
+                      }`}
+                    >
+                      <div className="flex items-center gap-2 text-[var(--foreground)]">
+                        <span className="font-medium truncate">{page.title}</span>
+                        <span className="ml-auto flex-none text-xs">
+                          {isChanged
+                            ? <FaCheck className="text-green-600" />
+                            : failed[page.id]
+                              ? <FaExclamationTriangle className="text-[var(--highlight)]" title={failed[page.id]} />
+                              : isRunning
+                                ? <FaSpinner className="animate-spin text-[var(--muted)]" />
+                                : <span className="text-[var(--muted)]">{t.refactor?.unchanged || 'Unchanged'}</span>}
+                        </span>
+                      </div>
+                      {page.reason && <div className="mt-1 text-xs text-[var(--muted)] line-clamp-2">{page.reason}</div>}
+                    </button>
+                  </li>
+                );
+              })}
+            </ul>
+
+            {/* Diff of the selected change */}
+            <div className="flex-1 flex flex-col min-w-0">
+              {!selectedId ? (
+                <p className="p-6 text-sm text-[var(--muted)]">
+                  {t.refactor?.selectChange || 'Changes appear here as they are made. Select one to review it.'}
+                </p>
+              ) : (
+                <>
+                  <div className="grid grid-cols-2 text-xs font-medium text-[var(--muted)] border-b border-[var(--border-color)]">
+                    <div className="px-4 py-2 border-r border-[var(--border-color)]">
+                      {t.refactor?.before || 'Before'}{selectedChange && ` · ${selectedChange.title}`}
+                    </div>
+                    <div className="px-4 py-2">{t.refactor?.after || 'After'}</div>
+                  </div>
+                  <div className="flex-1 overflow-auto font-mono text-xs">
+                    {diffRows.map((row, index) => (
+                      <div key={index} className="grid grid-cols-2">
+                        {(['left', 'right'] as const).map(side => (
+                          <div
+                            key={side}
+                            className={`flex ${ROW_STYLES[row.type][side]} ${side === 'left' ? 'border-r border-[var(--border-color)]' : ''}`}
+                          >
+                            <span className="w-10 flex-shrink-0 text-right pr-2 text-[var(--muted)] select-none">
+                              {row[side]?.number ?? ''}
+                            </span>
+                            <span className="whitespace-pre-wrap break-words text-[var(--foreground)] pr-2">
+                              {row[side]?.text ?? ''}
+                            </span>
+                          </div>
+                        ))}
+                      </div>
+                    ))}
+                  </div>
+                </>
+              )}
+            </div>
+          </div>
+
+          {/* Save the accepted changes */}
+          <div className="flex items-center justify-end gap-3 px-6 py-4 border-t border-[var(--border-color)]">
+            <span className="text-xs text-[var(--muted)]">
+              {acceptedCount} {t.refactor?.accepted || 'changes accepted'}
+            </span>
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-3 py-1.5 text-xs font-medium rounded-md border border-[var(--border-color)] text-[var(--foreground)] hover:bg-[var(--background)] transition-colors"
+            >
+              {t.common?.cancel || 'Cancel'}
+            </button>
+            <button
+              type="button"
+              onClick={save}
+              disabled={isRunning || isSaving || acceptedCount === 0}
+              className="px-3 py-1.5 text-xs font-medium rounded-md border border-transparent bg-[var(--accent-primary)]/90 text-white hover:bg-[var(--accent-primary)] transition-colors disabled:opacity-50 flex items-center gap-1.5"
+            >
+              {isSaving && <FaSpinner className="animate-spin" />}
+              {t.refactor?.save || 'Save accepted changes'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,287 @@
+'use client';
+
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { FaBolt, FaFileAlt, FaFileCode, FaSearch, FaSpinner } from 'react-icons/fa';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { WikiCacheKey } from '@/types/wiki/wikicache';
+import { WikiPage } from '@/types/wiki/wikipage';
+import { WikiSearchHit, WikiSearchMode } from '@/types/wiki/wikisearch';
+import { matchesQuery, searchWikis } from '@/utils/wikiSearch';
+
+// An action offered by the palette
+export interface PaletteCommand {
+  id: string;
+  label: string;
+  icon?: React.ReactNode;
+  run: () => void;
+}
+
+interface WikiSearchPaletteProps {
+  isOpen: boolean;
+  onClose: () => void;
+  // Wiki searched in the "This wiki" scope
+  wikiKey: WikiCacheKey;
+  // Pages of the wiki, offered by title as the user types
+  pages: WikiPage[];
+  commands: PaletteCommand[];
+  onOpenPage: (pageId: string) => void;
+  onOpenHit: (hit: WikiSearchHit) => void;
+}
+
+type PaletteItem =
+  | { kind: 'command'; command: PaletteCommand }
+  | { kind: 'page'; page: WikiPage }
+  | { kind: 'hit'; hit: WikiSearchHit };
+
+// Shortest query sent to the search API, and how long typing must pause before it is sent
+const MIN_SEARCH_LENGTH = 2;
+const SEARCH_DELAY_MS = 250;
+const MAX_PAGE_ITEMS = 5;
+
+const renderSnippet = (snippet: string, highlights: [number, number][]) => {
+  const parts: React.ReactNode[] = [];
+  let last = 0;
+  highlights.forEach(([start, end], i) => {
+    if (start > last) parts.push(snippet.slice(last, start));
+    parts.push(
+      <mark key={i} className="bg-[var(--accent-primary)]/20 text-[var(--foreground)] rounded-sm px-0.5">
+        {snippet.slice(start, end)}
+      </mark>
+    );
+    last = end;
+  });
+  parts.push(snippet.slice(last));
+  return parts;
+};
+
+/**
+ * Keyboard-driven palette searching the current wiki or every cached wiki, jumping to pages and running commands.
+ */
+export default function WikiSearchPalette({ isOpen, onClose, wikiKey, pages, commands, onOpenPage, onOpenHit }: WikiSearchPaletteProps) {
+  const { messages: t } = useLanguage();
+  const [query, setQuery] = useState('');
+  const [scope, setScope] = useState<'wiki' | 'all'>('wiki');
+  const [mode, setMode] = useState<WikiSearchMode>('text');
+  const [hits, setHits] = useState<WikiSearchHit[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [activeIndex, setActiveIndex] = useState(0);
+  const listRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (isOpen) {
+      setQuery('');
+      setHits([]);
+      setError(null);
+      setActiveIndex(0);
+    }
+  }, [isOpen]);
+
+  // Search as the user types, cancelling the previous search
+  const { owner, repo, repo_type, language, ref, path } = wikiKey;
+  useEffect(() => {
+    const text = query.trim();
+    if (!isOpen || text.length < MIN_SEARCH_LENGTH) {
+      setHits([]);
+      setIsSearching(false);
+      return;
+    }
+    const controller = new AbortController();
+    const timer = setTimeout(async () => {
+      setIsSearching(true);
+      setError(null);
+      try {
+        const key = scope === 'wiki' ? { owner, repo, repo_type, language, ref, path } : null;
+        setHits(await searchWikis(text, key, mode, controller.signal));
+      } catch (err) {
+        if (controller.signal.aborted) return;
+        console.error('Error searching wikis:', err);
+        setError(err instanceof Error ? err.message : String(err));
+        setHits([]);
+      }
+      setIsSearching(false);
+    }, SEARCH_DELAY_MS);
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [isOpen, query, scope, mode, owner, repo, repo_type, language, ref, path]);
+
+  const items = useMemo<PaletteItem[]>(() => {
+    const text = query.trim();
+    const matchingCommands = commands.filter(command => !text || matchesQuery(command.label, text));
+    const matchingPages = text ? pages.filter(page => matchesQuery(page.title, text)).slice(0, MAX_PAGE_ITEMS) : [];
+    return [
+      ...matchingPages.map(page => ({ kind: 'page' as const, page })),
+      ...matchingCommands.map(command => ({ kind: 'command' as const, command })),
+      ...hits.map(hit => ({ kind: 'hit' as const, hit })),
+    ];
+  }, [query, commands, pages, hits]);
+
+  useEffect(() => {
+    setActiveIndex(index => Math.min(index, Math.max(0, items.length - 1)));
+  }, [items.length]);
+
+  useEffect(() => {
+    listRef.current?.querySelector('[data-active="true"]')?.scrollIntoView({ block: 'nearest' });
+  }, [activeIndex]);
+
+  const runItem = (item: PaletteItem | undefined) => {
+    if (!item) return;
+    onClose();
+    if (item.kind === 'command') item.command.run();
+    else if (item.kind === 'page') onOpenPage(item.page.id);
+    else onOpenHit(item.hit);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setActiveIndex(index => (items.length ? (index + 1) % items.length : 0));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setActiveIndex(index => (items.length ? (index - 1 + items.length) % items.length : 0));
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      runItem(items[activeIndex]);
+    } else if (e.key === 'Tab') {
+      e.preventDefault();
+      setScope(scope === 'wiki' ? 'all' : 'wiki');
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      onClose();
+    }
+  };
+
+  if (!isOpen) return null;
+
+  const groupLabel = (index: number) => {
+    const kind = items[index].kind;
+    if (index > 0 && items[index - 1].kind === kind) return null;
+    const label = kind === 'page'
+      ? (t.search?.pages || 'Pages')
+      : kind === 'command'
+        ? (t.search?.commands || 'Commands')
+        : (t.search?.results || 'Search results');
+    return (
+      <div className="px-4 pt-3 pb-1 text-[10px] font-semibold uppercase tracking-wide text-[var(--muted)]">{label}</div>
+    );
+  };
+
+  const renderItem = (item: PaletteItem) => {
+    if (item.kind === 'command') {
+      return (
+        <span className="flex items-center gap-2 text-sm text-[var(--foreground)]">
+          <span className="flex-none text-[var(--muted)]">{item.command.icon ?? <FaBolt />}</span>
+          {item.command.label}
+        </span>
+      );
+    }
+    if (item.kind === 'page') {
+      return (
+        <span className="flex items-center gap-2 text-sm text-[var(--foreground)]">
+          <FaFileAlt className="flex-none text-[var(--muted)]" />
+          {item.page.title}
+        </span>
+      );
+    }
+    const { hit } = item;
+    const isOtherWiki = hit.owner !== owner || hit.repo !== repo || hit.language !== language;
+    return (
+      <span className="block min-w-0">
+        <span className="flex items-center gap-1.5 text-sm text-[var(--foreground)]">
+          {isOtherWiki && <span className="flex-none text-xs text-[var(--muted)]">{hit.owner}/{hit.repo} ·</span>}
+          <span className="truncate font-medium">{hit.page_title}</span>
+          {hit.heading && <span className="truncate text-[var(--muted)]">› {hit.heading}</span>}
+          {hit.match === 'semantic' && (
+            <span className="flex-none ml-auto text-[10px] px-1.5 rounded bg-[var(--accent-primary)]/10 text-[var(--accent-primary)]">
+              {t.search?.semanticMatch || 'related'}
+            </span>
+          )}
+        </span>
+        {hit.file && (
+          <span className="flex items-center gap-1 text-xs font-mono text-[var(--muted)]">
+            <FaFileCode className="flex-none" />
+            <span className="truncate">{hit.file}</span>
+          </span>
+        )}
+        {hit.snippet && (
+          <span className="block text-xs text-[var(--muted)] line-clamp-2">{renderSnippet(hit.snippet, hit.highlights)}</span>
+        )}
+      </span>
+    );
+  };
+
+  const toggleClass = (active: boolean) =>
+    `px-2 py-0.5 rounded-md border text-xs transition-colors ${active
+      ? 'bg-[var(--accent-primary)]/10 border-[var(--accent-primary)]/40 text-[var(--accent-primary)]'
+      : 'border-[var(--border-color)] text-[var(--muted)] hover:text-[var(--foreground)]'}`;
+
+  const noResults = query.trim().length >= MIN_SEARCH_LENGTH && !isSearching && !error && items.length === 0;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-start justify-center p-4 pt-[12vh] bg-black/50" onClick={onClose}>
+      <div
+        className="w-full max-w-2xl rounded-lg bg-[var(--card-bg)] shadow-xl border border-[var(--border-color)] overflow-hidden"
+        onClick={(e) => e.stopPropagation()}
+        role="dialog"
+        aria-label={t.search?.title || 'Search'}
+      >
+        <div className="flex items-center gap-3 px-4 py-3 border-b border-[var(--border-color)]">
+          {isSearching ? <FaSpinner className="animate-spin text-[var(--muted)]" /> : <FaSearch className="text-[var(--muted)]" />}
+          <input
+            autoFocus
+            value={query}
+            onChange={(e) => {
+              setQuery(e.target.value);
+              setActiveIndex(0);
+            }}
+            onKeyDown={handleKeyDown}
+            placeholder={t.search?.placeholder || 'Search pages, headings and source files, or type a command'}
+            className="flex-1 bg-transparent text-sm text-[var(--foreground)] placeholder:text-[var(--muted)] focus:outline-none"
+          />
+        </div>
+        <div className="flex items-center gap-2 px-4 py-2 border-b border-[var(--border-color)]">
+          <button className={toggleClass(scope === 'wiki')} onClick={() => setScope('wiki')}>
+            {t.search?.thisWiki || 'This wiki'}
+          </button>
+          <button className={toggleClass(scope === 'all')} onClick={() => setScope('all')}>
+            {t.search?.allWikis || 'All wikis'}
+          </button>
+          <span className="flex-1" />
+          <button
+            className={toggleClass(mode === 'semantic')}
+            onClick={() => setMode(mode === 'semantic' ? 'text' : 'semantic')}
+            title={t.search?.semanticHint || 'Find sections by meaning rather than exact words'}
+          >
+            {t.search?.semantic || 'Semantic'}
+          </button>
+        </div>
+
+        <div ref={listRef} className="max-h-[55vh] overflow-y-auto pb-2">
+          {items.map((item, index) => (
+            <React.Fragment key={item.kind === 'command' ? `command:${item.command.id}` : item.kind === 'page' ? `page:${item.page.id}` : `hit:${index}`}>
+              {groupLabel(index)}
+              <button
+                data-active={index === activeIndex}
+                onMouseMove={() => setActiveIndex(index)}
+                onClick={() => runItem(item)}
+                className={`block w-full text-left px-4 py-2 ${index === activeIndex ? 'bg-[var(--accent-primary)]/10' : ''}`}
+              >
+                {renderItem(item)}
+              </button>
+            </React.Fragment>
+          ))}
+          {error && <p className="px-4 pt-3 text-xs text-[var(--highlight)]">{error}</p>}
+          {noResults && (
+            <p className="px-4 pt-3 text-sm text-[var(--muted)]">{t.search?.noResults || 'Nothing matches your search.'}</p>
+          )}
+        </div>
+
+        <div className="px-4 py-2 border-t border-[var(--border-color)] text-[10px] text-[var(--muted)]">
+          {t.search?.keyboardHint || '↑↓ to move · Enter to open · Tab to switch between this wiki and all wikis · Esc to close'}
+        </div>
+      </div>
+    </div>
+  );
+}
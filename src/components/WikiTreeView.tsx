@@ -1,36 +1,20 @@
 'use client';
 
 import React, { useState } from 'react';
-import { FaChevronRight, FaChevronDown } from 'react-icons/fa';
-
-// Import interfaces from the page component
-interface WikiPage {
-  id: string;
-  title: string;
-  content: string;
-  filePaths: string[];
-  importance: 'high' | 'medium' | 'low';
-  relatedPages: string[];
-  parentId?: string;
-  isSection?: boolean;
-  children?: string[];
-}
-
-interface WikiSection {
-  id: string;
-  title: string;
-  pages: string[];
-  subsections?: string[];
-}
-
-interface WikiStructure {
-  id: string;
-  title: string;
-  description: string;
-  pages: WikiPage[];
-  sections: WikiSection[];
-  rootSections: string[];
-}
+import { FaChevronRight, FaChevronDown, FaGripVertical, FaPen, FaPlus, FaFolderPlus, FaTrash, FaSlidersH } from 'react-icons/fa';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { WikiPage } from '@/types/wiki/wikipage';
+import { WikiStructure } from '@/types/wiki/wikistructure';
+import {
+  addPage,
+  addSection,
+  deletePage,
+  deleteSection,
+  movePage,
+  moveSection,
+  renameSection,
+  updatePage,
+} from '@/utils/wikiStructureEdits';
 
 interface WikiTreeViewProps {
   wikiStructure: WikiStructure;
@@ -40,16 +24,40 @@ interface WikiTreeViewProps {
     pages?: string;
     [key: string]: string | undefined;
   };
+  // Called with the edited structure; the tree can only be edited when this is set
+  onStructureChange?: (structure: WikiStructure) => void;
+  // Pages listed in the structure whose content has not been generated yet
+  pendingPageIds?: Set<string>;
 }
 
+// Item being dragged, or being renamed
+type TreeItem = { type: 'page' | 'section'; id: string };
+
+// Where a dragged item would land, highlighted while dragging
+type DropTarget = { key: string; position: 'before' | 'inside' };
+
+const IMPORTANCE_LEVELS: WikiPage['importance'][] = ['high', 'medium', 'low'];
+
 const WikiTreeView: React.FC<WikiTreeViewProps> = ({
   wikiStructure,
   currentPageId,
   onPageSelect,
+  onStructureChange,
+  pendingPageIds,
 }) => {
+  const { messages: t } = useLanguage();
   const [expandedSections, setExpandedSections] = useState<Set<string>>(
     new Set(wikiStructure.rootSections)
   );
+  const [isEditing, setIsEditing] = useState(false);
+  const [dragged, setDragged] = useState<TreeItem | null>(null);
+  const [dropTarget, setDropTarget] = useState<DropTarget | null>(null);
+  const [renaming, setRenaming] = useState<TreeItem | null>(null);
+  const [renameValue, setRenameValue] = useState('');
+  const [detailsPageId, setDetailsPageId] = useState<string | null>(null);
+
+  // Editing ends when the parent stops allowing it, e.g. while pages are generating
+  const canEdit = isEditing && !!onStructureChange;
 
   const toggleSection = (sectionId: string, event: React.MouseEvent) => {
     event.stopPropagation();
@@ -64,61 +72,264 @@ const WikiTreeView: React.FC<WikiTreeViewProps> = ({
     });
   };
 
+  const startRename = (item: TreeItem, title: string) => {
+    setRenaming(item);
+    setRenameValue(title);
+  };
+
+  const finishRename = () => {
+    const title = renameValue.trim();
+    const current = renaming?.type === 'section'
+      ? wikiStructure.sections.find(section => section.id === renaming.id)?.title
+      : wikiStructure.pages.find(page => page.id === renaming?.id)?.title;
+    if (renaming && title && title !== current && onStructureChange) {
+      onStructureChange(renaming.type === 'section'
+        ? renameSection(wikiStructure, renaming.id, title)
+        : updatePage(wikiStructure, renaming.id, { title }));
+    }
+    setRenaming(null);
+  };
+
+  const handleAddSection = (parentId: string | null) => {
+    if (!onStructureChange) return;
+    const title = t.structure?.newSection || 'New section';
+    const { structure, sectionId } = addSection(wikiStructure, title, parentId);
+    onStructureChange(structure);
+    setExpandedSections(prev => new Set(prev).add(sectionId).add(parentId ?? sectionId));
+    startRename({ type: 'section', id: sectionId }, title);
+  };
+
+  const handleAddPage = (sectionId: string | null) => {
+    if (!onStructureChange) return;
+    const title = t.structure?.newPage || 'New page';
+    const { structure, pageId } = addPage(wikiStructure, title, sectionId);
+    onStructureChange(structure);
+    if (sectionId) setExpandedSections(prev => new Set(prev).add(sectionId));
+    startRename({ type: 'page', id: pageId }, title);
+    onPageSelect(pageId);
+  };
+
+  const handleDeleteSection = (sectionId: string, title: string) => {
+    if (!onStructureChange) return;
+    if (!window.confirm(`${t.structure?.confirmDeleteSection || 'Delete the section'} "${title}"?`)) return;
+    const structure = deleteSection(wikiStructure, sectionId);
+    if (!structure) {
+      window.alert(t.structure?.sectionNotEmpty || 'Move the pages of this section to another section before deleting it.');
+      return;
+    }
+    onStructureChange(structure);
+  };
+
+  const handleDeletePage = (page: WikiPage) => {
+    if (!onStructureChange) return;
+    if (!window.confirm(`${t.structure?.confirmDeletePage || 'Delete the page'} "${page.title}"?`)) return;
+    onStructureChange(deletePage(wikiStructure, page.id));
+    if (detailsPageId === page.id) setDetailsPageId(null);
+  };
+
+  // Drag and drop: pages are dropped before a page or into a section; sections before a section
+  // (top half of its header) or into it (bottom half)
+  const dragProps = (item: TreeItem) => (canEdit && renaming?.id !== item.id ? {
+    draggable: true,
+    onDragStart: (e: React.DragEvent) => {
+      e.stopPropagation();
+      e.dataTransfer.effectAllowed = 'move';
+      e.dataTransfer.setData('text/plain', item.id);
+      setDragged(item);
+    },
+    onDragEnd: () => {
+      setDragged(null);
+      setDropTarget(null);
+    },
+  } : {});
+
+  const dropProps = (key: string, accepts: TreeItem['type'][], onDrop: (item: TreeItem, position: DropTarget['position']) => void) => {
+    if (!canEdit || !dragged || !accepts.includes(dragged.type)) return {};
+    const positionOf = (e: React.DragEvent) => {
+      if (dragged.type !== 'section' || !key.startsWith('section:')) return key.startsWith('section:') ? 'inside' : 'before';
+      const rect = e.currentTarget.getBoundingClientRect();
+      return e.clientY < rect.top + rect.height / 2 ? 'before' : 'inside';
+    };
+    return {
+      onDragOver: (e: React.DragEvent) => {
+        e.preventDefault();
+        e.stopPropagation();
+        const position = positionOf(e);
+        if (dropTarget?.key !== key || dropTarget.position !== position) setDropTarget({ key, position });
+      },
+      onDragLeave: () => setDropTarget(prev => (prev?.key === key ? null : prev)),
+      onDrop: (e: React.DragEvent) => {
+        e.preventDefault();
+        e.stopPropagation();
+        onDrop(dragged, positionOf(e));
+        setDragged(null);
+        setDropTarget(null);
+      },
+    };
+  };
+
+  const dropHighlight = (key: string) => {
+    if (dropTarget?.key !== key) return '';
+    return dropTarget.position === 'before'
+      ? 'border-t-2 !border-t-[var(--accent-primary)]'
+      : 'ring-2 ring-[var(--accent-primary)]/60';
+  };
+
+  const iconButton = (label: string, icon: React.ReactNode, onClick: () => void) => (
+    <button
+      type="button"
+      title={label}
+      aria-label={label}
+      onClick={(e) => {
+        e.stopPropagation();
+        onClick();
+      }}
+      className="flex-none p-1 text-[10px] text-[var(--muted)] hover:text-[var(--accent-primary)] transition-colors"
+    >
+      {icon}
+    </button>
+  );
+
+  const renameInput = () => (
+    <input
+      autoFocus
+      value={renameValue}
+      onChange={(e) => setRenameValue(e.target.value)}
+      onClick={(e) => e.stopPropagation()}
+      onBlur={finishRename}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter') e.currentTarget.blur();
+        if (e.key === 'Escape') setRenaming(null);
+      }}
+      className="flex-1 min-w-0 px-1 py-0.5 text-sm rounded border border-[var(--accent-primary)] bg-[var(--card-bg)] text-[var(--foreground)] focus:outline-none"
+    />
+  );
+
+  // Importance and related pages of a page, edited below its row
+  const renderPageDetails = (page: WikiPage) => (
+    <div className="ml-4 mb-1 p-2 space-y-2 rounded-md border border-[var(--border-color)] bg-[var(--background)]/50 text-xs">
+      <label className="flex items-center gap-2 text-[var(--foreground)]">
+        {t.structure?.importance || 'Importance'}
+        <select
+          value={page.importance}
+          onChange={(e) => onStructureChange?.(updatePage(wikiStructure, page.id, { importance: e.target.value as WikiPage['importance'] }))}
+          className="px-1 py-0.5 rounded border border-[var(--border-color)] bg-[var(--card-bg)] text-[var(--foreground)]"
+        >
+          {IMPORTANCE_LEVELS.map(level => (
+            <option key={level} value={level}>{t.structure?.[level] || level}</option>
+          ))}
+        </select>
+      </label>
+      <div>
+        <div className="mb-1 text-[var(--foreground)]">{t.structure?.relatedPages || 'Related pages'}</div>
+        <div className="max-h-32 overflow-y-auto space-y-0.5">
+          {wikiStructure.pages.filter(other => other.id !== page.id).map(other => (
+            <label key={other.id} className="flex items-center gap-1.5 text-[var(--muted)]">
+              <input
+                type="checkbox"
+                checked={page.relatedPages.includes(other.id)}
+                onChange={(e) => onStructureChange?.(updatePage(wikiStructure, page.id, {
+                  relatedPages: e.target.checked
+                    ? [...page.relatedPages, other.id]
+                    : page.relatedPages.filter(id => id !== other.id),
+                }))}
+              />
+              <span className="truncate">{other.title}</span>
+            </label>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+
+  const renderPage = (page: WikiPage, compact: boolean) => {
+    const isCurrentPage = currentPageId === page.id;
+    const isPending = pendingPageIds?.has(page.id);
+    const isRenaming = renaming?.type === 'page' && renaming.id === page.id;
+    const key = `page:${page.id}`;
+
+    return (
+      <React.Fragment key={page.id}>
+        <div
+          {...dragProps({ type: 'page', id: page.id })}
+          {...dropProps(key, ['page'], item => onStructureChange?.(movePage(wikiStructure, item.id, { beforePageId: page.id })))}
+          className={`group flex items-center w-full text-left ${compact ? 'px-3 py-1.5' : 'px-3 py-2'} rounded-md text-sm transition-colors cursor-pointer ${
+            isCurrentPage
+              ? 'bg-purple-100 dark:bg-purple-900/30 text-purple-700 dark:text-purple-300 border border-purple-300 dark:border-purple-600 font-medium'
+              : 'text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800 border border-transparent'
+          } ${dropHighlight(key)} ${dragged?.id === page.id ? 'opacity-50' : ''}`}
+          onClick={() => onPageSelect(page.id)}
+          title={isPending ? (t.structure?.notGenerated || 'Not generated yet') : undefined}
+        >
+          {canEdit && <FaGripVertical className="flex-none mr-1 text-[10px] text-[var(--muted)] cursor-grab" />}
+          <div
+            className={`w-2 h-2 rounded-full mr-2 flex-shrink-0 ${
+              page.importance === 'high'
+                ? 'bg-[#9b7cb9]'
+                : page.importance === 'medium'
+                ? 'bg-[#d7c4bb]'
+                : 'bg-[#e8927c]'
+            }`}
+          ></div>
+          {isRenaming ? renameInput() : (
+            <span className={`truncate flex-1 ${isPending ? 'italic opacity-60' : ''}`}>{page.title}</span>
+          )}
+          {canEdit && !isRenaming && (
+            <span className="flex items-center ml-1 opacity-0 group-hover:opacity-100">
+              {iconButton(t.structure?.details || 'Importance and related pages', <FaSlidersH />, () => setDetailsPageId(detailsPageId === page.id ? null : page.id))}
+              {iconButton(t.structure?.rename || 'Rename', <FaPen />, () => startRename({ type: 'page', id: page.id }, page.title))}
+              {iconButton(t.structure?.deletePage || 'Delete page', <FaTrash />, () => handleDeletePage(page))}
+            </span>
+          )}
+        </div>
+        {canEdit && detailsPageId === page.id && renderPageDetails(page)}
+      </React.Fragment>
+    );
+  };
+
   const renderSection = (sectionId: string, level = 0) => {
     const section = wikiStructure.sections.find(s => s.id === sectionId);
     if (!section) return null;
 
     const isExpanded = expandedSections.has(sectionId);
+    const isRenaming = renaming?.type === 'section' && renaming.id === sectionId;
+    const key = `section:${sectionId}`;
 
     return (
-      <div key={sectionId} className="mb-2">
-        <button
-          className={`flex items-center w-full text-left px-2 py-1.5 rounded-md text-sm font-medium text-[var(--foreground)] hover:bg-[var(--background)]/70 transition-colors ${
+      <div key={sectionId} className={`mb-2 ${dragged?.id === sectionId ? 'opacity-50' : ''}`}>
+        <div
+          {...dragProps({ type: 'section', id: sectionId })}
+          {...dropProps(key, ['page', 'section'], (item, position) => onStructureChange?.(item.type === 'page'
+            ? movePage(wikiStructure, item.id, { sectionId })
+            : moveSection(wikiStructure, item.id, position === 'before' ? { beforeSectionId: sectionId } : { parentId: sectionId })))}
+          className={`group flex items-center w-full text-left px-2 py-1.5 rounded-md text-sm font-medium text-[var(--foreground)] hover:bg-[var(--background)]/70 transition-colors cursor-pointer border border-transparent ${
             level === 0 ? 'bg-[var(--background)]/50' : ''
-          }`}
+          } ${dropHighlight(key)}`}
           onClick={(e) => toggleSection(sectionId, e)}
         >
+          {canEdit && <FaGripVertical className="flex-none mr-1 text-[10px] text-[var(--muted)] cursor-grab" />}
           {isExpanded ? (
-            <FaChevronDown className="mr-2 text-xs" />
+            <FaChevronDown className="flex-none mr-2 text-xs" />
           ) : (
-            <FaChevronRight className="mr-2 text-xs" />
+            <FaChevronRight className="flex-none mr-2 text-xs" />
           )}
-          <span className="truncate">{section.title}</span>
-        </button>
+          {isRenaming ? renameInput() : <span className="truncate flex-1">{section.title}</span>}
+          {canEdit && !isRenaming && (
+            <span className="flex items-center ml-1 opacity-0 group-hover:opacity-100">
+              {iconButton(t.structure?.addPage || 'Add page', <FaPlus />, () => handleAddPage(sectionId))}
+              {iconButton(t.structure?.addSubsection || 'Add subsection', <FaFolderPlus />, () => handleAddSection(sectionId))}
+              {iconButton(t.structure?.rename || 'Rename', <FaPen />, () => startRename({ type: 'section', id: sectionId }, section.title))}
+              {iconButton(t.structure?.deleteSection || 'Delete section', <FaTrash />, () => handleDeleteSection(sectionId, section.title))}
+            </span>
+          )}
+        </div>
 
         {isExpanded && (
           <div className={`ml-4 mt-1 space-y-1 ${level > 0 ? 'pl-2 border-l border-[var(--border-color)]/30' : ''}`}>
             {/* Render pages in this section */}
             {section.pages.map(pageId => {
               const page = wikiStructure.pages.find(p => p.id === pageId);
-              if (!page) return null;
-
-              const isCurrentPage = currentPageId === pageId;
-
-              return (
-                <button
-                  key={pageId}
-                  className={`w-full text-left px-3 py-1.5 rounded-md text-sm transition-colors ${
-                    isCurrentPage
-                      ? 'bg-purple-100 dark:bg-purple-900/30 text-purple-700 dark:text-purple-300 border border-purple-300 dark:border-purple-600 font-medium'
-                      : 'text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800 border border-transparent'
-                  }`}
-                  onClick={() => onPageSelect(pageId)}
-                >
-                  <div className="flex items-center">
-                    <div
-                      className={`w-2 h-2 rounded-full mr-2 flex-shrink-0 ${
-                        page.importance === 'high'
-                          ? 'bg-[#9b7cb9]'
-                          : page.importance === 'medium'
-                          ? 'bg-[#d7c4bb]'
-                          : 'bg-[#e8927c]'
-                      }`}
-                    ></div>
-                    <span className="truncate">{page.title}</span>
-                  </div>
-                </button>
-              );
+              return page ? renderPage(page, true) : null;
             })}
 
             {/* Render subsections recursively */}
@@ -131,52 +342,84 @@ const WikiTreeView: React.FC<WikiTreeViewProps> = ({
     );
   };
 
+  // Drop zone after the last item, and the buttons adding to the top level
+  const renderEditFooter = (hasSections: boolean) => canEdit && (
+    <div className="mt-2 space-y-2">
+      {dragged && (
+        <div
+          {...dropProps('end', [hasSections ? 'section' : 'page'], item => onStructureChange?.(item.type === 'page'
+            ? movePage(wikiStructure, item.id, { sectionId: null })
+            : moveSection(wikiStructure, item.id, { parentId: null })))}
+          className={`px-3 py-2 rounded-md border border-dashed border-[var(--border-color)] text-xs text-center text-[var(--muted)] ${dropHighlight('end')}`}
+        >
+          {t.structure?.dropAtEnd || 'Drop here to move to the end'}
+        </div>
+      )}
+      <div className="flex flex-wrap gap-2">
+        {!hasSections && (
+          <button
+            onClick={() => handleAddPage(null)}
+            className="flex items-center text-xs px-2 py-1 rounded-md border border-[var(--border-color)] text-[var(--foreground)] hover:bg-[var(--background)]/80 transition-colors"
+          >
+            <FaPlus className="mr-1.5" />
+            {t.structure?.addPage || 'Add page'}
+          </button>
+        )}
+        <button
+          onClick={() => handleAddSection(null)}
+          className="flex items-center text-xs px-2 py-1 rounded-md border border-[var(--border-color)] text-[var(--foreground)] hover:bg-[var(--background)]/80 transition-colors"
+        >
+          <FaFolderPlus className="mr-1.5" />
+          {t.structure?.addSection || 'Add section'}
+        </button>
+      </div>
+    </div>
+  );
+
+  const editToggle = onStructureChange && (
+    <div className="flex justify-end mb-2">
+      <button
+        onClick={() => {
+          setIsEditing(!isEditing);
+          setRenaming(null);
+          setDetailsPageId(null);
+        }}
+        className="flex items-center text-xs text-[var(--accent-primary)] hover:text-[var(--highlight)] transition-colors"
+      >
+        <FaPen className="mr-1.5 text-[10px]" />
+        {isEditing ? (t.structure?.done || 'Done') : (t.structure?.edit || 'Edit structure')}
+      </button>
+    </div>
+  );
+
   // If there are no sections defined yet, or if sections/rootSections are empty arrays, fall back to the flat list view
   if (!wikiStructure.sections || wikiStructure.sections.length === 0 || !wikiStructure.rootSections || wikiStructure.rootSections.length === 0) {
     return (
-      <ul className="space-y-2">
-        {wikiStructure.pages.map(page => {
-          const isSelected = currentPageId === page.id;
-          
-          return (
-            <li key={page.id}>
-              <button
-                className={`w-full text-left px-3 py-2 rounded-md text-sm transition-colors ${
-                  isSelected
-                    ? 'bg-purple-100 dark:bg-purple-900/30 text-purple-700 dark:text-purple-300 border border-purple-300 dark:border-purple-600 font-medium'
-                    : 'text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800 border border-transparent'
-                }`}
-                onClick={() => onPageSelect(page.id)}
-              >
-                <div className="flex items-center">
-                  <div
-                    className={`w-2 h-2 rounded-full mr-2 flex-shrink-0 ${
-                      page.importance === 'high'
-                        ? 'bg-[#9b7cb9]'
-                        : page.importance === 'medium'
-                        ? 'bg-[#d7c4bb]'
-                        : 'bg-[#e8927c]'
-                    }`}
-                  ></div>
-                  <span className="truncate">{page.title}</span>
-                </div>
-              </button>
-            </li>
-          );
-        })}
-      </ul>
+      <div>
+        {editToggle}
+        <ul className="space-y-2">
+          {wikiStructure.pages.map(page => (
+            <li key={page.id}>{renderPage(page, false)}</li>
+          ))}
+        </ul>
+        {renderEditFooter(false)}
+      </div>
     );
   }
 
   return (
-    <div className="space-y-1">
-      {wikiStructure.rootSections.map(sectionId => {
-        const section = wikiStructure.sections.find(s => s.id === sectionId);
-        if (!section) {
-          return null;
-        }
-        return renderSection(sectionId);
-      })}
+    <div>
+      {editToggle}
+      <div className="space-y-1">
+        {wikiStructure.rootSections.map(sectionId => {
+          const section = wikiStructure.sections.find(s => s.id === sectionId);
+          if (!section) {
+            return null;
+          }
+          return renderSection(sectionId);
+        })}
+      </div>
+      {renderEditFooter(true)}
     </div>
   );
 };
@@ -0,0 +1,276 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { CharId, TextCrdt, TextOp } from '@/utils/textCrdt';
+import { getCollabWebSocketUrl } from '@/utils/websocketClient';
+
+// Someone else editing the same page
+export interface Collaborator {
+  clientId: string;
+  name: string;
+  color: string;
+  // Selection in the current text; start equals end for a plain cursor
+  selection: { start: number; end: number } | null;
+}
+
+export type CollaborationStatus = 'offline' | 'connecting' | 'connected';
+
+// Presence as sent over the wire: the selection is anchored to characters so it follows edits
+interface PresenceState {
+  clientId: string;
+  name: string;
+  color: string;
+  selection: { start: CharId | null; end: CharId | null } | null;
+}
+
+type ServerMessage =
+  | { type: 'sync'; session: string; seed: string; ops: TextOp[]; peers: PresenceState[] }
+  | { type: 'ops'; ops: TextOp[] }
+  | { type: 'presence'; presence: PresenceState }
+  | { type: 'leave'; clientId: string }
+  | { type: 'saved'; etag: string; text: string }
+  | { type: 'error'; message: string };
+
+interface CollaborativeTextOptions {
+  // Room of the page being edited; collaboration is off while null
+  roomId: string | null;
+  // Access token of the user's Supabase session, which the server requires to join a room
+  accessToken: string | null;
+  userName: string;
+  // Current local text, sent to seed the room when nobody else is editing the page
+  getText: () => string;
+  // Called when others changed the text; `mapPosition` moves positions in the previous text to the new one
+  onRemoteText: (text: string, mapPosition: (position: number) => number) => void;
+  // Called when someone else saved the shared text
+  onRemoteSave?: (etag: string, text: string) => void;
+}
+
+const RECONNECT_DELAY_MS = 3000;
+
+// Close codes of a server refusing the client (policy violation, unreadable or oversized message); retrying does not help
+const REJECTED_CLOSE_CODES = [1003, 1008, 1009];
+
+const COLLABORATOR_COLORS = ['#e11d48', '#2563eb', '#16a34a', '#d97706', '#7c3aed', '#0891b2', '#db2777', '#65a30d'];
+
+const colorFor = (clientId: string) => {
+  let hash = 0;
+  for (let i = 0; i < clientId.length; i++) {
+    hash = (hash * 31 + clientId.charCodeAt(i)) >>> 0;
+  }
+  return COLLABORATOR_COLORS[hash % COLLABORATOR_COLORS.length];
+};
+
+/**
+ * Keeps a text in sync with everyone editing the same room, and shares who is editing
+ * and where their cursors are. Local changes are passed in with `applyLocalText`;
+ * remote ones arrive through `onRemoteText`.
+ */
+export function useCollaborativeText({
+  roomId,
+  accessToken,
+  userName,
+  getText,
+  onRemoteText,
+  onRemoteSave,
+}: CollaborativeTextOptions) {
+  const clientId = useRef(`${Date.now().toString(36)}${Math.random().toString(36).slice(2, 10)}`).current;
+  const color = colorFor(clientId);
+
+  const [status, setStatus] = useState<CollaborationStatus>('offline');
+  const [error, setError] = useState<string | null>(null);
+  const [peers, setPeers] = useState<Record<string, PresenceState>>({});
+
+  const socketRef = useRef<WebSocket | null>(null);
+  const docRef = useRef<TextCrdt | null>(null);
+  const sessionRef = useRef<string | null>(null);
+  const syncedRef = useRef(false);
+  // Operations made while disconnected, sent once the room is joined again
+  const outboxRef = useRef<TextOp[]>([]);
+  const selectionRef = useRef<{ start: number; end: number } | null>(null);
+
+  // Latest callbacks, so a new render does not reconnect
+  const callbacks = useRef({ getText, onRemoteText, onRemoteSave, userName, accessToken });
+  callbacks.current = { getText, onRemoteText, onRemoteSave, userName, accessToken };
+
+  const send = useCallback((message: object) => {
+    const socket = socketRef.current;
+    if (socket && socket.readyState === WebSocket.OPEN && syncedRef.current) {
+      socket.send(JSON.stringify(message));
+      return true;
+    }
+    return false;
+  }, []);
+
+  const sendPresence = useCallback(() => {
+    const doc = docRef.current;
+    const selection = selectionRef.current;
+    if (!doc) return;
+    send({
+      type: 'presence',
+      presence: {
+        name: callbacks.current.userName,
+        color,
+        selection: selection ? { start: doc.anchorAt(selection.start), end: doc.anchorAt(selection.end) } : null,
+      },
+    });
+  }, [send, color]);
+
+  useEffect(() => {
+    if (!roomId) return;
+
+    let closed = false;
+    let retryTimer: ReturnType<typeof setTimeout> | undefined;
+
+    const handleMessage = (message: ServerMessage) => {
+      switch (message.type) {
+        case 'sync': {
+          const localText = callbacks.current.getText();
+          const previous = docRef.current;
+          if (previous && sessionRef.current === message.session) {
+            // Same room as before the connection dropped: catch up, then send what was typed meanwhile
+            syncedRef.current = true;
+            const mapPosition = previous.applyRemote(message.ops);
+            if (outboxRef.current.length > 0) {
+              send({ type: 'ops', ops: outboxRef.current });
+              outboxRef.current = [];
+            }
+            if (mapPosition) callbacks.current.onRemoteText(previous.text, mapPosition);
+          } else {
+            const doc = new TextCrdt(clientId, message.seed);
+            doc.applyRemote(message.ops);
+            docRef.current = doc;
+            sessionRef.current = message.session;
+            syncedRef.current = true;
+            outboxRef.current = [];
+            if (previous && localText !== doc.text) {
+              // The room was recreated while disconnected; carry this text into the new one
+              send({ type: 'ops', ops: doc.applyLocalText(localText) });
+            } else if (localText !== doc.text) {
+              // Others have been editing: their text replaces the one loaded here
+              const length = doc.text.length;
+              callbacks.current.onRemoteText(doc.text, position => Math.min(position, length));
+            }
+          }
+          setPeers(Object.fromEntries(message.peers.map(peer => [peer.clientId, peer])));
+          sendPresence();
+          break;
+        }
+        case 'ops': {
+          const doc = docRef.current;
+          const mapPosition = doc?.applyRemote(message.ops);
+          if (doc && mapPosition) {
+            callbacks.current.onRemoteText(doc.text, mapPosition);
+          }
+          break;
+        }
+        case 'presence':
+          setPeers(prev => ({ ...prev, [message.presence.clientId]: message.presence }));
+          break;
+        case 'leave':
+          setPeers(prev => {
+            const next = { ...prev };
+            delete next[message.clientId];
+            return next;
+          });
+          break;
+        case 'saved':
+          callbacks.current.onRemoteSave?.(message.etag, message.text);
+          break;
+        case 'error':
+          setError(message.message);
+          break;
+      }
+    };
+
+    const connect = () => {
+      setStatus('connecting');
+      const socket = new WebSocket(getCollabWebSocketUrl(roomId));
+      socketRef.current = socket;
+
+      socket.onopen = () => {
+        setStatus('connected');
+        setError(null);
+        socket.send(JSON.stringify({
+          type: 'join',
+          clientId,
+          text: docRef.current?.text ?? callbacks.current.getText(),
+          accessToken: callbacks.current.accessToken,
+        }));
+      };
+      socket.onmessage = (event) => {
+        try {
+          handleMessage(JSON.parse(event.data));
+        } catch (err) {
+          console.error('Error handling collaboration message:', err);
+        }
+      };
+      socket.onerror = () => {
+        console.warn(`Collaboration connection to room ${roomId} failed`);
+      };
+      socket.onclose = (event) => {
+        if (socketRef.current === socket) socketRef.current = null;
+        syncedRef.current = false;
+        setStatus('offline');
+        setPeers({});
+        if (REJECTED_CLOSE_CODES.includes(event.code)) {
+          setError(event.reason || 'The collaboration server refused the connection');
+          return;
+        }
+        if (!closed) retryTimer = setTimeout(connect, RECONNECT_DELAY_MS);
+      };
+    };
+    connect();
+
+    return () => {
+      closed = true;
+      clearTimeout(retryTimer);
+      socketRef.current?.close();
+      socketRef.current = null;
+      docRef.current = null;
+      sessionRef.current = null;
+      syncedRef.current = false;
+      outboxRef.current = [];
+      setPeers({});
+    };
+  }, [roomId, clientId, send, sendPresence]);
+
+  /** Shares a local change of the text */
+  const applyLocalText = useCallback((text: string) => {
+    const doc = docRef.current;
+    if (!doc) return;
+    const ops = doc.applyLocalText(text);
+    if (ops.length === 0) return;
+    if (!send({ type: 'ops', ops })) {
+      outboxRef.current.push(...ops);
+    }
+  }, [send]);
+
+  /** Shares where the local cursor or selection is */
+  const updateSelection = useCallback((start: number, end: number) => {
+    const current = selectionRef.current;
+    if (current && current.start === start && current.end === end) return;
+    selectionRef.current = { start, end };
+    sendPresence();
+  }, [sendPresence]);
+
+  /** Tells the others the shared text was saved, so their next save is based on it */
+  const announceSaved = useCallback((etag: string, text: string) => {
+    send({ type: 'saved', etag, text });
+  }, [send]);
+
+  // Recomputed on every render, which every change of the text causes, so positions follow the edits
+  const doc = docRef.current;
+  const collaborators: Collaborator[] = Object.values(peers)
+    .filter(peer => peer.clientId !== clientId)
+    .map(peer => {
+      let selection: Collaborator['selection'] = null;
+      if (doc && peer.selection) {
+        const start = doc.positionOf(peer.selection.start);
+        const end = doc.positionOf(peer.selection.end);
+        if (start !== null && end !== null) {
+          selection = { start: Math.min(start, end), end: Math.max(start, end) };
+        }
+      }
+      return { clientId: peer.clientId, name: peer.name, color: peer.color, selection };
+    });
+
+  return { status, error, collaborators, color, applyLocalText, updateSelection, announceSaved };
+}
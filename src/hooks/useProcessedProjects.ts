@@ -8,6 +8,10 @@ interface ProcessedProject {
   repo_type: string;
   submittedAt: number;
   language: string;
+  // Branch, tag or commit of the wiki; null for the default branch
+  ref?: string | null;
+  // Subdirectory of the wiki; null for the whole repository
+  path?: string | null;
 }
 
 export function useProcessedProjects() {
@@ -0,0 +1,76 @@
+import { useCallback, useEffect, useState } from 'react';
+import { WikiCacheKey } from '@/types/wiki/wikicache';
+import { CommentAnchor, CommentThread } from '@/types/wiki/wikicomment';
+import {
+  createCommentThread,
+  fetchCommentThreads,
+  replyToCommentThread,
+  setCommentThreadResolved,
+} from '@/utils/wikiCacheApi';
+
+/**
+ * Loads the comment threads of a page and keeps them up to date as they are changed here.
+ * The changes resolve to whether they were saved; failures are reported through `error`.
+ * @param key Repository and language of the wiki
+ * @param pageId Page whose threads to load; nothing is loaded while null
+ */
+export function useWikiComments(key: WikiCacheKey, pageId: string | null) {
+  const [threads, setThreads] = useState<CommentThread[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const { owner, repo, repo_type, language, ref, path } = key;
+
+  useEffect(() => {
+    setThreads([]);
+    setError(null);
+    if (!owner || !repo || !pageId) return;
+
+    let cancelled = false;
+    setIsLoading(true);
+    fetchCommentThreads({ owner, repo, repo_type, language, ref, path }, pageId)
+      .then(loaded => {
+        if (!cancelled) setThreads(loaded);
+      })
+      .catch(err => {
+        console.error('Error loading comments:', err);
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load comments');
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [owner, repo, repo_type, language, ref, path, pageId]);
+
+  const save = useCallback(async (request: () => Promise<CommentThread>) => {
+    setError(null);
+    try {
+      const saved = await request();
+      setThreads(prev => prev.some(thread => thread.id === saved.id)
+        ? prev.map(thread => (thread.id === saved.id ? saved : thread))
+        : [...prev, saved]);
+      return true;
+    } catch (err) {
+      console.error('Error saving comment:', err);
+      setError(err instanceof Error ? err.message : 'Failed to save comment');
+      return false;
+    }
+  }, []);
+
+  const startThread = useCallback((anchor: CommentAnchor, body: string) => {
+    if (!pageId) return Promise.resolve(false);
+    return save(() => createCommentThread({ owner, repo, repo_type, language, ref, path }, pageId, anchor, body));
+  }, [save, owner, repo, repo_type, language, ref, path, pageId]);
+
+  const reply = useCallback((threadId: string, body: string) =>
+    save(() => replyToCommentThread({ owner, repo, repo_type, language, ref, path }, threadId, body)),
+  [save, owner, repo, repo_type, language, ref, path]);
+
+  const setResolved = useCallback((threadId: string, resolved: boolean) =>
+    save(() => setCommentThreadResolved({ owner, repo, repo_type, language, ref, path }, threadId, resolved)),
+  [save, owner, repo, repo_type, language, ref, path]);
+
+  return { threads, isLoading, error, startThread, reply, setResolved };
+}
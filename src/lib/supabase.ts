@@ -11,6 +11,12 @@ export const supabase = createClient(supabaseUrl, supabaseAnonKey, {
   }
 })
 
+// Authorization header carrying the session of the signed-in user, for backend endpoints that check who is calling
+export const getSessionHeaders = async (): Promise<Record<string, string>> => {
+  const { data: { session } } = await supabase.auth.getSession()
+  return session ? { Authorization: `Bearer ${session.access_token}` } : {}
+}
+
 export type Database = {
   public: {
     Tables: {
@@ -0,0 +1,47 @@
+/**
+ * @fileoverview This file defines the wiki configuration a repository can declare in a .deepwiki.yml file at its root.
+ */
+
+// A page the wiki must have
+export interface DeepWikiConfigPage {
+    title: string;
+    // What the page should cover, passed on to the model
+    description?: string;
+    // Files the page is generated from, relative to the repository root
+    files: string[];
+}
+
+// A section the wiki must have, with the pages it must contain
+export interface DeepWikiConfigSection {
+    title: string;
+    pages: DeepWikiConfigPage[];
+}
+
+export interface DeepWikiConfig {
+    // Glob patterns of the files to document; all files when empty
+    include: string[];
+    // Glob patterns of the files to leave out, applied after `include`
+    exclude: string[];
+    sections: DeepWikiConfigSection[];
+    // Required pages outside of any section
+    pages: DeepWikiConfigPage[];
+    // Project terms and their meaning, to be used consistently by every page
+    glossary: Record<string, string>;
+    // Defaults for wikis generated without a language or model chosen in the URL
+    language?: string;
+    provider?: string;
+    model?: string;
+    // Extra instructions for the model, added to the structure and page prompts
+    instructions?: string;
+}
+
+// A configuration file as read from the repository
+export interface RepoConfigFile {
+    // Name of the file in the repository, e.g. ".deepwiki.yml"
+    fileName: string;
+    // Text of the file, which is what the wiki cache keeps
+    content: string;
+    config: DeepWikiConfig;
+    // Entries of the file that were not understood and are ignored
+    warnings: string[];
+}
@@ -0,0 +1,31 @@
+/**
+ * @fileoverview This file defines what the wiki editor remembers about a user's AI edits of a repository.
+ */
+
+// An AI edit request and its answer, sent with later requests as context
+export interface EditMemory {
+    id: string;
+    timestamp: number;
+    prompt: string;
+    response: string;
+    pageId: string;
+    // Page content before the edit; kept in the browser only
+    contentSnapshot?: string;
+}
+
+// Writing preferences learned from the user's edit requests, which they can also change in the settings
+export interface UserPreferences {
+    writingStyle?: string | null;
+    preferredFormats?: string[];
+    commonInstructions?: string[];
+}
+
+// Memory of one user for one repository, as stored in their profile
+export interface RepoEditorMemory {
+    owner: string;
+    repo: string;
+    repo_type: string;
+    edits: EditMemory[];
+    preferences: UserPreferences;
+    updated_at: string | null;
+}
\ No newline at end of file
@@ -5,6 +5,10 @@ export interface RepoInfo {
     token: string | null;
     localPath: string | null;
     repoUrl: string | null;
+    // Branch, tag or commit to document; the default branch when unset
+    ref?: string | null;
+    // Subdirectory to document, e.g. one package of a monorepo; the whole repository when unset
+    path?: string | null;
 }
 
 export default RepoInfo;
\ No newline at end of file
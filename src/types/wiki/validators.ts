@@ -0,0 +1,175 @@
+/**
+ * Runtime validation for wiki documents read from the cache or the API.
+ *
+ * Each validator returns a normalized copy of the value, filling in fields that
+ * older caches did not have, or null when the value cannot be used.
+ */
+
+import { WikiPage } from './wikipage';
+import { WikiSection, WikiStructure } from './wikistructure';
+import { PageGenerationStatus, WIKI_CACHE_SCHEMA_VERSION, WikiCacheData, WikiCacheKey, WikiCacheRepo, WikiCacheRepoConfig } from './wikicache';
+
+type UnknownRecord = Record<string, unknown>;
+
+const isRecord = (value: unknown): value is UnknownRecord =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(item => typeof item === 'string');
+
+const IMPORTANCE_VALUES: WikiPage['importance'][] = ['high', 'medium', 'low'];
+const PAGE_STATUS_VALUES: PageGenerationStatus[] = ['pending', 'done', 'failed'];
+
+const isNonEmptyString = (value: unknown): value is string =>
+  typeof value === 'string' && value.trim() !== '';
+
+/** Type guard for the owner, repo, repo_type and language identifying a cached wiki */
+export function isWikiCacheKey(value: unknown): value is WikiCacheKey {
+  return (
+    isRecord(value) &&
+    isNonEmptyString(value.owner) &&
+    isNonEmptyString(value.repo) &&
+    isNonEmptyString(value.repo_type) &&
+    isNonEmptyString(value.language) &&
+    (value.ref === undefined || typeof value.ref === 'string') &&
+    (value.path === undefined || typeof value.path === 'string')
+  );
+}
+
+const validateWikiCacheRepo = (value: unknown): WikiCacheRepo | null =>
+  isRecord(value) && isNonEmptyString(value.owner) && isNonEmptyString(value.repo) && isNonEmptyString(value.type)
+    ? {
+      owner: value.owner,
+      repo: value.repo,
+      type: value.type,
+      repo_url: typeof value.repo_url === 'string' ? value.repo_url : null,
+      ref: typeof value.ref === 'string' ? value.ref : null,
+    }
+    : null;
+
+const validateWikiCacheRepoConfig = (value: unknown): WikiCacheRepoConfig | null =>
+  isRecord(value) && isNonEmptyString(value.file_name) && typeof value.content === 'string'
+    ? { file_name: value.file_name, content: value.content }
+    : null;
+
+export function validateWikiPage(value: unknown): WikiPage | null {
+  if (!isRecord(value) || typeof value.id !== 'string' || typeof value.title !== 'string') {
+    return null;
+  }
+
+  const page: WikiPage = {
+    id: value.id,
+    title: value.title,
+    content: typeof value.content === 'string' ? value.content : '',
+    filePaths: isStringArray(value.filePaths) ? value.filePaths : [],
+    importance: IMPORTANCE_VALUES.includes(value.importance as WikiPage['importance'])
+      ? value.importance as WikiPage['importance']
+      : 'medium',
+    relatedPages: isStringArray(value.relatedPages) ? value.relatedPages : [],
+  };
+  if (typeof value.parentId === 'string') page.parentId = value.parentId;
+  if (typeof value.isSection === 'boolean') page.isSection = value.isSection;
+  if (isStringArray(value.children)) page.children = value.children;
+  return page;
+}
+
+export function validateWikiSection(value: unknown): WikiSection | null {
+  if (!isRecord(value) || typeof value.id !== 'string' || !isStringArray(value.pages)) {
+    return null;
+  }
+
+  const section: WikiSection = {
+    id: value.id,
+    title: typeof value.title === 'string' ? value.title : value.id,
+    pages: value.pages,
+  };
+  if (isStringArray(value.subsections) && value.subsections.length > 0) {
+    section.subsections = value.subsections;
+  }
+  return section;
+}
+
+export function validateWikiStructure(value: unknown): WikiStructure | null {
+  if (!isRecord(value) || !Array.isArray(value.pages)) {
+    return null;
+  }
+
+  const pages = value.pages.map(validateWikiPage);
+  if (pages.some(page => page === null)) {
+    return null;
+  }
+
+  const sections = Array.isArray(value.sections)
+    ? value.sections.map(validateWikiSection).filter((section): section is WikiSection => section !== null)
+    : [];
+
+  // Structures saved before rootSections existed: roots are the sections no other section refers to
+  let rootSections = isStringArray(value.rootSections) ? value.rootSections : [];
+  if (rootSections.length === 0 && sections.length > 0) {
+    const referenced = new Set(sections.flatMap(section => section.subsections || []));
+    rootSections = sections.map(section => section.id).filter(id => !referenced.has(id));
+  }
+
+  return {
+    id: typeof value.id === 'string' ? value.id : 'wiki',
+    title: typeof value.title === 'string' ? value.title : '',
+    description: typeof value.description === 'string' ? value.description : '',
+    pages: pages as WikiPage[],
+    sections,
+    rootSections,
+  };
+}
+
+/**
+ * Validates a cache returned by GET /api/wiki_cache and upgrades it to the current schema.
+ * Returns null for an empty response or a cache that cannot be read.
+ */
+export function validateWikiCacheData(value: unknown): WikiCacheData | null {
+  if (!isRecord(value) || !isRecord(value.generated_pages)) {
+    return null;
+  }
+
+  const version = typeof value.schema_version === 'number' ? value.schema_version : 0;
+  if (version > WIKI_CACHE_SCHEMA_VERSION) {
+    console.warn(`Wiki cache has schema version ${version}, newer than the supported ${WIKI_CACHE_SCHEMA_VERSION}`);
+    return null;
+  }
+
+  const wikiStructure = validateWikiStructure(value.wiki_structure);
+  if (!wikiStructure) {
+    return null;
+  }
+
+  const generatedPages: Record<string, WikiPage> = {};
+  for (const [pageId, page] of Object.entries(value.generated_pages)) {
+    const validPage = validateWikiPage(page);
+    if (validPage) generatedPages[pageId] = validPage;
+  }
+
+  const pageStatus: Record<string, PageGenerationStatus> = {};
+  if (isRecord(value.page_status)) {
+    for (const [pageId, status] of Object.entries(value.page_status)) {
+      if (PAGE_STATUS_VALUES.includes(status as PageGenerationStatus)) {
+        pageStatus[pageId] = status as PageGenerationStatus;
+      }
+    }
+  }
+
+  return {
+    schema_version: WIKI_CACHE_SCHEMA_VERSION,
+    wiki_structure: wikiStructure,
+    generated_pages: generatedPages,
+    repo_url: typeof value.repo_url === 'string' ? value.repo_url : null,
+    comprehensive: typeof value.comprehensive === 'boolean' ? value.comprehensive : undefined,
+    language: typeof value.language === 'string' ? value.language : undefined,
+    // Caches written before partial saves existed are complete
+    generation_complete: typeof value.generation_complete === 'boolean' ? value.generation_complete : true,
+    page_status: pageStatus,
+    commit_sha: typeof value.commit_sha === 'string' ? value.commit_sha : null,
+    repos: Array.isArray(value.repos)
+      ? value.repos.map(validateWikiCacheRepo).filter((repo): repo is WikiCacheRepo => repo !== null)
+      : undefined,
+    repo_config: validateWikiCacheRepoConfig(value.repo_config),
+    revision: typeof value.revision === 'number' ? value.revision : 0,
+  };
+}
@@ -0,0 +1,70 @@
+import { WikiPage } from "./wikipage";
+import { WikiStructure } from "./wikistructure";
+import { WikiVersionInfo } from "./wikiversion";
+
+/**
+ * @fileoverview This file defines the wiki cache envelope shared by every screen that reads or writes `/api/wiki_cache`.
+ */
+
+/**
+ * Version of the cache layout. Bump it when the shape changes and teach
+ * `validateWikiCacheData` to upgrade older caches.
+ */
+export const WIKI_CACHE_SCHEMA_VERSION = 1;
+
+// Generation state of a page, saved with partial caches so generation can resume
+export type PageGenerationStatus = 'pending' | 'done' | 'failed';
+
+// One of the repositories covered by a combined wiki
+export interface WikiCacheRepo {
+    owner: string;
+    repo: string;
+    type: string;
+    repo_url?: string | null;
+    // Branch, tag or commit documented; the default branch when unset
+    ref?: string | null;
+}
+
+// Configuration file of the repository, kept as written so it is read again with the wiki
+export interface WikiCacheRepoConfig {
+    file_name: string;
+    content: string;
+}
+
+export interface WikiCacheData {
+    schema_version: number;
+    wiki_structure: WikiStructure;
+    generated_pages: Record<string, WikiPage>;
+    repo_url?: string | null;
+    comprehensive?: boolean;
+    language?: string;
+    // Partial caches are saved while pages are still being generated
+    generation_complete: boolean;
+    page_status: Record<string, PageGenerationStatus>;
+    // Commit the wiki was generated at
+    commit_sha?: string | null;
+    // Repositories covered by a combined wiki, whose repo_type is "multi"
+    repos?: WikiCacheRepo[];
+    // The repository's .deepwiki.yml as read when the wiki was generated
+    repo_config?: WikiCacheRepoConfig | null;
+    // Incremented by the server on every save
+    revision: number;
+}
+
+// Identifies one cached wiki
+export interface WikiCacheKey {
+    owner: string;
+    repo: string;
+    repo_type: string;
+    language: string;
+    // Branch, tag or commit the wiki documents; the default branch when unset
+    ref?: string;
+    // Subdirectory the wiki documents; the whole repository when unset
+    path?: string;
+}
+
+// Body of POST /api/wiki_cache; the schema version is added when saving and the server assigns the revision
+export type WikiCacheRequest = WikiCacheKey & Omit<WikiCacheData, 'schema_version' | 'revision'> & {
+    // Set to record this save in the version history
+    version?: WikiVersionInfo;
+};
\ No newline at end of file
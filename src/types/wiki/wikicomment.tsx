@@ -0,0 +1,32 @@
+/**
+ * @fileoverview This file defines the comment threads teammates attach to ranges of wiki pages.
+ */
+
+// Range of page content a thread is attached to, as selected in the editor or the page.
+// The text around the range is kept so it can be found again after the page changes.
+export interface CommentAnchor {
+    text: string;
+    start: number;
+    end: number;
+    prefix: string;
+    suffix: string;
+}
+
+export interface WikiComment {
+    id: string;
+    author: string | null;
+    body: string;
+    created_at: string;
+}
+
+export interface CommentThread {
+    id: string;
+    page_id: string;
+    anchor: CommentAnchor;
+    // The first comment opened the thread, the others are replies
+    comments: WikiComment[];
+    resolved: boolean;
+    resolved_by: string | null;
+    resolved_at: string | null;
+    created_at: string;
+}
\ No newline at end of file
@@ -0,0 +1,32 @@
+import { WikiPage } from "./wikipage";
+
+/**
+ * @fileoverview This file defines the comparison of two cached variants of a wiki, e.g. generated for different refs.
+ */
+
+// How a page differs between the older and the newer wiki
+export type PageChangeKind = "added" | "removed" | "changed" | "unchanged";
+
+// A page of either wiki, paired with its counterpart in the other one
+export interface PageComparison {
+    // Id in the newer wiki, or in the older one for removed pages
+    id: string;
+    title: string;
+    kind: PageChangeKind;
+    // The page with its content in each wiki; null where it does not exist
+    base: WikiPage | null;
+    head: WikiPage | null;
+    // Paired by title because the page id changed
+    matchedByTitle: boolean;
+    // Section of the page, from the newer wiki when it has the page
+    section: string | null;
+    addedLines: number;
+    removedLines: number;
+}
+
+export interface WikiComparison {
+    pages: PageComparison[];
+    // Titles of the sections only found in one of the wikis
+    addedSections: string[];
+    removedSections: string[];
+}
\ No newline at end of file
@@ -0,0 +1,42 @@
+import { WikiSection } from "./wikistructure";
+
+/**
+ * @fileoverview This file defines the changesets produced when one AI instruction is applied across a whole wiki.
+ */
+
+export interface WikiOutline {
+    sections: WikiSection[];
+    rootSections: string[];
+}
+
+// Sections of the wiki when the change was planned, and the sections replacing them
+export interface WikiStructureChange {
+    before: WikiOutline;
+    after: WikiOutline;
+}
+
+export interface WikiPageChange {
+    id: string;
+    title: string;
+    // Why the page changes, as planned by the model
+    reason: string;
+    before: string;
+    after: string;
+}
+
+// Events streamed by /api/wiki/edit/refactor, one JSON object per line
+export type WikiRefactorEvent =
+    | { type: "plan"; revision: number; summary: string; pages: Omit<WikiPageChange, "before" | "after">[]; structure: WikiStructureChange | null }
+    | ({ type: "page" } & WikiPageChange)
+    | { type: "page_error"; id: string; error: string }
+    | { type: "warning"; message: string }
+    | { type: "error"; error: string }
+    | { type: "done" };
+
+// Changes proposed across a wiki, based on the revision the model read
+export interface WikiChangeset {
+    revision: number;
+    summary: string;
+    pages: WikiPageChange[];
+    structure: WikiStructureChange | null;
+}
\ No newline at end of file
@@ -0,0 +1,26 @@
+import { WikiCacheKey } from "./wikicache";
+
+/**
+ * @fileoverview This file defines the results of searching the content of cached wikis through `/api/wiki_search`.
+ */
+
+// "text" matches the words of the query; "semantic" matches its meaning
+export type WikiSearchMode = 'text' | 'semantic';
+
+// What matched: the page title, one of its source files, the section text, or the section's meaning
+export type WikiSearchMatch = 'title' | 'file' | 'content' | 'semantic';
+
+// A section of a wiki page matching a search
+export interface WikiSearchHit extends WikiCacheKey {
+    page_id: string;
+    page_title: string;
+    // Heading of the section, or null for the text before the first heading
+    heading: string | null;
+    snippet: string;
+    // Start and end offsets of the matches in the snippet
+    highlights: [number, number][];
+    // Source file path that matched
+    file: string | null;
+    match: WikiSearchMatch;
+    score: number;
+}
\ No newline at end of file
@@ -3,9 +3,18 @@ import { WikiPage } from "./wikipage";
 /**
  * @fileoverview This file defines the structure of a wiki page and its sections.
  */
+export interface WikiSection {
+    id: string;
+    title: string;
+    pages: string[];
+    subsections?: string[];
+}
+
 export interface WikiStructure {
     id: string;
     title: string;
     description: string;
     pages: WikiPage[];
+    sections: WikiSection[];
+    rootSections: string[];
 }
\ No newline at end of file
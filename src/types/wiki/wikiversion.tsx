@@ -0,0 +1,31 @@
+import { WikiCacheData } from "./wikicache";
+
+/**
+ * @fileoverview This file defines the version history recorded when a wiki is generated, edited or restored.
+ */
+
+// Whether a version was written by a model or by a person
+export type WikiVersionKind = 'ai' | 'manual';
+
+// What produced the version; "baseline" is the wiki as it was before history was recorded
+export type WikiVersionReason = 'generation' | 'regeneration' | 'refresh' | 'edit' | 'refactor' | 'rollback' | 'baseline';
+
+// Sent with a cache save to record it as a version
+export interface WikiVersionInfo {
+    author?: string | null;
+    model?: string | null;
+    kind: WikiVersionKind;
+    reason: WikiVersionReason;
+}
+
+export interface WikiVersion extends WikiVersionInfo {
+    id: string;
+    created_at: string;
+    // Pages whose content differs from the previous save
+    changed_pages: string[];
+}
+
+export interface WikiVersionSnapshot {
+    version: WikiVersion;
+    data: WikiCacheData;
+}
\ No newline at end of file
@@ -0,0 +1,161 @@
+import { readFileSync } from 'fs';
+import { describe, expect, it } from 'vitest';
+import { DeepWikiConfig } from '@/types/deepwikiconfig';
+import { WikiPage } from '@/types/wiki/wikipage';
+import { WikiStructure } from '@/types/wiki/wikistructure';
+import { applyRequiredOutline, isFileIncluded, matchesGlob, parseDeepWikiConfig } from '../deepwikiConfig';
+
+// .deepwiki.yml files as repositories write them
+const readFixture = (name: string): string =>
+  readFileSync(new URL(`./fixtures/deepwikiConfig/${name}`, import.meta.url), 'utf-8');
+
+// Glob cases the backend's glob_to_regex in api/rag.py must decide the same way
+const globCases: { pattern: string; file: string; matches: boolean }[] = JSON.parse(readFixture('globs.json'));
+
+const page = (id: string, title: string, parentId?: string): WikiPage => ({
+  id,
+  title,
+  content: '',
+  filePaths: [],
+  importance: 'medium',
+  relatedPages: [],
+  ...(parentId ? { parentId } : {}),
+});
+
+const config = (overrides: Partial<DeepWikiConfig>): DeepWikiConfig =>
+  ({ include: [], exclude: [], sections: [], pages: [], glossary: {}, ...overrides });
+
+// A structure with a subsection, so the first top-level section is not simply the first section
+const sectionedStructure = (): WikiStructure => ({
+  id: 'wiki',
+  title: 'acme-api Wiki',
+  description: '',
+  pages: [page('page-routes', 'Routes', 'section-api'), page('page-overview', 'Overview', 'section-intro')],
+  sections: [
+    { id: 'section-api', title: 'API', pages: ['page-routes'] },
+    { id: 'section-intro', title: 'Introduction', pages: ['page-overview'], subsections: ['section-api'] },
+  ],
+  rootSections: ['section-intro'],
+});
+
+describe('parseDeepWikiConfig', () => {
+  it('reads nested lists, quoted strings and comments', () => {
+    const { config: parsed, warnings } = parseDeepWikiConfig(readFixture('nested.yml'));
+    expect(warnings).toEqual([]);
+
+    expect(parsed.include).toEqual(['src/', 'docs/*.md', 'scripts/release.sh']);
+    expect(parsed.exclude).toEqual(['*.test.ts', '**/__fixtures__/', 'src/generated/**']);
+    expect(parsed.sections).toEqual([
+      {
+        title: 'Architecture',
+        pages: [
+          {
+            title: 'Request Lifecycle',
+            description: 'From the HTTP handler to the database',
+            files: ['src/server.ts', 'src/db.ts'],
+          },
+          { title: 'Jobs: Queue and Workers', files: ['src/queue.ts', 'src/worker.ts'] },
+        ],
+      },
+      { title: 'Operations', pages: [{ title: 'Monitoring', files: [] }] },
+    ]);
+    expect(parsed.pages).toEqual([{ title: 'Deployment', files: [] }, { title: 'Tenants #1 and #2', files: [] }]);
+    expect(parsed.glossary).toEqual({
+      Tenant: 'An organization with its own database schema',
+      'Job #': "Number a job gets when it is queued, e.g. 'J-42'",
+    });
+    expect(parsed).toMatchObject({ language: 'ja', provider: 'openai', model: 'gpt-4o' });
+    // Comment-like lines and blank lines inside a block scalar are part of it
+    expect(parsed.instructions).toBe([
+      'Write for operators rather than contributors.',
+      '# Keep this line: it is part of the instructions',
+      '',
+      'Mention the environment variables of each service.',
+    ].join('\n'));
+  });
+
+  it('reports the line of a file that is not valid YAML and ignores the whole file', () => {
+    const { config: parsed, warnings } = parseDeepWikiConfig(readFixture('invalid.yml'));
+    expect(parsed).toEqual(config({}));
+    expect(warnings).toEqual([expect.stringMatching(/^Line 3: /)]);
+  });
+
+  it('ignores the settings it does not understand and keeps the others', () => {
+    const { config: parsed, warnings } = parseDeepWikiConfig(readFixture('unknown-settings.yml'));
+    expect(parsed).toEqual(config({ include: ['src/'], pages: [{ title: 'Deployment', files: [] }] }));
+    expect(warnings).toEqual([
+      'Every page of "pages" needs a title.',
+      '"glossary" must map terms to their meaning.',
+      'Language "fr" is not supported; use one of en, ja, zh, es, kr, vi.',
+      'Unknown setting "theme" is ignored.',
+      '"model" is ignored without a "provider".',
+    ]);
+  });
+
+  it('gives an empty configuration for an empty file', () => {
+    expect(parseDeepWikiConfig('# nothing configured yet\n')).toEqual({ config: config({}), warnings: [] });
+  });
+});
+
+describe('matchesGlob', () => {
+  it.each(globCases)('$pattern on $file is $matches', ({ pattern, file, matches }) => {
+    expect(matchesGlob(file, pattern)).toBe(matches);
+  });
+
+  it('applies exclude patterns after include patterns', () => {
+    const filters = config({ include: ['src/'], exclude: ['*.test.ts'] });
+    expect(isFileIncluded(filters, 'src/queue.ts')).toBe(true);
+    expect(isFileIncluded(filters, 'src/queue.test.ts')).toBe(false);
+    expect(isFileIncluded(filters, 'docs/queue.md')).toBe(false);
+    expect(isFileIncluded(config({}), 'docs/queue.md')).toBe(true);
+  });
+});
+
+describe('applyRequiredOutline', () => {
+  it('adds required sections and pages the model left out, and files to the pages it included', () => {
+    const structure = applyRequiredOutline(sectionedStructure(), config({
+      sections: [
+        { title: 'api', pages: [{ title: 'routes', files: ['src/routes.ts'] }, { title: 'Middleware', files: ['src/middleware.ts'] }] },
+        { title: 'Operations', pages: [{ title: 'Monitoring', files: [] }] },
+      ],
+    }));
+
+    expect(structure.pages.find(p => p.id === 'page-routes')?.filePaths).toEqual(['src/routes.ts']);
+    const middleware = structure.pages.find(p => p.title === 'Middleware');
+    expect(middleware).toMatchObject({ parentId: 'section-api', filePaths: ['src/middleware.ts'], importance: 'high' });
+    expect(structure.sections.find(s => s.id === 'section-api')?.pages).toEqual(['page-routes', middleware?.id]);
+
+    const operations = structure.sections.find(s => s.title === 'Operations');
+    expect(operations?.pages).toHaveLength(1);
+    expect(structure.rootSections).toEqual(['section-intro', operations?.id]);
+  });
+
+  it('puts required pages without a section in the first top-level section', () => {
+    const structure = applyRequiredOutline(sectionedStructure(), config({ pages: [{ title: 'Deployment', files: [] }] }));
+
+    const deployment = structure.pages.find(p => p.title === 'Deployment');
+    expect(deployment?.parentId).toBe('section-intro');
+    expect(structure.sections.find(s => s.id === 'section-intro')?.pages).toEqual(['page-overview', deployment?.id]);
+    expect(structure.sections.find(s => s.id === 'section-api')?.pages).toEqual(['page-routes']);
+  });
+
+  it('keeps the pages of a structure without sections flat', () => {
+    const flat: WikiStructure = {
+      id: 'wiki',
+      title: 'acme-api Wiki',
+      description: '',
+      pages: [page('page-overview', 'Overview')],
+      sections: [],
+      rootSections: [],
+    };
+    const structure = applyRequiredOutline(flat, config({
+      sections: [{ title: 'Operations', pages: [{ title: 'Monitoring', files: [] }] }],
+      pages: [{ title: 'Deployment', files: ['Dockerfile'] }],
+    }));
+
+    expect(structure.sections).toEqual([]);
+    expect(structure.rootSections).toEqual([]);
+    expect(structure.pages.map(p => p.title)).toEqual(['Overview', 'Monitoring', 'Deployment']);
+    structure.pages.forEach(p => expect(p.parentId).toBeUndefined());
+  });
+});
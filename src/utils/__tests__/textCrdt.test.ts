@@ -0,0 +1,132 @@
+import { describe, expect, it } from 'vitest';
+import { TextCrdt, TextOp } from '../textCrdt';
+
+const SEED = 'hello world';
+
+// Every order the operations of several replicas can reach another one in
+const permutations = <T>(items: T[]): T[][] =>
+  items.length <= 1
+    ? [items]
+    : items.flatMap((item, index) =>
+      permutations([...items.slice(0, index), ...items.slice(index + 1)]).map(rest => [item, ...rest]));
+
+// Applies the edits of each replica to a fresh one in the given order and returns its text
+const replay = (batches: TextOp[][]): string => {
+  const doc = new TextCrdt('observer', SEED);
+  batches.forEach(ops => doc.applyRemote(ops));
+  return doc.text;
+};
+
+const expectConvergence = (batches: TextOp[][]) => {
+  const texts = new Set(permutations(batches).map(replay));
+  expect(texts.size).toBe(1);
+  return [...texts][0];
+};
+
+describe('TextCrdt convergence', () => {
+  it('orders concurrent inserts at the same position the same way on every replica', () => {
+    const a = new TextCrdt('a', SEED);
+    const b = new TextCrdt('b', SEED);
+    const c = new TextCrdt('c', SEED);
+    const opsA = a.applyLocalText('hello, world');
+    const opsB = b.applyLocalText('hello; world');
+    const opsC = c.applyLocalText('hello: world');
+
+    const text = expectConvergence([opsA, opsB, opsC]);
+    expect(text).toHaveLength(SEED.length + 3);
+    expect(text.startsWith('hello')).toBe(true);
+    expect(text.endsWith(' world')).toBe(true);
+
+    // The replicas that made the edits agree with an observer once they have each other's operations
+    a.applyRemote([...opsB, ...opsC]);
+    b.applyRemote([...opsC, ...opsA]);
+    c.applyRemote([...opsA, ...opsB]);
+    expect([a.text, b.text, c.text]).toEqual([text, text, text]);
+  });
+
+  it('keeps an insert made inside a range another replica deleted', () => {
+    const a = new TextCrdt('a', SEED);
+    const b = new TextCrdt('b', SEED);
+    const opsA = a.applyLocalText('hello');
+    const opsB = b.applyLocalText('hello wo-rld');
+
+    const text = expectConvergence([opsA, opsB]);
+    expect(text).toBe('hello-');
+    a.applyRemote(opsB);
+    b.applyRemote(opsA);
+    expect(a.text).toBe(text);
+    expect(b.text).toBe(text);
+  });
+
+  it('deletes characters once when several replicas delete them', () => {
+    const a = new TextCrdt('a', SEED);
+    const b = new TextCrdt('b', SEED);
+    const c = new TextCrdt('c', SEED);
+    const opsA = a.applyLocalText('hello');
+    const opsB = b.applyLocalText('hello wor');
+    const opsC = c.applyLocalText('hello!');
+
+    expect(expectConvergence([opsA, opsB, opsC])).toBe('hello!');
+  });
+
+  it('replaces the same character differently on each replica and keeps both replacements', () => {
+    const a = new TextCrdt('a', SEED);
+    const b = new TextCrdt('b', SEED);
+    const opsA = a.applyLocalText('jello world');
+    const opsB = b.applyLocalText('mello world');
+
+    const text = expectConvergence([opsA, opsB]);
+    expect(['jmello world', 'mjello world']).toContain(text);
+  });
+
+  it('waits for the characters an operation refers to when it arrives first', () => {
+    const a = new TextCrdt('a', SEED);
+    const first = a.applyLocalText('hello big world');
+    const second = a.applyLocalText('hello big, big world');
+
+    const doc = new TextCrdt('b', SEED);
+    expect(doc.applyRemote(second)).toBeNull();
+    expect(doc.text).toBe(SEED);
+    doc.applyRemote(first);
+    expect(doc.text).toBe(a.text);
+  });
+});
+
+describe('TextCrdt rejoin', () => {
+  it('ignores operations it has already applied when the room log is replayed', () => {
+    const a = new TextCrdt('a', SEED);
+    const b = new TextCrdt('b', SEED);
+    const log = [...a.applyLocalText('hello there world'), ...b.applyLocalText('hello world!')];
+    a.applyRemote(log);
+    b.applyRemote(log);
+    const text = a.text;
+
+    expect(a.applyRemote(log)).toBeNull();
+    expect(b.applyRemote([...log, ...log])).toBeNull();
+    expect(a.text).toBe(text);
+    expect(b.text).toBe(text);
+  });
+
+  it('catches up on the room log and sends what was typed while disconnected', () => {
+    const a = new TextCrdt('a', SEED);
+    const b = new TextCrdt('b', SEED);
+    const log = a.applyLocalText('hello, world');
+    b.applyRemote(log);
+
+    // A loses its connection and keeps typing while B edits
+    const outbox = a.applyLocalText('hello, world.');
+    log.push(...b.applyLocalText('Hello, world'));
+
+    // On rejoin A receives the whole log, including its own earlier operations
+    const mapPosition = a.applyRemote(log);
+    expect(mapPosition).not.toBeNull();
+    expect(mapPosition?.(a.text.length)).toBe(a.text.length);
+    b.applyRemote(outbox);
+    expect(a.text).toBe('Hello, world.');
+    expect(b.text).toBe(a.text);
+
+    // The outbox may reach A again through the log of a later rejoin
+    expect(a.applyRemote([...log, ...outbox])).toBeNull();
+    expect(a.text).toBe('Hello, world.');
+  });
+});
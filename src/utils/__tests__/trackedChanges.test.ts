@@ -0,0 +1,132 @@
+import { readFileSync } from 'fs';
+import { describe, expect, it } from 'vitest';
+import {
+  applySuggestion,
+  createSuggestion,
+  decideChanges,
+  getChanges,
+  SuggestedChangeStatus,
+  SuggestionSegment,
+} from '../trackedChanges';
+
+// A page with a code block and a mermaid diagram, and revisions an AI edit proposed for it
+const readFixture = (name: string): string =>
+  readFileSync(new URL(`./fixtures/trackedChanges/${name}`, import.meta.url), 'utf-8');
+
+// Whether every fence opened in the markdown is closed again, by the same character and at least as long
+const fencesBalance = (markdown: string): boolean => {
+  let open: string | null = null;
+  for (const line of markdown.split('\n')) {
+    const fence = line.match(/^ {0,3}(`{3,}|~{3,})(.*)$/);
+    if (!fence) continue;
+    if (open === null) {
+      open = fence[1];
+    } else if (fence[1][0] === open[0] && fence[1].length >= open.length && fence[2].trim() === '') {
+      open = null;
+    }
+  }
+  return open === null;
+};
+
+// Every way of accepting and rejecting the changes of a suggestion one at a time
+const decisionCombinations = (segments: SuggestionSegment[]): SuggestionSegment[][] => {
+  const ids = getChanges(segments).map(change => change.id);
+  return Array.from({ length: 2 ** ids.length }, (_, mask) =>
+    ids.reduce<SuggestionSegment[]>((decided, id, index) => {
+      const status: SuggestedChangeStatus = mask & (1 << index) ? 'accepted' : 'rejected';
+      return decideChanges(decided, id, status);
+    }, segments));
+};
+
+const changeContaining = (segments: SuggestionSegment[], text: string) =>
+  getChanges(segments).find(change => [...change.removed, ...change.added].some(unit => unit.includes(text)));
+
+describe('createSuggestion', () => {
+  const page = readFixture('page.md');
+  const revised = readFixture('revised.md');
+
+  it('keeps fenced blocks whole in the changes that touch them', () => {
+    const segments = createSuggestion(page, revised);
+
+    // The code block and the line after it changed together, so they are one change
+    const codeChange = changeContaining(segments, 'concurrency: 4');
+    expect(codeChange?.removed).toEqual([
+      "```ts\nconst queue = new Queue('jobs');\nqueue.process(handleJob);\n```",
+      'Workers retry failed jobs three times.',
+    ]);
+    expect(codeChange?.added).toEqual([
+      "```ts\nconst queue = new Queue('jobs', { concurrency: 4 });\nqueue.process(handleJob);\n```",
+      'Workers retry failed jobs five times before giving up.',
+    ]);
+
+    const diagramChange = changeContaining(segments, 'Results');
+    expect(diagramChange?.removed).toHaveLength(1);
+    expect(diagramChange?.added).toHaveLength(1);
+    expect(diagramChange?.added[0].startsWith('```mermaid\n')).toBe(true);
+    expect(diagramChange?.added[0].endsWith('\n```')).toBe(true);
+  });
+
+  it('changes the line right after a closing fence without the block before it', () => {
+    const segments = createSuggestion(page, page.replace('three times.', 'five times.'));
+    expect(getChanges(segments)).toEqual([expect.objectContaining({
+      removed: ['Workers retry failed jobs three times.'],
+      added: ['Workers retry failed jobs five times.'],
+    })]);
+  });
+
+  it('closes a fence the revision left open', () => {
+    const segments = createSuggestion(page, readFixture('revised-unclosed.md'));
+    const block = changeContaining(segments, 'export QUEUE_URL');
+    expect(block?.added).toHaveLength(1);
+    expect(block?.added[0].startsWith('```bash\n')).toBe(true);
+    expect(block?.added[0].endsWith('\n```')).toBe(true);
+    expect(fencesBalance(applySuggestion(segments))).toBe(true);
+  });
+});
+
+describe('deciding changes one at a time', () => {
+  const page = readFixture('page.md');
+  const revised = readFixture('revised.md');
+
+  it('gives the revision when every change is accepted and the page when every change is rejected', () => {
+    const segments = createSuggestion(page, revised);
+    expect(applySuggestion(decideChanges(segments, null, 'accepted'))).toBe(revised);
+    expect(applySuggestion(decideChanges(segments, null, 'rejected'))).toBe(page);
+  });
+
+  it('leaves every fence balanced whichever changes are accepted', () => {
+    const segments = createSuggestion(page, revised);
+    expect(getChanges(segments).length).toBeGreaterThanOrEqual(4);
+    decisionCombinations(segments).forEach(decided => {
+      expect(fencesBalance(applySuggestion(decided))).toBe(true);
+    });
+  });
+
+  it('applies only the decided change inside a block and leaves the others to their default', () => {
+    const segments = createSuggestion(page, revised);
+    const codeChange = changeContaining(segments, 'concurrency: 4');
+    const decided = decideChanges(segments, codeChange!.id, 'accepted');
+
+    const result = applySuggestion(decided, 'rejected');
+    expect(result).toContain("new Queue('jobs', { concurrency: 4 })");
+    expect(result).toContain('Set `QUEUE_URL` to the Redis instance.');
+    expect(result).not.toContain('Results');
+    expect(fencesBalance(result)).toBe(true);
+
+    const rejected = applySuggestion(decideChanges(decided, codeChange!.id, 'rejected'), 'accepted');
+    expect(rejected).toContain("new Queue('jobs');");
+    expect(rejected).toContain('C --> D[(Results)]');
+    expect(fencesBalance(rejected)).toBe(true);
+  });
+
+  it('leaves fences balanced when the block of a fence the revision left open is accepted or rejected alone', () => {
+    const segments = createSuggestion(page, readFixture('revised-unclosed.md'));
+    const block = changeContaining(segments, 'export QUEUE_URL')!;
+    const accepted = applySuggestion(decideChanges(segments, block.id, 'accepted'), 'rejected');
+    expect(accepted).toContain('Set `QUEUE_URL` to the Redis instance.\n');
+    expect(fencesBalance(accepted)).toBe(true);
+    const rejected = applySuggestion(decideChanges(segments, block.id, 'rejected'), 'accepted');
+    expect(rejected).not.toContain('```bash');
+    expect(fencesBalance(rejected)).toBe(true);
+  });
+});
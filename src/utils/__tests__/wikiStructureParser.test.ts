@@ -0,0 +1,138 @@
+import { readFileSync } from 'fs';
+import { describe, expect, it } from 'vitest';
+import { WikiStructure } from '@/types/wiki/wikistructure';
+import {
+  buildStructureRepairPrompt,
+  getUnrepairedIssues,
+  parseWikiStructure,
+  StructureIssue,
+  StructureIssueCode,
+} from '../wikiStructureParser';
+
+// Model responses recorded from structure generations that went wrong
+const readFixture = (name: string): string =>
+  readFileSync(new URL(`./fixtures/wikiStructure/${name}`, import.meta.url), 'utf-8');
+
+const parseFixture = (name: string) => parseWikiStructure(readFixture(name), { requireSections: true });
+
+const issuesWithCode = (issues: StructureIssue[], code: StructureIssueCode) =>
+  issues.filter(issue => issue.code === code);
+
+// Whatever the response looked like, the parsed structure must be usable by the wiki viewer
+const expectConsistent = (structure: WikiStructure | null) => {
+  expect(structure).not.toBeNull();
+  const { pages, sections, rootSections } = structure as WikiStructure;
+  const pageIds = pages.map(page => page.id);
+  const sectionIds = sections.map(section => section.id);
+  expect(new Set(pageIds).size).toBe(pageIds.length);
+  expect(new Set(sectionIds).size).toBe(sectionIds.length);
+
+  // Every page is listed in exactly one section, which is its parent
+  const listedPages = sections.flatMap(section => section.pages);
+  expect([...listedPages].sort()).toEqual([...pageIds].sort());
+  sections.forEach(section => {
+    section.pages.forEach(pageId => expect(pages.find(page => page.id === pageId)?.parentId).toBe(section.id));
+  });
+
+  pages.forEach(page => {
+    page.relatedPages.forEach(relatedId => {
+      expect(pageIds).toContain(relatedId);
+      expect(relatedId).not.toBe(page.id);
+    });
+  });
+
+  // Walking down from the root sections reaches every section exactly once
+  const reached: string[] = [];
+  const walk = (sectionId: string) => {
+    expect(reached).not.toContain(sectionId);
+    reached.push(sectionId);
+    sections.find(section => section.id === sectionId)?.subsections?.forEach(walk);
+  };
+  rootSections.forEach(walk);
+  expect([...reached].sort()).toEqual([...sectionIds].sort());
+};
+
+describe('parseWikiStructure', () => {
+  it('removes references to pages and sections that do not exist', () => {
+    const { structure, issues } = parseFixture('dangling-refs.xml');
+    expectConsistent(structure);
+
+    expect(issuesWithCode(issues, 'dangling_page_ref')).toEqual([expect.objectContaining({ id: 'section-overview', repaired: true })]);
+    expect(issuesWithCode(issues, 'dangling_section_ref')).toEqual([expect.objectContaining({ id: 'section-overview', repaired: true })]);
+    expect(issuesWithCode(issues, 'dangling_related_page').map(issue => issue.id)).toEqual(['page-intro', 'page-routes']);
+    expect(structure?.sections.find(section => section.id === 'section-overview')?.pages).toEqual(['page-intro']);
+    expect(structure?.pages.find(page => page.id === 'page-intro')?.relatedPages).toEqual(['page-routes']);
+    expect(getUnrepairedIssues({ structure, issues })).toEqual([]);
+  });
+
+  it('renames duplicate page and section ids', () => {
+    const { structure, issues } = parseFixture('duplicate-ids.xml');
+    expectConsistent(structure);
+
+    expect(issuesWithCode(issues, 'duplicate_page_id')).toEqual([expect.objectContaining({ id: 'page-routes-2', repaired: true })]);
+    expect(issuesWithCode(issues, 'duplicate_section_id')).toEqual([expect.objectContaining({ id: 'section-core-2', repaired: true })]);
+    expect(issuesWithCode(issues, 'invalid_importance')).toEqual([expect.objectContaining({ id: 'page-routes-2' })]);
+    expect(structure?.pages.map(page => page.title)).toEqual(['Routes', 'Route Middleware', 'Job Queue']);
+    expect(structure?.sections.map(section => section.title)).toEqual(['Core', 'Workers', 'Other']);
+    // The renamed page is not referenced by any section, so the model is asked to place it
+    expect(getUnrepairedIssues({ structure, issues })).toEqual([
+      expect.objectContaining({ code: 'orphan_page', id: 'page-routes-2' }),
+    ]);
+  });
+
+  it('breaks section cycles at the reference that closes them', () => {
+    const { structure, issues } = parseFixture('section-cycle.xml');
+    expectConsistent(structure);
+
+    expect(issuesWithCode(issues, 'section_cycle')).toEqual([expect.objectContaining({ id: 'section-storage', repaired: true })]);
+    expect(structure?.rootSections).toEqual(['section-architecture']);
+    expect(structure?.sections.find(section => section.id === 'section-architecture')?.subsections).toEqual(['section-storage']);
+    expect(structure?.sections.find(section => section.id === 'section-storage')?.subsections).toBeUndefined();
+  });
+
+  it('places orphan pages in their parent section or in "Other"', () => {
+    const { structure, issues } = parseFixture('orphan-pages.xml');
+    expectConsistent(structure);
+
+    expect(issuesWithCode(issues, 'orphan_page')).toEqual([
+      expect.objectContaining({ id: 'page-auth', repaired: true }),
+      expect.objectContaining({ id: 'page-metrics', repaired: false }),
+    ]);
+    expect(structure?.sections.find(section => section.id === 'section-api')?.pages).toEqual(['page-routes', 'page-auth']);
+    expect(structure?.sections.find(section => section.id === 'section-other')?.pages).toEqual(['page-metrics']);
+  });
+
+  it('reads JSON structures and flags entries it cannot use', () => {
+    const { structure, issues } = parseFixture('json-structure.txt');
+    expectConsistent(structure);
+
+    expect(structure?.title).toBe('acme-api Wiki');
+    expect(structure?.pages.find(page => page.id === 'page-queue')?.filePaths).toEqual(['src/queue.ts']);
+    expect(issuesWithCode(issues, 'missing_page_id')).toEqual([expect.objectContaining({ id: 'page-3' })]);
+    expect(getUnrepairedIssues({ structure, issues }).map(issue => issue.code)).toEqual(['missing_title', 'orphan_page']);
+  });
+
+  it('rejects responses without a structure', () => {
+    const result = parseWikiStructure('I could not determine the structure of this repository.');
+    expect(result.structure).toBeNull();
+    expect(result.issues.map(issue => issue.code)).toEqual(['invalid_format']);
+  });
+});
+
+describe('structure repair round-trip', () => {
+  it('asks the model about unrepaired issues and accepts its corrected structure', () => {
+    const result = parseFixture('orphan-pages.xml');
+    const unrepaired = getUnrepairedIssues(result);
+    expect(unrepaired).toHaveLength(1);
+
+    const prompt = buildStructureRepairPrompt(unrepaired);
+    expect(prompt).toContain(unrepaired[0].message);
+    expect(prompt).toContain('<wiki_structure>');
+
+    const repaired = parseFixture('orphan-pages-repaired.xml');
+    expectConsistent(repaired.structure);
+    expect(repaired.issues).toEqual([]);
+    expect(repaired.structure?.pages.map(page => page.id)).toEqual(result.structure?.pages.map(page => page.id));
+    expect(repaired.structure?.sections.map(section => section.id)).toEqual(['section-api', 'section-operations']);
+  });
+});
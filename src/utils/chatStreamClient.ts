@@ -0,0 +1,307 @@
+/**
+ * Streaming client for chat completions.
+ *
+ * Every screen that talks to the model goes through this module so that
+ * transport selection, timeouts, retries and cancellation behave the same
+ * everywhere. The WebSocket endpoint is tried first and the HTTP streaming
+ * endpoint is used as a fallback.
+ */
+
+import { ChatCompletionRequest, getWebSocketUrl, HTTP_STREAM_URL } from '@/utils/websocketClient';
+
+export type ChatTransport = 'websocket' | 'http';
+
+export interface ChatStreamOptions {
+  /** Aborts the request; the stream then throws an AbortError */
+  signal?: AbortSignal;
+  /** Transports to try, in order */
+  transports?: ChatTransport[];
+  /** How long to wait for the WebSocket to open before giving up on it */
+  connectTimeoutMs?: number;
+  /** Extra attempts per transport for failures that happen before any output */
+  retries?: number;
+  /** Base delay for the exponential backoff between attempts */
+  retryDelayMs?: number;
+  /** Short description of the request used in log messages */
+  label?: string;
+}
+
+export interface CollectChatOptions extends ChatStreamOptions {
+  /** Called for every chunk with the chunk and the text accumulated so far */
+  onChunk?: (chunk: string, text: string) => void;
+}
+
+/**
+ * Error raised when a chat completion cannot be streamed.
+ * `partial` is set when output had already been delivered before the failure,
+ * in which case the request is not retried to avoid duplicating content.
+ */
+export class ChatStreamError extends Error {
+  constructor(
+    message: string,
+    public readonly transport: ChatTransport,
+    public readonly status?: number,
+    public readonly partial: boolean = false,
+  ) {
+    super(message);
+    this.name = 'ChatStreamError';
+  }
+}
+
+const DEFAULT_TRANSPORTS: ChatTransport[] = ['websocket', 'http'];
+const DEFAULT_CONNECT_TIMEOUT_MS = 5000;
+const DEFAULT_RETRIES = 1;
+const DEFAULT_RETRY_DELAY_MS = 1000;
+
+const createAbortError = () => new DOMException('The chat request was aborted', 'AbortError');
+
+export const isAbortError = (error: unknown): boolean =>
+  error instanceof Error && error.name === 'AbortError';
+
+const isRetryable = (error: unknown): boolean => {
+  if (!(error instanceof ChatStreamError)) return true;
+  // Network-level failures have no status; only rate limits and server errors are worth retrying
+  return error.status === undefined || error.status === 429 || error.status >= 500;
+};
+
+// The backend reports provider and retrieval failures as the text of an otherwise successful response,
+// e.g. "Error with Openai API: ..." streamed with status 200 or sent before the WebSocket closes
+const BACKEND_ERROR_PATTERN = /^\s*(?:Error(?: with [\w ]+? API(?: fallback)?)?|Error preparing retriever):/;
+// Enough of the response to tell an error report from content
+const BACKEND_ERROR_PREFIX_LENGTH = 64;
+
+/** Status a backend error report stands for, so rate limits back off and request errors are not retried */
+const getBackendErrorStatus = (text: string): number => {
+  if (/\b429\b|rate.?limit|too many requests|quota|exhausted/i.test(text)) return 429;
+  if (/No messages provided|Last message must be from the user/.test(text)) return 400;
+  return 502;
+};
+
+export const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) {
+    reject(createAbortError());
+    return;
+  }
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(createAbortError());
+  };
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+async function* webSocketStream(
+  request: ChatCompletionRequest,
+  signal: AbortSignal | undefined,
+  connectTimeoutMs: number,
+  label: string,
+): AsyncGenerator<string, void, undefined> {
+  const ws = new WebSocket(getWebSocketUrl());
+  const state: { queue: string[]; closed: boolean; failure: Error | null } = {
+    queue: [],
+    closed: false,
+    failure: null,
+  };
+  let wake: (() => void) | null = null;
+  const notify = () => {
+    const resolve = wake;
+    wake = null;
+    resolve?.();
+  };
+
+  const connectTimeout = setTimeout(() => {
+    state.failure = new ChatStreamError('WebSocket connection timeout', 'websocket');
+    ws.close();
+    notify();
+  }, connectTimeoutMs);
+
+  const onAbort = () => {
+    state.failure = createAbortError();
+    ws.close();
+    notify();
+  };
+  signal?.addEventListener('abort', onAbort, { once: true });
+
+  ws.onopen = () => {
+    clearTimeout(connectTimeout);
+    console.log(`WebSocket connection established for ${label}`);
+    ws.send(JSON.stringify(request));
+  };
+  ws.onmessage = (event) => {
+    state.queue.push(String(event.data));
+    notify();
+  };
+  ws.onerror = () => {
+    state.failure = state.failure ?? new ChatStreamError('WebSocket connection failed', 'websocket');
+    notify();
+  };
+  ws.onclose = () => {
+    clearTimeout(connectTimeout);
+    state.closed = true;
+    notify();
+  };
+
+  try {
+    while (true) {
+      if (signal?.aborted) throw createAbortError();
+      if (state.queue.length > 0) {
+        yield state.queue.shift() as string;
+        continue;
+      }
+      if (state.failure) throw state.failure;
+      if (state.closed) return;
+      await new Promise<void>(resolve => {
+        wake = resolve;
+      });
+    }
+  } finally {
+    clearTimeout(connectTimeout);
+    signal?.removeEventListener('abort', onAbort);
+    if (ws.readyState === WebSocket.CONNECTING || ws.readyState === WebSocket.OPEN) {
+      ws.close();
+    }
+  }
+}
+
+async function* httpStream(
+  request: ChatCompletionRequest,
+  signal: AbortSignal | undefined,
+): AsyncGenerator<string, void, undefined> {
+  let response: Response;
+  try {
+    response = await fetch(HTTP_STREAM_URL, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(request),
+      signal,
+    });
+  } catch (err) {
+    if (isAbortError(err)) throw err;
+    throw new ChatStreamError(err instanceof Error ? err.message : 'HTTP request failed', 'http');
+  }
+
+  if (!response.ok) {
+    const errorText = await response.text().catch(() => 'No error details available');
+    throw new ChatStreamError(`API error (${response.status}): ${errorText}`, 'http', response.status);
+  }
+
+  const reader = response.body?.getReader();
+  if (!reader) {
+    throw new ChatStreamError('Failed to get response reader', 'http');
+  }
+
+  const decoder = new TextDecoder();
+  let finished = false;
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      const chunk = decoder.decode(value, { stream: true });
+      if (chunk) yield chunk;
+    }
+    finished = true;
+    // Ensure final decoding
+    const tail = decoder.decode();
+    if (tail) yield tail;
+  } finally {
+    if (!finished) {
+      reader.cancel().catch(() => undefined);
+    }
+  }
+}
+
+/**
+ * Streams a chat completion as an async iterator of text chunks.
+ *
+ * Failures that happen before the first chunk are retried with exponential
+ * backoff and then handed to the next transport. Failures after output has
+ * started are surfaced as a partial ChatStreamError.
+ * @param request The chat completion request
+ * @param options Transport, retry and cancellation options
+ */
+export async function* streamChatCompletion(
+  request: ChatCompletionRequest,
+  options: ChatStreamOptions = {},
+): AsyncGenerator<string, void, undefined> {
+  const {
+    signal,
+    transports = DEFAULT_TRANSPORTS,
+    connectTimeoutMs = DEFAULT_CONNECT_TIMEOUT_MS,
+    retries = DEFAULT_RETRIES,
+    retryDelayMs = DEFAULT_RETRY_DELAY_MS,
+    label = 'chat completion',
+  } = options;
+
+  let lastError: unknown = null;
+
+  for (const transport of transports) {
+    for (let attempt = 0; attempt <= retries; attempt++) {
+      if (signal?.aborted) throw createAbortError();
+      if (attempt > 0) {
+        await sleep(retryDelayMs * 2 ** (attempt - 1), signal);
+      }
+
+      let received = false;
+      try {
+        const source = transport === 'websocket'
+          ? webSocketStream(request, signal, connectTimeoutMs, label)
+          : httpStream(request, signal);
+        // The start of the response is held back until it is clear it is not an error report
+        let head: string | null = '';
+        for await (const chunk of source) {
+          if (head === null) {
+            received = true;
+            yield chunk;
+            continue;
+          }
+          head += chunk;
+          if (head.length < BACKEND_ERROR_PREFIX_LENGTH || BACKEND_ERROR_PATTERN.test(head)) continue;
+          received = true;
+          yield head;
+          head = null;
+        }
+        if (head !== null && BACKEND_ERROR_PATTERN.test(head)) {
+          throw new ChatStreamError(head.trim(), transport, getBackendErrorStatus(head));
+        }
+        if (head) yield head;
+        return;
+      } catch (err) {
+        if (isAbortError(err)) throw err;
+        if (received) {
+          const message = err instanceof Error ? err.message : 'Stream interrupted';
+          const status = err instanceof ChatStreamError ? err.status : undefined;
+          throw new ChatStreamError(message, transport, status, true);
+        }
+        lastError = err;
+        console.warn(`${transport} attempt ${attempt + 1} failed for ${label}:`, err);
+        if (!isRetryable(err)) break;
+      }
+    }
+  }
+
+  if (lastError instanceof Error) throw lastError;
+  throw new ChatStreamError(`All transports failed for ${label}`, transports[transports.length - 1] ?? 'http');
+}
+
+/**
+ * Streams a chat completion and resolves with the full response text.
+ * @param request The chat completion request
+ * @param options Stream options plus an optional per-chunk callback
+ */
+export async function collectChatCompletion(
+  request: ChatCompletionRequest,
+  options: CollectChatOptions = {},
+): Promise<string> {
+  const { onChunk, ...streamOptions } = options;
+  let text = '';
+  for await (const chunk of streamChatCompletion(request, streamOptions)) {
+    text += chunk;
+    onChunk?.(chunk, text);
+  }
+  return text;
+}
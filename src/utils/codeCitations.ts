@@ -0,0 +1,118 @@
+/**
+ * Source citations in generated wiki pages. The page prompt asks the model to cite the code it describes
+ * as empty links such as `[api/rag.py:10-20]()`; these helpers read them, point them at the code and
+ * load the files they cite.
+ */
+
+import { RepoInfo } from '@/types/repoinfo';
+import { fetchFileContent, fetchFileTree } from '@/utils/repoApi';
+
+// File and line range cited by a page
+export interface CodeCitation {
+  path: string;
+  startLine?: number;
+  endLine?: number;
+}
+
+// Repository and commit the citations of a page refer to
+export interface CitationSource {
+  repoInfo: RepoInfo;
+  token: string;
+  // Commit the wiki was generated at; the default branch when unknown
+  ref: string | null;
+}
+
+const CITATION = /^([^\s:]+?)(?::(\d+)(?:-(\d+))?)?$/;
+
+// Web hosts of the repository types, for repositories without a URL of their own
+export const DEFAULT_HOSTS: Record<string, string> = {
+  github: 'https://github.com',
+  gitlab: 'https://gitlab.com',
+  bitbucket: 'https://bitbucket.org',
+};
+
+/**
+ * The file and lines cited by the text of a citation link, or null when the text is not a citation.
+ * @param text Link text, e.g. "src/app.ts:10-20", "src/app.ts:5" or "src/app.ts"
+ */
+export function parseCitation(text: string): CodeCitation | null {
+  const match = CITATION.exec(text.trim());
+  if (!match) return null;
+  const [, rawPath, start, end] = match;
+  const path = rawPath.replace(/^\.?\//, '');
+  if (!path) return null;
+  const startLine = start ? parseInt(start, 10) : undefined;
+  const endLine = end ? parseInt(end, 10) : startLine;
+  return { path, startLine, endLine: endLine !== undefined && startLine !== undefined && endLine < startLine ? startLine : endLine };
+}
+
+/**
+ * Repository a citation of a combined wiki points into, and the citation within it, or null when it names none
+ * of the repositories. Combined wikis qualify citations with the repository, as in `[acme/api/src/app.ts:10-20]()`.
+ * @param citation Citation as parsed from the page
+ * @param sources Repositories covered by the wiki
+ */
+export function resolveRepoCitation(
+  citation: CodeCitation,
+  sources: CitationSource[],
+): { source: CitationSource; citation: CodeCitation } | null {
+  for (const source of sources) {
+    const prefix = `${source.repoInfo.owner}/${source.repoInfo.repo}/`;
+    if (citation.path.startsWith(prefix) && citation.path.length > prefix.length) {
+      return { source, citation: { ...citation, path: citation.path.slice(prefix.length) } };
+    }
+  }
+  return null;
+}
+
+/**
+ * Web page showing the cited lines on the repository's host, or null for local repositories.
+ * @param repoInfo Repository the citation refers to
+ * @param ref Commit to show; the default branch when null
+ * @param citation Cited file and lines
+ */
+export function getCitationUrl(repoInfo: RepoInfo, ref: string | null, citation: CodeCitation): string | null {
+  const host = DEFAULT_HOSTS[repoInfo.type];
+  if (!host) return null;
+  const base = repoInfo.repoUrl
+    ? repoInfo.repoUrl.replace(/\/+$/, '').replace(/\.git$/, '')
+    : `${host}/${repoInfo.owner}/${repoInfo.repo}`;
+  const path = citation.path.split('/').map(encodeURIComponent).join('/');
+  const commit = encodeURIComponent(ref ?? 'HEAD');
+  const { startLine: start, endLine: end } = citation;
+
+  switch (repoInfo.type) {
+    case 'github':
+      return `${base}/blob/${commit}/${path}${start ? `#L${start}${end && end !== start ? `-L${end}` : ''}` : ''}`;
+    case 'gitlab':
+      return `${base}/-/blob/${commit}/${path}${start ? `#L${start}${end && end !== start ? `-${end}` : ''}` : ''}`;
+    default:
+      return `${base}/src/${commit}/${path}${start ? `#lines-${start}${end && end !== start ? `:${end}` : ''}` : ''}`;
+  }
+}
+
+// Files and file trees read for the session, so each is only fetched once
+const fileCache = new Map<string, Promise<string>>();
+const treeCache = new Map<string, Promise<string[]>>();
+
+const getSourceKey = ({ repoInfo, ref }: CitationSource) =>
+  `${repoInfo.type}:${repoInfo.localPath ?? `${repoInfo.owner}/${repoInfo.repo}`}@${ref ?? ''}`;
+
+const cached = <T>(cache: Map<string, Promise<T>>, key: string, load: () => Promise<T>): Promise<T> => {
+  if (!cache.has(key)) {
+    cache.set(key, load().catch(err => {
+      // Let a later call try again
+      cache.delete(key);
+      throw err;
+    }));
+  }
+  return cache.get(key)!;
+};
+
+/** Content of a file of the repository the citations refer to */
+export const loadSourceFile = (source: CitationSource, path: string): Promise<string> =>
+  cached(fileCache, `${getSourceKey(source)}:${path}`, () => fetchFileContent(source.repoInfo, source.token, source.ref, path));
+
+/** Paths of the files of the repository the citations refer to */
+export const loadSourceTree = (source: CitationSource): Promise<string[]> =>
+  cached(treeCache, getSourceKey(source), () => fetchFileTree(source.repoInfo, source.token, source.ref));
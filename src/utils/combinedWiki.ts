@@ -0,0 +1,82 @@
+/**
+ * Combined wikis document several repositories of an organization together. They are cached like the wiki
+ * of a single repository, under an owner and a name chosen for the wiki with the repository type `multi`,
+ * and open at `/wiki/combined/[owner]/[name]`.
+ */
+
+import RepoInfo from '@/types/repoinfo';
+import { WikiCacheKey, WikiCacheRepo } from '@/types/wiki/wikicache';
+import { DEFAULT_HOSTS } from '@/utils/codeCitations';
+
+export const COMBINED_WIKI_TYPE = 'multi';
+
+/**
+ * Name of a combined wiki as used in its URL and cache key, e.g. "Payments Platform" becomes "payments-platform".
+ * @param name Name as entered
+ */
+export const slugifyWikiName = (name: string): string =>
+  name.trim().toLowerCase().replace(/[^a-z0-9.-]+/g, '-').replace(/^-+|-+$/g, '');
+
+/** Name of a repository as its files are qualified in a combined wiki, e.g. "acme/api" */
+export const getRepoLabel = ({ owner, repo }: Pick<WikiCacheRepo, 'owner' | 'repo'>): string => `${owner}/${repo}`;
+
+/**
+ * A repository in the `repos` query parameter: `type:owner/repo`, followed by `@ref` when a ref is set.
+ * @param repo Repository of the wiki
+ */
+export const formatRepoSpec = ({ type, owner, repo, ref }: WikiCacheRepo): string =>
+  `${type}:${owner}/${repo}${ref ? `@${ref}` : ''}`;
+
+/**
+ * Reads a repository written by `formatRepoSpec`, or returns null when it is malformed.
+ * @param spec Repository from the `repos` query parameter
+ */
+export function parseRepoSpec(spec: string): WikiCacheRepo | null {
+  const match = /^([a-z]+):([^/\s@]+)\/([^/\s@]+)(?:@(.+))?$/.exec(spec.trim());
+  if (!match) return null;
+  const [, type, owner, repo, ref] = match;
+  const host = DEFAULT_HOSTS[type];
+  return { type, owner, repo, repo_url: host ? `${host}/${owner}/${repo}` : null, ref: ref || null };
+}
+
+/** Cache key of a combined wiki */
+export const getCombinedWikiKey = (owner: string, name: string, language: string): WikiCacheKey =>
+  ({ owner, repo: name, repo_type: COMBINED_WIKI_TYPE, language });
+
+/**
+ * Route of a combined wiki. Without repositories it opens the cached wiki; with them, a wiki not cached yet
+ * is generated for those repositories.
+ * @param owner Owner of the wiki, usually the organization of its repositories
+ * @param name Name of the wiki as returned by `slugifyWikiName`
+ * @param language Language of the wiki
+ * @param repos Repositories to cover
+ */
+export function getCombinedWikiUrl(owner: string, name: string, language: string, repos: WikiCacheRepo[] = []): string {
+  const params = new URLSearchParams({ language });
+  if (repos.length > 0) {
+    params.append('repos', repos.map(formatRepoSpec).join(','));
+  }
+  return `/wiki/combined/${encodeURIComponent(owner)}/${encodeURIComponent(name)}?${params.toString()}`;
+}
+
+/**
+ * Repository of a combined wiki as the repository APIs and wiki routes expect it.
+ * @param repo Repository of the wiki
+ * @param token Access token for private repositories
+ */
+export const toRepoInfo = (repo: WikiCacheRepo, token: string | null): RepoInfo => ({
+  owner: repo.owner,
+  repo: repo.repo,
+  type: repo.type,
+  token,
+  localPath: null,
+  repoUrl: repo.repo_url ?? null,
+  ref: repo.ref ?? null,
+});
+
+/**
+ * A repository of the GitHub repository lists of a user, as a repository of a combined wiki.
+ * @param repo Repository as listed in the user's profile
+ */
+export const fromGitHubRepo = ({ owner, name, html_url }: { owner: string; name: string; html_url: string }): WikiCacheRepo =>
+  ({ type: 'github', owner, repo: name, repo_url: html_url, ref: null });
@@ -0,0 +1,111 @@
+/**
+ * Attaches comment threads to ranges of page content and finds those ranges again after the
+ * page was edited. Offsets alone go stale with the first edit above a range, so an anchor also
+ * keeps its text and the text around it.
+ */
+
+import { CommentAnchor } from '@/types/wiki/wikicomment';
+
+// Characters of surrounding text kept on each side of an anchor
+const CONTEXT_LENGTH = 32;
+
+// How far apart the surrounding text may end up when the anchored text itself was edited
+const MAX_EDITED_GROWTH = 500;
+
+// Characters of surrounding text an occurrence of the anchored text must share to be taken as it
+const MIN_CONTEXT_MATCH = 8;
+
+/**
+ * Creates the anchor of a range of `content`.
+ * @param content Page content the range was selected in
+ * @param range Selected range
+ */
+export function createAnchor(content: string, range: { start: number; end: number }): CommentAnchor {
+  return {
+    text: content.slice(range.start, range.end),
+    start: range.start,
+    end: range.end,
+    prefix: content.slice(Math.max(0, range.start - CONTEXT_LENGTH), range.start),
+    suffix: content.slice(range.end, range.end + CONTEXT_LENGTH),
+  };
+}
+
+/**
+ * Finds a range of `content` that is not rendered differently from its markdown source,
+ * such as text selected in a rendered page, and anchors it. Returns null when the text is not
+ * in the source as it is, for example when it spans formatting.
+ * @param content Markdown source of the page
+ * @param text Selected text
+ */
+export function anchorText(content: string, text: string): CommentAnchor | null {
+  const start = content.indexOf(text);
+  if (!text.trim() || start === -1) return null;
+  return createAnchor(content, { start, end: start + text.length });
+}
+
+const commonSuffixLength = (a: string, b: string) => {
+  let length = 0;
+  while (length < a.length && length < b.length && a[a.length - 1 - length] === b[b.length - 1 - length]) {
+    length++;
+  }
+  return length;
+};
+
+const commonPrefixLength = (a: string, b: string) => {
+  let length = 0;
+  while (length < a.length && length < b.length && a[length] === b[length]) {
+    length++;
+  }
+  return length;
+};
+
+/**
+ * Finds where an anchor is in the current content. Returns null when the anchored text and
+ * the text around it are both gone, in which case the thread is shown as detached.
+ * @param content Current page content
+ * @param anchor Anchor created when the thread was started
+ */
+export function resolveAnchor(content: string, anchor: CommentAnchor): { start: number; end: number } | null {
+  const { text, prefix, suffix } = anchor;
+  if (content.slice(anchor.start, anchor.end) === text
+    && content.slice(anchor.start - prefix.length, anchor.start) === prefix) {
+    return { start: anchor.start, end: anchor.end };
+  }
+
+  // The anchored text is still there: take the occurrence whose surroundings match best,
+  // and of those the one closest to where it was
+  let found: { start: number; score: number; distance: number } | null = null;
+  if (text) {
+    for (let start = content.indexOf(text); start !== -1; start = content.indexOf(text, start + 1)) {
+      const score = commonSuffixLength(content.slice(0, start), prefix)
+        + commonPrefixLength(content.slice(start + text.length), suffix);
+      const distance = Math.abs(start - anchor.start);
+      if (!found || score > found.score || (score === found.score && distance < found.distance)) {
+        found = { start, score, distance };
+      }
+    }
+  }
+  if (found && found.score >= Math.min(MIN_CONTEXT_MATCH, prefix.length + suffix.length)) {
+    return { start: found.start, end: found.start + text.length };
+  }
+
+  // The anchored text was edited: take what is now between the text that surrounded it
+  if (prefix && suffix) {
+    let best: { start: number; end: number; distance: number } | null = null;
+    for (let at = content.indexOf(prefix); at !== -1; at = content.indexOf(prefix, at + 1)) {
+      const start = at + prefix.length;
+      const end = content.indexOf(suffix, start);
+      if (end === -1 || end - start > text.length + MAX_EDITED_GROWTH) continue;
+      const distance = Math.abs(start - anchor.start);
+      if (!best || distance < best.distance) {
+        best = { start, end, distance };
+      }
+    }
+    if (best && best.end > best.start) {
+      return { start: best.start, end: best.end };
+    }
+  }
+
+  // Otherwise an occurrence of the text in other surroundings is the best guess
+  return found ? { start: found.start, end: found.start + text.length } : null;
+}
@@ -0,0 +1,501 @@
+/**
+ * Wiki configuration a repository declares in a .deepwiki.yml file at its root: which files to document,
+ * pages and sections the wiki must have, a glossary, the default language and model, and extra instructions
+ * for the model. For example:
+ *
+ *   include: [src/, docs/]
+ *   exclude:
+ *     - "*.test.ts"
+ *   sections:
+ *     - title: Architecture
+ *       pages:
+ *         - title: Request Lifecycle
+ *           description: From the HTTP handler to the database
+ *           files: [src/server.ts, src/db.ts]
+ *   pages:
+ *     - Deployment
+ *   glossary:
+ *     Tenant: An organization with its own database schema
+ *   language: ja
+ *   provider: openai
+ *   model: gpt-4o
+ *   instructions: |
+ *     Write for operators rather than contributors.
+ *
+ * Only the part of YAML such files need is understood: nested mappings, block and flow lists,
+ * quoted and plain strings, block scalars and comments.
+ */
+
+import { locales } from '@/i18n';
+import { DeepWikiConfig, DeepWikiConfigPage, RepoConfigFile } from '@/types/deepwikiconfig';
+import RepoInfo from '@/types/repoinfo';
+import { WikiPage } from '@/types/wiki/wikipage';
+import { WikiSection, WikiStructure } from '@/types/wiki/wikistructure';
+import { fetchFileContent } from '@/utils/repoApi';
+import { ChatCompletionRequest } from '@/utils/websocketClient';
+
+// Names the configuration file is looked up under, in order
+export const CONFIG_FILES = ['.deepwiki.yml', '.deepwiki.yaml'];
+
+const emptyConfig = (): DeepWikiConfig => ({ include: [], exclude: [], sections: [], pages: [], glossary: {} });
+
+type YamlValue = string | null | YamlValue[] | { [key: string]: YamlValue };
+
+interface YamlLine {
+  number: number;
+  indent: number;
+  text: string;
+}
+
+class YamlSyntaxError extends Error {
+  constructor(line: number, message: string) {
+    super(`Line ${line}: ${message}`);
+    this.name = 'YamlSyntaxError';
+  }
+}
+
+// Drops a comment, i.e. a # at the start or after whitespace outside of quotes
+const stripComment = (text: string): string => {
+  let quote: string | null = null;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quote) {
+      if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '#' && (i === 0 || /\s/.test(text[i - 1]))) {
+      return text.slice(0, i).trimEnd();
+    }
+  }
+  return text.trimEnd();
+};
+
+// Splits a flow list on the commas outside of quotes
+const splitFlowItems = (text: string): string[] => {
+  const items: string[] = [];
+  let quote: string | null = null;
+  let start = 0;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quote) {
+      if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === ',') {
+      items.push(text.slice(start, i));
+      start = i + 1;
+    }
+  }
+  items.push(text.slice(start));
+  return items.map(item => item.trim()).filter(Boolean);
+};
+
+const parseScalar = (text: string): YamlValue => {
+  const value = text.trim();
+  if (value === '' || value === '~' || value === 'null') return null;
+  if (value.startsWith('[') && value.endsWith(']')) {
+    return splitFlowItems(value.slice(1, -1)).map(parseScalar);
+  }
+  if (value === '{}') return {};
+  if (value.length >= 2 && value.startsWith('"') && value.endsWith('"')) {
+    return value.slice(1, -1).replace(/\\(["\\n])/g, (_, char) => (char === 'n' ? '\n' : char));
+  }
+  if (value.length >= 2 && value.startsWith("'") && value.endsWith("'")) {
+    return value.slice(1, -1).replace(/''/g, "'");
+  }
+  return value;
+};
+
+// A key of a mapping entry and the rest of the line, or null when the line is not a mapping entry
+const splitEntry = (text: string): [string, string] | null => {
+  const match = /^("[^"]*"|'[^']*'|[^\s"'#][^:]*?)\s*:(?:\s+(.*))?$/.exec(text);
+  if (!match) return null;
+  return [String(parseScalar(match[1])), match[2] ?? ''];
+};
+
+const isListItem = (text: string) => text === '-' || text.startsWith('- ');
+
+/** Parses the subset of YAML described above; throws YamlSyntaxError when the text is outside of it. */
+function parseYaml(source: string): YamlValue {
+  const rawLines = source.replace(/\r\n?/g, '\n').split('\n');
+  const lines: YamlLine[] = [];
+  rawLines.forEach((raw, index) => {
+    const text = stripComment(raw);
+    if (text.trim() === '' || text.trim() === '---') return;
+    if (/^\s*\t/.test(raw)) throw new YamlSyntaxError(index + 1, 'tabs cannot be used for indentation');
+    lines.push({ number: index + 1, indent: text.length - text.trimStart().length, text: text.trim() });
+  });
+  let position = 0;
+
+  // Lines of a block scalar are read from the source, so comments and blank lines inside it are kept
+  const readBlockScalar = (parent: YamlLine, style: string): string => {
+    const start = parent.number;
+    const blockLines: string[] = [];
+    let indent = -1;
+    let lineIndex = start;
+    for (; lineIndex < rawLines.length; lineIndex++) {
+      const raw = rawLines[lineIndex];
+      if (raw.trim() === '') {
+        blockLines.push('');
+        continue;
+      }
+      const lineIndent = raw.length - raw.trimStart().length;
+      if (lineIndent <= parent.indent) break;
+      if (indent < 0) indent = lineIndent;
+      blockLines.push(raw.slice(Math.min(indent, lineIndent)));
+    }
+    while (position < lines.length && lines[position].number <= lineIndex) position++;
+    const text = blockLines.join('\n').replace(/\n+$/, '');
+    return style.startsWith('>') ? text.replace(/([^\n])\n(?=[^\n])/g, '$1 ') : text;
+  };
+
+  // Value of an entry whose text after the key or dash is `rest`
+  const parseValue = (line: YamlLine, rest: string, indent: number): YamlValue => {
+    if (/^[|>][+-]?$/.test(rest)) return readBlockScalar(line, rest);
+    if (rest !== '') return parseScalar(rest);
+    const next = lines[position];
+    // A list may sit at the same indentation as the key it belongs to
+    if (next && (next.indent > indent || (next.indent === indent && isListItem(next.text)))) {
+      return parseBlock(next.indent);
+    }
+    return null;
+  };
+
+  const parseList = (indent: number): YamlValue[] => {
+    const items: YamlValue[] = [];
+    while (position < lines.length && lines[position].indent === indent && isListItem(lines[position].text)) {
+      const line = lines[position];
+      const rest = line.text.slice(1).trim();
+      if (rest !== '' && splitEntry(rest) && !rest.startsWith('[')) {
+        // A mapping starting on the line of its dash: read it as if the dash were indentation
+        const itemIndent = indent + (line.text.length - rest.length);
+        lines[position] = { ...line, indent: itemIndent, text: rest };
+        items.push(parseMapping(itemIndent));
+      } else {
+        position++;
+        items.push(parseValue(line, rest, indent + 1));
+      }
+    }
+    return items;
+  };
+
+  const parseMapping = (indent: number): { [key: string]: YamlValue } => {
+    const mapping: { [key: string]: YamlValue } = {};
+    while (position < lines.length && lines[position].indent === indent && !isListItem(lines[position].text)) {
+      const line = lines[position];
+      const entry = splitEntry(line.text);
+      if (!entry) throw new YamlSyntaxError(line.number, `expected "key: value", found "${line.text}"`);
+      position++;
+      const [key, rest] = entry;
+      mapping[key] = parseValue(line, rest, indent);
+    }
+    return mapping;
+  };
+
+  const parseBlock = (indent: number): YamlValue => {
+    const value = isListItem(lines[position].text) ? parseList(indent) : parseMapping(indent);
+    const next = lines[position];
+    if (next && next.indent > indent) {
+      throw new YamlSyntaxError(next.number, 'unexpected indentation');
+    }
+    return value;
+  };
+
+  if (lines.length === 0) return null;
+  const value = parseBlock(lines[0].indent);
+  if (position < lines.length) {
+    throw new YamlSyntaxError(lines[position].number, `unexpected "${lines[position].text}"`);
+  }
+  return value;
+}
+
+const isMapping = (value: YamlValue): value is { [key: string]: YamlValue } =>
+  value !== null && typeof value === 'object' && !Array.isArray(value);
+
+/**
+ * Reads the text of a configuration file. Entries that are not understood are left out and reported as
+ * warnings; a file that is not valid YAML gives an empty configuration and a single warning.
+ * @param text Content of the file
+ */
+export function parseDeepWikiConfig(text: string): { config: DeepWikiConfig; warnings: string[] } {
+  const warnings: string[] = [];
+  let root: YamlValue;
+  try {
+    root = parseYaml(text);
+  } catch (err) {
+    return { config: emptyConfig(), warnings: [err instanceof Error ? err.message : String(err)] };
+  }
+  if (root === null) return { config: emptyConfig(), warnings };
+  if (!isMapping(root)) {
+    return { config: emptyConfig(), warnings: ['The file must be a mapping of settings.'] };
+  }
+
+  const readString = (value: YamlValue, name: string): string | undefined => {
+    if (typeof value === 'string' && value.trim()) return value.trim();
+    if (value !== null) warnings.push(`"${name}" must be a text.`);
+    return undefined;
+  };
+  const readStrings = (value: YamlValue, name: string): string[] => {
+    if (typeof value === 'string') return [value];
+    if (Array.isArray(value)) {
+      return value.filter((item): item is string => {
+        if (typeof item === 'string' && item !== '') return true;
+        warnings.push(`"${name}" must only list texts.`);
+        return false;
+      });
+    }
+    if (value !== null) warnings.push(`"${name}" must be a list.`);
+    return [];
+  };
+  const readPages = (value: YamlValue, name: string): DeepWikiConfigPage[] => {
+    if (value === null) return [];
+    if (!Array.isArray(value)) {
+      warnings.push(`"${name}" must be a list.`);
+      return [];
+    }
+    return value.flatMap((item): DeepWikiConfigPage[] => {
+      if (typeof item === 'string') return [{ title: item, files: [] }];
+      const title = isMapping(item) && typeof item.title === 'string' ? item.title.trim() : '';
+      if (!isMapping(item) || !title) {
+        warnings.push(`Every page of "${name}" needs a title.`);
+        return [];
+      }
+      const description = item.description === undefined ? undefined : readString(item.description, `${name}.description`);
+      return [{
+        title,
+        ...(description ? { description } : {}),
+        files: item.files === undefined ? [] : readStrings(item.files, `${name}.files`),
+      }];
+    });
+  };
+
+  const config: DeepWikiConfig = emptyConfig();
+  for (const [key, value] of Object.entries(root)) {
+    switch (key) {
+      case 'include':
+      case 'exclude':
+        config[key] = readStrings(value, key);
+        break;
+      case 'pages':
+        config.pages = readPages(value, key);
+        break;
+      case 'sections':
+        if (!Array.isArray(value)) {
+          if (value !== null) warnings.push('"sections" must be a list.');
+          break;
+        }
+        config.sections = value.flatMap(item => {
+          const title = isMapping(item) && typeof item.title === 'string' ? item.title.trim() : '';
+          if (!isMapping(item) || !title) {
+            warnings.push('Every section needs a title.');
+            return [];
+          }
+          return [{ title, pages: item.pages === undefined ? [] : readPages(item.pages, `${title}.pages`) }];
+        });
+        break;
+      case 'glossary':
+        if (!isMapping(value)) {
+          if (value !== null) warnings.push('"glossary" must map terms to their meaning.');
+          break;
+        }
+        for (const [term, meaning] of Object.entries(value)) {
+          const definition = readString(meaning, `glossary.${term}`);
+          if (definition) config.glossary[term] = definition;
+        }
+        break;
+      case 'language': {
+        const language = readString(value, key);
+        if (language && locales.includes(language)) {
+          config.language = language;
+        } else if (language) {
+          warnings.push(`Language "${language}" is not supported; use one of ${locales.join(', ')}.`);
+        }
+        break;
+      }
+      case 'provider':
+      case 'model':
+      case 'instructions':
+        config[key] = readString(value, key);
+        break;
+      default:
+        warnings.push(`Unknown setting "${key}" is ignored.`);
+    }
+  }
+  if (config.model && !config.provider) {
+    warnings.push('"model" is ignored without a "provider".');
+    delete config.model;
+  }
+  return { config, warnings };
+}
+
+/**
+ * Reads a configuration file, as fetched from the repository or kept with a cached wiki.
+ * @param fileName Name of the file in the repository
+ * @param content Text of the file
+ */
+export const readRepoConfigFile = (fileName: string, content: string): RepoConfigFile =>
+  ({ fileName, content, ...parseDeepWikiConfig(content) });
+
+/**
+ * Fetches the configuration file of a repository, or returns null when it has none or it cannot be read.
+ * @param repoInfo Repository to read from
+ * @param token Access token for private repositories
+ * @param files Paths of the files of the repository when already listed, so only a file that exists is fetched
+ */
+export async function loadRepoConfig(repoInfo: RepoInfo, token: string, files?: string[]): Promise<RepoConfigFile | null> {
+  for (const fileName of files ? CONFIG_FILES.filter(name => files.includes(name)) : CONFIG_FILES) {
+    try {
+      return readRepoConfigFile(fileName, await fetchFileContent(repoInfo, token, repoInfo.ref ?? null, fileName));
+    } catch (err) {
+      // Without a file list, a missing file is the usual case
+      if (files) console.warn(`Could not read ${fileName}, generating without it:`, err);
+    }
+  }
+  return null;
+}
+
+// Regular expression of a glob pattern, with the gitignore conventions described at matchesGlob
+const globToRegExp = (pattern: string): RegExp => {
+  let glob = pattern.trim().replace(/^\.\//, '');
+  // A pattern with a slash other than a trailing one is relative to the root, otherwise it matches at any level
+  const anchored = glob.replace(/\/+$/, '').includes('/');
+  glob = glob.replace(/^\/+/, '').replace(/\/+$/, '');
+  let source = '';
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === '*' && glob[i + 1] === '*') {
+      const slash = glob[i + 2] === '/';
+      source += slash ? '(?:.*/)?' : '.*';
+      i += slash ? 2 : 1;
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${anchored ? '' : '(?:.*/)?'}${source}(?:/.*)?$`);
+};
+
+/**
+ * Whether a file matches a glob pattern, the way .gitignore patterns match: `*` and `?` stay within a
+ * directory and `**` spans directories; a pattern naming a directory matches the files under it; and a pattern
+ * without a slash before its end, such as `*.md` or `docs/`, matches at any level while `src/docs` or `/docs` is
+ * relative to the root.
+ * @param file Path of the file, relative to the repository root
+ * @param pattern Glob pattern
+ */
+export const matchesGlob = (file: string, pattern: string): boolean => globToRegExp(pattern).test(file);
+
+/**
+ * Whether the configuration keeps a file in the wiki
+ * @param config Configuration of the repository
+ * @param file Path of the file, relative to the repository root
+ */
+export const isFileIncluded = (config: DeepWikiConfig, file: string): boolean =>
+  (config.include.length === 0 || config.include.some(pattern => matchesGlob(file, pattern))) &&
+  !config.exclude.some(pattern => matchesGlob(file, pattern));
+
+/** Adds the file filters of the configuration to a chat request, so retrieval only sees the included files */
+export function addConfigFiltersToRequest(requestBody: ChatCompletionRequest, config: DeepWikiConfig | null): void {
+  if (!config) return;
+  if (config.include.length > 0) requestBody.included_globs = config.include.join('\n');
+  if (config.exclude.length > 0) requestBody.excluded_globs = config.exclude.join('\n');
+}
+
+const describePage = (page: DeepWikiConfigPage, indent: string): string =>
+  `${indent}- Page "${page.title}"${page.description ? `: ${page.description}` : ''}` +
+  (page.files.length > 0 ? ` (relevant files: ${page.files.join(', ')})` : '');
+
+const describeGlossary = (glossary: Record<string, string>): string => {
+  const terms = Object.entries(glossary);
+  if (terms.length === 0) return '';
+  return `\nUse these project terms consistently and with these meanings:\n${terms.map(([term, meaning]) => `- ${term}: ${meaning}`).join('\n')}\n`;
+};
+
+const describeInstructions = (instructions?: string): string =>
+  instructions ? `\nInstructions from the repository maintainers:\n${instructions}\n` : '';
+
+/** Part of the wiki structure prompt asking for the outline, terms and instructions of the configuration */
+export function describeConfigForStructure(config: DeepWikiConfig | null): string {
+  if (!config) return '';
+  const outline = [
+    ...config.sections.flatMap(section => [
+      `- Section "${section.title}"`,
+      ...section.pages.map(page => describePage(page, '  ')),
+    ]),
+    ...config.pages.map(page => describePage(page, '')),
+  ];
+  const required = outline.length > 0
+    ? `\nThe repository maintainers require the following sections and pages. Include each of them with exactly this title, ` +
+      `use the listed files as their relevant files, and add further pages only where they cover something else:\n${outline.join('\n')}\n`
+    : '';
+  return `${required}${describeGlossary(config.glossary)}${describeInstructions(config.instructions)}`;
+}
+
+/** Part of a page prompt with what the configuration says about the page, its terms and instructions */
+export function describeConfigForPage(config: DeepWikiConfig | null, pageTitle: string): string {
+  if (!config) return '';
+  const required = findRequiredPage(config, pageTitle);
+  const scope = required?.description ? `\nThe repository maintainers describe this page as: ${required.description}\n` : '';
+  return `${scope}${describeGlossary(config.glossary)}${describeInstructions(config.instructions)}`;
+}
+
+const sameTitle = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+const findRequiredPage = (config: DeepWikiConfig, title: string): DeepWikiConfigPage | undefined =>
+  [...config.sections.flatMap(section => section.pages), ...config.pages].find(page => sameTitle(page.title, title));
+
+/**
+ * Makes sure a generated structure has the sections and pages the configuration requires, adding the ones the
+ * model left out and the files listed for them. Pages of a structure without sections are kept flat.
+ * @param structure Structure returned by the model
+ * @param config Configuration of the repository
+ */
+export function applyRequiredOutline(structure: WikiStructure, config: DeepWikiConfig): WikiStructure {
+  const pages = [...structure.pages];
+  const sections = structure.sections.map(section => ({ ...section, pages: [...section.pages] }));
+  const rootSections = [...structure.rootSections];
+
+  const nextId = (prefix: string, taken: { id: string }[]) => {
+    let n = taken.length + 1;
+    while (taken.some(item => item.id === `${prefix}-${n}`)) n++;
+    return `${prefix}-${n}`;
+  };
+
+  // Adds a required page the model left out, to the given section; a page it did include gets the listed files
+  const ensurePage = (required: DeepWikiConfigPage, section?: WikiSection) => {
+    const index = pages.findIndex(page => sameTitle(page.title, required.title));
+    if (index >= 0) {
+      pages[index] = { ...pages[index], filePaths: [...new Set([...required.files, ...pages[index].filePaths])] };
+      return;
+    }
+    const page: WikiPage = {
+      id: nextId('config-page', pages),
+      title: required.title,
+      content: '',
+      filePaths: required.files,
+      importance: 'high',
+      relatedPages: [],
+      ...(section ? { parentId: section.id } : {}),
+    };
+    pages.push(page);
+    section?.pages.push(page.id);
+  };
+
+  config.sections.forEach(requiredSection => {
+    let section = sections.find(s => sameTitle(s.title, requiredSection.title));
+    if (!section && sections.length > 0) {
+      section = { id: nextId('config-section', sections), title: requiredSection.title, pages: [] };
+      sections.push(section);
+      rootSections.push(section.id);
+    }
+    requiredSection.pages.forEach(page => ensurePage(page, section));
+  });
+  // Pages required outside of a section go to the first top-level section when the wiki has sections
+  const rootSection = sections.find(section => section.id === rootSections[0]);
+  config.pages.forEach(page => ensurePage(page, rootSection));
+
+  return { ...structure, pages, sections, rootSections };
+}
@@ -0,0 +1,84 @@
+/**
+ * Reads and writes the editor memory kept in a user's profile through /api/user/editor-memory,
+ * so remembered edits and writing preferences follow the user across browsers and devices.
+ * Requests carry the user's Supabase session, since only the user themselves can access their memory.
+ */
+
+import { getSessionHeaders } from '@/lib/supabase';
+import { EditMemory, RepoEditorMemory, UserPreferences } from '@/types/editormemory';
+
+// Repository a memory belongs to
+export interface EditorMemoryRepo {
+  owner: string;
+  repo: string;
+  repo_type: string;
+}
+
+/** Key of a repository in the memory returned by `fetchEditorMemory` */
+export const getEditorMemoryKey = ({ owner, repo, repo_type }: EditorMemoryRepo): string =>
+  `${repo_type}_${owner}_${repo}`;
+
+/** Edits as stored in the profile: page snapshots stay in the browser */
+export const withoutSnapshots = (edits: EditMemory[]): EditMemory[] =>
+  edits.map(({ id, timestamp, prompt, response, pageId }) => ({ id, timestamp, prompt, response, pageId }));
+
+const memoryUrl = (userId: string, repo?: EditorMemoryRepo) => {
+  const params = repo ? `?${new URLSearchParams({ ...repo }).toString()}` : '';
+  return `/api/user/editor-memory/${encodeURIComponent(userId)}${params}`;
+};
+
+/**
+ * Loads the memory of a user, keyed by `getEditorMemoryKey`.
+ * @param userId Signed-in user
+ * @param repo Only load the memory of this repository
+ */
+export async function fetchEditorMemory(userId: string, repo?: EditorMemoryRepo): Promise<Record<string, RepoEditorMemory>> {
+  const response = await fetch(memoryUrl(userId, repo), { cache: 'no-store', headers: await getSessionHeaders() });
+  if (!response.ok) {
+    throw new Error(`Failed to fetch editor memory: ${response.status} ${await response.text()}`);
+  }
+  return response.json();
+}
+
+/**
+ * Replaces the memory of a user for one repository.
+ * @param userId Signed-in user
+ * @param repo Repository the memory belongs to
+ * @param edits Remembered edits, oldest first
+ * @param preferences Writing preferences
+ */
+export async function saveEditorMemory(
+  userId: string,
+  repo: EditorMemoryRepo,
+  edits: EditMemory[],
+  preferences: UserPreferences,
+): Promise<RepoEditorMemory> {
+  const response = await fetch(memoryUrl(userId), {
+    method: 'PUT',
+    headers: {
+      'Content-Type': 'application/json',
+      ...await getSessionHeaders(),
+    },
+    body: JSON.stringify({
+      ...repo,
+      edits: withoutSnapshots(edits),
+      preferences,
+    }),
+  });
+  if (!response.ok) {
+    throw new Error(`Failed to save editor memory: ${response.status} ${await response.text()}`);
+  }
+  return response.json();
+}
+
+/**
+ * Forgets the memory of a user for one repository, or for all of them.
+ * @param userId Signed-in user
+ * @param repo Repository to forget; every repository when not set
+ */
+export async function clearEditorMemory(userId: string, repo?: EditorMemoryRepo): Promise<void> {
+  const response = await fetch(memoryUrl(userId, repo), { method: 'DELETE', headers: await getSessionHeaders() });
+  if (!response.ok) {
+    throw new Error(`Failed to clear editor memory: ${response.status} ${await response.text()}`);
+  }
+}
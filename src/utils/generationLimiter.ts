@@ -0,0 +1,109 @@
+/**
+ * Concurrency and rate limits for wiki page generation.
+ *
+ * Limits are configured per provider in generator.json (optionally overridden
+ * per model) and served by /api/models/config.
+ */
+
+import { ChatStreamError, sleep } from '@/utils/chatStreamClient';
+
+export interface RateLimits {
+  /** Maximum number of pages generated in parallel */
+  maxConcurrent: number;
+  /** Sustained request rate; unlimited when not set */
+  requestsPerMinute?: number | null;
+}
+
+interface ModelConfigResponse {
+  providers: {
+    id: string;
+    rateLimits?: RateLimits;
+    models: { id: string; rateLimits?: RateLimits | null }[];
+  }[];
+  defaultProvider: string;
+}
+
+export const DEFAULT_RATE_LIMITS: RateLimits = { maxConcurrent: 1, requestsPerMinute: null };
+
+const BACKOFF_BASE_MS = 2000;
+const BACKOFF_MAX_MS = 60000;
+
+/**
+ * Looks up the generation limits for a provider and model.
+ * Custom models use the limits of their provider. Falls back to sequential generation
+ * when the configuration cannot be loaded.
+ * @param provider Provider id, or empty for the default provider
+ * @param model Model id
+ */
+export async function fetchRateLimits(provider: string, model: string): Promise<RateLimits> {
+  try {
+    const response = await fetch('/api/models/config');
+    if (!response.ok) {
+      throw new Error(`Error fetching model configurations: ${response.status}`);
+    }
+    const config: ModelConfigResponse = await response.json();
+    const providerConfig = config.providers.find(p => p.id === (provider || config.defaultProvider));
+    const modelLimits = providerConfig?.models.find(m => m.id === model)?.rateLimits;
+    return modelLimits || providerConfig?.rateLimits || DEFAULT_RATE_LIMITS;
+  } catch (err) {
+    console.warn('Could not load generation limits, generating pages one at a time:', err);
+    return DEFAULT_RATE_LIMITS;
+  }
+}
+
+/**
+ * Token bucket shared by the workers of one generation run.
+ * Bursts up to `maxConcurrent` requests, refills at `requestsPerMinute`, and pauses
+ * every worker with exponential backoff after a rate limit or server error.
+ */
+export class RequestLimiter {
+  private tokens: number;
+  private lastRefill = Date.now();
+  private pausedUntil = 0;
+  private consecutiveFailures = 0;
+
+  constructor(public readonly limits: RateLimits) {
+    this.tokens = Math.max(1, limits.maxConcurrent);
+  }
+
+  private refill() {
+    const now = Date.now();
+    const perMs = (this.limits.requestsPerMinute ?? 0) / 60000;
+    this.tokens = Math.min(Math.max(1, this.limits.maxConcurrent), this.tokens + (now - this.lastRefill) * perMs);
+    this.lastRefill = now;
+  }
+
+  /** Waits until a request may be sent */
+  async acquire(signal?: AbortSignal): Promise<void> {
+    while (true) {
+      const pause = this.pausedUntil - Date.now();
+      if (pause > 0) {
+        await sleep(pause, signal);
+        continue;
+      }
+      if (!this.limits.requestsPerMinute) return;
+
+      this.refill();
+      if (this.tokens >= 1) {
+        this.tokens -= 1;
+        return;
+      }
+      await sleep(Math.ceil((1 - this.tokens) * 60000 / this.limits.requestsPerMinute), signal);
+    }
+  }
+
+  reportSuccess() {
+    this.consecutiveFailures = 0;
+  }
+
+  /** Backs off when the failure was a rate limit or server error */
+  reportFailure(error: unknown) {
+    const status = error instanceof ChatStreamError ? error.status : undefined;
+    if (status === undefined || (status !== 429 && status < 500)) return;
+
+    this.consecutiveFailures++;
+    const delay = Math.min(BACKOFF_BASE_MS * 2 ** (this.consecutiveFailures - 1), BACKOFF_MAX_MS);
+    this.pausedUntil = Math.max(this.pausedUntil, Date.now() + delay);
+    console.warn(`Generation paused for ${delay}ms after a ${status} response`);
+  }
+}
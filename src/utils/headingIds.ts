@@ -0,0 +1,17 @@
+/**
+ * Ids given to the headings of rendered wiki pages, so search results and links can jump to a section.
+ * The search API returns headings as plain text; the same text gives the same id here.
+ */
+
+import React from 'react';
+
+export const headingId = (text: string): string =>
+  text.toLowerCase().trim().replace(/[^a-z0-9\u00c0-\uffff]+/g, '-').replace(/^-+|-+$/g, '');
+
+/** Text of rendered markdown children, as the reader sees it */
+export function nodeText(node: React.ReactNode): string {
+  if (typeof node === 'string' || typeof node === 'number') return String(node);
+  if (Array.isArray(node)) return node.map(nodeText).join('');
+  if (React.isValidElement<{ children?: React.ReactNode }>(node)) return nodeText(node.props.children);
+  return '';
+}
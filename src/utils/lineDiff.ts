@@ -0,0 +1,204 @@
+/**
+ * Line-based diff and three-way merge used to compare and reconcile versions of a markdown page.
+ */
+
+export type DiffRowType = 'same' | 'added' | 'removed' | 'changed';
+
+export interface DiffLine {
+  number: number;
+  text: string;
+}
+
+// One row of a side-by-side diff; a side is missing when the line only exists on the other one
+export interface DiffRow {
+  type: DiffRowType;
+  left?: DiffLine;
+  right?: DiffLine;
+}
+
+export type Edit = { op: 'same' | 'add' | 'remove'; text: string };
+
+// Above this many cells the LCS table is skipped and the differing middle is shown as one change
+const MAX_LCS_CELLS = 4_000_000;
+
+const diffMiddle = (oldLines: string[], newLines: string[]): Edit[] => {
+  const n = oldLines.length;
+  const m = newLines.length;
+  if (n * m > MAX_LCS_CELLS) {
+    return [
+      ...oldLines.map(text => ({ op: 'remove' as const, text })),
+      ...newLines.map(text => ({ op: 'add' as const, text })),
+    ];
+  }
+
+  // lengths[i][j] is the LCS length of oldLines[i..] and newLines[j..]
+  const lengths = Array.from({ length: n + 1 }, () => new Uint32Array(m + 1));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lengths[i][j] = oldLines[i] === newLines[j]
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const edits: Edit[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (oldLines[i] === newLines[j]) {
+      edits.push({ op: 'same', text: oldLines[i] });
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      edits.push({ op: 'remove', text: oldLines[i++] });
+    } else {
+      edits.push({ op: 'add', text: newLines[j++] });
+    }
+  }
+  while (i < n) edits.push({ op: 'remove', text: oldLines[i++] });
+  while (j < m) edits.push({ op: 'add', text: newLines[j++] });
+  return edits;
+};
+
+/**
+ * Shortest edit script turning one list of lines into another.
+ * The common prefix and suffix are matched directly, which keeps the LCS table small.
+ */
+export const computeEdits = (oldLines: string[], newLines: string[]): Edit[] => {
+  let prefix = 0;
+  while (prefix < oldLines.length && prefix < newLines.length && oldLines[prefix] === newLines[prefix]) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (
+    suffix < oldLines.length - prefix &&
+    suffix < newLines.length - prefix &&
+    oldLines[oldLines.length - 1 - suffix] === newLines[newLines.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  return [
+    ...oldLines.slice(0, prefix).map(text => ({ op: 'same' as const, text })),
+    ...diffMiddle(oldLines.slice(prefix, oldLines.length - suffix), newLines.slice(prefix, newLines.length - suffix)),
+    ...oldLines.slice(oldLines.length - suffix).map(text => ({ op: 'same' as const, text })),
+  ];
+};
+
+/**
+ * Compares two texts line by line and pairs removed and added lines into side-by-side rows.
+ * @param oldText Text shown on the left
+ * @param newText Text shown on the right
+ */
+export function diffLines(oldText: string, newText: string): DiffRow[] {
+  const edits = computeEdits(oldText.split('\n'), newText.split('\n'));
+
+  const rows: DiffRow[] = [];
+  let leftNumber = 1;
+  let rightNumber = 1;
+  let k = 0;
+  while (k < edits.length) {
+    if (edits[k].op === 'same') {
+      rows.push({
+        type: 'same',
+        left: { number: leftNumber++, text: edits[k].text },
+        right: { number: rightNumber++, text: edits[k].text },
+      });
+      k++;
+      continue;
+    }
+
+    // Collect a run of removals and additions and show them next to each other
+    const removed: string[] = [];
+    const added: string[] = [];
+    while (k < edits.length && edits[k].op !== 'same') {
+      (edits[k].op === 'remove' ? removed : added).push(edits[k].text);
+      k++;
+    }
+    for (let r = 0; r < Math.max(removed.length, added.length); r++) {
+      const left = r < removed.length ? { number: leftNumber++, text: removed[r] } : undefined;
+      const right = r < added.length ? { number: rightNumber++, text: added[r] } : undefined;
+      rows.push({ type: left && right ? 'changed' : left ? 'removed' : 'added', left, right });
+    }
+  }
+  return rows;
+}
+
+// For each line of `base`, the index of the matching line in `other`, or -1 if it was removed
+const matchLines = (base: string[], other: string[]): number[] => {
+  const matches: number[] = [];
+  let otherIndex = 0;
+  for (const edit of computeEdits(base, other)) {
+    if (edit.op === 'same') {
+      matches.push(otherIndex++);
+    } else if (edit.op === 'remove') {
+      matches.push(-1);
+    } else {
+      otherIndex++;
+    }
+  }
+  return matches;
+};
+
+export interface MergeResult {
+  text: string;
+  // Number of regions changed differently on both sides, marked with conflict markers in `text`
+  conflicts: number;
+}
+
+const sameLines = (a: string[], b: string[]) => a.length === b.length && a.every((line, i) => line === b[i]);
+
+/**
+ * Three-way merge of two edited versions of the same text. Changes made on only one side
+ * are applied; regions changed differently on both sides are wrapped in conflict markers.
+ * @param baseText Version both edits started from
+ * @param mineText Local edit
+ * @param theirsText Edit saved by someone else
+ * @param labels Names shown in the conflict markers
+ */
+export function mergeLines(
+  baseText: string,
+  mineText: string,
+  theirsText: string,
+  labels: { mine: string; theirs: string } = { mine: 'Your changes', theirs: 'Saved version' },
+): MergeResult {
+  const base = baseText.split('\n');
+  const mine = mineText.split('\n');
+  const theirs = theirsText.split('\n');
+  const mineMatches = matchLines(base, mine);
+  const theirsMatches = matchLines(base, theirs);
+
+  const merged: string[] = [];
+  let conflicts = 0;
+  // Start of the current unstable region in each text
+  let baseStart = 0;
+  let mineStart = 0;
+  let theirsStart = 0;
+
+  const flush = (baseEnd: number, mineEnd: number, theirsEnd: number) => {
+    const baseChunk = base.slice(baseStart, baseEnd);
+    const mineChunk = mine.slice(mineStart, mineEnd);
+    const theirsChunk = theirs.slice(theirsStart, theirsEnd);
+    if (sameLines(mineChunk, baseChunk) || sameLines(mineChunk, theirsChunk)) {
+      merged.push(...theirsChunk);
+    } else if (sameLines(theirsChunk, baseChunk)) {
+      merged.push(...mineChunk);
+    } else {
+      conflicts++;
+      merged.push(`<<<<<<< ${labels.mine}`, ...mineChunk, '=======', ...theirsChunk, `>>>>>>> ${labels.theirs}`);
+    }
+  };
+
+  // Lines kept unchanged by both sides anchor the merge; the regions between them are merged as a whole
+  for (let i = 0; i < base.length; i++) {
+    if (mineMatches[i] === -1 || theirsMatches[i] === -1) continue;
+    flush(i, mineMatches[i], theirsMatches[i]);
+    merged.push(base[i]);
+    baseStart = i + 1;
+    mineStart = mineMatches[i] + 1;
+    theirsStart = theirsMatches[i] + 1;
+  }
+  flush(base.length, mine.length, theirs.length);
+
+  return { text: merged.join('\n'), conflicts };
+}
@@ -0,0 +1,292 @@
+/**
+ * Helpers for the GitHub, GitLab and Bitbucket APIs, plus the backend's
+ * local repository endpoints, used to read repository state from the browser.
+ */
+
+import { RepoInfo } from '@/types/repoinfo';
+import { extractUrlDomain, extractUrlPath } from '@/utils/urlDecoder';
+
+export const createGithubHeaders = (githubToken: string): HeadersInit => {
+  const headers: HeadersInit = {
+    'Accept': 'application/vnd.github.v3+json'
+  };
+
+  if (githubToken) {
+    headers['Authorization'] = `Bearer ${githubToken}`;
+  }
+
+  return headers;
+};
+
+export const createGitlabHeaders = (gitlabToken: string): HeadersInit => {
+  const headers: HeadersInit = {
+    'Content-Type': 'application/json',
+  };
+
+  if (gitlabToken) {
+    headers['PRIVATE-TOKEN'] = gitlabToken;
+  }
+
+  return headers;
+};
+
+export const createBitbucketHeaders = (bitbucketToken: string): HeadersInit => {
+  const headers: HeadersInit = {
+    'Content-Type': 'application/json',
+  };
+
+  if (bitbucketToken) {
+    headers['Authorization'] = `Bearer ${bitbucketToken}`;
+  }
+
+  return headers;
+};
+
+// GitHub's compare API lists at most this many files
+const GITHUB_COMPARE_FILE_LIMIT = 300;
+
+const getGitlabProjectUrl = (repoInfo: RepoInfo): string => {
+  const projectPath = extractUrlPath(repoInfo.repoUrl ?? '') ?? `${repoInfo.owner}/${repoInfo.repo}`;
+  const projectDomain = extractUrlDomain(repoInfo.repoUrl ?? 'https://gitlab.com');
+  const validatedUrl = new URL(projectDomain ?? '');
+  return `${validatedUrl.origin}/api/v4/projects/${encodeURIComponent(projectPath)}`;
+};
+
+const getBitbucketRepoUrl = (repoInfo: RepoInfo): string => {
+  const repoPath = extractUrlPath(repoInfo.repoUrl ?? '') ?? `${repoInfo.owner}/${repoInfo.repo}`;
+  return `https://api.bitbucket.org/2.0/repositories/${encodeURIComponent(repoPath)}`;
+};
+
+const fetchJson = async (url: string, headers?: HeadersInit) => {
+  const response = await fetch(url, { headers });
+  if (!response.ok) {
+    const errorData = await response.text();
+    throw new Error(`Request to ${url} failed: Status ${response.status}, Response: ${errorData}`);
+  }
+  return response.json();
+};
+
+/**
+ * Returns the SHA of the latest commit on the repository's ref, or on its default branch when it has none,
+ * or null if it cannot be determined (for example a local folder that is not a git repository).
+ * @param repoInfo Repository to inspect
+ * @param token Access token for private repositories
+ */
+export async function fetchHeadCommit(repoInfo: RepoInfo, token: string): Promise<string | null> {
+  try {
+    switch (repoInfo.type) {
+      case 'local': {
+        if (!repoInfo.localPath) return null;
+        const data = await fetchJson(`/local_repo/changes?path=${encodeURIComponent(repoInfo.localPath)}`);
+        return data.head_sha ?? null;
+      }
+      case 'github': {
+        const data = await fetchJson(
+          `https://api.github.com/repos/${repoInfo.owner}/${repoInfo.repo}/commits/${encodeURIComponent(repoInfo.ref || 'HEAD')}`,
+          createGithubHeaders(token)
+        );
+        return data.sha ?? null;
+      }
+      case 'gitlab': {
+        const projectUrl = getGitlabProjectUrl(repoInfo);
+        const headers = createGitlabHeaders(token);
+        const ref = repoInfo.ref || (await fetchJson(projectUrl, headers)).default_branch;
+        const commit = await fetchJson(`${projectUrl}/repository/commits/${encodeURIComponent(ref)}`, headers);
+        return commit.id ?? null;
+      }
+      case 'bitbucket': {
+        const repoUrl = getBitbucketRepoUrl(repoInfo);
+        const headers = createBitbucketHeaders(token);
+        if (repoInfo.ref) {
+          const commit = await fetchJson(`${repoUrl}/commit/${encodeURIComponent(repoInfo.ref)}`, headers);
+          return commit.hash ?? null;
+        }
+        const project = await fetchJson(repoUrl, headers);
+        const branch = await fetchJson(
+          `${repoUrl}/refs/branches/${encodeURIComponent(project.mainbranch.name)}`,
+          headers
+        );
+        return branch.target?.hash ?? null;
+      }
+      default:
+        return null;
+    }
+  } catch (err) {
+    console.warn('Could not determine the head commit of the repository:', err);
+    return null;
+  }
+}
+
+/**
+ * Lists the files changed between two commits, including the old path of renamed files.
+ * Returns null when the list is incomplete or unavailable, in which case callers
+ * should treat every file as changed.
+ * @param repoInfo Repository to inspect
+ * @param token Access token for private repositories
+ * @param baseSha Commit the wiki was generated at
+ * @param headSha Current head commit
+ */
+export async function fetchChangedFiles(
+  repoInfo: RepoInfo,
+  token: string,
+  baseSha: string,
+  headSha: string,
+): Promise<string[] | null> {
+  if (baseSha === headSha) return [];
+
+  try {
+    switch (repoInfo.type) {
+      case 'local': {
+        if (!repoInfo.localPath) return null;
+        const params = new URLSearchParams({ path: repoInfo.localPath, since: baseSha });
+        const data = await fetchJson(`/local_repo/changes?${params.toString()}`);
+        return data.changed_files;
+      }
+      case 'github': {
+        const data = await fetchJson(
+          `https://api.github.com/repos/${repoInfo.owner}/${repoInfo.repo}/compare/${baseSha}...${headSha}`,
+          createGithubHeaders(token)
+        );
+        const files: { filename: string; previous_filename?: string }[] = data.files ?? [];
+        if (files.length >= GITHUB_COMPARE_FILE_LIMIT) return null;
+        return files.flatMap(file => file.previous_filename ? [file.filename, file.previous_filename] : [file.filename]);
+      }
+      case 'gitlab': {
+        const params = new URLSearchParams({ from: baseSha, to: headSha });
+        const data = await fetchJson(
+          `${getGitlabProjectUrl(repoInfo)}/repository/compare?${params.toString()}`,
+          createGitlabHeaders(token)
+        );
+        const diffs: { old_path: string; new_path: string }[] = data.diffs ?? [];
+        return diffs.flatMap(diff => diff.old_path === diff.new_path ? [diff.new_path] : [diff.new_path, diff.old_path]);
+      }
+      case 'bitbucket': {
+        const headers = createBitbucketHeaders(token);
+        const changed: string[] = [];
+        // Bitbucket compares "{to}..{from}" and paginates the result
+        let url: string | undefined = `${getBitbucketRepoUrl(repoInfo)}/diffstat/${headSha}..${baseSha}?pagelen=500`;
+        while (url) {
+          const data = await fetchJson(url, headers);
+          for (const entry of data.values ?? []) {
+            if (entry.new?.path) changed.push(entry.new.path);
+            if (entry.old?.path && entry.old.path !== entry.new?.path) changed.push(entry.old.path);
+          }
+          url = data.next;
+        }
+        return changed;
+      }
+      default:
+        return null;
+    }
+  } catch (err) {
+    console.warn('Could not list changed files, treating all files as changed:', err);
+    return null;
+  }
+}
+
+/**
+ * Reads a file of the repository at a commit. Throws when the file cannot be read.
+ * @param repoInfo Repository to read from
+ * @param token Access token for private repositories
+ * @param ref Commit to read the file at; the default branch when null
+ * @param path Path of the file, relative to the repository root
+ */
+export async function fetchFileContent(repoInfo: RepoInfo, token: string, ref: string | null, path: string): Promise<string> {
+  const fetchText = async (url: string, headers?: HeadersInit) => {
+    const response = await fetch(url, { headers });
+    if (!response.ok) {
+      throw new Error(`Could not read ${path}: Status ${response.status}, Response: ${await response.text()}`);
+    }
+    return response.text();
+  };
+
+  switch (repoInfo.type) {
+    case 'local': {
+      if (!repoInfo.localPath) throw new Error('The local repository has no path');
+      const params = new URLSearchParams({ path: repoInfo.localPath, file: path });
+      if (ref) params.append('ref', ref);
+      const data = await fetchJson(`/local_repo/file?${params.toString()}`);
+      return data.content;
+    }
+    case 'github': {
+      const params = ref ? `?ref=${encodeURIComponent(ref)}` : '';
+      return fetchText(
+        `https://api.github.com/repos/${repoInfo.owner}/${repoInfo.repo}/contents/${path.split('/').map(encodeURIComponent).join('/')}${params}`,
+        { ...createGithubHeaders(token), 'Accept': 'application/vnd.github.raw' }
+      );
+    }
+    case 'gitlab': {
+      const params = new URLSearchParams({ ref: ref ?? 'HEAD' });
+      return fetchText(
+        `${getGitlabProjectUrl(repoInfo)}/repository/files/${encodeURIComponent(path)}/raw?${params.toString()}`,
+        createGitlabHeaders(token)
+      );
+    }
+    case 'bitbucket': {
+      const repoUrl = getBitbucketRepoUrl(repoInfo);
+      const headers = createBitbucketHeaders(token);
+      const commit = ref ?? (await fetchJson(repoUrl, headers)).mainbranch.name;
+      return fetchText(`${repoUrl}/src/${encodeURIComponent(commit)}/${path.split('/').map(encodeURIComponent).join('/')}`, headers);
+    }
+    default:
+      throw new Error(`Cannot read files of ${repoInfo.type} repositories`);
+  }
+}
+
+/**
+ * Lists the paths of the files of the repository at a commit. Throws when the tree cannot be read.
+ * @param repoInfo Repository to list
+ * @param token Access token for private repositories
+ * @param ref Commit to list the files of; the default branch when null
+ */
+export async function fetchFileTree(repoInfo: RepoInfo, token: string, ref: string | null): Promise<string[]> {
+  switch (repoInfo.type) {
+    case 'local': {
+      if (!repoInfo.localPath) throw new Error('The local repository has no path');
+      const data = await fetchJson(`/local_repo/structure?path=${encodeURIComponent(repoInfo.localPath)}`);
+      return (data.file_tree as string).split('\n').filter(Boolean);
+    }
+    case 'github': {
+      const data = await fetchJson(
+        `https://api.github.com/repos/${repoInfo.owner}/${repoInfo.repo}/git/trees/${encodeURIComponent(ref ?? 'HEAD')}?recursive=1`,
+        createGithubHeaders(token)
+      );
+      const tree: { type: string; path: string }[] = data.tree ?? [];
+      return tree.filter(item => item.type === 'blob').map(item => item.path);
+    }
+    case 'gitlab': {
+      const headers = createGitlabHeaders(token);
+      const files: string[] = [];
+      let page: string | null = '1';
+      while (page) {
+        const params: URLSearchParams = new URLSearchParams({ recursive: 'true', per_page: '100', page });
+        if (ref) params.append('ref', ref);
+        const response: Response = await fetch(`${getGitlabProjectUrl(repoInfo)}/repository/tree?${params.toString()}`, { headers });
+        if (!response.ok) {
+          throw new Error(`Could not list the files of the repository: Status ${response.status}, Response: ${await response.text()}`);
+        }
+        const items: { type: string; path: string }[] = await response.json();
+        files.push(...items.filter(item => item.type === 'blob').map(item => item.path));
+        page = response.headers.get('x-next-page') || null;
+      }
+      return files;
+    }
+    case 'bitbucket': {
+      const repoUrl = getBitbucketRepoUrl(repoInfo);
+      const headers = createBitbucketHeaders(token);
+      const commit = ref ?? (await fetchJson(repoUrl, headers)).mainbranch.name;
+      const files: string[] = [];
+      let url: string | undefined = `${repoUrl}/src/${encodeURIComponent(commit)}/?max_depth=100&pagelen=100`;
+      while (url) {
+        const data = await fetchJson(url, headers);
+        for (const item of data.values ?? []) {
+          if (item.type === 'commit_file') files.push(item.path);
+        }
+        url = data.next;
+      }
+      return files;
+    }
+    default:
+      throw new Error(`Cannot list files of ${repoInfo.type} repositories`);
+  }
+}
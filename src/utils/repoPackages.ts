@@ -0,0 +1,37 @@
+/**
+ * Packages of a monorepo, found from the manifest files in its file tree, so each can get its own wiki.
+ */
+
+// Files marking the root of a package, by ecosystem
+const PACKAGE_MANIFESTS = new Set([
+  'package.json',
+  'pyproject.toml',
+  'setup.py',
+  'go.mod',
+  'Cargo.toml',
+  'pom.xml',
+  'build.gradle',
+  'build.gradle.kts',
+  'composer.json',
+  'Gemfile',
+  'mix.exs',
+]);
+
+// Directories holding dependencies, build output or fixtures rather than packages of the repository
+const IGNORED_DIRS = new Set(['node_modules', 'vendor', 'dist', 'build', 'target', '.git', 'fixtures', '__fixtures__', 'examples']);
+
+/**
+ * Directories of the repository containing a package manifest, sorted; the repository root is left out.
+ * @param files Paths of the files of the repository, relative to its root
+ */
+export function findPackageDirs(files: string[]): string[] {
+  const dirs = new Set<string>();
+  for (const file of files) {
+    const parts = file.split('/');
+    if (parts.length < 2 || !PACKAGE_MANIFESTS.has(parts[parts.length - 1])) continue;
+    const dirParts = parts.slice(0, -1);
+    if (dirParts.some(part => IGNORED_DIRS.has(part))) continue;
+    dirs.add(dirParts.join('/'));
+  }
+  return [...dirs].sort();
+}
@@ -0,0 +1,22 @@
+/**
+ * Source files cited by AI edit suggestions. The edit API asks the model to end every change
+ * with a **Sources** bullet listing, in backticks, the files the change relied on.
+ */
+
+const SOURCES_LINE = /\*\*Sources\*\*:?(.*)$/gim;
+const CODE_SPAN = /`([^`]+)`/g;
+
+const normalizePath = (path: string) => path.trim().replace(/^\.?\//, '');
+
+/**
+ * Files of the request that the response cites, in the order they were sent.
+ * @param response Editing suggestions returned by the model
+ * @param files Source files sent with the request
+ */
+export function getCitedFiles(response: string, files: string[]): string[] {
+  const cited = new Set<string>();
+  for (const [, sources] of response.matchAll(SOURCES_LINE)) {
+    for (const [, path] of sources.matchAll(CODE_SPAN)) cited.add(normalizePath(path));
+  }
+  return files.filter(file => cited.has(normalizePath(file)));
+}
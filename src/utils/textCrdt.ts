@@ -0,0 +1,228 @@
+/**
+ * Replicated text for collaborative editing, as a sequence CRDT (RGA).
+ *
+ * Every character has a unique id and is inserted after the character that preceded it
+ * when it was typed. Deleted characters stay as tombstones so later operations can still
+ * refer to them. Replicas that apply the same operations, in any order, hold the same text.
+ */
+
+// `${clock}@${client}`
+export type CharId = string;
+
+export type TextOp =
+  // Inserts `text` after `after` (the start of the document when null). Its characters
+  // get the ids `clock`, `clock + 1`, ... of `client`, each following the previous one.
+  | { type: 'insert'; client: string; clock: number; after: CharId | null; text: string }
+  | { type: 'delete'; ids: CharId[] };
+
+interface Char {
+  id: CharId;
+  clock: number;
+  client: string;
+  value: string;
+  deleted: boolean;
+}
+
+// Client id of the characters a document starts from; every replica creates the same ids for them
+const SEED_CLIENT = 'seed';
+
+const charId = (clock: number, client: string): CharId => `${clock}@${client}`;
+
+// Order of concurrent inserts at the same place: the newer one comes first
+const isNewer = (char: Char, clock: number, client: string) =>
+  char.clock > clock || (char.clock === clock && char.client > client);
+
+export class TextCrdt {
+  private chars: Char[] = [];
+  private byId = new Map<CharId, Char>();
+  // Lamport clock: higher than every clock seen so far
+  private clock = 0;
+  // Remote operations that refer to characters not received yet
+  private pending: TextOp[] = [];
+  private visibleCache: Char[] | null = null;
+
+  /**
+   * @param clientId Unique id of this replica
+   * @param seed Text the document starts from, the same on every replica
+   */
+  constructor(private readonly clientId: string, seed = '') {
+    if (seed) {
+      this.integrateInsert({ type: 'insert', client: SEED_CLIENT, clock: 1, after: null, text: seed });
+    }
+  }
+
+  get text(): string {
+    return this.visible().map(char => char.value).join('');
+  }
+
+  /**
+   * Turns the text into `next` with the smallest single replacement and returns the
+   * operations to send to the other replicas.
+   */
+  applyLocalText(next: string): TextOp[] {
+    const current = this.text;
+    if (current === next) return [];
+
+    let prefix = 0;
+    while (prefix < current.length && prefix < next.length && current[prefix] === next[prefix]) {
+      prefix++;
+    }
+    let suffix = 0;
+    while (
+      suffix < current.length - prefix &&
+      suffix < next.length - prefix &&
+      current[current.length - 1 - suffix] === next[next.length - 1 - suffix]
+    ) {
+      suffix++;
+    }
+
+    const visible = this.visible();
+    const ops: TextOp[] = [];
+    const removed = visible.slice(prefix, current.length - suffix);
+    if (removed.length > 0) {
+      ops.push({ type: 'delete', ids: removed.map(char => char.id) });
+    }
+    const inserted = next.slice(prefix, next.length - suffix);
+    if (inserted) {
+      ops.push({
+        type: 'insert',
+        client: this.clientId,
+        clock: this.clock + 1,
+        after: prefix > 0 ? visible[prefix - 1].id : null,
+        text: inserted,
+      });
+    }
+    ops.forEach(op => this.integrate(op));
+    return ops;
+  }
+
+  /**
+   * Applies operations received from other replicas. Returns a function mapping positions in
+   * the text before the operations to positions after them, or null if the text did not change.
+   */
+  applyRemote(ops: TextOp[]): ((position: number) => number) | null {
+    const before = this.visible();
+    let changed = false;
+    for (const op of ops) {
+      changed = this.integrate(op) || changed;
+    }
+    changed = this.integratePending() || changed;
+    if (!changed) return null;
+
+    // Number of visible characters up to and including each character
+    const visibleUpTo = new Map<Char, number>();
+    let count = 0;
+    for (const char of this.chars) {
+      if (!char.deleted) count++;
+      visibleUpTo.set(char, count);
+    }
+    return (position: number) => {
+      if (position <= 0) return 0;
+      const char = before[Math.min(position, before.length) - 1];
+      return char ? visibleUpTo.get(char) ?? 0 : 0;
+    };
+  }
+
+  /** Id of the character before `position`, which keeps pointing at the same place while the text changes */
+  anchorAt(position: number): CharId | null {
+    const visible = this.visible();
+    const index = Math.min(position, visible.length) - 1;
+    return index >= 0 ? visible[index].id : null;
+  }
+
+  /** Current position of an anchor returned by `anchorAt`, or null if its character is unknown */
+  positionOf(anchor: CharId | null): number | null {
+    if (anchor === null) return 0;
+    const target = this.byId.get(anchor);
+    if (!target) return null;
+    let count = 0;
+    for (const char of this.chars) {
+      if (!char.deleted) count++;
+      if (char === target) return count;
+    }
+    return count;
+  }
+
+  private visible(): Char[] {
+    if (!this.visibleCache) {
+      this.visibleCache = this.chars.filter(char => !char.deleted);
+    }
+    return this.visibleCache;
+  }
+
+  // Returns whether the op was applied; ops referring to unknown characters are kept for later
+  private integrate(op: TextOp): boolean {
+    const applied = op.type === 'insert' ? this.integrateInsert(op) : this.integrateDelete(op);
+    if (applied === null) {
+      this.pending.push(op);
+      return false;
+    }
+    if (applied) this.visibleCache = null;
+    return applied;
+  }
+
+  private integratePending(): boolean {
+    let changed = false;
+    let progress = true;
+    while (progress && this.pending.length > 0) {
+      progress = false;
+      const waiting = this.pending;
+      this.pending = [];
+      for (const op of waiting) {
+        const before = this.pending.length;
+        const applied = this.integrate(op);
+        if (this.pending.length === before) progress = true;
+        changed = applied || changed;
+      }
+    }
+    return changed;
+  }
+
+  // null when the character it follows has not been received yet
+  private integrateInsert(op: Extract<TextOp, { type: 'insert' }>): boolean | null {
+    if (!op.text || this.byId.has(charId(op.clock, op.client))) return false;
+
+    let index = 0;
+    if (op.after !== null) {
+      const after = this.byId.get(op.after);
+      if (!after) return null;
+      index = this.chars.indexOf(after) + 1;
+    }
+    while (index < this.chars.length && isNewer(this.chars[index], op.clock, op.client)) {
+      index++;
+    }
+
+    // Split into UTF-16 code units so positions match those of textarea selections
+    const inserted = op.text.split('').map((value, offset) => ({
+      id: charId(op.clock + offset, op.client),
+      clock: op.clock + offset,
+      client: op.client,
+      value,
+      deleted: false,
+    }));
+    // Not splice: spreading a long paste into its arguments can overflow the call stack
+    this.chars = [...this.chars.slice(0, index), ...inserted, ...this.chars.slice(index)];
+    inserted.forEach(char => this.byId.set(char.id, char));
+    this.clock = Math.max(this.clock, op.clock + inserted.length - 1);
+    return true;
+  }
+
+  private integrateDelete(op: Extract<TextOp, { type: 'delete' }>): boolean | null {
+    const missing: CharId[] = [];
+    let changed = false;
+    for (const id of op.ids) {
+      const char = this.byId.get(id);
+      if (!char) {
+        missing.push(id);
+      } else if (!char.deleted) {
+        char.deleted = true;
+        changed = true;
+      }
+    }
+    if (missing.length > 0) {
+      // Apply what is known now and wait for the rest
+      this.pending.push({ type: 'delete', ids: missing });
+    }
+    return changed;
+  }
+}
@@ -0,0 +1,136 @@
+/**
+ * Tracked changes for AI edits: a proposed revision of a page is split into changes that are
+ * accepted or rejected one at a time.
+ *
+ * Changes are made of whole markdown blocks where splitting them would break the page: a fenced
+ * code block (including mermaid diagrams) is compared as a single unit, so any combination of
+ * accepted and rejected changes leaves every fence opened and closed.
+ */
+
+import { computeEdits } from './lineDiff';
+
+export type SuggestedChangeStatus = 'pending' | 'accepted' | 'rejected';
+
+export interface SuggestedChange {
+  id: string;
+  // Text of the current page the change replaces and the text it puts in its place,
+  // one entry per line or fenced block
+  removed: string[];
+  added: string[];
+  status: SuggestedChangeStatus;
+}
+
+// The page as a sequence of unchanged text and proposed changes
+export type SuggestionSegment =
+  | { kind: 'same'; lines: string[] }
+  | { kind: 'change'; change: SuggestedChange };
+
+const FENCE_PATTERN = /^ {0,3}(`{3,}|~{3,})/;
+
+// Whether `line` closes a fence opened with `fence` (same character, at least as long, nothing after)
+const closesFence = (line: string, fence: string) => {
+  const match = line.match(FENCE_PATTERN);
+  return !!match
+    && match[1][0] === fence[0]
+    && match[1].length >= fence.length
+    && line.slice(line.indexOf(match[1]) + match[1].length).trim() === '';
+};
+
+/**
+ * Splits markdown into the units changes are made of: single lines, and fenced code blocks as a whole.
+ * A fence left open runs to the end of the text, as it does when rendered.
+ */
+const splitUnits = (text: string): string[] => {
+  const lines = text.split('\n');
+  const units: string[] = [];
+  for (let i = 0; i < lines.length; i++) {
+    const open = lines[i].match(FENCE_PATTERN);
+    if (!open) {
+      units.push(lines[i]);
+      continue;
+    }
+    let end = i + 1;
+    while (end < lines.length && !closesFence(lines[end], open[1])) end++;
+    units.push(lines.slice(i, end + 1).join('\n'));
+    i = end;
+  }
+  return units;
+};
+
+/**
+ * Closes a code fence the model left open at the end of its revision, which would otherwise
+ * turn everything after it into code once only some changes are accepted.
+ */
+const closeOpenFence = (text: string): string => {
+  const units = splitUnits(text);
+  const last = units[units.length - 1] ?? '';
+  const open = last.match(FENCE_PATTERN);
+  if (!open) return text;
+  const lines = last.split('\n');
+  if (lines.length > 1 && closesFence(lines[lines.length - 1], open[1])) return text;
+  return `${text}\n${open[1]}`;
+};
+
+/**
+ * Compares the page with a proposed revision and lists the differences as pending changes.
+ * @param current Page content the revision was made from
+ * @param proposed Revised content
+ */
+export function createSuggestion(current: string, proposed: string): SuggestionSegment[] {
+  const edits = computeEdits(splitUnits(current), splitUnits(closeOpenFence(proposed)));
+  const segments: SuggestionSegment[] = [];
+  let k = 0;
+  while (k < edits.length) {
+    if (edits[k].op === 'same') {
+      const lines: string[] = [];
+      while (k < edits.length && edits[k].op === 'same') lines.push(edits[k++].text);
+      segments.push({ kind: 'same', lines });
+      continue;
+    }
+    const removed: string[] = [];
+    const added: string[] = [];
+    while (k < edits.length && edits[k].op !== 'same') {
+      (edits[k].op === 'remove' ? removed : added).push(edits[k].text);
+      k++;
+    }
+    segments.push({
+      kind: 'change',
+      change: { id: `change-${segments.length}`, removed, added, status: 'pending' },
+    });
+  }
+  return segments;
+}
+
+/**
+ * Content of the page with the accepted changes applied.
+ * @param segments Suggestion being reviewed
+ * @param pending Whether changes not decided yet are shown as accepted or as rejected
+ */
+export function applySuggestion(segments: SuggestionSegment[], pending: 'accepted' | 'rejected' = 'accepted'): string {
+  const lines: string[] = [];
+  for (const segment of segments) {
+    if (segment.kind === 'same') {
+      lines.push(...segment.lines);
+      continue;
+    }
+    const status = segment.change.status === 'pending' ? pending : segment.change.status;
+    lines.push(...(status === 'accepted' ? segment.change.added : segment.change.removed));
+  }
+  return lines.join('\n');
+}
+
+/** Records a decision on one change, or on every pending change when `id` is null */
+export const decideChanges = (
+  segments: SuggestionSegment[],
+  id: string | null,
+  status: SuggestedChangeStatus,
+): SuggestionSegment[] => segments.map(segment => {
+  if (segment.kind === 'same') return segment;
+  const { change } = segment;
+  const matches = id === null ? change.status === 'pending' : change.id === id;
+  return matches ? { kind: 'change', change: { ...change, status } } : segment;
+});
+
+/** Changes of a suggestion in page order */
+export const getChanges = (segments: SuggestionSegment[]): SuggestedChange[] =>
+  segments.flatMap(segment => (segment.kind === 'change' ? [segment.change] : []));
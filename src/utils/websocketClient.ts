@@ -1,85 +1,62 @@
 /**
- * WebSocket client for chat completions
- * This replaces the HTTP streaming endpoint with a WebSocket connection
+ * Shared types and endpoint helpers for chat completions and other backend WebSockets.
+ * The streaming logic itself lives in chatStreamClient.ts
  */
 
 // Get the server base URL from environment or use default
 const SERVER_BASE_URL = process.env.NEXT_PUBLIC_SERVER_BASE_URL || 'http://localhost:8001';
 
 // Convert HTTP URL to WebSocket URL
-const getWebSocketUrl = () => {
+const getBackendWebSocketUrl = (path: string) => {
   const baseUrl = SERVER_BASE_URL;
   // Replace http:// with ws:// or https:// with wss://
   const wsBaseUrl = baseUrl.replace(/^http/, 'ws');
-  return `${wsBaseUrl}/ws/chat`;
+  return `${wsBaseUrl}${path}`;
 };
 
+export const getWebSocketUrl = () => getBackendWebSocketUrl('/ws/chat');
+
+// Room for collaborative editing of a wiki page
+export const getCollabWebSocketUrl = (roomId: string) =>
+  getBackendWebSocketUrl(`/ws/collab?room=${encodeURIComponent(roomId)}`);
+
+// HTTP fallback endpoint, proxied to the backend by the Next.js API route
+export const HTTP_STREAM_URL = '/api/chat/stream';
+
 export interface ChatMessage {
   role: 'user' | 'assistant' | 'system';
   content: string;
 }
 
+// A further repository to retrieve from, with the token and type of the request by default
+export interface ChatRepoSource {
+  repo_url: string;
+  type?: string;
+  token?: string;
+  ref?: string;
+}
+
 export interface ChatCompletionRequest {
   repo_url: string;
   messages: ChatMessage[];
   filePath?: string;
   token?: string;
   type?: string;
+  // Branch, tag or commit of the repository; the default branch when unset
+  ref?: string;
+  // Subdirectory of the repository to cover; the whole repository when unset
+  path?: string;
+  // Further repositories of a combined wiki; file paths are then prefixed with owner/repo
+  repos?: ChatRepoSource[];
   provider?: string;
   model?: string;
+  custom_model?: string;
   language?: string;
   excluded_dirs?: string;
   excluded_files?: string;
+  included_dirs?: string;
+  included_files?: string;
+  // Glob patterns from the repository's .deepwiki.yml, newline-separated, matched against paths from the repository root
+  included_globs?: string;
+  excluded_globs?: string;
 }
-
-/**
- * Creates a WebSocket connection for chat completions
- * @param request The chat completion request
- * @param onMessage Callback for received messages
- * @param onError Callback for errors
- * @param onClose Callback for when the connection closes
- * @returns The WebSocket connection
- */
-export const createChatWebSocket = (
-  request: ChatCompletionRequest,
-  onMessage: (message: string) => void,
-  onError: (error: Event) => void,
-  onClose: () => void
-): WebSocket => {
-  // Create WebSocket connection
-  const ws = new WebSocket(getWebSocketUrl());
-  
-  // Set up event handlers
-  ws.onopen = () => {
-    console.log('WebSocket connection established');
-    // Send the request as JSON
-    ws.send(JSON.stringify(request));
-  };
-  
-  ws.onmessage = (event) => {
-    // Call the message handler with the received text
-    onMessage(event.data);
-  };
-  
-  ws.onerror = (error) => {
-    console.error('WebSocket error:', error);
-    onError(error);
-  };
-  
-  ws.onclose = () => {
-    console.log('WebSocket connection closed');
-    onClose();
-  };
-  
-  return ws;
-};
-
-/**
- * Closes a WebSocket connection
- * @param ws The WebSocket connection to close
- */
-export const closeWebSocket = (ws: WebSocket | null): void => {
-  if (ws && ws.readyState === WebSocket.OPEN) {
-    ws.close();
-  }
-};
@@ -0,0 +1,386 @@
+/**
+ * Reads and writes the server-side wiki cache through /api/wiki_cache,
+ * its version history through /api/wiki_versions and its comment threads through /api/wiki_comments.
+ * Comment requests carry the user's Supabase session, which the backend takes the author from.
+ * Whole-wiki saves can be made conditional on a revision; page saves always carry the page's ETag.
+ * Every screen goes through these helpers so caches share one validated format.
+ */
+
+import { User } from '@supabase/supabase-js';
+import { getSessionHeaders } from '@/lib/supabase';
+import { WIKI_CACHE_SCHEMA_VERSION, WikiCacheData, WikiCacheKey, WikiCacheRequest } from '@/types/wiki/wikicache';
+import { WikiPage } from '@/types/wiki/wikipage';
+import { WikiVersion, WikiVersionInfo, WikiVersionSnapshot } from '@/types/wiki/wikiversion';
+import { CommentAnchor, CommentThread } from '@/types/wiki/wikicomment';
+import { validateWikiCacheData, validateWikiPage } from '@/types/wiki/validators';
+
+/**
+ * Thrown when a save was based on an older revision of the wiki or page than the stored one.
+ * Page saves carry the stored page so the edit can be merged with it.
+ */
+export class WikiSaveConflictError extends Error {
+  constructor(
+    message: string,
+    public readonly currentPage?: WikiPage,
+    public readonly etag?: string,
+  ) {
+    super(message);
+    this.name = 'WikiSaveConflictError';
+  }
+}
+
+// Query string identifying a wiki; the ref and path are left out for wikis of the default branch and whole repository
+export const getKeyParams = ({ ref, path, ...key }: WikiCacheKey): URLSearchParams => {
+  const params = new URLSearchParams(key);
+  if (ref) params.append('ref', ref);
+  if (path) params.append('path', path);
+  return params;
+};
+
+// A page with the ETag to send when saving it
+export interface VersionedWikiPage {
+  page: WikiPage;
+  etag: string;
+}
+
+/**
+ * Loads a cached wiki. Returns null when there is no cache or it cannot be read.
+ * @param key Repository and language of the wiki
+ * @param init Extra fetch options
+ */
+export async function fetchWikiCache(key: WikiCacheKey, init?: RequestInit): Promise<WikiCacheData | null> {
+  const params = getKeyParams(key);
+  const response = await fetch(`/api/wiki_cache?${params.toString()}`, init);
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`Failed to fetch wiki cache: ${response.status} ${errorText}`);
+  }
+
+  const data = await response.json();
+  const cache = validateWikiCacheData(data);
+  if (data && !cache) {
+    console.warn(`Ignoring invalid wiki cache for ${key.owner}/${key.repo} (${key.language})`);
+  }
+  return cache;
+}
+
+/**
+ * Saves a wiki to the cache in the current schema version and returns its new revision.
+ * @param request Wiki key and cache contents
+ * @param options `ifMatch` only saves if the cache is still at that revision, and throws WikiSaveConflictError otherwise
+ */
+export async function saveWikiCache(request: WikiCacheRequest, options: { ifMatch?: number } = {}): Promise<number> {
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/json',
+  };
+  if (options.ifMatch !== undefined) {
+    headers['If-Match'] = `"${options.ifMatch}"`;
+  }
+  const response = await fetch('/api/wiki_cache', {
+    method: 'POST',
+    headers,
+    body: JSON.stringify({ ...request, schema_version: WIKI_CACHE_SCHEMA_VERSION }),
+  });
+
+  if (response.status === 409) {
+    throw new WikiSaveConflictError('The wiki was changed by another save');
+  }
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`Failed to save wiki cache: ${response.status} ${errorText}`);
+  }
+  const result = await response.json();
+  return result.revision;
+}
+
+// Times a read-modify-write of the wiki is retried when other saves keep landing in between
+const MAX_UPDATE_ATTEMPTS = 3;
+
+/**
+ * Re-reads a cached wiki, changes it and saves it only if no other save landed in between, retrying otherwise.
+ * Returns the saved wiki.
+ * @param key Repository and language of the wiki
+ * @param update Returns the changed wiki; called again with the stored wiki on every retry
+ * @param version Set to record this save in the version history
+ */
+export async function updateWikiCache(
+  key: WikiCacheKey,
+  update: (data: WikiCacheData) => WikiCacheData,
+  version?: WikiVersionInfo,
+): Promise<WikiCacheData> {
+  for (let attempt = 1; ; attempt++) {
+    const data = await fetchWikiCache(key, { cache: 'no-store' });
+    if (!data) {
+      throw new Error('The wiki no longer exists');
+    }
+    const updated = update(data);
+    try {
+      const revision = await saveWikiCache({
+        ...key,
+        wiki_structure: updated.wiki_structure,
+        generated_pages: updated.generated_pages,
+        repo_url: updated.repo_url,
+        comprehensive: updated.comprehensive,
+        generation_complete: updated.generation_complete,
+        page_status: updated.page_status,
+        commit_sha: updated.commit_sha,
+        repos: updated.repos,
+        repo_config: updated.repo_config,
+        version,
+      }, { ifMatch: data.revision });
+      return { ...updated, revision };
+    } catch (error) {
+      if (!(error instanceof WikiSaveConflictError) || attempt >= MAX_UPDATE_ATTEMPTS) {
+        throw error;
+      }
+    }
+  }
+}
+
+/**
+ * Saves a wiki that is being generated, unless another save landed since `revision`.
+ * In that case pages whose stored content is no longer the one in `savedContent` were edited by someone else:
+ * they replace the generated ones and the save is retried against the stored revision.
+ * @param request Wiki as generated so far
+ * @param revision Revision the wiki was last read or saved at; 0 when it was not stored yet
+ * @param savedContent Content of each page as it was last read or saved
+ * @returns The new revision and the pages taken from the stored wiki
+ */
+export async function saveGeneratedWiki(
+  request: WikiCacheRequest,
+  revision: number,
+  savedContent: Record<string, string>,
+): Promise<{ revision: number; editedPages: Record<string, WikiPage> }> {
+  const { owner, repo, repo_type, language, ref, path } = request;
+  const editedPages: Record<string, WikiPage> = {};
+  let merged = request;
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return { revision: await saveWikiCache(merged, { ifMatch: revision }), editedPages };
+    } catch (error) {
+      if (!(error instanceof WikiSaveConflictError) || attempt >= MAX_UPDATE_ATTEMPTS) {
+        throw error;
+      }
+    }
+
+    const stored = await fetchWikiCache({ owner, repo, repo_type, language, ref, path }, { cache: 'no-store' });
+    revision = stored?.revision ?? 0;
+    Object.entries(stored?.generated_pages ?? {}).forEach(([pageId, page]) => {
+      if (pageId in merged.generated_pages && pageId in savedContent && savedContent[pageId] !== page.content) {
+        editedPages[pageId] = page;
+      }
+    });
+    merged = { ...merged, generated_pages: { ...merged.generated_pages, ...editedPages } };
+  }
+}
+
+/**
+ * Loads one page of a cached wiki. Pages that have not been generated yet have empty content.
+ * @param key Repository and language of the wiki
+ * @param pageId Page to load
+ */
+export async function fetchWikiPage(key: WikiCacheKey, pageId: string): Promise<VersionedWikiPage> {
+  const params = getKeyParams(key);
+  const response = await fetch(`/api/wiki_cache/pages/${encodeURIComponent(pageId)}?${params.toString()}`, { cache: 'no-store' });
+  if (!response.ok) {
+    throw new Error(`Failed to fetch wiki page: ${response.status} ${await response.text()}`);
+  }
+
+  const result = await response.json();
+  const page = validateWikiPage(result?.page);
+  if (!page || typeof result.etag !== 'string') {
+    throw new Error(`Wiki page ${pageId} cannot be read`);
+  }
+  return { page, etag: result.etag };
+}
+
+/**
+ * Replaces the content of one page, leaving the rest of the wiki as it is stored.
+ * Throws WikiSaveConflictError with the stored page when it no longer has the ETag `etag`.
+ * @param key Repository and language of the wiki
+ * @param pageId Page to save
+ * @param content New markdown content
+ * @param etag ETag of the page the edit started from
+ * @param version Set to record this save in the version history
+ * @returns ETag of the saved page and revision of the wiki it was saved in
+ */
+export async function saveWikiPage(
+  key: WikiCacheKey,
+  pageId: string,
+  content: string,
+  etag: string,
+  version?: WikiVersionInfo,
+): Promise<{ etag: string; revision: number }> {
+  const response = await fetch(`/api/wiki_cache/pages/${encodeURIComponent(pageId)}`, {
+    method: 'PUT',
+    headers: {
+      'Content-Type': 'application/json',
+      'If-Match': `"${etag}"`,
+    },
+    body: JSON.stringify({ ...key, content, version }),
+  });
+
+  if (response.status === 409) {
+    const conflict = await response.json();
+    throw new WikiSaveConflictError(
+      'This page was changed by someone else',
+      validateWikiPage(conflict?.page) ?? undefined,
+      typeof conflict?.etag === 'string' ? conflict.etag : undefined,
+    );
+  }
+  if (!response.ok) {
+    throw new Error(`Failed to save wiki page: ${response.status} ${await response.text()}`);
+  }
+  const result = await response.json();
+  return { etag: result.etag, revision: result.revision };
+}
+
+/** Name recorded as the author of a version */
+export const getAuthorName = (user: User | null): string | null =>
+  user ? user.user_metadata?.full_name || user.email || user.id : null;
+
+/**
+ * Lists the saved versions of a wiki, newest first.
+ * @param key Repository and language of the wiki
+ * @param pageId Only list versions that changed this page
+ */
+export async function fetchWikiVersions(key: WikiCacheKey, pageId?: string): Promise<WikiVersion[]> {
+  const params = getKeyParams(key);
+  if (pageId) params.append('page_id', pageId);
+  const response = await fetch(`/api/wiki_versions?${params.toString()}`, { cache: 'no-store' });
+  if (!response.ok) {
+    throw new Error(`Failed to fetch wiki versions: ${response.status} ${await response.text()}`);
+  }
+  return response.json();
+}
+
+/**
+ * Loads a saved version with the full wiki at that point.
+ * @param key Repository and language of the wiki
+ * @param versionId Version to load
+ */
+export async function fetchWikiVersion(key: WikiCacheKey, versionId: string): Promise<WikiVersionSnapshot> {
+  const params = getKeyParams(key);
+  const response = await fetch(`/api/wiki_versions/${encodeURIComponent(versionId)}?${params.toString()}`);
+  if (!response.ok) {
+    throw new Error(`Failed to fetch wiki version: ${response.status} ${await response.text()}`);
+  }
+
+  const snapshot = await response.json();
+  const data = validateWikiCacheData(snapshot?.data);
+  if (!data) {
+    throw new Error(`Wiki version ${versionId} cannot be read`);
+  }
+  return { version: snapshot.version, data };
+}
+
+/**
+ * Restores the wiki, or one page of it, to a saved version and returns the restored wiki.
+ * @param key Repository and language of the wiki
+ * @param versionId Version to restore
+ * @param options Page to restore instead of the whole wiki, and who is restoring it.
+ * `ifMatch` only restores the whole wiki if it is still at that revision, and throws WikiSaveConflictError otherwise
+ */
+export async function rollbackWikiVersion(
+  key: WikiCacheKey,
+  versionId: string,
+  options: { pageId?: string; author?: string | null; ifMatch?: number } = {},
+): Promise<WikiCacheData> {
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/json',
+  };
+  if (options.ifMatch !== undefined) {
+    headers['If-Match'] = `"${options.ifMatch}"`;
+  }
+  const response = await fetch(`/api/wiki_versions/${encodeURIComponent(versionId)}/rollback`, {
+    method: 'POST',
+    headers,
+    body: JSON.stringify({ ...key, page_id: options.pageId, author: options.author }),
+  });
+  if (response.status === 412) {
+    throw new WikiSaveConflictError('The wiki was changed since it was loaded');
+  }
+  if (!response.ok) {
+    throw new Error(`Failed to restore wiki version: ${response.status} ${await response.text()}`);
+  }
+
+  const data = validateWikiCacheData(await response.json());
+  if (!data) {
+    throw new Error('The restored wiki cannot be read');
+  }
+  return data;
+}
+
+/**
+ * Lists the comment threads of a wiki, oldest first.
+ * @param key Repository and language of the wiki
+ * @param pageId Only list the threads of this page
+ */
+export async function fetchCommentThreads(key: WikiCacheKey, pageId?: string): Promise<CommentThread[]> {
+  const params = getKeyParams(key);
+  if (pageId) params.append('page_id', pageId);
+  const response = await fetch(`/api/wiki_comments?${params.toString()}`, { cache: 'no-store' });
+  if (!response.ok) {
+    throw new Error(`Failed to fetch comments: ${response.status} ${await response.text()}`);
+  }
+  return response.json();
+}
+
+async function sendCommentRequest(path: string, method: string, body: object): Promise<CommentThread> {
+  const response = await fetch(path, {
+    method,
+    headers: {
+      'Content-Type': 'application/json',
+      ...await getSessionHeaders(),
+    },
+    body: JSON.stringify(body),
+  });
+  if (response.status === 401) {
+    throw new Error('Sign in to comment');
+  }
+  if (!response.ok) {
+    throw new Error(`Failed to save comment: ${response.status} ${await response.text()}`);
+  }
+  return response.json();
+}
+
+/**
+ * Starts a comment thread of the signed-in user on a range of a page and returns it.
+ * @param key Repository and language of the wiki
+ * @param pageId Page the range is in
+ * @param anchor Commented range
+ * @param body First comment
+ */
+export const createCommentThread = (
+  key: WikiCacheKey,
+  pageId: string,
+  anchor: CommentAnchor,
+  body: string,
+): Promise<CommentThread> =>
+  sendCommentRequest('/api/wiki_comments', 'POST', { ...key, page_id: pageId, anchor, body });
+
+/**
+ * Adds a reply of the signed-in user to a comment thread and returns the updated thread.
+ * @param key Repository and language of the wiki
+ * @param threadId Thread to reply to
+ * @param body Reply
+ */
+export const replyToCommentThread = (
+  key: WikiCacheKey,
+  threadId: string,
+  body: string,
+): Promise<CommentThread> =>
+  sendCommentRequest(`/api/wiki_comments/${encodeURIComponent(threadId)}/replies`, 'POST', { ...key, body });
+
+/**
+ * Resolves or reopens a comment thread on behalf of the signed-in user and returns the updated thread.
+ * @param key Repository and language of the wiki
+ * @param threadId Thread to change
+ * @param resolved Whether the discussion is settled
+ */
+export const setCommentThreadResolved = (
+  key: WikiCacheKey,
+  threadId: string,
+  resolved: boolean,
+): Promise<CommentThread> =>
+  sendCommentRequest(`/api/wiki_comments/${encodeURIComponent(threadId)}`, 'PATCH', { ...key, resolved });
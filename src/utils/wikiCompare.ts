@@ -0,0 +1,141 @@
+/**
+ * Comparison of two cached variants of a wiki, such as the wikis of two refs or two saved versions of one.
+ * Pages are paired by id, then by title, and compared line by line; the changes can be described for
+ * the model to write a changelog from.
+ */
+
+import { WikiCacheData } from '@/types/wiki/wikicache';
+import { WikiPage } from '@/types/wiki/wikipage';
+import { PageComparison, WikiComparison } from '@/types/wiki/wikicompare';
+import { computeEdits } from './lineDiff';
+
+// How much of the changes is described to the model, per page and in total
+const MAX_PAGE_CHANGE_CHARS = 3000;
+const MAX_CHANGE_CHARS = 30000;
+
+const titleKey = (title: string) => title.trim().toLowerCase().replace(/\s+/g, ' ');
+
+// Pages of a wiki in the order of its structure, with the content generated for them
+const pagesWithContent = (data: WikiCacheData): WikiPage[] =>
+  data.wiki_structure.pages.map(page => ({ ...page, content: data.generated_pages[page.id]?.content || page.content || '' }));
+
+const sectionOf = (data: WikiCacheData, pageId: string) =>
+  data.wiki_structure.sections.find(section => section.pages.includes(pageId))?.title ?? null;
+
+const countLines = (text: string) => (text ? text.split('\n').length : 0);
+
+/**
+ * Pairs the pages of two wikis and finds what changed from the older to the newer one.
+ * Pages come in the order of the newer wiki, followed by the pages it no longer has.
+ * @param base Older wiki
+ * @param head Newer wiki
+ */
+export function compareWikis(base: WikiCacheData, head: WikiCacheData): WikiComparison {
+  const basePages = pagesWithContent(base);
+  const headPages = pagesWithContent(head);
+  const baseById = new Map(basePages.map(page => [page.id, page]));
+  const headIds = new Set(headPages.map(page => page.id));
+
+  // Older pages whose id is gone, by title, so a page that was only given a new id is still paired
+  const unpairedByTitle = new Map<string, WikiPage>();
+  basePages
+    .filter(page => !headIds.has(page.id) && !unpairedByTitle.has(titleKey(page.title)))
+    .forEach(page => unpairedByTitle.set(titleKey(page.title), page));
+
+  const pairedIds = new Set<string>();
+  const pages: PageComparison[] = headPages.map(headPage => {
+    let basePage = baseById.get(headPage.id) ?? null;
+    const matchedByTitle = !basePage && unpairedByTitle.has(titleKey(headPage.title));
+    if (matchedByTitle) {
+      basePage = unpairedByTitle.get(titleKey(headPage.title))!;
+      unpairedByTitle.delete(titleKey(headPage.title));
+    }
+    const comparison = {
+      id: headPage.id,
+      title: headPage.title,
+      base: basePage,
+      head: headPage,
+      matchedByTitle,
+      section: sectionOf(head, headPage.id),
+    };
+
+    if (!basePage) {
+      return { ...comparison, kind: 'added' as const, addedLines: countLines(headPage.content), removedLines: 0 };
+    }
+    pairedIds.add(basePage.id);
+    if (basePage.content === headPage.content) {
+      return { ...comparison, kind: 'unchanged' as const, addedLines: 0, removedLines: 0 };
+    }
+    const edits = computeEdits(basePage.content.split('\n'), headPage.content.split('\n'));
+    return {
+      ...comparison,
+      kind: 'changed' as const,
+      addedLines: edits.filter(edit => edit.op === 'add').length,
+      removedLines: edits.filter(edit => edit.op === 'remove').length,
+    };
+  });
+
+  basePages
+    .filter(page => !pairedIds.has(page.id))
+    .forEach(page => pages.push({
+      id: page.id,
+      title: page.title,
+      kind: 'removed',
+      base: page,
+      head: null,
+      matchedByTitle: false,
+      section: sectionOf(base, page.id),
+      addedLines: 0,
+      removedLines: countLines(page.content),
+    }));
+
+  const baseSections = new Set(base.wiki_structure.sections.map(section => titleKey(section.title)));
+  const headSections = new Set(head.wiki_structure.sections.map(section => titleKey(section.title)));
+  return {
+    pages,
+    addedSections: head.wiki_structure.sections.filter(s => !baseSections.has(titleKey(s.title))).map(s => s.title),
+    removedSections: base.wiki_structure.sections.filter(s => !headSections.has(titleKey(s.title))).map(s => s.title),
+  };
+}
+
+const truncate = (text: string, max: number) => (text.length > max ? `${text.slice(0, max)}\n…` : text);
+
+// Lines added and removed on a page, as a diff without context
+const describePageChange = ({ base, head }: PageComparison) =>
+  computeEdits((base?.content ?? '').split('\n'), (head?.content ?? '').split('\n'))
+    .filter(edit => edit.op !== 'same' && edit.text.trim())
+    .map(edit => `${edit.op === 'add' ? '+' : '-'} ${edit.text}`)
+    .join('\n');
+
+/**
+ * The changes between two wikis as text for the model: changed sections, then added, removed and
+ * changed pages with their content or diff. Long pages are cut, and pages past the overall limit are only named.
+ * @param comparison Result of `compareWikis`
+ */
+export function describeWikiChanges(comparison: WikiComparison): string {
+  const parts: string[] = [];
+  if (comparison.addedSections.length) parts.push(`Sections added: ${comparison.addedSections.join(', ')}`);
+  if (comparison.removedSections.length) parts.push(`Sections removed: ${comparison.removedSections.join(', ')}`);
+
+  const omitted: string[] = [];
+  let length = parts.join('\n').length;
+  for (const page of comparison.pages) {
+    if (page.kind === 'unchanged') continue;
+    const title = `${page.title}${page.section ? ` (section "${page.section}")` : ''}`;
+    const body = page.kind === 'added'
+      ? page.head?.content ?? ''
+      : page.kind === 'removed'
+        ? page.base?.content ?? ''
+        : describePageChange(page);
+    const renamed = page.matchedByTitle ? ' Its page id changed.' : '';
+    const part = `<page change="${page.kind}" title="${title}">${renamed}\n${truncate(body, MAX_PAGE_CHANGE_CHARS)}\n</page>`;
+    if (length + part.length > MAX_CHANGE_CHARS) {
+      omitted.push(`${page.title} (${page.kind})`);
+      continue;
+    }
+    parts.push(part);
+    length += part.length;
+  }
+  if (omitted.length) parts.push(`Also changed, not shown for length: ${omitted.join(', ')}`);
+  return parts.join('\n\n');
+}
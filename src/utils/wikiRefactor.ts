@@ -0,0 +1,133 @@
+/**
+ * Wiki-wide AI edits: one instruction is planned and applied across many pages by /api/wiki/edit/refactor,
+ * and the changes the user accepts are saved together as a single version of the wiki.
+ */
+
+import { WikiCacheData, WikiCacheKey } from '@/types/wiki/wikicache';
+import { WikiChangeset, WikiOutline, WikiRefactorEvent } from '@/types/wiki/wikirefactor';
+import { WikiVersionInfo } from '@/types/wiki/wikiversion';
+import { fetchWikiCache, saveWikiCache, WikiSaveConflictError } from './wikiCacheApi';
+
+// Parts of a changeset the user accepted
+export interface ChangesetSelection {
+  pageIds: string[];
+  structure: boolean;
+}
+
+/**
+ * Asks the model to apply an instruction across a wiki and reports its progress as it streams in.
+ * Nothing is saved.
+ * @param key Wiki to change
+ * @param instruction Change to make
+ * @param includeStructure Whether the sections may be reorganized
+ * @param onEvent Called with every event, in order
+ * @param signal Stops the request
+ */
+export async function streamWikiRefactor(
+  key: WikiCacheKey,
+  instruction: string,
+  includeStructure: boolean,
+  onEvent: (event: WikiRefactorEvent) => void,
+  signal?: AbortSignal,
+): Promise<void> {
+  const response = await fetch('/api/wiki/edit/refactor', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ ...key, instruction, include_structure: includeStructure }),
+    signal,
+  });
+  if (!response.ok || !response.body) {
+    throw new Error(`Failed to edit the wiki: ${response.status} ${await response.text()}`);
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder('utf-8');
+  let buffer = '';
+  while (true) {
+    const { value, done } = await reader.read();
+    buffer += decoder.decode(value, { stream: !done });
+    const lines = buffer.split('\n');
+    buffer = done ? '' : lines.pop() ?? '';
+    lines.filter(line => line.trim()).forEach(line => onEvent(JSON.parse(line)));
+    if (done) break;
+  }
+}
+
+// Content of a page as the model read it: the generated page, or the structure's page before it was generated
+const pageContent = (data: WikiCacheData, pageId: string) =>
+  data.generated_pages[pageId]?.content || data.wiki_structure.pages.find(page => page.id === pageId)?.content || '';
+
+// Sections compared by what they contain, whatever the order of their fields
+const outlineKey = ({ sections, rootSections }: WikiOutline) => JSON.stringify({
+  sections: sections.map(({ id, title, pages, subsections }) => ({ id, title, pages, subsections: subsections ?? [] })),
+  rootSections,
+});
+
+/**
+ * The wiki with the accepted changes applied.
+ * @param data Wiki the changes are applied to
+ * @param changeset Proposed changes
+ * @param selection Accepted changes
+ */
+export function applyChangeset(data: WikiCacheData, changeset: WikiChangeset, selection: ChangesetSelection): WikiCacheData {
+  const generatedPages = { ...data.generated_pages };
+  changeset.pages
+    .filter(change => selection.pageIds.includes(change.id))
+    .forEach(change => {
+      const page = generatedPages[change.id] ?? data.wiki_structure.pages.find(p => p.id === change.id);
+      if (page) generatedPages[change.id] = { ...page, content: change.after };
+    });
+
+  const structure = selection.structure && changeset.structure
+    ? { ...data.wiki_structure, ...changeset.structure.after }
+    : data.wiki_structure;
+  return { ...data, wiki_structure: structure, generated_pages: generatedPages };
+}
+
+/**
+ * Saves the accepted changes as one version of the wiki and returns the saved wiki.
+ * Throws WikiSaveConflictError when a page or the sections it changes were saved by someone else
+ * after the changes were made.
+ * @param key Wiki to save
+ * @param changeset Proposed changes
+ * @param selection Accepted changes
+ * @param version Recorded in the version history
+ */
+export async function saveChangeset(
+  key: WikiCacheKey,
+  changeset: WikiChangeset,
+  selection: ChangesetSelection,
+  version: WikiVersionInfo,
+): Promise<WikiCacheData> {
+  const data = await fetchWikiCache(key, { cache: 'no-store' });
+  if (!data) {
+    throw new Error('The wiki no longer exists');
+  }
+
+  const changedPages = changeset.pages.filter(change =>
+    selection.pageIds.includes(change.id) && pageContent(data, change.id) !== change.before);
+  if (changedPages.length > 0) {
+    throw new WikiSaveConflictError(`Changed since the edit was made: ${changedPages.map(page => page.title).join(', ')}`);
+  }
+  if (selection.structure && changeset.structure && outlineKey(data.wiki_structure) !== outlineKey(changeset.structure.before)) {
+    throw new WikiSaveConflictError('The sections were changed since the edit was made');
+  }
+
+  const updated = applyChangeset(data, changeset, selection);
+  const revision = await saveWikiCache({
+    ...key,
+    wiki_structure: updated.wiki_structure,
+    generated_pages: updated.generated_pages,
+    repo_url: updated.repo_url,
+    comprehensive: updated.comprehensive,
+    generation_complete: updated.generation_complete,
+    page_status: updated.page_status,
+    commit_sha: updated.commit_sha,
+    repos: updated.repos,
+    repo_config: updated.repo_config,
+    version,
+  }, { ifMatch: data.revision });
+  return { ...updated, revision };
+}
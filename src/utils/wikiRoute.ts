@@ -0,0 +1,103 @@
+/**
+ * Repository and wiki variant carried in the query string of the wiki routes
+ * (`/[owner]/[repo]` and the screens under it), so every screen opens and saves the same cached wiki.
+ */
+
+import RepoInfo from '@/types/repoinfo';
+import { WikiCacheKey } from '@/types/wiki/wikicache';
+
+/**
+ * Subdirectory of a repository as `a/b`, or null for the whole repository.
+ * @param path Path as entered or found in a URL, with or without leading and trailing slashes
+ */
+export const normalizeRepoPath = (path: string | null | undefined): string | null =>
+  (path || '').replace(/\\/g, '/').trim().replace(/^\.?\/+|\/+$/g, '') || null;
+
+export interface WikiRouteContext {
+  repoInfo: RepoInfo;
+  language: string;
+  // Comprehensive wikis are organized in sections; concise ones are a flat list of pages
+  comprehensive: boolean;
+}
+
+/**
+ * Reads the route context from the query string, with the same defaults as the wiki page.
+ * @param owner Repository owner from the route
+ * @param repo Repository name from the route
+ * @param searchParams Query string of the route
+ */
+export function parseWikiRouteContext(
+  owner: string,
+  repo: string,
+  searchParams: Pick<URLSearchParams, 'get'> | null,
+): WikiRouteContext {
+  const get = (name: string) => searchParams?.get(name) || '';
+  // Paths and URLs are encoded once more when the home page builds the query
+  const localPath = get('local_path') ? decodeURIComponent(get('local_path')) : null;
+  const repoUrl = get('repo_url') ? decodeURIComponent(get('repo_url')) : null;
+
+  return {
+    repoInfo: {
+      owner,
+      repo,
+      type: get('type') || 'github',
+      token: get('token') || null,
+      localPath,
+      repoUrl,
+      ref: get('ref') || null,
+      path: normalizeRepoPath(get('path')),
+    },
+    language: get('language') || 'en',
+    comprehensive: get('comprehensive') !== 'false',
+  };
+}
+
+/**
+ * Builds the query string, including the leading `?`, that `parseWikiRouteContext` reads back.
+ * @param context Repository and wiki variant
+ */
+export function buildWikiRouteQuery({ repoInfo, language, comprehensive }: WikiRouteContext): string {
+  const params = new URLSearchParams();
+  if (repoInfo.token) {
+    params.append('token', repoInfo.token);
+  }
+  params.append('type', repoInfo.type);
+  if (repoInfo.localPath) {
+    params.append('local_path', encodeURIComponent(repoInfo.localPath));
+  } else if (repoInfo.repoUrl) {
+    params.append('repo_url', encodeURIComponent(repoInfo.repoUrl));
+  }
+  if (repoInfo.ref) {
+    params.append('ref', repoInfo.ref);
+  }
+  if (repoInfo.path) {
+    params.append('path', repoInfo.path);
+  }
+  params.append('language', language);
+  params.append('comprehensive', comprehensive.toString());
+  return `?${params.toString()}`;
+}
+
+/** Key of the cached wiki the route context refers to */
+export const getWikiCacheKey = ({ repoInfo, language }: WikiRouteContext): WikiCacheKey => ({
+  owner: repoInfo.owner,
+  repo: repoInfo.repo,
+  repo_type: repoInfo.type,
+  language,
+  ...(repoInfo.ref ? { ref: repoInfo.ref } : {}),
+  ...(repoInfo.path ? { path: repoInfo.path } : {}),
+});
+
+/**
+ * sessionStorage key holding a page's content while it is handed to the editor.
+ * It includes the cache key so variants of the same page do not overwrite each other.
+ */
+export const getEditContentStorageKey = (key: WikiCacheKey, pageId: string): string =>
+  `editPageContent_${getPageKey(key, pageId)}`;
+
+/** Collaboration room of everyone editing the same page of the same wiki */
+export const getCollabRoomId = (key: WikiCacheKey, pageId: string): string =>
+  `wiki_${getPageKey(key, pageId)}`;
+
+const getPageKey = (key: WikiCacheKey, pageId: string) =>
+  `${key.repo_type}_${key.owner}_${key.repo}${key.path ? `+${key.path}` : ''}${key.ref ? `@${key.ref}` : ''}_${key.language}_${pageId}`;
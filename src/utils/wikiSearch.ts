@@ -0,0 +1,47 @@
+/**
+ * Search over the content of cached wikis through /api/wiki_search, either within one wiki or across
+ * every cached wiki, and the links that open a result at its section.
+ */
+
+import { WikiCacheKey } from '@/types/wiki/wikicache';
+import { WikiSearchHit, WikiSearchMode } from '@/types/wiki/wikisearch';
+import { headingId } from './headingIds';
+import { getKeyParams } from './wikiCacheApi';
+
+/**
+ * Searches the pages of a wiki, or of every cached wiki, best matches first.
+ * @param query Text to search for
+ * @param key Wiki to search; every cached wiki when null
+ * @param mode Whether to match the words of the query or its meaning
+ * @param signal Cancels the search
+ */
+export async function searchWikis(
+  query: string,
+  key: WikiCacheKey | null,
+  mode: WikiSearchMode,
+  signal?: AbortSignal,
+): Promise<WikiSearchHit[]> {
+  const params = key ? getKeyParams(key) : new URLSearchParams();
+  params.append('q', query);
+  params.append('mode', mode);
+  const response = await fetch(`/api/wiki_search?${params.toString()}`, { signal });
+  if (!response.ok) {
+    throw new Error(`Failed to search wikis: ${response.status} ${await response.text()}`);
+  }
+  return response.json();
+}
+
+/** Whether every word of a query appears in a text, ignoring case */
+export const matchesQuery = (text: string, query: string): boolean => {
+  const lower = text.toLowerCase();
+  return query.toLowerCase().split(/\s+/).every(word => lower.includes(word));
+};
+
+/** Viewer URL of a search result, opening its page at the matching section */
+export const getWikiSearchUrl = (hit: WikiSearchHit): string => {
+  const params = new URLSearchParams({ type: hit.repo_type, language: hit.language, page: hit.page_id });
+  if (hit.ref) params.append('ref', hit.ref);
+  if (hit.path) params.append('path', hit.path);
+  const hash = hit.heading ? `#${headingId(hit.heading)}` : '';
+  return `/${hit.owner}/${hit.repo}?${params.toString()}${hash}`;
+};
@@ -0,0 +1,270 @@
+/**
+ * Edits to the structure of a wiki made by hand from the page tree: moving, adding, renaming and
+ * deleting pages and sections. Every edit returns a new structure; `saveWikiStructure` writes it to the cache.
+ *
+ * Wikis without sections keep their pages in a flat list, ordered by `pages`.
+ */
+
+import { WikiCacheData, WikiCacheKey, PageGenerationStatus } from '@/types/wiki/wikicache';
+import { WikiPage } from '@/types/wiki/wikipage';
+import { WikiSection, WikiStructure } from '@/types/wiki/wikistructure';
+import { WikiVersionInfo } from '@/types/wiki/wikiversion';
+import { fetchWikiCache, saveWikiCache, WikiSaveConflictError } from './wikiCacheApi';
+
+// Page fields edited from the tree
+export type PageDetails = Pick<WikiPage, 'title' | 'importance' | 'relatedPages'>;
+
+const slugify = (title: string) =>
+  title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 40) || 'untitled';
+
+const uniqueId = (prefix: string, title: string, taken: Set<string>) => {
+  const id = `${prefix}-${slugify(title)}`;
+  let candidate = id;
+  for (let n = 2; taken.has(candidate); n++) {
+    candidate = `${id}-${n}`;
+  }
+  return candidate;
+};
+
+const updateSection = (structure: WikiStructure, sectionId: string, change: (section: WikiSection) => WikiSection): WikiStructure => ({
+  ...structure,
+  sections: structure.sections.map(section => (section.id === sectionId ? change(section) : section)),
+});
+
+const insertAt = <T>(items: T[], item: T, index: number) => {
+  const next = [...items];
+  next.splice(Math.max(0, Math.min(index, next.length)), 0, item);
+  return next;
+};
+
+/** Section directly containing a section, or null for a root section */
+export const getParentSectionId = (structure: WikiStructure, sectionId: string): string | null =>
+  structure.sections.find(section => section.subsections?.includes(sectionId))?.id ?? null;
+
+/** Whether `sectionId` is `ancestorId` or nested anywhere inside it */
+const isWithin = (structure: WikiStructure, sectionId: string, ancestorId: string): boolean => {
+  for (let id: string | null = sectionId; id; id = getParentSectionId(structure, id)) {
+    if (id === ancestorId) return true;
+  }
+  return false;
+};
+
+/**
+ * Moves a page before another page, or to the end of a section.
+ * @param target Page to insert before, or section to append to; a null section is the end of a wiki without sections
+ */
+export function movePage(
+  structure: WikiStructure,
+  pageId: string,
+  target: { beforePageId: string } | { sectionId: string | null },
+): WikiStructure {
+  if ('beforePageId' in target && target.beforePageId === pageId) return structure;
+
+  if (structure.sections.length === 0) {
+    const page = structure.pages.find(p => p.id === pageId);
+    if (!page) return structure;
+    const pages = structure.pages.filter(p => p.id !== pageId);
+    const index = 'beforePageId' in target ? pages.findIndex(p => p.id === target.beforePageId) : -1;
+    return { ...structure, pages: insertAt(pages, page, index === -1 ? pages.length : index) };
+  }
+
+  const sectionId = 'sectionId' in target
+    ? target.sectionId
+    : structure.sections.find(section => section.pages.includes(target.beforePageId))?.id;
+  if (!sectionId) return structure;
+
+  const sections = structure.sections.map(section => ({ ...section, pages: section.pages.filter(id => id !== pageId) }));
+  return {
+    ...structure,
+    sections: sections.map(section => {
+      if (section.id !== sectionId) return section;
+      const index = 'beforePageId' in target ? section.pages.indexOf(target.beforePageId) : section.pages.length;
+      return { ...section, pages: insertAt(section.pages, pageId, index) };
+    }),
+  };
+}
+
+/**
+ * Moves a section before another section, or to the end of a section's subsections.
+ * A section cannot be moved into itself or one of its subsections.
+ * @param target Section to insert before, or section to append to; a null parent is the end of the root sections
+ */
+export function moveSection(
+  structure: WikiStructure,
+  sectionId: string,
+  target: { beforeSectionId: string } | { parentId: string | null },
+): WikiStructure {
+  const targetId = 'beforeSectionId' in target ? target.beforeSectionId : target.parentId;
+  if (targetId && isWithin(structure, targetId, sectionId)) return structure;
+
+  // Take the section out of its parent
+  const detached: WikiStructure = {
+    ...structure,
+    rootSections: structure.rootSections.filter(id => id !== sectionId),
+    sections: structure.sections.map(section => (section.subsections?.includes(sectionId)
+      ? { ...section, subsections: section.subsections.filter(id => id !== sectionId) }
+      : section)),
+  };
+
+  if ('parentId' in target) {
+    if (!target.parentId) {
+      return { ...detached, rootSections: [...detached.rootSections, sectionId] };
+    }
+    return updateSection(detached, target.parentId, section => ({
+      ...section,
+      subsections: [...(section.subsections ?? []), sectionId],
+    }));
+  }
+
+  const parentId = getParentSectionId(detached, target.beforeSectionId);
+  if (!parentId) {
+    return {
+      ...detached,
+      rootSections: insertAt(detached.rootSections, sectionId, detached.rootSections.indexOf(target.beforeSectionId)),
+    };
+  }
+  return updateSection(detached, parentId, section => ({
+    ...section,
+    subsections: insertAt(section.subsections ?? [], sectionId, (section.subsections ?? []).indexOf(target.beforeSectionId)),
+  }));
+}
+
+/**
+ * Adds an empty section at the end of a section's subsections, or of the root sections.
+ * When the wiki had no sections, its pages are placed in the new section so none of them disappear from the tree.
+ */
+export function addSection(structure: WikiStructure, title: string, parentId: string | null): { structure: WikiStructure; sectionId: string } {
+  const sectionId = uniqueId('section', title, new Set(structure.sections.map(section => section.id)));
+  const pages = structure.sections.length === 0 ? structure.pages.map(page => page.id) : [];
+  const withSection = { ...structure, sections: [...structure.sections, { id: sectionId, title, pages, subsections: [] }] };
+  const next = parentId
+    ? updateSection(withSection, parentId, section => ({ ...section, subsections: [...(section.subsections ?? []), sectionId] }))
+    : { ...withSection, rootSections: [...structure.rootSections, sectionId] };
+  return { structure: next, sectionId };
+}
+
+export const renameSection = (structure: WikiStructure, sectionId: string, title: string): WikiStructure =>
+  updateSection(structure, sectionId, section => ({ ...section, title }));
+
+/**
+ * Deletes a section. Its pages and subsections move up to the section containing it; a root section
+ * can only be deleted once it has no pages left.
+ * @returns The new structure, or null when the section still has pages and nowhere to put them
+ */
+export function deleteSection(structure: WikiStructure, sectionId: string): WikiStructure | null {
+  const section = structure.sections.find(s => s.id === sectionId);
+  if (!section) return structure;
+  const parentId = getParentSectionId(structure, sectionId);
+  if (!parentId && section.pages.length > 0) return null;
+
+  const subsections = section.subsections ?? [];
+  const replace = (ids: string[]) => ids.flatMap(id => (id === sectionId ? subsections : [id]));
+  return {
+    ...structure,
+    rootSections: replace(structure.rootSections),
+    sections: structure.sections
+      .filter(s => s.id !== sectionId)
+      .map(s => (s.id === parentId
+        ? { ...s, pages: [...s.pages, ...section.pages], subsections: replace(s.subsections ?? []) }
+        : s)),
+  };
+}
+
+/**
+ * Adds a page that has not been generated yet, at the end of a section or of the page list.
+ */
+export function addPage(structure: WikiStructure, title: string, sectionId: string | null): { structure: WikiStructure; pageId: string } {
+  const pageId = uniqueId('page', title, new Set(structure.pages.map(page => page.id)));
+  const page: WikiPage = { id: pageId, title, content: '', filePaths: [], importance: 'medium', relatedPages: [] };
+  const withPage = { ...structure, pages: [...structure.pages, page] };
+  const next = sectionId
+    ? updateSection(withPage, sectionId, section => ({ ...section, pages: [...section.pages, pageId] }))
+    : withPage;
+  return { structure: next, pageId };
+}
+
+export const updatePage = (structure: WikiStructure, pageId: string, details: Partial<PageDetails>): WikiStructure => ({
+  ...structure,
+  pages: structure.pages.map(page => (page.id === pageId
+    ? { ...page, ...details, relatedPages: (details.relatedPages ?? page.relatedPages).filter(id => id !== pageId) }
+    : page)),
+});
+
+/** Deletes a page, and removes it from its section and from the related pages of other pages */
+export const deletePage = (structure: WikiStructure, pageId: string): WikiStructure => ({
+  ...structure,
+  pages: structure.pages
+    .filter(page => page.id !== pageId)
+    .map(page => (page.relatedPages.includes(pageId)
+      ? { ...page, relatedPages: page.relatedPages.filter(id => id !== pageId) }
+      : page)),
+  sections: structure.sections.map(section => ({ ...section, pages: section.pages.filter(id => id !== pageId) })),
+});
+
+// Structures compared by their layout and page details, whatever the order of their fields
+const structureKey = (structure: WikiStructure) => JSON.stringify({
+  pages: structure.pages.map(({ id, title, importance, relatedPages, filePaths }) => ({ id, title, importance, relatedPages, filePaths })),
+  sections: structure.sections.map(({ id, title, pages, subsections }) => ({ id, title, pages, subsections: subsections ?? [] })),
+  rootSections: structure.rootSections,
+});
+
+/**
+ * Generated pages matching a structure: deleted pages are dropped and the details edited in the tree are copied over.
+ */
+export function syncGeneratedPages(pages: Record<string, WikiPage>, structure: WikiStructure): Record<string, WikiPage> {
+  return Object.fromEntries(structure.pages.flatMap(page => {
+    const generated = pages[page.id];
+    return generated
+      ? [[page.id, { ...generated, title: page.title, importance: page.importance, relatedPages: page.relatedPages }]]
+      : [];
+  }));
+}
+
+/**
+ * Saves an edited structure and returns the saved wiki. Page content saved in the meantime is kept.
+ * Throws WikiSaveConflictError when the structure was changed by another save since `base` was loaded.
+ * @param key Wiki to save
+ * @param base Structure the edit was made from
+ * @param structure Edited structure
+ * @param version Recorded in the version history
+ */
+export async function saveWikiStructure(
+  key: WikiCacheKey,
+  base: WikiStructure,
+  structure: WikiStructure,
+  version: WikiVersionInfo,
+): Promise<WikiCacheData> {
+  const data = await fetchWikiCache(key, { cache: 'no-store' });
+  if (!data) {
+    throw new Error('The wiki no longer exists');
+  }
+  if (structureKey(data.wiki_structure) !== structureKey(base)) {
+    throw new WikiSaveConflictError('The pages were reorganized by another save');
+  }
+
+  const generatedPages = syncGeneratedPages(data.generated_pages, structure);
+  const pageStatus: Record<string, PageGenerationStatus> = Object.fromEntries(
+    structure.pages.map(page => [page.id, data.page_status[page.id] ?? (generatedPages[page.id] ? 'done' : 'pending')])
+  );
+  const updated: WikiCacheData = {
+    ...data,
+    wiki_structure: structure,
+    generated_pages: generatedPages,
+    // Pages added by hand are generated on demand, so they do not make the wiki resume generation when it is opened
+    page_status: pageStatus,
+  };
+  const revision = await saveWikiCache({
+    ...key,
+    wiki_structure: updated.wiki_structure,
+    generated_pages: updated.generated_pages,
+    repo_url: updated.repo_url,
+    comprehensive: updated.comprehensive,
+    generation_complete: updated.generation_complete,
+    page_status: updated.page_status,
+    commit_sha: updated.commit_sha,
+    repos: updated.repos,
+    repo_config: updated.repo_config,
+    version,
+  }, { ifMatch: data.revision });
+  return { ...updated, revision };
+}
@@ -0,0 +1,436 @@
+/**
+ * Turns the model's wiki structure response into a validated WikiStructure.
+ *
+ * The response is expected to be the <wiki_structure> XML requested by the
+ * structure prompt, but JSON and malformed XML are accepted too. Problems are
+ * reported as structured issues: the ones that can be fixed locally are repaired,
+ * the rest are flagged so the model can be asked to correct its output.
+ *
+ * The module has no DOM dependency so it can run against recorded responses outside the browser.
+ */
+
+import { WikiPage } from '@/types/wiki/wikipage';
+import { WikiSection, WikiStructure } from '@/types/wiki/wikistructure';
+
+export type StructureIssueCode =
+  | 'invalid_format'
+  | 'no_pages'
+  | 'missing_sections'
+  | 'missing_page_id'
+  | 'missing_title'
+  | 'invalid_importance'
+  | 'duplicate_page_id'
+  | 'duplicate_section_id'
+  | 'dangling_page_ref'
+  | 'dangling_section_ref'
+  | 'dangling_related_page'
+  | 'section_cycle'
+  | 'page_in_multiple_sections'
+  | 'orphan_page';
+
+export interface StructureIssue {
+  code: StructureIssueCode;
+  message: string;
+  // Page or section the issue is about
+  id?: string;
+  // false when the local fix is lossy or impossible and the model should correct its output
+  repaired: boolean;
+}
+
+export interface WikiStructureParseResult {
+  // Best-effort structure with all local repairs applied; null if nothing usable was found
+  structure: WikiStructure | null;
+  issues: StructureIssue[];
+}
+
+export interface WikiStructureParseOptions {
+  // Whether the structure must group its pages into sections (comprehensive wikis)
+  requireSections?: boolean;
+}
+
+export class WikiStructureParseError extends Error {
+  constructor(message: string, public readonly issues: StructureIssue[]) {
+    super(message);
+    this.name = 'WikiStructureParseError';
+  }
+}
+
+// Intermediate form shared by the XML and JSON readers, before validation
+interface RawPage {
+  id?: string;
+  title?: string;
+  importance?: string;
+  filePaths: string[];
+  relatedPages: string[];
+  parentSection?: string;
+}
+
+interface RawSection {
+  id?: string;
+  title?: string;
+  pages: string[];
+  subsections: string[];
+}
+
+interface RawStructure {
+  title?: string;
+  description?: string;
+  pages: RawPage[];
+  sections: RawSection[];
+}
+
+const OTHER_SECTION_ID = 'section-other';
+
+const decodeXmlText = (text: string): string =>
+  text
+    .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, '$1')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&')
+    .trim();
+
+// Lenient element reader: tolerates unescaped text, unknown tags and missing declarations
+const readElements = (xml: string, tag: string): { attributes: string; body: string }[] => {
+  const pattern = new RegExp(`<${tag}(\\s[^>]*)?>([\\s\\S]*?)</${tag}\\s*>`, 'gi');
+  return Array.from(xml.matchAll(pattern), match => ({ attributes: match[1] || '', body: match[2] }));
+};
+
+const readText = (xml: string, tag: string): string | undefined => {
+  const element = readElements(xml, tag)[0];
+  return element ? decodeXmlText(element.body) : undefined;
+};
+
+const readTexts = (xml: string, tag: string): string[] =>
+  readElements(xml, tag).map(element => decodeXmlText(element.body)).filter(Boolean);
+
+const readId = (attributes: string): string | undefined => {
+  const match = attributes.match(/\bid\s*=\s*["']([^"']*)["']/i);
+  return match && match[1].trim() ? match[1].trim() : undefined;
+};
+
+const readXmlStructure = (xml: string): RawStructure => {
+  const sectionElements = readElements(xml, 'section');
+  const pageElements = readElements(xml, 'page');
+
+  // The wiki title and description are the ones outside of any page or section
+  const header = xml
+    .replace(/<sections(\s[^>]*)?>[\s\S]*?<\/sections\s*>/gi, '')
+    .replace(/<section(\s[^>]*)?>[\s\S]*?<\/section\s*>/gi, '')
+    .replace(/<page(\s[^>]*)?>[\s\S]*?<\/page\s*>/gi, '');
+
+  return {
+    title: readText(header, 'title'),
+    description: readText(header, 'description'),
+    pages: pageElements.map(({ attributes, body }) => ({
+      id: readId(attributes) ?? readText(body, 'id'),
+      title: readText(body, 'title'),
+      importance: readText(body, 'importance'),
+      filePaths: readTexts(body, 'file_path'),
+      relatedPages: readTexts(body, 'related'),
+      parentSection: readText(body, 'parent_section'),
+    })),
+    sections: sectionElements.map(({ attributes, body }) => ({
+      id: readId(attributes) ?? readText(body, 'id'),
+      title: readText(body, 'title'),
+      pages: readTexts(body, 'page_ref'),
+      subsections: readTexts(body, 'section_ref'),
+    })),
+  };
+};
+
+type UnknownRecord = Record<string, unknown>;
+
+const isRecord = (value: unknown): value is UnknownRecord =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const asArray = (value: unknown): unknown[] => {
+  if (value === undefined || value === null) return [];
+  if (Array.isArray(value)) return value;
+  // XML-shaped JSON such as { "page": [...] } or { "file_path": "a.ts" }
+  if (isRecord(value)) {
+    const values = Object.values(value);
+    return values.length === 1 ? asArray(values[0]) : [value];
+  }
+  return [value];
+};
+
+// Entries that are not objects are read as empty ones, so they are reported like pages or sections missing every field
+const asRecords = (value: unknown): UnknownRecord[] =>
+  asArray(value).map(item => (isRecord(item) ? item : {}));
+
+const asString = (value: unknown): string | undefined =>
+  typeof value === 'string' || typeof value === 'number' ? String(value).trim() : undefined;
+
+const asStrings = (value: unknown): string[] =>
+  asArray(value).map(item => asString(isRecord(item) ? item.id ?? item.path : item)).filter((item): item is string => !!item);
+
+const readJsonStructure = (json: unknown): RawStructure | null => {
+  const root = isRecord(json) ? json.wiki_structure ?? json : json;
+  if (!isRecord(root)) return null;
+
+  return {
+    title: asString(root.title),
+    description: asString(root.description),
+    pages: asRecords(root.pages).map(page => ({
+      id: asString(page.id),
+      title: asString(page.title),
+      importance: asString(page.importance),
+      filePaths: asStrings(page.relevant_files ?? page.filePaths ?? page.file_paths),
+      relatedPages: asStrings(page.related_pages ?? page.relatedPages),
+      parentSection: asString(page.parent_section ?? page.parentId),
+    })),
+    sections: asRecords(root.sections).map(section => ({
+      id: asString(section.id),
+      title: asString(section.title),
+      pages: asStrings(section.pages ?? section.page_refs),
+      subsections: asStrings(section.subsections ?? section.section_refs),
+    })),
+  };
+};
+
+const readRawStructure = (text: string): RawStructure | null => {
+  // Drop markdown fences and control characters the model sometimes emits
+  const cleaned = text
+    .replace(/```(?:xml|json)?/gi, '')
+    .replace(/[\x00-\x08\x0B\x0C\x0E-\x1F\x7F]/g, '');
+
+  const start = cleaned.search(/<wiki_structure[\s>]/i);
+  if (start >= 0) {
+    const end = cleaned.search(/<\/wiki_structure\s*>/i);
+    // A truncated response still contains every complete page before the cut
+    return readXmlStructure(end > start ? cleaned.slice(start, end) : cleaned.slice(start));
+  }
+
+  const jsonStart = cleaned.indexOf('{');
+  const jsonEnd = cleaned.lastIndexOf('}');
+  if (jsonStart >= 0 && jsonEnd > jsonStart) {
+    try {
+      return readJsonStructure(JSON.parse(cleaned.slice(jsonStart, jsonEnd + 1)));
+    } catch {
+      return null;
+    }
+  }
+  return null;
+};
+
+// Returns `id`, or `id-2`, `id-3`... if it is already taken
+const uniqueId = (id: string, taken: Set<string>): string => {
+  let candidate = id;
+  for (let n = 2; taken.has(candidate); n++) {
+    candidate = `${id}-${n}`;
+  }
+  return candidate;
+};
+
+const toImportance = (value: string | undefined): WikiPage['importance'] | null => {
+  const normalized = value?.toLowerCase();
+  return normalized === 'high' || normalized === 'medium' || normalized === 'low' ? normalized : null;
+};
+
+/**
+ * Parses and validates a wiki structure returned by the model.
+ * @param text Raw model response
+ * @param options Validation options
+ */
+export function parseWikiStructure(text: string, options: WikiStructureParseOptions = {}): WikiStructureParseResult {
+  const { requireSections = false } = options;
+  const issues: StructureIssue[] = [];
+  const report = (code: StructureIssueCode, message: string, repaired: boolean, id?: string) => {
+    issues.push({ code, message, repaired, id });
+  };
+
+  const raw = readRawStructure(text);
+  if (!raw) {
+    report('invalid_format', 'The response does not contain a <wiki_structure> element or a JSON wiki structure.', false);
+    return { structure: null, issues };
+  }
+
+  // Pages: ids must exist and be unique
+  const pageIds = new Set<string>();
+  const parentSections = new Map<string, string>();
+  const pages: WikiPage[] = raw.pages.map((rawPage, index) => {
+    let id = rawPage.id;
+    if (!id) {
+      id = uniqueId(`page-${index + 1}`, pageIds);
+      report('missing_page_id', `Page ${index + 1} has no id; it was given the id "${id}".`, true, id);
+    } else if (pageIds.has(id)) {
+      const renamed = uniqueId(id, pageIds);
+      report('duplicate_page_id', `Page id "${id}" is used more than once; the duplicate was renamed to "${renamed}".`, true, renamed);
+      id = renamed;
+    }
+    pageIds.add(id);
+
+    let title = rawPage.title;
+    if (!title) {
+      title = id;
+      report('missing_title', `Page "${id}" has no title.`, false, id);
+    }
+
+    let importance = toImportance(rawPage.importance);
+    if (!importance) {
+      importance = 'medium';
+      if (rawPage.importance) {
+        report('invalid_importance', `Page "${id}" has importance "${rawPage.importance}"; it was set to "medium".`, true, id);
+      }
+    }
+
+    if (rawPage.parentSection) {
+      parentSections.set(id, rawPage.parentSection);
+    }
+
+    return {
+      id,
+      title,
+      content: '', // Will be generated later
+      filePaths: rawPage.filePaths,
+      importance,
+      relatedPages: rawPage.relatedPages,
+    };
+  });
+
+  if (pages.length === 0) {
+    report('no_pages', 'The wiki structure does not define any pages.', false);
+    return { structure: null, issues };
+  }
+
+  // Related pages must point at pages of this wiki
+  pages.forEach(page => {
+    const dangling = page.relatedPages.filter(relatedId => !pageIds.has(relatedId) || relatedId === page.id);
+    if (dangling.length > 0) {
+      page.relatedPages = page.relatedPages.filter(relatedId => !dangling.includes(relatedId));
+      report('dangling_related_page', `Page "${page.id}" refers to unknown related pages: ${dangling.join(', ')}; they were removed.`, true, page.id);
+    }
+  });
+
+  // Sections: ids must be unique, references must resolve
+  const sectionIds = new Set<string>();
+  const sections: WikiSection[] = raw.sections.map((rawSection, index) => {
+    let id = rawSection.id || `section-${index + 1}`;
+    if (sectionIds.has(id)) {
+      const renamed = uniqueId(id, sectionIds);
+      report('duplicate_section_id', `Section id "${id}" is used more than once; the duplicate was renamed to "${renamed}".`, true, renamed);
+      id = renamed;
+    }
+    sectionIds.add(id);
+    return {
+      id,
+      title: rawSection.title || id,
+      pages: rawSection.pages,
+      subsections: rawSection.subsections,
+    };
+  });
+
+  const placedPages = new Set<string>();
+  sections.forEach(section => {
+    const danglingPages = section.pages.filter(pageId => !pageIds.has(pageId));
+    if (danglingPages.length > 0) {
+      report('dangling_page_ref', `Section "${section.id}" refers to unknown pages: ${danglingPages.join(', ')}; they were removed.`, true, section.id);
+    }
+
+    const alreadyPlaced = section.pages.filter(pageId => pageIds.has(pageId) && placedPages.has(pageId));
+    if (alreadyPlaced.length > 0) {
+      report('page_in_multiple_sections', `Section "${section.id}" repeats pages listed in another section: ${alreadyPlaced.join(', ')}; only the first listing was kept.`, true, section.id);
+    }
+
+    section.pages = Array.from(new Set(section.pages.filter(pageId => pageIds.has(pageId) && !placedPages.has(pageId))));
+    section.pages.forEach(pageId => placedPages.add(pageId));
+
+    const danglingSections = (section.subsections || []).filter(sectionId => !sectionIds.has(sectionId));
+    if (danglingSections.length > 0) {
+      report('dangling_section_ref', `Section "${section.id}" refers to unknown sections: ${danglingSections.join(', ')}; they were removed.`, true, section.id);
+    }
+    section.subsections = (section.subsections || []).filter(sectionId => sectionIds.has(sectionId));
+  });
+
+  // section_ref must form a forest: drop the reference that closes each cycle
+  const sectionsById = new Map(sections.map(section => [section.id, section]));
+  const visitState = new Map<string, 'visiting' | 'done'>();
+  const visit = (section: WikiSection) => {
+    visitState.set(section.id, 'visiting');
+    for (const childId of [...(section.subsections || [])]) {
+      const state = visitState.get(childId);
+      if (state === 'visiting') {
+        section.subsections = (section.subsections || []).filter(id => id !== childId);
+        report('section_cycle', `Section "${section.id}" refers back to its ancestor "${childId}"; the reference was removed.`, true, section.id);
+      } else if (!state) {
+        visit(sectionsById.get(childId) as WikiSection);
+      }
+    }
+    visitState.set(section.id, 'done');
+  };
+  sections.forEach(section => {
+    if (!visitState.has(section.id)) visit(section);
+  });
+
+  if (requireSections && sections.length === 0) {
+    report('missing_sections', 'The wiki structure has no sections; pages must be grouped into sections.', false);
+  }
+
+  // Every page must belong to a section once sections are used
+  if (sections.length > 0) {
+    pages.forEach(page => {
+      if (placedPages.has(page.id)) return;
+
+      const parent = sectionsById.get(parentSections.get(page.id) ?? '');
+      if (parent) {
+        parent.pages.push(page.id);
+        report('orphan_page', `Page "${page.id}" was missing from every section; it was added to its parent section "${parent.id}".`, true, page.id);
+      } else {
+        let other = sectionsById.get(OTHER_SECTION_ID);
+        if (!other) {
+          other = { id: OTHER_SECTION_ID, title: 'Other', pages: [], subsections: [] };
+          sections.push(other);
+          sectionsById.set(other.id, other);
+        }
+        other.pages.push(page.id);
+        report('orphan_page', `Page "${page.id}" is missing from every section; it was placed in "Other".`, false, page.id);
+      }
+      placedPages.add(page.id);
+    });
+  }
+
+  sections.forEach(section => {
+    if (section.subsections && section.subsections.length === 0) {
+      delete section.subsections;
+    }
+    section.pages.forEach(pageId => {
+      const page = pages.find(p => p.id === pageId);
+      if (page) page.parentId = section.id;
+    });
+  });
+
+  // Root sections are the ones no other section refers to
+  const referencedSections = new Set(sections.flatMap(section => section.subsections || []));
+  const rootSections = sections.map(section => section.id).filter(id => !referencedSections.has(id));
+
+  return {
+    structure: {
+      id: 'wiki',
+      title: raw.title || '',
+      description: raw.description || '',
+      pages,
+      sections,
+      rootSections,
+    },
+    issues,
+  };
+}
+
+/** Issues that were not fully repaired and should be sent back to the model */
+export const getUnrepairedIssues = (result: WikiStructureParseResult): StructureIssue[] =>
+  result.issues.filter(issue => !issue.repaired);
+
+/**
+ * Builds the follow-up message asking the model to correct its wiki structure.
+ * @param issues Issues that could not be repaired locally
+ */
+export function buildStructureRepairPrompt(issues: StructureIssue[]): string {
+  return `The wiki structure you returned has the following problems:
+${issues.map(issue => `- ${issue.message}`).join('\n')}
+
+Return the corrected wiki structure in the same XML format, starting with <wiki_structure> and ending with </wiki_structure>.
+Every page needs a unique id and a title, every page must be listed in exactly one section, and every page_ref and section_ref must refer to an existing page or section.
+Return ONLY the XML, with no markdown code block delimiters and no explanation.`;
+}
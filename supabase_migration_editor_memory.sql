@@ -0,0 +1,8 @@
+-- Migration to keep the wiki editor's edit memory and writing preferences with the user
+-- Keyed by repository ("{repo_type}_{owner}_{repo}"), each entry holding the recent AI edits and learned preferences
+
+ALTER TABLE public.profiles
+ADD COLUMN IF NOT EXISTS editor_memory jsonb DEFAULT '{}'::jsonb;
+
+-- Add comment to describe the new column
+COMMENT ON COLUMN public.profiles.editor_memory IS 'Wiki editor edit memory and writing preferences, per repository';